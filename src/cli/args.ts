@@ -0,0 +1,65 @@
+/**
+ * Command-line argument parsing for the tracker CLI
+ */
+
+import { Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+
+/**
+ * Parsed command line: positional words and `--name` options
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  options: Map<string, string | true>;     // Value options hold their value, flags hold true
+}
+
+/**
+ * Split a command line into positionals and options
+ * Options in valueOptions take a value (`--name value` or `--name=value`); any other known
+ * option is a flag. Everything after `--` is positional, so descriptions may start with a dash.
+ * @param valueOptions - Names of options that take a value
+ * @param flagOptions - Names of options that take no value
+ * @returns The parsed arguments, or a ValidationError for an unknown option or missing value
+ */
+export function parseArgs(
+  argv: string[],
+  valueOptions: readonly string[],
+  flagOptions: readonly string[]
+): Result<ParsedArgs, ValidationError> {
+  const positionals: string[] = [];
+  const options = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith('--') || arg.length === 2) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+
+    if (valueOptions.includes(name)) {
+      const value = separator === -1 ? argv[++i] : arg.slice(separator + 1);
+      if (value === undefined || value === '') {
+        return { success: false, error: new ValidationError(`Option --${name} requires a value`) };
+      }
+      options.set(name, value);
+    } else if (flagOptions.includes(name)) {
+      if (separator !== -1) {
+        return { success: false, error: new ValidationError(`Option --${name} does not take a value`) };
+      }
+      options.set(name, true);
+    } else {
+      return { success: false, error: new ValidationError(`Unknown option: --${name}`) };
+    }
+  }
+
+  return { success: true, value: { positionals, options } };
+}
@@ -0,0 +1,322 @@
+/**
+ * Tests for the command-line interface
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { runCli, CliIO, USAGE, DATA_DIRECTORY_ENV, EXIT_SUCCESS, EXIT_FAILURE, EXIT_USAGE } from './cli.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { FileStorageService } from '../storage/FileStorageService.js';
+
+describe('CLI', () => {
+  let directory: string;
+  let stdout: string[];
+  let stderr: string[];
+  let io: CliIO;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-cli-'));
+    stdout = [];
+    stderr = [];
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      env: {}
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Run a command against the test data directory, clearing earlier output
+   */
+  function run(...args: string[]): number {
+    stdout = [];
+    stderr = [];
+    return runCli(['--data', directory, ...args], io);
+  }
+
+  /**
+   * Run a command with --json and parse its output
+   */
+  function runJson<T>(...args: string[]): T {
+    expect(run('--json', ...args)).toBe(EXIT_SUCCESS);
+    return JSON.parse(stdout.join('\n')) as T;
+  }
+
+  /**
+   * Open the data directory the way another process would
+   */
+  function openTracker(): TrackerService {
+    const tracker = new TrackerService(new FileStorageService(directory));
+    tracker.initialize();
+    return tracker;
+  }
+
+  describe('usage', () => {
+    it('should print the usage for help', () => {
+      expect(run('help')).toBe(EXIT_SUCCESS);
+      expect(stdout).toEqual([USAGE]);
+
+      expect(run('--help')).toBe(EXIT_SUCCESS);
+      expect(stdout).toEqual([USAGE]);
+    });
+
+    it('should fail with the usage exit code without a command', () => {
+      expect(run()).toBe(EXIT_USAGE);
+      expect(stderr).toEqual([USAGE]);
+    });
+
+    it('should reject unknown commands and options', () => {
+      expect(run('course', 'rename')).toBe(EXIT_USAGE);
+      expect(stderr[0]).toBe('Error: Unknown command: course rename');
+
+      expect(run('course', 'list', '--verbose')).toBe(EXIT_USAGE);
+      expect(stderr[0]).toBe('Error: Unknown option: --verbose');
+    });
+
+    it('should reject a command with the wrong number of arguments', () => {
+      expect(run('course', 'add', 'CS101')).toBe(EXIT_USAGE);
+      expect(stderr[0]).toBe('Error: Usage: tracker course add <name> <department>');
+    });
+
+    it('should use the data directory from the environment', () => {
+      io.env[DATA_DIRECTORY_ENV] = directory;
+
+      expect(runCli(['course', 'add', 'CS101', 'Computer Science'], io)).toBe(EXIT_SUCCESS);
+
+      expect(openTracker().getAllCourses().map(c => c.name)).toEqual(['CS101']);
+    });
+  });
+
+  describe('course commands', () => {
+    it('should add courses and list them by department', () => {
+      expect(run('course', 'add', 'CS101', 'Computer Science')).toBe(EXIT_SUCCESS);
+      expect(run('course', 'add', 'MATH201', 'Mathematics')).toBe(EXIT_SUCCESS);
+      const cs101 = openTracker().getAllCourses().find(c => c.name === 'CS101')!;
+
+      expect(run('course', 'list')).toBe(EXIT_SUCCESS);
+
+      const lines = stdout.join('\n').split('\n');
+      expect(lines[0]).toBe('Computer Science');
+      expect(lines[1]).toBe(`  ${cs101.id.slice(0, 8)}  CS101 (0 tasks)`);
+      expect(lines[2]).toBe('Mathematics');
+    });
+
+    it('should report a duplicate course as a failure', () => {
+      run('course', 'add', 'CS101', 'Computer Science');
+
+      expect(run('course', 'add', 'CS101', 'Computer Science')).toBe(EXIT_FAILURE);
+
+      expect(stderr[0]).toMatch(/^Error: /);
+      expect(openTracker().getAllCourses()).toHaveLength(1);
+    });
+
+    it('should require a strategy to delete a course with tasks', () => {
+      run('course', 'add', 'CS101', 'Computer Science');
+      run('task', 'add', 'CS101', 'Essay', '2024-03-05');
+
+      expect(run('course', 'rm', 'CS101')).toBe(EXIT_FAILURE);
+      expect(run('course', 'rm', 'CS101', '--cascade')).toBe(EXIT_SUCCESS);
+
+      const tracker = openTracker();
+      expect(tracker.getAllCourses()).toEqual([]);
+      expect(tracker.getTrash().tasks).toHaveLength(1);
+    });
+
+    it('should reassign tasks to another course', () => {
+      run('course', 'add', 'CS101', 'Computer Science');
+      run('course', 'add', 'CS102', 'Computer Science');
+      run('task', 'add', 'CS101', 'Essay', '2024-03-05');
+
+      expect(run('course', 'rm', 'cs101', '--reassign', 'CS102')).toBe(EXIT_SUCCESS);
+
+      const tracker = openTracker();
+      const cs102 = tracker.getAllCourses().find(c => c.name === 'CS102')!;
+      expect(tracker.getTasksByCourse(cs102.id).map(t => t.description)).toEqual(['Essay']);
+    });
+
+    it('should ask for an ID when a course name is ambiguous', () => {
+      run('course', 'add', 'Seminar', 'Biology');
+      run('course', 'add', 'Seminar', 'History');
+
+      expect(run('task', 'add', 'Seminar', 'Reading', '2024-03-05')).toBe(EXIT_FAILURE);
+
+      expect(stderr[0]).toContain('matches several courses');
+    });
+  });
+
+  describe('task commands', () => {
+    beforeEach(() => {
+      run('course', 'add', 'CS101', 'Computer Science');
+    });
+
+    it('should add a task to a course referenced by name', () => {
+      const task = runJson<{ id: string; description: string; deadline: string }>(
+        'task', 'add', 'CS101', 'Essay', '2024-03-05T14:30'
+      );
+
+      expect(task.description).toBe('Essay');
+      expect(new Date(task.deadline)).toEqual(new Date(2024, 2, 5, 14, 30));
+      expect(openTracker().getTask(task.id)?.description).toBe('Essay');
+    });
+
+    it('should add a task with a priority', () => {
+      const task = runJson<{ id: string; priority: string }>(
+        'task', 'add', 'CS101', 'Exam', '2024-03-05', '--priority', 'critical'
+      );
+
+      expect(task.priority).toBe('critical');
+      expect(run('task', 'add', 'CS101', 'Essay', '2024-03-05', '--priority', 'urgent')).toBe(EXIT_FAILURE);
+      expect(stderr[0]).toContain('Invalid priority');
+    });
+
+    it('should add a task with an estimate and log time with its timer', () => {
+      const task = runJson<{ id: string; estimatedHours: number }>(
+        'task', 'add', 'CS101', 'Essay', '2024-03-05', '--estimate', '2.5'
+      );
+      expect(task.estimatedHours).toBe(2.5);
+
+      expect(run('task', 'start', task.id)).toBe(EXIT_SUCCESS);
+      expect(run('task', 'start', task.id)).toBe(EXIT_FAILURE);
+      expect(stderr[0]).toContain('already running');
+
+      stdout.length = 0;
+      expect(run('task', 'stop', task.id)).toBe(EXIT_SUCCESS);
+      expect(stdout.join('\n')).toContain('Logged 0 h on Essay');
+      expect(run('task', 'add', 'CS101', 'Lab', '2024-03-05', '--estimate', 'lots')).toBe(EXIT_FAILURE);
+    });
+
+    it('should reject an invalid deadline', () => {
+      expect(run('task', 'add', 'CS101', 'Essay', 'next friday')).toBe(EXIT_FAILURE);
+
+      expect(stderr[0]).toContain('Invalid deadline');
+      expect(openTracker().getAllTasks()).toEqual([]);
+    });
+
+    it('should mark tasks complete and incomplete by ID prefix', () => {
+      const task = runJson<{ id: string }>('task', 'add', 'CS101', 'Essay', '2024-03-05');
+
+      expect(run('task', 'done', task.id.slice(0, 8))).toBe(EXIT_SUCCESS);
+      expect(stdout[0]).toMatch(/^\[x\] /);
+      expect(openTracker().getTask(task.id)?.completed).toBe(true);
+
+      expect(run('task', 'undo', task.id.slice(0, 8))).toBe(EXIT_SUCCESS);
+      expect(openTracker().getTask(task.id)?.completed).toBe(false);
+    });
+
+    it('should fail for an unknown task without changing anything', () => {
+      const task = runJson<{ id: string }>('task', 'add', 'CS101', 'Essay', '2024-03-05');
+
+      expect(run('task', 'done', task.id, 'missing')).toBe(EXIT_FAILURE);
+
+      expect(stderr[0]).toBe('Error: Task not found: missing');
+      expect(openTracker().getTask(task.id)?.completed).toBe(false);
+    });
+
+    it('should filter the task list by status', () => {
+      const done = runJson<{ id: string }>('task', 'add', 'CS101', 'Done', '2024-03-05');
+      runJson('task', 'add', 'CS101', 'Pending', '2024-03-06');
+      run('task', 'done', done.id);
+
+      const pending = runJson<{ description: string }[]>('task', 'list', '--status', 'pending');
+      const completed = runJson<{ description: string }[]>('task', 'list', '--status=completed');
+
+      expect(pending.map(t => t.description)).toEqual(['Pending']);
+      expect(completed.map(t => t.description)).toEqual(['Done']);
+      expect(run('task', 'list', '--status', 'later')).toBe(EXIT_USAGE);
+    });
+
+    it('should add tasks with a category and filter the task list by it', () => {
+      runJson('task', 'add', 'CS101', 'Midterm', '2024-03-05', '--category', 'exam');
+      runJson('task', 'add', 'CS101', 'Problem set', '2024-03-06');
+
+      const exams = runJson<{ description: string; category: string }[]>('task', 'list', '--category', 'exam');
+
+      expect(exams.map(t => t.description)).toEqual(['Midterm']);
+      expect(exams[0].category).toBe('exam');
+      expect(run('task', 'list', '--category', 'quiz')).toBe(EXIT_USAGE);
+    });
+
+    it('should move tasks to the trash', () => {
+      const task = runJson<{ id: string }>('task', 'add', 'CS101', 'Essay', '2024-03-05');
+
+      expect(run('task', 'rm', task.id)).toBe(EXIT_SUCCESS);
+
+      expect(stdout).toEqual(['Moved 1 task to the trash']);
+      expect(openTracker().getTrash().tasks.map(t => t.id)).toEqual([task.id]);
+    });
+  });
+
+  describe('overview commands', () => {
+    beforeEach(() => {
+      run('course', 'add', 'CS101', 'Computer Science');
+      run('task', 'add', 'CS101', 'Essay', '2024-03-05T14:30');
+      run('task', 'add', 'CS101', 'Quiz', '2024-03-07T09:00');
+    });
+
+    it('should print a week by day with tasks grouped by course', () => {
+      expect(run('week', '10', '2024')).toBe(EXIT_SUCCESS);
+
+      const lines = stdout.join('\n').split('\n');
+      expect(lines[0]).toBe('Week 10, 2024 (3/4 - 3/10)');
+      expect(lines.slice(2, 5)).toEqual(['Monday, 3/4', '  No tasks', '']);
+      expect(lines[5]).toBe('Tuesday, 3/5');
+      expect(lines[6]).toBe('  CS101 (Computer Science)');
+      expect(lines[7]).toMatch(/^ {4}\[ \] \w{8} {2}Essay {2}Due: 3\/5 2:30 PM$/);
+    });
+
+    it('should print a week as JSON', () => {
+      const week = runJson<{ weekNumber: number; year: number; tasks: { description: string }[] }>('week', '10', '2024');
+
+      expect(week.weekNumber).toBe(10);
+      expect(week.year).toBe(2024);
+      expect(week.tasks.map(t => t.description)).toEqual(['Essay', 'Quiz']);
+    });
+
+    it('should reject a week that does not exist', () => {
+      expect(run('week', '53', '2024')).toBe(EXIT_FAILURE);
+      expect(run('week', 'next')).toBe(EXIT_FAILURE);
+    });
+
+    it('should print weekly statistics with departments and courses as objects', () => {
+      const tracker = openTracker();
+      const essay = tracker.getAllTasks().find(t => t.description === 'Essay')!;
+      run('task', 'done', essay.id);
+
+      const stats = runJson<{
+        totalTasks: number;
+        completedTasks: number;
+        statsByDepartment: Record<string, { completedTasks: number; totalTasks: number }>;
+      }>('stats', '10', '2024');
+
+      expect(stats.totalTasks).toBe(2);
+      expect(stats.completedTasks).toBe(1);
+      expect(stats.statsByDepartment['Computer Science']).toEqual({
+        department: 'Computer Science',
+        totalTasks: 2,
+        completedTasks: 1,
+        completionPercentage: 50,
+        estimatedHours: 0,
+        actualHours: 0
+      });
+
+      expect(run('stats', '10', '2024')).toBe(EXIT_SUCCESS);
+      expect(stdout.join('\n')).toContain('Completion rate: 50.0%');
+    });
+
+    it('should list overdue tasks', () => {
+      const tracker = openTracker();
+      const quiz = tracker.getAllTasks().find(t => t.description === 'Quiz')!;
+      run('task', 'done', quiz.id);
+
+      const overdue = runJson<{ description: string }[]>('overdue');
+
+      expect(overdue.map(t => t.description)).toEqual(['Essay']);
+    });
+  });
+});
@@ -0,0 +1,627 @@
+/**
+ * Command-line interface for the tracker
+ * Runs TrackerService over a FileStorageService data directory
+ */
+
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Course, Task, TaskPriority, TaskCategory, WeekView, Result } from '../models/types.js';
+import { ValidationError, NotFoundError, StorageError } from '../models/errors.js';
+import { TrackerService, ITrackerService, TrackerServiceOptions } from '../services/TrackerService.js';
+import { parseCsvDate } from '../services/CsvService.js';
+import { FileStorageService } from '../storage/FileStorageService.js';
+import { RevisionedStorageService } from '../storage/RevisionedStorageService.js';
+import { getWeekNumber, getWeekBounds, isValidWeek } from '../utils/weekCalculations.js';
+import { TASK_CATEGORIES, isTaskCategory } from '../utils/category.js';
+import { getLoggedHours, getSessionHours, formatHours } from '../utils/effort.js';
+import { parseArgs } from './args.js';
+import { toJson, formatCourseList, formatCourseName, formatTaskLine, formatTaskList, formatWeek, formatStatistics } from './format.js';
+
+/**
+ * Environment variable that sets the data directory when --data is not given
+ */
+export const DATA_DIRECTORY_ENV = 'TRACKER_DATA_DIR';
+
+/**
+ * Data directory used when neither --data nor TRACKER_DATA_DIR is set
+ */
+export const DEFAULT_DATA_DIRECTORY = path.join(os.homedir(), '.weekly-course-tracker');
+
+/**
+ * Exit codes: success, a failed command, and invalid usage
+ */
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Where the CLI writes its output and reads its environment
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Result of a command: data printed with --json, and lines printed otherwise
+ */
+interface CommandOutput {
+  data: unknown;
+  lines: string[];
+}
+
+/**
+ * Arguments of a command, after the command words
+ */
+interface CommandContext {
+  tracker: ITrackerService;
+  args: string[];
+  options: Map<string, string | true>;
+}
+
+type CommandHandler = (context: CommandContext) => Result<CommandOutput, Error>;
+
+/**
+ * Error for a command line that does not match the usage of a command
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const VALUE_OPTIONS = ['data', 'course', 'status', 'reassign', 'priority', 'category', 'estimate'] as const;
+const FLAG_OPTIONS = ['json', 'cascade', 'help'] as const;
+const TASK_STATUSES = ['pending', 'completed', 'overdue'];
+
+export const USAGE = `Usage: tracker [--data <dir>] [--json] <command>
+
+Courses:
+  course add <name> <department>        Add a course
+  course list                           List courses by department
+  course rm <course> [--cascade | --reassign <course>]
+                                        Delete a course; a course with tasks needs a strategy
+
+Tasks:
+  task add <course> <description> <deadline> [--priority low|normal|high|critical]
+           [--category assignment|exam|reading|project|lab] [--estimate <hours>]
+                                        Add a task; deadline is YYYY-MM-DD or YYYY-MM-DDTHH:MM
+  task list [--course <course>] [--status pending|completed|overdue] [--category <category>]
+                                        List tasks by deadline
+  task done <task>...                   Mark tasks complete
+  task undo <task>...                   Mark tasks incomplete
+  task rm <task>...                     Move tasks to the trash
+  task start <task>                     Start timing work on a task
+  task stop <task>                      Stop the timer and log the time
+
+Overview:
+  week [week] [year]                    Show a week's tasks by day (default: this week)
+  stats [week] [year]                   Show a week's statistics (default: this week)
+  overdue                               List incomplete tasks past their deadline
+
+Options:
+  --data <dir>    Data directory (default: $${DATA_DIRECTORY_ENV} or ~/.weekly-course-tracker)
+  --json          Print JSON for scripting
+  --help          Show this help
+
+Courses are referenced by ID, ID prefix or name; tasks by ID or ID prefix.`;
+
+const COMMANDS: Record<string, CommandHandler> = {
+  'course add': courseAdd,
+  'course list': courseList,
+  'course rm': courseRemove,
+  'task add': taskAdd,
+  'task list': taskList,
+  'task done': taskDone,
+  'task undo': taskUndo,
+  'task rm': taskRemove,
+  'task start': taskStart,
+  'task stop': taskStop,
+  'week': week,
+  'stats': stats,
+  'overdue': overdue
+};
+
+const defaultIO: CliIO = {
+  stdout: text => process.stdout.write(text + '\n'),
+  stderr: text => process.stderr.write(text + '\n'),
+  env: process.env
+};
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths)
+ * @returns The process exit code
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO): number {
+  const parsed = parseArgs(argv, VALUE_OPTIONS, FLAG_OPTIONS);
+  if (!parsed.success) {
+    return reportUsageError(io, parsed.error.message);
+  }
+  const { positionals, options } = parsed.value;
+
+  if (options.has('help') || positionals[0] === 'help') {
+    io.stdout(USAGE);
+    return EXIT_SUCCESS;
+  }
+  if (positionals.length === 0) {
+    io.stderr(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const commandName = [positionals.slice(0, 2).join(' '), positionals[0]].find(name => name in COMMANDS);
+  if (!commandName) {
+    return reportUsageError(io, `Unknown command: ${positionals.slice(0, 2).join(' ')}`);
+  }
+
+  const trackerResult = openTracker(getDataDirectory(options, io.env), {
+    onMaterializeError: error => io.stderr(`Warning: recurring tasks could not be created: ${error.message}`)
+  });
+  if (!trackerResult.success) {
+    io.stderr(`Error: ${trackerResult.error.message}`);
+    return EXIT_FAILURE;
+  }
+
+  const result = COMMANDS[commandName]({
+    tracker: trackerResult.value,
+    args: positionals.slice(commandName.split(' ').length),
+    options
+  });
+
+  if (!result.success) {
+    if (result.error instanceof UsageError) {
+      return reportUsageError(io, result.error.message);
+    }
+    io.stderr(`Error: ${result.error.message}`);
+    return EXIT_FAILURE;
+  }
+
+  if (options.has('json')) {
+    io.stdout(toJson(result.value.data));
+  } else if (result.value.lines.length > 0) {
+    io.stdout(result.value.lines.join('\n'));
+  }
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Print a usage error with a pointer to the help
+ */
+function reportUsageError(io: CliIO, message: string): number {
+  io.stderr(`Error: ${message}`);
+  io.stderr(`Run 'tracker help' for usage.`);
+  return EXIT_USAGE;
+}
+
+/**
+ * Pick the data directory from --data, the environment or the default
+ */
+export function getDataDirectory(options: Map<string, string | true>, env: Record<string, string | undefined>): string {
+  const option = options.get('data');
+  if (typeof option === 'string') {
+    return option;
+  }
+  return env[DATA_DIRECTORY_ENV] || DEFAULT_DATA_DIRECTORY;
+}
+
+/**
+ * Create and initialize a TrackerService over a data directory
+ * Writes are revisioned, so a command fails instead of overwriting changes another process
+ * made after this one loaded the data.
+ * @param options - TrackerService options such as the materialize error handler
+ */
+export function openTracker(directory: string, options: TrackerServiceOptions = {}): Result<ITrackerService, Error> {
+  let storage: FileStorageService;
+  try {
+    storage = new FileStorageService(directory);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, error: new StorageError(`Cannot open data directory ${directory}: ${message}`) };
+  }
+
+  const tracker = new TrackerService(new RevisionedStorageService(storage), options);
+  const initResult = tracker.initialize();
+  if (!initResult.success) {
+    return initResult;
+  }
+  return { success: true, value: tracker };
+}
+
+// ==================== Argument Helpers ====================
+
+/**
+ * Check the number of positional arguments
+ */
+function checkArgCount(args: string[], min: number, max: number, usage: string): Result<void, UsageError> {
+  if (args.length < min || args.length > max) {
+    return { success: false, error: new UsageError(`Usage: tracker ${usage}`) };
+  }
+  return { success: true, value: undefined };
+}
+
+/**
+ * Find the course a reference points to: an ID, a name, or a unique ID prefix
+ */
+function resolveCourse(tracker: ITrackerService, ref: string): Result<Course, Error> {
+  const exact = tracker.getCourse(ref);
+  if (exact) {
+    return { success: true, value: exact };
+  }
+
+  const courses = tracker.getAllCourses();
+  const name = ref.trim().toLowerCase();
+  const byName = courses.filter(course => course.name.toLowerCase() === name);
+  const matches = byName.length > 0 ? byName : courses.filter(course => course.id.startsWith(ref));
+
+  if (matches.length === 1) {
+    return { success: true, value: matches[0] };
+  }
+  if (matches.length > 1) {
+    return {
+      success: false,
+      error: new ValidationError(
+        `"${ref}" matches several courses: ${matches.map(formatCourseName).join(', ')}. Use a course ID instead.`
+      )
+    };
+  }
+  return { success: false, error: new NotFoundError(`Course not found: ${ref}`) };
+}
+
+/**
+ * Find the task a reference points to: an ID or a unique ID prefix
+ */
+function resolveTask(tracker: ITrackerService, ref: string): Result<Task, Error> {
+  const exact = tracker.getTask(ref);
+  if (exact) {
+    return { success: true, value: exact };
+  }
+
+  const matches = tracker.getAllTasks().filter(task => task.id.startsWith(ref));
+  if (matches.length === 1) {
+    return { success: true, value: matches[0] };
+  }
+  if (matches.length > 1) {
+    return { success: false, error: new ValidationError(`"${ref}" matches several tasks. Use a longer ID prefix.`) };
+  }
+  return { success: false, error: new NotFoundError(`Task not found: ${ref}`) };
+}
+
+/**
+ * Resolve several task references, failing on the first that does not match
+ */
+function resolveTasks(tracker: ITrackerService, refs: string[]): Result<Task[], Error> {
+  const tasks: Task[] = [];
+  for (const ref of refs) {
+    const result = resolveTask(tracker, ref);
+    if (!result.success) {
+      return result;
+    }
+    tasks.push(result.value);
+  }
+  return { success: true, value: tasks };
+}
+
+/**
+ * Parse optional [week] [year] arguments, defaulting to the current week
+ */
+function resolveWeek(args: string[]): Result<{ weekNumber: number; year: number }, Error> {
+  const current = getWeekNumber(new Date());
+  const weekNumber = args.length > 0 ? Number(args[0]) : current.weekNumber;
+  const year = args.length > 1 ? Number(args[1]) : current.year;
+
+  if (!Number.isInteger(year) || year < 1) {
+    return { success: false, error: new ValidationError(`Invalid year: ${args[1]}`) };
+  }
+  if (!isValidWeek(weekNumber, year)) {
+    return { success: false, error: new ValidationError(`Invalid week number for ${year}: ${args[0]}`) };
+  }
+  return { success: true, value: { weekNumber, year } };
+}
+
+/**
+ * Map course IDs to courses
+ */
+function courseMap(tracker: ITrackerService): Map<string, Course> {
+  return new Map(tracker.getAllCourses().map(course => [course.id, course]));
+}
+
+// ==================== Course Commands ====================
+
+function courseAdd({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 2, 2, 'course add <name> <department>');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const result = tracker.createCourse(args[0], args[1]);
+  if (!result.success) {
+    return result;
+  }
+  const course = result.value;
+  return { success: true, value: { data: course, lines: [`Added course ${formatCourseName(course)} (${course.id})`] } };
+}
+
+function courseList({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 0, 0, 'course list');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const courses = tracker.getAllCourses();
+  const taskCounts = new Map(courses.map(course => [course.id, tracker.getTasksByCourse(course.id).length]));
+  return {
+    success: true,
+    value: { data: courses, lines: formatCourseList(tracker.getCoursesByDepartment(), taskCounts) }
+  };
+}
+
+function courseRemove({ tracker, args, options }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 1, 1, 'course rm <course> [--cascade | --reassign <course>]');
+  if (!usage.success) {
+    return usage;
+  }
+  if (options.has('cascade') && options.has('reassign')) {
+    return { success: false, error: new UsageError('Use either --cascade or --reassign, not both') };
+  }
+
+  const course = resolveCourse(tracker, args[0]);
+  if (!course.success) {
+    return course;
+  }
+
+  let target: Course | undefined;
+  const reassign = options.get('reassign');
+  if (typeof reassign === 'string') {
+    const targetResult = resolveCourse(tracker, reassign);
+    if (!targetResult.success) {
+      return targetResult;
+    }
+    target = targetResult.value;
+  }
+
+  const strategy = options.has('cascade') ? 'cascade' : target ? 'reassign' : undefined;
+  const result = tracker.deleteCourse(course.value.id, strategy, target?.id);
+  if (!result.success) {
+    return result;
+  }
+  return {
+    success: true,
+    value: {
+      data: { deleted: [course.value.id] },
+      lines: [`Moved course ${formatCourseName(course.value)} to the trash`]
+    }
+  };
+}
+
+// ==================== Task Commands ====================
+
+function taskAdd({ tracker, args, options }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 3, 3, 'task add <course> <description> <deadline> [--priority <priority>] [--category <category>] [--estimate <hours>]');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const course = resolveCourse(tracker, args[0]);
+  if (!course.success) {
+    return course;
+  }
+  const deadline = parseCsvDate(args[2]);
+  if (!deadline) {
+    return {
+      success: false,
+      error: new ValidationError(`Invalid deadline "${args[2]}". Use YYYY-MM-DD or YYYY-MM-DDTHH:MM.`)
+    };
+  }
+
+  // The task service rejects unknown priorities and categories, and invalid estimates
+  const priority = options.get('priority');
+  const category = options.get('category');
+  const estimate = options.get('estimate');
+  const result = tracker.createTask(course.value.id, args[1], deadline, {
+    priority: typeof priority === 'string' ? priority as TaskPriority : undefined,
+    category: typeof category === 'string' ? category as TaskCategory : undefined,
+    estimatedHours: typeof estimate === 'string' ? Number(estimate) : undefined
+  });
+  if (!result.success) {
+    return result;
+  }
+  return {
+    success: true,
+    value: { data: result.value, lines: [`Added task ${formatTaskLine(result.value, course.value)}`] }
+  };
+}
+
+function taskList({ tracker, args, options }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 0, 0, 'task list [--course <course>] [--status pending|completed|overdue] [--category <category>]');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const status = options.get('status');
+  if (typeof status === 'string' && !TASK_STATUSES.includes(status)) {
+    return { success: false, error: new UsageError(`Invalid status: ${status}. Use ${TASK_STATUSES.join(', ')}.`) };
+  }
+  const category = options.get('category');
+  if (typeof category === 'string' && !isTaskCategory(category)) {
+    return { success: false, error: new UsageError(`Invalid category: ${category}. Use ${TASK_CATEGORIES.join(', ')}.`) };
+  }
+
+  let tasks = tracker.getAllTasks();
+  const courseRef = options.get('course');
+  if (typeof courseRef === 'string') {
+    const course = resolveCourse(tracker, courseRef);
+    if (!course.success) {
+      return course;
+    }
+    tasks = tasks.filter(task => task.courseId === course.value.id);
+  }
+
+  if (status === 'pending') {
+    tasks = tasks.filter(task => !task.completed);
+  } else if (status === 'completed') {
+    tasks = tasks.filter(task => task.completed);
+  } else if (status === 'overdue') {
+    const overdueIds = new Set(tracker.getOverdueTasks().map(task => task.id));
+    tasks = tasks.filter(task => overdueIds.has(task.id));
+  }
+  if (typeof category === 'string') {
+    tasks = tasks.filter(task => task.category === category);
+  }
+
+  const sorted = [...tasks].sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  return { success: true, value: { data: sorted, lines: formatTaskList(sorted, courseMap(tracker)) } };
+}
+
+function taskDone({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  return updateCompletion(tracker, args, 'task done <task>...', ids => tracker.markTasksComplete(ids));
+}
+
+function taskUndo({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  return updateCompletion(tracker, args, 'task undo <task>...', ids => tracker.markTasksIncomplete(ids));
+}
+
+/**
+ * Resolve task references and mark them complete or incomplete together
+ */
+function updateCompletion(
+  tracker: ITrackerService,
+  args: string[],
+  usage: string,
+  update: (ids: string[]) => Result<Task[], Error>
+): Result<CommandOutput, Error> {
+  const usageResult = checkArgCount(args, 1, Infinity, usage);
+  if (!usageResult.success) {
+    return usageResult;
+  }
+
+  const tasks = resolveTasks(tracker, args);
+  if (!tasks.success) {
+    return tasks;
+  }
+  const result = update(tasks.value.map(task => task.id));
+  if (!result.success) {
+    return result;
+  }
+
+  const courses = courseMap(tracker);
+  return {
+    success: true,
+    value: { data: result.value, lines: result.value.map(task => formatTaskLine(task, courses.get(task.courseId))) }
+  };
+}
+
+function taskRemove({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 1, Infinity, 'task rm <task>...');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const tasks = resolveTasks(tracker, args);
+  if (!tasks.success) {
+    return tasks;
+  }
+  const ids = tasks.value.map(task => task.id);
+  const result = tracker.deleteTasks(ids);
+  if (!result.success) {
+    return result;
+  }
+  return {
+    success: true,
+    value: {
+      data: { deleted: ids },
+      lines: [`Moved ${ids.length} ${ids.length === 1 ? 'task' : 'tasks'} to the trash`]
+    }
+  };
+}
+
+function taskStart({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 1, 1, 'task start <task>');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const task = resolveTask(tracker, args[0]);
+  if (!task.success) {
+    return task;
+  }
+  const result = tracker.startTaskTimer(task.value.id);
+  if (!result.success) {
+    return result;
+  }
+  return {
+    success: true,
+    value: { data: result.value, lines: [`Started timer for ${result.value.description}`] }
+  };
+}
+
+function taskStop({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 1, 1, 'task stop <task>');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const task = resolveTask(tracker, args[0]);
+  if (!task.success) {
+    return task;
+  }
+  const result = tracker.stopTaskTimer(task.value.id);
+  if (!result.success) {
+    return result;
+  }
+  const sessions = result.value.timeSessions ?? [];
+  const session = sessions[sessions.length - 1];
+  return {
+    success: true,
+    value: {
+      data: result.value,
+      lines: [
+        `Logged ${formatHours(getSessionHours(session))} on ${result.value.description} ` +
+        `(${formatHours(getLoggedHours(result.value))} in total)`
+      ]
+    }
+  };
+}
+
+// ==================== Overview Commands ====================
+
+function week({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 0, 2, 'week [week] [year]');
+  if (!usage.success) {
+    return usage;
+  }
+  const weekResult = resolveWeek(args);
+  if (!weekResult.success) {
+    return weekResult;
+  }
+
+  const { weekNumber, year } = weekResult.value;
+  const tasks = tracker.getTasksForWeek(weekNumber, year)
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  const weekView: WeekView = { weekNumber, year, ...getWeekBounds(weekNumber, year), tasks };
+  return { success: true, value: { data: weekView, lines: formatWeek(weekNumber, year, tasks, courseMap(tracker)) } };
+}
+
+function stats({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 0, 2, 'stats [week] [year]');
+  if (!usage.success) {
+    return usage;
+  }
+  const weekResult = resolveWeek(args);
+  if (!weekResult.success) {
+    return weekResult;
+  }
+
+  const statistics = tracker.getWeeklyStatistics(weekResult.value.weekNumber, weekResult.value.year);
+  return { success: true, value: { data: statistics, lines: formatStatistics(statistics) } };
+}
+
+function overdue({ tracker, args }: CommandContext): Result<CommandOutput, Error> {
+  const usage = checkArgCount(args, 0, 0, 'overdue');
+  if (!usage.success) {
+    return usage;
+  }
+
+  const tasks = tracker.getOverdueTasks().sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  return { success: true, value: { data: tasks, lines: formatTaskList(tasks, courseMap(tracker), 'No overdue tasks') } };
+}
@@ -0,0 +1,209 @@
+/**
+ * Text and JSON output for the tracker CLI
+ * The text layouts follow the WeeklyView and Statistics components
+ */
+
+import { Course, Task, WeeklyStatistics } from '../models/types.js';
+import { getWeekBounds } from '../utils/weekCalculations.js';
+import { compareByPriority, DEFAULT_PRIORITY, PRIORITY_LABELS } from '../utils/priority.js';
+import { CATEGORY_LABELS } from '../utils/category.js';
+import { getChecklistProgress } from '../utils/checklist.js';
+import { formatHours } from '../utils/effort.js';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Number of ID characters shown in text output; any unique prefix is accepted as a reference
+ */
+export const SHORT_ID_LENGTH = 8;
+
+/**
+ * Serialize a value for JSON output
+ * Maps become objects keyed by the map keys and dates become ISO strings.
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item: unknown) => (item instanceof Map ? Object.fromEntries(item) : item),
+    2
+  );
+}
+
+/**
+ * Shorten an ID for display
+ */
+export function shortId(id: string): string {
+  return id.slice(0, SHORT_ID_LENGTH);
+}
+
+/**
+ * Format a date as MM/DD
+ */
+export function formatDate(date: Date): string {
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+/**
+ * Format a date and time as MM/DD h:mm AM/PM
+ */
+export function formatDateTime(date: Date): string {
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 || 12;
+  const displayMinutes = minutes.toString().padStart(2, '0');
+
+  return `${formatDate(date)} ${displayHours}:${displayMinutes} ${ampm}`;
+}
+
+/**
+ * Format a course as "Name (Department)"
+ */
+export function formatCourseName(course: Course): string {
+  return `${course.name} (${course.department})`;
+}
+
+/**
+ * Format courses grouped by department, with each course's ID and task count
+ */
+export function formatCourseList(coursesByDepartment: Map<string, Course[]>, taskCounts: Map<string, number>): string[] {
+  if (coursesByDepartment.size === 0) {
+    return ['No courses'];
+  }
+
+  const lines: string[] = [];
+  const departments = Array.from(coursesByDepartment.keys()).sort((a, b) => a.localeCompare(b));
+  departments.forEach(department => {
+    lines.push(department);
+    coursesByDepartment.get(department)!.forEach(course => {
+      const count = taskCounts.get(course.id) ?? 0;
+      lines.push(`  ${shortId(course.id)}  ${course.name} (${count} ${count === 1 ? 'task' : 'tasks'})`);
+    });
+  });
+  return lines;
+}
+
+/**
+ * Format one task as a line with its completion box, ID, description, course and deadline
+ * Priorities other than the default follow the description, e.g. "Essay (High)".
+ */
+export function formatTaskLine(task: Task, course?: Course): string {
+  const box = task.completed ? '[x]' : '[ ]';
+  const priority = task.priority !== DEFAULT_PRIORITY ? ` (${PRIORITY_LABELS[task.priority]})` : '';
+  const { done, total } = getChecklistProgress(task);
+  const checklist = total > 0 ? ` [${done}/${total}]` : '';
+  const courseName = course ? `  ${course.name}` : '';
+  return `${box} ${shortId(task.id)}  ${task.description}${priority}${checklist}${courseName}  Due: ${formatDateTime(task.deadline)}`;
+}
+
+/**
+ * Format tasks as lines, ordered by deadline
+ * @param emptyMessage - Line printed when there are no tasks
+ */
+export function formatTaskList(tasks: Task[], courses: Map<string, Course>, emptyMessage = 'No tasks'): string[] {
+  if (tasks.length === 0) {
+    return [emptyMessage];
+  }
+  return sortByDeadline(tasks).map(task => formatTaskLine(task, courses.get(task.courseId)));
+}
+
+/**
+ * Format a week like WeeklyView: a header, then every day with its tasks grouped by course
+ */
+export function formatWeek(weekNumber: number, year: number, tasks: Task[], courses: Map<string, Course>): string[] {
+  const { startDate, endDate } = getWeekBounds(weekNumber, year);
+  const lines = [`Week ${weekNumber}, ${year} (${formatDate(startDate)} - ${formatDate(endDate)})`];
+
+  const day = new Date(startDate);
+  while (day <= endDate) {
+    lines.push('', `${DAY_NAMES[day.getDay()]}, ${formatDate(day)}`);
+
+    // More important tasks first, as in WeeklyView
+    const tasksForDay = tasks.filter(task => isSameDay(task.deadline, day)).sort(compareByPriority);
+    const tasksByCourse = new Map<string, Task[]>();
+    tasksForDay.forEach(task => {
+      tasksByCourse.set(task.courseId, [...(tasksByCourse.get(task.courseId) ?? []), task]);
+    });
+
+    if (tasksByCourse.size === 0) {
+      lines.push('  No tasks');
+    }
+    tasksByCourse.forEach((courseTasks, courseId) => {
+      const course = courses.get(courseId);
+      if (course) {
+        lines.push(`  ${formatCourseName(course)}`);
+        courseTasks.forEach(task => lines.push(`    ${formatTaskLine(task)}`));
+      }
+    });
+
+    day.setDate(day.getDate() + 1);
+  }
+
+  return lines;
+}
+
+/**
+ * Format weekly statistics like the Statistics component
+ */
+export function formatStatistics(stats: WeeklyStatistics): string[] {
+  const lines = [
+    `Week ${stats.weekNumber}, ${stats.year}`,
+    `Total tasks: ${stats.totalTasks}`,
+    `Completed: ${stats.completedTasks}`,
+    `Active: ${stats.totalTasks - stats.completedTasks}`,
+    `Completion rate: ${stats.completionPercentage.toFixed(1)}%`,
+    `Overdue: ${stats.overdueTasks}`,
+    `Hours: ${formatHours(stats.actualHours)} logged of ${formatHours(stats.estimatedHours)} estimated`
+  ];
+
+  if (stats.statsByDepartment.size > 0) {
+    lines.push('', 'By department:');
+    stats.statsByDepartment.forEach(department => {
+      lines.push(`  ${department.department}: ${department.completedTasks}/${department.totalTasks} completed, ${formatEffort(department)}`);
+    });
+  }
+
+  if (stats.statsByCourse.size > 0) {
+    lines.push('', 'By course:');
+    stats.statsByCourse.forEach(course => {
+      lines.push(`  ${course.courseName}: ${course.completedTasks}/${course.totalTasks} completed, ${formatEffort(course)}`);
+    });
+  }
+
+  if (stats.totalTasks > 0) {
+    lines.push('', 'By priority:');
+    stats.statsByPriority.forEach(priority => {
+      lines.push(`  ${PRIORITY_LABELS[priority.priority]}: ${priority.completedTasks}/${priority.totalTasks} completed`);
+    });
+
+    lines.push('', 'By category:');
+    stats.statsByCategory.forEach(category => {
+      lines.push(`  ${CATEGORY_LABELS[category.category]}: ${category.completedTasks}/${category.totalTasks} completed`);
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Format the logged and estimated hours of a statistics group, e.g. "2 h of 5 h"
+ */
+function formatEffort(stats: { estimatedHours: number; actualHours: number }): string {
+  return `${formatHours(stats.actualHours)} of ${formatHours(stats.estimatedHours)}`;
+}
+
+/**
+ * Sort tasks by deadline without changing the original array
+ */
+function sortByDeadline(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+}
+
+/**
+ * Check if two dates fall on the same calendar day
+ */
+function isSameDay(date1: Date, date2: Date): boolean {
+  return date1.getFullYear() === date2.getFullYear() &&
+         date1.getMonth() === date2.getMonth() &&
+         date1.getDate() === date2.getDate();
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the tracker CLI
+ */
+
+import { runCli } from './cli.js';
+
+process.exitCode = runCli(process.argv.slice(2));
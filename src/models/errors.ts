@@ -31,3 +31,14 @@ export class NotFoundError extends Error {
     this.name = 'NotFoundError';
   }
 }
+
+/**
+ * ConflictError represents a write rejected because the stored data was changed elsewhere
+ * (e.g. by the app running in another browser tab) since it was last loaded
+ */
+export class ConflictError extends StorageError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
@@ -16,9 +16,72 @@ export interface Course {
   id: string;              // Unique identifier (UUID)
   name: string;            // Course name (non-empty)
   department: string;      // Department name (non-empty)
+  termId?: string;         // Term the course is taught in (optional)
+  meetings?: CourseMeeting[]; // Weekly class meetings (optional)
   createdAt: Date;         // Creation timestamp
+  deletedAt?: Date;        // When the course was moved to the trash (optional)
 }
 
+/**
+ * Kind of class meeting
+ */
+export type MeetingType = 'lecture' | 'lab' | 'tutorial' | 'seminar';
+
+/**
+ * CourseMeeting is a weekly class meeting of a course
+ */
+export interface CourseMeeting {
+  weekday: number;         // 0 (Sunday) to 6 (Saturday)
+  start: string;           // Time of day as HH:MM
+  end: string;             // Time of day as HH:MM, after start
+  type: MeetingType;
+  location?: string;       // Room or building (optional)
+}
+
+/**
+ * MeetingConflict is a weekly time at which two courses both meet
+ */
+export interface MeetingConflict {
+  courseIds: [string, string];
+  weekday: number;         // 0 (Sunday) to 6 (Saturday)
+  start: string;           // Start of the overlap as HH:MM
+  end: string;             // End of the overlap as HH:MM
+}
+
+/**
+ * ClassSession is a course meeting on a particular day
+ */
+export interface ClassSession {
+  courseId: string;
+  type: MeetingType;
+  location?: string;
+  start: Date;
+  end: Date;
+  overlapsWith: string[];  // IDs of the other courses meeting at the same time
+}
+
+/**
+ * Term represents a semester or other period that courses are taught in
+ */
+export interface Term {
+  id: string;              // Unique identifier (UUID)
+  name: string;            // Term name, e.g. "Fall 2024" (non-empty, unique)
+  startDate: Date;         // First day of the term
+  endDate: Date;           // Last day of the term
+  createdAt: Date;         // Creation timestamp
+  archivedAt?: Date;       // When the finished term was archived (optional)
+}
+
+/**
+ * How important a task is, from least to most important
+ */
+export type TaskPriority = 'low' | 'normal' | 'high' | 'critical';
+
+/**
+ * What kind of academic work a task is
+ */
+export type TaskCategory = 'assignment' | 'exam' | 'reading' | 'project' | 'lab';
+
 /**
  * Task represents an academic activity with a deadline
  */
@@ -27,9 +90,89 @@ export interface Task {
   courseId: string;        // Reference to Course
   description: string;     // Task description (non-empty)
   deadline: Date;          // Due date and time
+  priority: TaskPriority;  // How important the task is
+  category: TaskCategory;  // What kind of work the task is
   completed: boolean;      // Completion status
   completedAt?: Date;      // Completion timestamp (optional)
   createdAt: Date;         // Creation timestamp
+  externalUid?: string;    // UID of the calendar item the task was imported from (optional)
+  deletedAt?: Date;        // When the task was moved to the trash (optional)
+  seriesId?: string;       // Shared by the occurrences of a recurring task (optional)
+  occurrenceDate?: Date;   // Scheduled deadline of this occurrence; kept when its deadline is moved (optional)
+  recurrence?: TaskRecurrence; // Series definition, held by the earliest remaining occurrence (optional)
+  checklist?: ChecklistItem[]; // Steps of the task, in order (optional)
+  autoComplete?: boolean;  // Complete the task once every checklist item is done (optional)
+  estimatedHours?: number; // Expected effort in hours (optional)
+  timeSessions?: TimeSession[]; // Time worked on the task, oldest first (optional)
+  timerStartedAt?: Date;   // Start of the running timer (optional)
+}
+
+/**
+ * TimeSession is a stretch of time worked on a task, logged by its timer
+ */
+export interface TimeSession {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * ChecklistItem is one step of a task, with its own completion flag
+ */
+export interface ChecklistItem {
+  id: string;              // Unique within the task (UUID)
+  text: string;            // Item text (non-empty)
+  completed: boolean;      // Completion status
+}
+
+/**
+ * RecurrenceRule describes how a task repeats, like a weekly iCalendar RRULE
+ */
+export interface RecurrenceRule {
+  interval: number;        // Repeat every N weeks (1 = every week)
+  weekdays: number[];      // Days of the week, 0 (Sunday) to 6 (Saturday)
+  until?: Date;            // No occurrences after this date and time (optional)
+  count?: number;          // Number of occurrences, counting the first (optional)
+}
+
+/**
+ * TaskRecurrence defines the series of a recurring task
+ * New occurrences are created from it when the weeks they fall in are shown.
+ */
+export interface TaskRecurrence {
+  rule: RecurrenceRule;
+  start: Date;             // Deadline of the first occurrence; all occurrences share its time of day
+  courseId: string;        // Course of new occurrences
+  description: string;     // Description of new occurrences
+  priority: TaskPriority;  // Priority of new occurrences
+  category: TaskCategory;  // Category of new occurrences
+  estimatedHours?: number; // Effort estimate of new occurrences (optional)
+  exceptions: Date[];      // Occurrences deleted one by one, which are not created again
+}
+
+/**
+ * Which occurrences of a recurring task an edit or deletion applies to
+ */
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+/**
+ * TaskDetails holds the optional task fields that the task forms set
+ */
+export interface TaskDetails {
+  priority?: TaskPriority; // Defaults to 'normal'
+  category?: TaskCategory; // Defaults to 'assignment'
+  checklist?: ChecklistItem[]; // Defaults to no checklist
+  autoComplete?: boolean;  // Defaults to false
+  estimatedHours?: number; // Defaults to no estimate; 0 clears an estimate
+}
+
+/**
+ * TaskOptions holds optional task fields accepted when creating a task
+ */
+export interface TaskOptions extends TaskDetails {
+  externalUid?: string;
+  seriesId?: string;
+  occurrenceDate?: Date;
+  recurrence?: TaskRecurrence;
 }
 
 /**
@@ -50,6 +193,9 @@ export interface DepartmentStats {
   department: string;
   totalTasks: number;
   completedTasks: number;
+  completionPercentage: number;  // Open tasks count for the share of their checklist that is done
+  estimatedHours: number;  // Sum of the tasks' effort estimates
+  actualHours: number;     // Sum of the time logged on the tasks
 }
 
 /**
@@ -60,6 +206,27 @@ export interface CourseStats {
   courseName: string;
   totalTasks: number;
   completedTasks: number;
+  completionPercentage: number;  // Open tasks count for the share of their checklist that is done
+  estimatedHours: number;  // Sum of the tasks' effort estimates
+  actualHours: number;     // Sum of the time logged on the tasks
+}
+
+/**
+ * PriorityStats represents statistics for the tasks of one priority
+ */
+export interface PriorityStats {
+  priority: TaskPriority;
+  totalTasks: number;
+  completedTasks: number;
+}
+
+/**
+ * CategoryStats represents statistics for the tasks of one category
+ */
+export interface CategoryStats {
+  category: TaskCategory;
+  totalTasks: number;
+  completedTasks: number;
 }
 
 /**
@@ -72,6 +239,163 @@ export interface WeeklyStatistics {
   completedTasks: number;
   completionPercentage: number;
   overdueTasks: number;
+  estimatedHours: number;  // Sum of the effort estimates of the week's tasks
+  actualHours: number;     // Sum of the time logged on the week's tasks
   statsByDepartment: Map<string, DepartmentStats>;
   statsByCourse: Map<string, CourseStats>;
+  statsByPriority: Map<TaskPriority, PriorityStats>;  // Every priority, most important first
+  statsByCategory: Map<TaskCategory, CategoryStats>;  // Every category, in TASK_CATEGORIES order
+}
+
+/**
+ * TermStatistics represents statistics for the tasks of a term's courses
+ */
+export interface TermStatistics {
+  termId: string;
+  termName: string;
+  totalTasks: number;
+  completedTasks: number;
+  completionPercentage: number;
+  overdueTasks: number;
+  estimatedHours: number;  // Sum of the effort estimates of the term's tasks
+  actualHours: number;     // Sum of the time logged on the term's tasks
+  statsByDepartment: Map<string, DepartmentStats>;
+  statsByCourse: Map<string, CourseStats>;
+}
+
+/**
+ * DayLoad is the work planned on one day: the remaining effort of the incomplete tasks due that day
+ */
+export interface DayLoad {
+  date: Date;              // Start of the day
+  plannedHours: number;    // Estimated hours not yet logged
+  capacityHours: number;   // Hours the user can work in a day
+  overloaded: boolean;     // Planned hours exceed the capacity
+  taskIds: string[];       // Incomplete tasks due that day with effort left
+}
+
+/**
+ * WeekWorkload is the planned work of a week, day by day
+ */
+export interface WeekWorkload {
+  weekNumber: number;
+  year: number;
+  days: DayLoad[];         // Monday to Sunday
+  plannedHours: number;
+  capacityHours: number;   // Daily capacity times seven
+  overloaded: boolean;     // Planned hours exceed the week's capacity
+}
+
+/**
+ * RebalanceSuggestion proposes working on part of a task on an earlier, lighter day
+ */
+export interface RebalanceSuggestion {
+  taskId: string;
+  from: Date;              // Overloaded day the work is due
+  to: Date;                // Earlier day with spare capacity
+  hours: number;           // Hours of the task's remaining effort to do that day
+}
+
+/**
+ * BlockedTime is a weekly time the user cannot study, such as a job or a practice
+ */
+export interface BlockedTime {
+  weekday: number;         // 0 (Sunday) to 6 (Saturday)
+  start: string;           // Time of day as HH:MM
+  end: string;             // Time of day as HH:MM, after start
+  label?: string;          // What the time is blocked for (optional)
+}
+
+/**
+ * PlannerSettings describe when the user can study
+ */
+export interface PlannerSettings {
+  hoursPerWeekday: number[];   // Hours available each day, indexed like Date.getDay()
+  dayStart: string;            // Time of day studying starts, as HH:MM
+  blockedTimes: BlockedTime[];
+}
+
+/**
+ * WorkBlock is a stretch of time planned for working on a task
+ */
+export interface WorkBlock {
+  taskId: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * UnscheduledWork is effort of a task that does not fit before its deadline
+ */
+export interface UnscheduledWork {
+  taskId: string;
+  hours: number;
+}
+
+/**
+ * StudyPlan is a schedule of work blocks for the incomplete tasks
+ */
+export interface StudyPlan {
+  blocks: WorkBlock[];            // In time order
+  unscheduled: UnscheduledWork[]; // Work due in the planned period that does not fit
+}
+
+/**
+ * Why a snapshot backup is kept
+ * - recent: one of the last saves
+ * - daily: the first save of a day
+ */
+export type SnapshotKind = 'recent' | 'daily';
+
+/**
+ * SnapshotSummary describes a backup of the courses and tasks without its data
+ */
+export interface SnapshotSummary {
+  id: string;
+  kind: SnapshotKind;
+  createdAt: Date;
+  courseCount: number;
+  taskCount: number;
+}
+
+/**
+ * TrashContents lists the deleted courses and tasks, most recently deleted first
+ */
+export interface TrashContents {
+  courses: Course[];
+  tasks: Task[];
+}
+
+/**
+ * Kind of entity an audit entry describes
+ */
+export type AuditEntityType = 'course' | 'task';
+
+/**
+ * Change recorded in the audit log
+ * - restore: taken out of the trash, or put back by undo, redo or import
+ * - purge: removed permanently
+ */
+export type AuditAction = 'create' | 'update' | 'complete' | 'reopen' | 'delete' | 'restore' | 'purge';
+
+/**
+ * AuditFieldChange holds one field's value before and after a change
+ * A missing value means the field was not set
+ */
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * AuditEntry records one change to a course or task
+ */
+export interface AuditEntry {
+  id: string;                       // Unique identifier (UUID)
+  timestamp: Date;                  // When the change was made
+  entityType: AuditEntityType;
+  entityId: string;                 // ID of the changed course or task
+  action: AuditAction;
+  changes: AuditFieldChange[];      // Changed fields; the ID is never included
 }
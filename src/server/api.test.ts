@@ -0,0 +1,339 @@
+/**
+ * Tests for the REST API routes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TrackerApi, ApiRequest, ApiResponse, statusForError } from './api.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { ValidationError, NotFoundError, StorageError, ConflictError } from '../models/errors.js';
+import { Course, Task } from '../models/types.js';
+import { OPENAPI_DOCUMENT } from './openapi.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+
+describe('TrackerApi', () => {
+  let tracker: TrackerService;
+  let api: TrackerApi;
+
+  beforeEach(() => {
+    tracker = new TrackerService(new MockStorage());
+    tracker.initialize();
+    api = new TrackerApi(tracker);
+  });
+
+  /**
+   * Send a request to the API
+   */
+  function send(method: string, url: string, body?: unknown): ApiResponse {
+    const parsed = new URL(url, 'http://localhost');
+    const request: ApiRequest = { method, path: parsed.pathname, query: parsed.searchParams, body };
+    return api.handle(request);
+  }
+
+  /**
+   * Create a course through the API
+   */
+  function createCourse(name: string = 'CS101', department: string = 'Computer Science'): Course {
+    const response = send('POST', '/courses', { name, department });
+    expect(response.status).toBe(201);
+    return response.body as Course;
+  }
+
+  /**
+   * Create a task through the API
+   */
+  function createTask(courseId: string, description: string, deadline: string): Task {
+    const response = send('POST', '/tasks', { courseId, description, deadline });
+    expect(response.status).toBe(201);
+    return response.body as Task;
+  }
+
+  describe('routing', () => {
+    it('should answer unknown paths with 404', () => {
+      const response = send('GET', '/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: { type: 'NotFoundError', message: 'No route for GET /unknown' } });
+    });
+
+    it('should answer a known path with the wrong method with 405 and the allowed methods', () => {
+      const response = send('PUT', '/courses');
+
+      expect(response.status).toBe(405);
+      expect(response.headers).toEqual({ Allow: 'GET, POST' });
+    });
+
+    it('should document every route in the OpenAPI document', () => {
+      const paths = OPENAPI_DOCUMENT.paths as Record<string, Record<string, unknown>>;
+
+      for (const route of api.getRoutes()) {
+        const path = route.path.replace(/:(\w+)/g, '{$1}');
+        expect(paths[path]?.[route.method.toLowerCase()], `${route.method} ${route.path}`).toBeDefined();
+      }
+    });
+
+    it('should serve the OpenAPI document', () => {
+      const response = send('GET', '/openapi.json');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toBe(OPENAPI_DOCUMENT);
+    });
+  });
+
+  describe('statusForError', () => {
+    it('should map error types to HTTP statuses', () => {
+      expect(statusForError(new ValidationError('x'))).toBe(400);
+      expect(statusForError(new NotFoundError('x'))).toBe(404);
+      expect(statusForError(new ConflictError('x'))).toBe(409);
+      expect(statusForError(new StorageError('x'))).toBe(500);
+      expect(statusForError(new Error('x'))).toBe(500);
+    });
+  });
+
+  describe('courses', () => {
+    it('should create, get and list courses', () => {
+      const course = createCourse();
+
+      expect(send('GET', `/courses/${course.id}`).body).toEqual(course);
+      expect(send('GET', '/courses').body).toEqual([course]);
+      expect(tracker.getCourse(course.id)).not.toBeNull();
+    });
+
+    it('should reject invalid course bodies with 400', () => {
+      expect(send('POST', '/courses', { name: 'CS101' }).status).toBe(400);
+      expect(send('POST', '/courses', { name: '  ', department: 'Computer Science' }).status).toBe(400);
+      expect(send('POST', '/courses', { name: 'CS101', department: 'CS', id: 'mine' }).status).toBe(400);
+      expect(send('POST', '/courses', ['CS101']).status).toBe(400);
+      expect(send('POST', '/courses').status).toBe(400);
+    });
+
+    it('should update a course', () => {
+      const course = createCourse();
+
+      const response = send('PATCH', `/courses/${course.id}`, { name: 'CS102' });
+
+      expect(response.status).toBe(200);
+      expect((response.body as Course).name).toBe('CS102');
+      expect((response.body as Course).department).toBe('Computer Science');
+    });
+
+    it('should answer 404 for a course that does not exist', () => {
+      expect(send('GET', '/courses/missing').status).toBe(404);
+      expect(send('PATCH', '/courses/missing', { name: 'CS102' }).status).toBe(404);
+      expect(send('DELETE', '/courses/missing').status).toBe(404);
+    });
+
+    it('should require a strategy to delete a course with tasks', () => {
+      const course = createCourse();
+      createTask(course.id, 'Essay', '2024-03-05');
+
+      expect(send('DELETE', `/courses/${course.id}`).status).toBe(400);
+      expect(send('DELETE', `/courses/${course.id}?strategy=later`).status).toBe(400);
+
+      const response = send('DELETE', `/courses/${course.id}?strategy=cascade`);
+
+      expect(response).toEqual({ status: 204 });
+      expect(tracker.getAllCourses()).toEqual([]);
+      expect(tracker.getAllTasks()).toEqual([]);
+    });
+
+    it('should reassign tasks when deleting a course', () => {
+      const course = createCourse();
+      const target = createCourse('CS102');
+      const task = createTask(course.id, 'Essay', '2024-03-05');
+
+      const response = send('DELETE', `/courses/${course.id}?strategy=reassign&targetCourseId=${target.id}`);
+
+      expect(response.status).toBe(204);
+      expect(tracker.getTask(task.id)?.courseId).toBe(target.id);
+    });
+  });
+
+  describe('tasks', () => {
+    let course: Course;
+
+    beforeEach(() => {
+      course = createCourse();
+    });
+
+    it('should create a task with an ISO deadline', () => {
+      const task = createTask(course.id, 'Essay', '2024-03-05T14:30:00Z');
+
+      expect(task.deadline).toEqual(new Date('2024-03-05T14:30:00Z'));
+      expect(send('GET', `/tasks/${task.id}`).body).toEqual(task);
+    });
+
+    it('should reject invalid task bodies with 400', () => {
+      expect(send('POST', '/tasks', { courseId: course.id, description: 'Essay', deadline: 'soon' }).status).toBe(400);
+      expect(send('POST', '/tasks', { courseId: course.id, description: 'Essay' }).status).toBe(400);
+      expect(send('POST', '/tasks', { courseId: 'missing', description: 'Essay', deadline: '2024-03-05' }).status).toBe(400);
+    });
+
+    it('should filter tasks by course and status, ordered by deadline', () => {
+      const other = createCourse('MATH201', 'Mathematics');
+      const later = createTask(course.id, 'Later', '2024-03-07');
+      const earlier = createTask(course.id, 'Earlier', '2024-03-05');
+      createTask(other.id, 'Other', '2024-03-06');
+      send('POST', `/tasks/${later.id}/complete`);
+
+      const byCourse = send('GET', `/tasks?courseId=${course.id}`).body as Task[];
+      const pending = send('GET', `/tasks?courseId=${course.id}&status=pending`).body as Task[];
+
+      expect(byCourse.map(t => t.id)).toEqual([earlier.id, later.id]);
+      expect(pending.map(t => t.id)).toEqual([earlier.id]);
+      expect(send('GET', '/tasks?status=later').status).toBe(400);
+      expect(send('GET', '/tasks?courseId=missing').status).toBe(404);
+    });
+
+    it('should update a task', () => {
+      const task = createTask(course.id, 'Essay', '2024-03-05');
+
+      const response = send('PATCH', `/tasks/${task.id}`, { description: 'Final essay', deadline: '2024-03-08T09:00' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ description: 'Final essay', deadline: new Date(2024, 2, 8, 9, 0) });
+    });
+
+    it('should create and update a task priority', () => {
+      const created = send('POST', '/tasks', { courseId: course.id, description: 'Exam', deadline: '2024-03-05', priority: 'high' });
+      expect(created.status).toBe(201);
+      expect((created.body as Task).priority).toBe('high');
+
+      const updated = send('PATCH', `/tasks/${(created.body as Task).id}`, { priority: 'critical' });
+      expect((updated.body as Task).priority).toBe('critical');
+
+      expect(send('PATCH', `/tasks/${(created.body as Task).id}`, { priority: 'urgent' }).status).toBe(400);
+      expect(createTask(course.id, 'Essay', '2024-03-06').priority).toBe('normal');
+    });
+
+    it('should create and update a task category', () => {
+      const created = send('POST', '/tasks', { courseId: course.id, description: 'Lab 1', deadline: '2024-03-05', category: 'lab' });
+      expect((created.body as Task).category).toBe('lab');
+
+      const updated = send('PATCH', `/tasks/${(created.body as Task).id}`, { category: 'project' });
+      expect((updated.body as Task).category).toBe('project');
+
+      expect(send('POST', '/tasks', { courseId: course.id, description: 'Quiz', deadline: '2024-03-05', category: 'quiz' }).status).toBe(400);
+    });
+
+    it('should check off checklist items and complete the task with the last one', () => {
+      const created = send('POST', '/tasks', {
+        courseId: course.id,
+        description: 'Essay',
+        deadline: '2024-03-05',
+        checklist: [{ id: 'outline', text: 'Outline', completed: false }, { id: 'draft', text: 'Draft', completed: false }],
+        autoComplete: true
+      });
+      expect(created.status).toBe(201);
+      const id = (created.body as Task).id;
+
+      const outline = send('POST', `/tasks/${id}/checklist/outline/complete`);
+      expect((outline.body as Task).checklist?.[0].completed).toBe(true);
+      expect((outline.body as Task).completed).toBe(false);
+
+      const draft = send('POST', `/tasks/${id}/checklist/draft/complete`);
+      expect((draft.body as Task).completed).toBe(true);
+
+      expect(send('POST', `/tasks/${id}/checklist/revise/complete`).status).toBe(404);
+      expect(send('PATCH', `/tasks/${id}`, { checklist: [{ id: 'a', text: '' }] }).status).toBe(400);
+      expect(send('PATCH', `/tasks/${id}`, { autoComplete: 'yes' }).status).toBe(400);
+    });
+
+    it('should set an estimate and log time with the timer routes', () => {
+      const created = send('POST', '/tasks', { courseId: course.id, description: 'Essay', deadline: '2024-03-05', estimatedHours: 3 });
+      const id = (created.body as Task).id;
+      expect((created.body as Task).estimatedHours).toBe(3);
+
+      expect((send('POST', `/tasks/${id}/timer/start`).body as Task).timerStartedAt).toBeInstanceOf(Date);
+      expect(send('POST', `/tasks/${id}/timer/start`).status).toBe(400);
+
+      const stopped = send('POST', `/tasks/${id}/timer/stop`);
+      expect((stopped.body as Task).timeSessions).toHaveLength(1);
+      expect((stopped.body as Task).timerStartedAt).toBeUndefined();
+
+      expect(send('PATCH', `/tasks/${id}`, { estimatedHours: -1 }).status).toBe(400);
+      expect(send('PATCH', `/tasks/${id}`, { estimatedHours: '2' }).status).toBe(400);
+      expect(send('PATCH', `/tasks/${id}`, { timeSessions: [] }).status).toBe(400);
+    });
+
+    it('should not allow completion to be set through PATCH', () => {
+      const task = createTask(course.id, 'Essay', '2024-03-05');
+
+      const response = send('PATCH', `/tasks/${task.id}`, { completed: true });
+
+      expect(response.status).toBe(400);
+      expect(tracker.getTask(task.id)?.completed).toBe(false);
+    });
+
+    it('should mark a task complete and incomplete', () => {
+      const task = createTask(course.id, 'Essay', '2024-03-05');
+
+      const completed = send('POST', `/tasks/${task.id}/complete`);
+      expect(completed.status).toBe(200);
+      expect((completed.body as Task).completed).toBe(true);
+
+      const reopened = send('POST', `/tasks/${task.id}/incomplete`);
+      expect((reopened.body as Task).completed).toBe(false);
+    });
+
+    it('should move a deleted task to the trash', () => {
+      const task = createTask(course.id, 'Essay', '2024-03-05');
+
+      expect(send('DELETE', `/tasks/${task.id}`).status).toBe(204);
+
+      expect(send('GET', `/tasks/${task.id}`).status).toBe(404);
+      expect(tracker.getTrash().tasks.map(t => t.id)).toEqual([task.id]);
+    });
+
+    it('should answer 404 for a task that does not exist', () => {
+      expect(send('PATCH', '/tasks/missing', { description: 'Essay' }).status).toBe(404);
+      expect(send('POST', '/tasks/missing/complete').status).toBe(404);
+      expect(send('DELETE', '/tasks/missing').status).toBe(404);
+    });
+  });
+
+  describe('weeks and statistics', () => {
+    beforeEach(() => {
+      const course = createCourse();
+      const essay = createTask(course.id, 'Essay', '2024-03-07');
+      createTask(course.id, 'Quiz', '2024-03-05');
+      createTask(course.id, 'Next week', '2024-03-12');
+      send('POST', `/tasks/${essay.id}/complete`);
+    });
+
+    it('should return the tasks of a week', () => {
+      const response = send('GET', '/weeks/2024/10');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        weekNumber: 10,
+        year: 2024,
+        startDate: new Date(2024, 2, 4),
+        endDate: new Date(2024, 2, 10)
+      });
+      expect((response.body as { tasks: Task[] }).tasks.map(t => t.description)).toEqual(['Quiz', 'Essay']);
+    });
+
+    it('should return weekly statistics with maps as objects', () => {
+      const response = send('GET', '/stats/2024/10');
+
+      expect(response.status).toBe(200);
+      const stats = JSON.parse(JSON.stringify(response.body));
+      expect(stats).toMatchObject({ totalTasks: 2, completedTasks: 1, completionPercentage: 50 });
+      expect(stats.statsByDepartment['Computer Science']).toEqual({
+        department: 'Computer Science',
+        totalTasks: 2,
+        completedTasks: 1,
+        completionPercentage: 50,
+        estimatedHours: 0,
+        actualHours: 0
+      });
+    });
+
+    it('should reject weeks that do not exist', () => {
+      expect(send('GET', '/weeks/2024/53').status).toBe(400);
+      expect(send('GET', '/stats/2024/0').status).toBe(400);
+      expect(send('GET', '/weeks/later/1').status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,588 @@
+/**
+ * TrackerApi maps REST routes to ITrackerService methods
+ * Independent of the HTTP server, so routes can be tested without opening a port
+ */
+
+import { Course, Task, TaskPriority, TaskCategory, ChecklistItem, WeekView, Result } from '../models/types.js';
+import { ValidationError, NotFoundError, ConflictError } from '../models/errors.js';
+import { ITrackerService } from '../services/TrackerService.js';
+import { DeletionStrategy } from '../services/CourseService.js';
+import { parseCsvDate } from '../services/CsvService.js';
+import { getWeekBounds, isValidWeek } from '../utils/weekCalculations.js';
+import { OPENAPI_DOCUMENT } from './openapi.js';
+
+/**
+ * HTTP methods the API routes on
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * A request after the server has parsed the URL and JSON body
+ */
+export interface ApiRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: unknown;            // Parsed JSON body; undefined if the request had none
+}
+
+/**
+ * A response to be serialized as JSON; no body means 204-style empty responses
+ */
+export interface ApiResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Body of every error response
+ */
+export interface ApiErrorBody {
+  error: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * A route: method, path pattern with `:name` parameters, and handler
+ */
+interface Route {
+  method: HttpMethod;
+  path: string;
+  handler: (params: Record<string, string>, request: ApiRequest) => ApiResponse;
+}
+
+const TASK_STATUSES = ['pending', 'completed', 'overdue'];
+const DELETION_STRATEGIES: DeletionStrategy[] = ['cascade', 'reassign'];
+
+/**
+ * Get the HTTP status for an error
+ * ValidationError is 400, NotFoundError 404, ConflictError 409 (another client changed the data;
+ * retry) and any other error, StorageError included, 500.
+ */
+export function statusForError(error: Error): number {
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  if (error instanceof NotFoundError) {
+    return 404;
+  }
+  if (error instanceof ConflictError) {
+    return 409;
+  }
+  return 500;
+}
+
+/**
+ * Build an error response
+ */
+export function errorResponse(status: number, error: Error): ApiResponse {
+  const body: ApiErrorBody = { error: { type: error.name, message: error.message } };
+  return { status, body };
+}
+
+/**
+ * Turn a service result into a response
+ */
+function fromResult<T>(result: Result<T, Error>, status: number = 200): ApiResponse {
+  if (!result.success) {
+    return errorResponse(statusForError(result.error), result.error);
+  }
+  return status === 204 ? { status } : { status, body: result.value };
+}
+
+/**
+ * Read the JSON body as an object of known fields
+ * @param allowed - Field names the body may contain
+ */
+function readBody(request: ApiRequest, allowed: string[]): Result<Record<string, unknown>, ValidationError> {
+  const body = request.body;
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { success: false, error: new ValidationError('Request body must be a JSON object') };
+  }
+
+  const unknown = Object.keys(body).filter(field => !allowed.includes(field));
+  if (unknown.length > 0) {
+    return { success: false, error: new ValidationError(`Unknown field: ${unknown.join(', ')}`) };
+  }
+  return { success: true, value: body as Record<string, unknown> };
+}
+
+/**
+ * Read a string field of a body
+ * @param required - Whether a missing field is an error
+ */
+function readString(body: Record<string, unknown>, field: string, required: boolean): Result<string | undefined, ValidationError> {
+  const value = body[field];
+  if (value === undefined && !required) {
+    return { success: true, value: undefined };
+  }
+  if (typeof value !== 'string') {
+    return { success: false, error: new ValidationError(`Field "${field}" must be a string`) };
+  }
+  return { success: true, value };
+}
+
+/**
+ * Read a number field of a body; a missing field is never an error
+ */
+function readNumber(body: Record<string, unknown>, field: string): Result<number | undefined, ValidationError> {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'number') {
+    return { success: false, error: new ValidationError(`Field "${field}" must be a number`) };
+  }
+  return { success: true, value };
+}
+
+/**
+ * Read a boolean field of a body; a missing field is never an error
+ */
+function readBoolean(body: Record<string, unknown>, field: string): Result<boolean | undefined, ValidationError> {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'boolean') {
+    return { success: false, error: new ValidationError(`Field "${field}" must be a boolean`) };
+  }
+  return { success: true, value };
+}
+
+/**
+ * Read a date field of a body: an ISO 8601 date-time, or YYYY-MM-DD for the end of that day
+ */
+function readDate(body: Record<string, unknown>, field: string, required: boolean): Result<Date | undefined, ValidationError> {
+  const text = readString(body, field, required);
+  if (!text.success) {
+    return text;
+  }
+  if (text.value === undefined) {
+    return { success: true, value: undefined };
+  }
+  const date = parseCsvDate(text.value);
+  if (!date) {
+    return {
+      success: false,
+      error: new ValidationError(`Field "${field}" must be an ISO 8601 date-time or YYYY-MM-DD date`)
+    };
+  }
+  return { success: true, value: date };
+}
+
+/**
+ * Parse the :year and :week path parameters
+ */
+function readWeek(params: Record<string, string>): Result<{ weekNumber: number; year: number }, ValidationError> {
+  const year = Number(params.year);
+  const weekNumber = Number(params.week);
+  if (!Number.isInteger(year) || year < 1 || !isValidWeek(weekNumber, year)) {
+    return { success: false, error: new ValidationError(`Invalid week: ${params.week} of ${params.year}`) };
+  }
+  return { success: true, value: { weekNumber, year } };
+}
+
+/**
+ * Match a path against a route pattern
+ * @returns The decoded path parameters, or null if the path does not match
+ */
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/');
+  const pathParts = path.replace(/\/+$/, '').split('/');
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      if (pathParts[i] === '') {
+        return null;
+      }
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * REST API over a TrackerService
+ *
+ * Requests and responses are plain objects; the HTTP server parses and serializes JSON.
+ * Dates in responses serialize as ISO 8601 strings, and WeeklyStatistics maps as objects.
+ */
+export class TrackerApi {
+  private tracker: ITrackerService;
+  private routes: Route[];
+
+  constructor(tracker: ITrackerService) {
+    this.tracker = tracker;
+    this.routes = [
+      { method: 'GET', path: '/openapi.json', handler: () => ({ status: 200, body: OPENAPI_DOCUMENT }) },
+
+      { method: 'GET', path: '/courses', handler: () => this.listCourses() },
+      { method: 'POST', path: '/courses', handler: (_params, request) => this.createCourse(request) },
+      { method: 'GET', path: '/courses/:id', handler: params => this.getCourse(params.id) },
+      { method: 'PATCH', path: '/courses/:id', handler: (params, request) => this.updateCourse(params.id, request) },
+      { method: 'DELETE', path: '/courses/:id', handler: (params, request) => this.deleteCourse(params.id, request) },
+
+      { method: 'GET', path: '/tasks', handler: (_params, request) => this.listTasks(request) },
+      { method: 'POST', path: '/tasks', handler: (_params, request) => this.createTask(request) },
+      { method: 'GET', path: '/tasks/:id', handler: params => this.getTask(params.id) },
+      { method: 'PATCH', path: '/tasks/:id', handler: (params, request) => this.updateTask(params.id, request) },
+      { method: 'DELETE', path: '/tasks/:id', handler: params => this.deleteTask(params.id) },
+      { method: 'POST', path: '/tasks/:id/complete', handler: params => this.setCompleted(params.id, true) },
+      { method: 'POST', path: '/tasks/:id/incomplete', handler: params => this.setCompleted(params.id, false) },
+      {
+        method: 'POST',
+        path: '/tasks/:id/checklist/:itemId/complete',
+        handler: params => this.setChecklistItemCompleted(params.id, params.itemId, true)
+      },
+      {
+        method: 'POST',
+        path: '/tasks/:id/checklist/:itemId/incomplete',
+        handler: params => this.setChecklistItemCompleted(params.id, params.itemId, false)
+      },
+      { method: 'POST', path: '/tasks/:id/timer/start', handler: params => this.setTimerRunning(params.id, true) },
+      { method: 'POST', path: '/tasks/:id/timer/stop', handler: params => this.setTimerRunning(params.id, false) },
+
+      { method: 'GET', path: '/weeks/:year/:week', handler: params => this.getWeek(params) },
+      { method: 'GET', path: '/stats/:year/:week', handler: params => this.getStatistics(params) }
+    ];
+  }
+
+  /**
+   * List the routes as method and path pattern pairs
+   */
+  getRoutes(): { method: HttpMethod; path: string }[] {
+    return this.routes.map(({ method, path }) => ({ method, path }));
+  }
+
+  /**
+   * Handle a request
+   * A path that matches a route with another method gets 405 with an Allow header.
+   */
+  handle(request: ApiRequest): ApiResponse {
+    const allowed: HttpMethod[] = [];
+    for (const route of this.routes) {
+      const params = matchPath(route.path, request.path);
+      if (!params) {
+        continue;
+      }
+      if (route.method === request.method) {
+        try {
+          return route.handler(params, request);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          return errorResponse(500, new Error(`Internal error: ${message}`));
+        }
+      }
+      allowed.push(route.method);
+    }
+
+    if (allowed.length > 0) {
+      const response = errorResponse(405, new Error(`Method ${request.method} not allowed for ${request.path}`));
+      return { ...response, headers: { Allow: allowed.join(', ') } };
+    }
+    return errorResponse(404, new NotFoundError(`No route for ${request.method} ${request.path}`));
+  }
+
+  // ==================== Courses ====================
+
+  private listCourses(): ApiResponse {
+    return { status: 200, body: this.tracker.getAllCourses() };
+  }
+
+  private createCourse(request: ApiRequest): ApiResponse {
+    const body = readBody(request, ['name', 'department']);
+    if (!body.success) {
+      return fromResult(body);
+    }
+    const name = readString(body.value, 'name', true);
+    if (!name.success) {
+      return fromResult(name);
+    }
+    const department = readString(body.value, 'department', true);
+    if (!department.success) {
+      return fromResult(department);
+    }
+
+    return fromResult(this.tracker.createCourse(name.value!, department.value!), 201);
+  }
+
+  private getCourse(id: string): ApiResponse {
+    return fromResult(this.findCourse(id));
+  }
+
+  private updateCourse(id: string, request: ApiRequest): ApiResponse {
+    const course = this.findCourse(id);
+    if (!course.success) {
+      return fromResult(course);
+    }
+    const body = readBody(request, ['name', 'department']);
+    if (!body.success) {
+      return fromResult(body);
+    }
+
+    const updates: Partial<Course> = {};
+    for (const field of ['name', 'department'] as const) {
+      const value = readString(body.value, field, false);
+      if (!value.success) {
+        return fromResult(value);
+      }
+      if (value.value !== undefined) {
+        updates[field] = value.value;
+      }
+    }
+
+    return fromResult(this.tracker.updateCourse(id, updates));
+  }
+
+  /**
+   * Delete a course; a course with tasks needs ?strategy=cascade or ?strategy=reassign&targetCourseId=...
+   */
+  private deleteCourse(id: string, request: ApiRequest): ApiResponse {
+    const course = this.findCourse(id);
+    if (!course.success) {
+      return fromResult(course);
+    }
+
+    const strategy = request.query.get('strategy') ?? undefined;
+    if (strategy !== undefined && !DELETION_STRATEGIES.includes(strategy as DeletionStrategy)) {
+      return errorResponse(400, new ValidationError(`Invalid strategy: ${strategy}. Use cascade or reassign.`));
+    }
+    const targetCourseId = request.query.get('targetCourseId') ?? undefined;
+
+    return fromResult(this.tracker.deleteCourse(id, strategy as DeletionStrategy | undefined, targetCourseId), 204);
+  }
+
+  // ==================== Tasks ====================
+
+  /**
+   * List tasks by deadline, optionally filtered by ?courseId= and ?status=pending|completed|overdue
+   */
+  private listTasks(request: ApiRequest): ApiResponse {
+    const status = request.query.get('status');
+    if (status !== null && !TASK_STATUSES.includes(status)) {
+      return errorResponse(400, new ValidationError(`Invalid status: ${status}. Use ${TASK_STATUSES.join(', ')}.`));
+    }
+
+    let tasks = status === 'overdue' ? this.tracker.getOverdueTasks() : this.tracker.getAllTasks();
+    const courseId = request.query.get('courseId');
+    if (courseId !== null) {
+      const course = this.findCourse(courseId);
+      if (!course.success) {
+        return fromResult(course);
+      }
+      tasks = tasks.filter(task => task.courseId === courseId);
+    }
+    if (status === 'pending') {
+      tasks = tasks.filter(task => !task.completed);
+    } else if (status === 'completed') {
+      tasks = tasks.filter(task => task.completed);
+    }
+
+    return { status: 200, body: [...tasks].sort((a, b) => a.deadline.getTime() - b.deadline.getTime()) };
+  }
+
+  private createTask(request: ApiRequest): ApiResponse {
+    const body = readBody(request, ['courseId', 'description', 'deadline', 'priority', 'category', 'checklist', 'autoComplete', 'estimatedHours']);
+    if (!body.success) {
+      return fromResult(body);
+    }
+    const courseId = readString(body.value, 'courseId', true);
+    if (!courseId.success) {
+      return fromResult(courseId);
+    }
+    const description = readString(body.value, 'description', true);
+    if (!description.success) {
+      return fromResult(description);
+    }
+    const deadline = readDate(body.value, 'deadline', true);
+    if (!deadline.success) {
+      return fromResult(deadline);
+    }
+    // The priority, category, checklist and estimate themselves are validated by the task service
+    const priority = readString(body.value, 'priority', false);
+    if (!priority.success) {
+      return fromResult(priority);
+    }
+    const category = readString(body.value, 'category', false);
+    if (!category.success) {
+      return fromResult(category);
+    }
+    const autoComplete = readBoolean(body.value, 'autoComplete');
+    if (!autoComplete.success) {
+      return fromResult(autoComplete);
+    }
+    const estimatedHours = readNumber(body.value, 'estimatedHours');
+    if (!estimatedHours.success) {
+      return fromResult(estimatedHours);
+    }
+
+    return fromResult(
+      this.tracker.createTask(courseId.value!, description.value!, deadline.value!, {
+        priority: priority.value as TaskPriority | undefined,
+        category: category.value as TaskCategory | undefined,
+        checklist: body.value.checklist as ChecklistItem[] | undefined,
+        autoComplete: autoComplete.value,
+        estimatedHours: estimatedHours.value
+      }),
+      201
+    );
+  }
+
+  private getTask(id: string): ApiResponse {
+    return fromResult(this.findTask(id));
+  }
+
+  private updateTask(id: string, request: ApiRequest): ApiResponse {
+    const task = this.findTask(id);
+    if (!task.success) {
+      return fromResult(task);
+    }
+    const body = readBody(request, ['courseId', 'description', 'deadline', 'priority', 'category', 'checklist', 'autoComplete', 'estimatedHours']);
+    if (!body.success) {
+      return fromResult(body);
+    }
+
+    const updates: Partial<Task> = {};
+    for (const field of ['courseId', 'description'] as const) {
+      const value = readString(body.value, field, false);
+      if (!value.success) {
+        return fromResult(value);
+      }
+      if (value.value !== undefined) {
+        updates[field] = value.value;
+      }
+    }
+    const deadline = readDate(body.value, 'deadline', false);
+    if (!deadline.success) {
+      return fromResult(deadline);
+    }
+    if (deadline.value) {
+      updates.deadline = deadline.value;
+    }
+    const priority = readString(body.value, 'priority', false);
+    if (!priority.success) {
+      return fromResult(priority);
+    }
+    if (priority.value !== undefined) {
+      updates.priority = priority.value as TaskPriority;
+    }
+    const category = readString(body.value, 'category', false);
+    if (!category.success) {
+      return fromResult(category);
+    }
+    if (category.value !== undefined) {
+      updates.category = category.value as TaskCategory;
+    }
+    if (body.value.checklist !== undefined) {
+      updates.checklist = body.value.checklist as ChecklistItem[];
+    }
+    const autoComplete = readBoolean(body.value, 'autoComplete');
+    if (!autoComplete.success) {
+      return fromResult(autoComplete);
+    }
+    if (autoComplete.value !== undefined) {
+      updates.autoComplete = autoComplete.value;
+    }
+    const estimatedHours = readNumber(body.value, 'estimatedHours');
+    if (!estimatedHours.success) {
+      return fromResult(estimatedHours);
+    }
+    if (estimatedHours.value !== undefined) {
+      updates.estimatedHours = estimatedHours.value;
+    }
+
+    return fromResult(this.tracker.updateTask(id, updates));
+  }
+
+  private deleteTask(id: string): ApiResponse {
+    const task = this.findTask(id);
+    if (!task.success) {
+      return fromResult(task);
+    }
+    return fromResult(this.tracker.deleteTask(id), 204);
+  }
+
+  private setCompleted(id: string, completed: boolean): ApiResponse {
+    const task = this.findTask(id);
+    if (!task.success) {
+      return fromResult(task);
+    }
+    return fromResult(completed ? this.tracker.markTaskComplete(id) : this.tracker.markTaskIncomplete(id));
+  }
+
+  private setChecklistItemCompleted(id: string, itemId: string, completed: boolean): ApiResponse {
+    const task = this.findTask(id);
+    if (!task.success) {
+      return fromResult(task);
+    }
+    return fromResult(this.tracker.setChecklistItemCompleted(id, itemId, completed));
+  }
+
+  private setTimerRunning(id: string, running: boolean): ApiResponse {
+    const task = this.findTask(id);
+    if (!task.success) {
+      return fromResult(task);
+    }
+    return fromResult(running ? this.tracker.startTaskTimer(id) : this.tracker.stopTaskTimer(id));
+  }
+
+  // ==================== Weeks ====================
+
+  private getWeek(params: Record<string, string>): ApiResponse {
+    const week = readWeek(params);
+    if (!week.success) {
+      return fromResult(week);
+    }
+
+    const { weekNumber, year } = week.value;
+    const tasks = this.tracker.getTasksForWeek(weekNumber, year)
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+    const weekView: WeekView = { weekNumber, year, ...getWeekBounds(weekNumber, year), tasks };
+    return { status: 200, body: weekView };
+  }
+
+  private getStatistics(params: Record<string, string>): ApiResponse {
+    const week = readWeek(params);
+    if (!week.success) {
+      return fromResult(week);
+    }
+
+    const stats = this.tracker.getWeeklyStatistics(week.value.weekNumber, week.value.year);
+    return {
+      status: 200,
+      body: {
+        ...stats,
+        statsByDepartment: Object.fromEntries(stats.statsByDepartment),
+        statsByCourse: Object.fromEntries(stats.statsByCourse),
+        statsByPriority: Object.fromEntries(stats.statsByPriority),
+        statsByCategory: Object.fromEntries(stats.statsByCategory)
+      }
+    };
+  }
+
+  // ==================== Lookup ====================
+
+  private findCourse(id: string): Result<Course, NotFoundError> {
+    const course = this.tracker.getCourse(id);
+    if (!course) {
+      return { success: false, error: new NotFoundError(`Course with ID "${id}" not found`) };
+    }
+    return { success: true, value: course };
+  }
+
+  private findTask(id: string): Result<Task, NotFoundError> {
+    const task = this.tracker.getTask(id);
+    if (!task) {
+      return { success: false, error: new NotFoundError(`Task with ID "${id}" not found`) };
+    }
+    return { success: true, value: task };
+  }
+}
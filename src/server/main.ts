@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the tracker REST API server
+ * Usage: main.ts [--data <dir>] [--host <host>] [--port <port>]
+ */
+
+import { parseArgs } from '../cli/args.js';
+import { openTracker, getDataDirectory } from '../cli/cli.js';
+import { createTrackerServer } from './server.js';
+
+/**
+ * Environment variable holding the API token; requests need it as a bearer token when set
+ */
+const API_TOKEN_ENV = 'TRACKER_API_TOKEN';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 4310;
+
+const parsed = parseArgs(process.argv.slice(2), ['data', 'host', 'port'], []);
+if (!parsed.success) {
+  console.error(`Error: ${parsed.error.message}`);
+  process.exit(2);
+}
+
+const { options } = parsed.value;
+const host = (options.get('host') as string | undefined) ?? DEFAULT_HOST;
+const port = Number(options.get('port') ?? DEFAULT_PORT);
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`Error: Invalid port: ${options.get('port')}`);
+  process.exit(2);
+}
+
+const directory = getDataDirectory(options, process.env);
+const tracker = openTracker(directory, {
+  onMaterializeError: error => console.error(`Warning: recurring tasks could not be created: ${error.message}`)
+});
+if (!tracker.success) {
+  console.error(`Error: ${tracker.error.message}`);
+  process.exit(1);
+}
+
+const server = createTrackerServer(tracker.value, { apiToken: process.env[API_TOKEN_ENV] || undefined });
+server.listen(port, host, () => {
+  console.log(`Tracker API for ${directory} listening on http://${host}:${port}`);
+});
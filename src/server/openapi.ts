@@ -0,0 +1,495 @@
+/**
+ * OpenAPI 3 description of the tracker REST API, served at GET /openapi.json
+ */
+
+import { TASK_PRIORITIES } from '../utils/priority.js';
+import { TASK_CATEGORIES } from '../utils/category.js';
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+const jsonResponse = (description: string, schema: object) => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+const jsonBody = (ref: string) => ({
+  required: true,
+  content: { 'application/json': { schema: { $ref: ref } } }
+});
+
+const idParameter = (description: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string' }
+});
+
+const checklistItemParameter = {
+  name: 'itemId',
+  in: 'path',
+  required: true,
+  description: 'Checklist item ID',
+  schema: { type: 'string' }
+};
+
+const weekParameters = [
+  { name: 'year', in: 'path', required: true, description: 'ISO week-numbering year', schema: { type: 'integer' } },
+  { name: 'week', in: 'path', required: true, description: 'ISO week number', schema: { type: 'integer', minimum: 1, maximum: 53 } }
+];
+
+const course = { $ref: '#/components/schemas/Course' };
+const task = { $ref: '#/components/schemas/Task' };
+const priority = { type: 'string', enum: TASK_PRIORITIES };
+const category = { type: 'string', enum: TASK_CATEGORIES };
+const checklist = { type: 'array', items: { $ref: '#/components/schemas/ChecklistItem' } };
+const autoComplete = { type: 'boolean', description: 'Complete the task once every checklist item is done' };
+const hours = { type: 'number', minimum: 0 };
+
+const responses = {
+  badRequest: errorResponse('Invalid request body or parameters (ValidationError)'),
+  notFound: errorResponse('Course or task not found (NotFoundError)'),
+  conflict: errorResponse('Another client changed the data; retry the request'),
+  serverError: errorResponse('The data could not be read or saved (StorageError)')
+};
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Weekly Course Tracker API',
+    version: '1.0.0',
+    description: 'Courses, tasks, weekly views and statistics of a tracker data directory. ' +
+      'Errors have the body { "error": { "type", "message" } }.'
+  },
+  security: [{}, { bearerAuth: [] }],
+  paths: {
+    '/courses': {
+      get: {
+        summary: 'List courses',
+        responses: { 200: jsonResponse('All courses', { type: 'array', items: course }) }
+      },
+      post: {
+        summary: 'Create a course',
+        requestBody: jsonBody('#/components/schemas/CourseInput'),
+        responses: {
+          201: jsonResponse('The created course', course),
+          400: responses.badRequest,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/courses/{id}': {
+      parameters: [idParameter('Course ID')],
+      get: {
+        summary: 'Get a course',
+        responses: { 200: jsonResponse('The course', course), 404: responses.notFound }
+      },
+      patch: {
+        summary: 'Update a course',
+        requestBody: jsonBody('#/components/schemas/CourseUpdate'),
+        responses: {
+          200: jsonResponse('The updated course', course),
+          400: responses.badRequest,
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      },
+      delete: {
+        summary: 'Move a course to the trash',
+        description: 'A course with tasks needs a strategy: cascade moves its tasks to the trash, reassign moves them to targetCourseId.',
+        parameters: [
+          { name: 'strategy', in: 'query', schema: { type: 'string', enum: ['cascade', 'reassign'] } },
+          { name: 'targetCourseId', in: 'query', schema: { type: 'string' } }
+        ],
+        responses: {
+          204: { description: 'The course was deleted' },
+          400: responses.badRequest,
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks': {
+      get: {
+        summary: 'List tasks by deadline',
+        parameters: [
+          { name: 'courseId', in: 'query', schema: { type: 'string' } },
+          { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'completed', 'overdue'] } }
+        ],
+        responses: {
+          200: jsonResponse('Matching tasks', { type: 'array', items: task }),
+          400: responses.badRequest,
+          404: responses.notFound
+        }
+      },
+      post: {
+        summary: 'Create a task',
+        requestBody: jsonBody('#/components/schemas/TaskInput'),
+        responses: {
+          201: jsonResponse('The created task', task),
+          400: responses.badRequest,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}': {
+      parameters: [idParameter('Task ID')],
+      get: {
+        summary: 'Get a task',
+        responses: { 200: jsonResponse('The task', task), 404: responses.notFound }
+      },
+      patch: {
+        summary: 'Update a task',
+        requestBody: jsonBody('#/components/schemas/TaskUpdate'),
+        responses: {
+          200: jsonResponse('The updated task', task),
+          400: responses.badRequest,
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      },
+      delete: {
+        summary: 'Move a task to the trash',
+        responses: {
+          204: { description: 'The task was deleted' },
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}/complete': {
+      parameters: [idParameter('Task ID')],
+      post: {
+        summary: 'Mark a task complete',
+        responses: {
+          200: jsonResponse('The updated task', task),
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}/incomplete': {
+      parameters: [idParameter('Task ID')],
+      post: {
+        summary: 'Mark a task incomplete',
+        responses: {
+          200: jsonResponse('The updated task', task),
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}/checklist/{itemId}/complete': {
+      parameters: [idParameter('Task ID'), checklistItemParameter],
+      post: {
+        summary: 'Check off a checklist item',
+        responses: {
+          200: jsonResponse('The updated task', task),
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}/checklist/{itemId}/incomplete': {
+      parameters: [idParameter('Task ID'), checklistItemParameter],
+      post: {
+        summary: 'Uncheck a checklist item',
+        responses: {
+          200: jsonResponse('The updated task', task),
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}/timer/start': {
+      parameters: [idParameter('Task ID')],
+      post: {
+        summary: 'Start the timer of a task',
+        responses: {
+          200: jsonResponse('The updated task', task),
+          400: responses.badRequest,
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/tasks/{id}/timer/stop': {
+      parameters: [idParameter('Task ID')],
+      post: {
+        summary: 'Stop the timer of a task and log the session',
+        responses: {
+          200: jsonResponse('The updated task', task),
+          400: responses.badRequest,
+          404: responses.notFound,
+          409: responses.conflict,
+          500: responses.serverError
+        }
+      }
+    },
+    '/weeks/{year}/{week}': {
+      parameters: weekParameters,
+      get: {
+        summary: 'Get the tasks due in a week',
+        responses: {
+          200: jsonResponse('The week', { $ref: '#/components/schemas/WeekView' }),
+          400: responses.badRequest
+        }
+      }
+    },
+    '/stats/{year}/{week}': {
+      parameters: weekParameters,
+      get: {
+        summary: 'Get statistics for a week',
+        responses: {
+          200: jsonResponse('The statistics', { $ref: '#/components/schemas/WeeklyStatistics' }),
+          400: responses.badRequest
+        }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'Get this document',
+        responses: { 200: jsonResponse('OpenAPI document', { type: 'object' }) }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Required when the server is started with an API token'
+      }
+    },
+    schemas: {
+      Course: {
+        type: 'object',
+        required: ['id', 'name', 'department', 'createdAt'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          department: { type: 'string' },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      CourseInput: {
+        type: 'object',
+        required: ['name', 'department'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string' },
+          department: { type: 'string' }
+        }
+      },
+      CourseUpdate: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string' },
+          department: { type: 'string' }
+        }
+      },
+      Task: {
+        type: 'object',
+        required: ['id', 'courseId', 'description', 'deadline', 'priority', 'category', 'completed', 'createdAt'],
+        properties: {
+          id: { type: 'string' },
+          courseId: { type: 'string' },
+          description: { type: 'string' },
+          deadline: { type: 'string', format: 'date-time' },
+          priority,
+          category,
+          completed: { type: 'boolean' },
+          completedAt: { type: 'string', format: 'date-time' },
+          createdAt: { type: 'string', format: 'date-time' },
+          externalUid: { type: 'string' },
+          seriesId: { type: 'string', description: 'Shared by the occurrences of a recurring task' },
+          occurrenceDate: { type: 'string', format: 'date-time', description: 'Scheduled deadline of the occurrence' },
+          recurrence: { $ref: '#/components/schemas/TaskRecurrence' },
+          checklist,
+          autoComplete,
+          estimatedHours: { ...hours, description: 'Expected effort in hours' },
+          timeSessions: { type: 'array', items: { $ref: '#/components/schemas/TimeSession' } },
+          timerStartedAt: { type: 'string', format: 'date-time', description: 'Start of the running timer' }
+        }
+      },
+      TimeSession: {
+        type: 'object',
+        required: ['start', 'end'],
+        properties: {
+          start: { type: 'string', format: 'date-time' },
+          end: { type: 'string', format: 'date-time' }
+        }
+      },
+      ChecklistItem: {
+        type: 'object',
+        required: ['id', 'text', 'completed'],
+        properties: {
+          id: { type: 'string', description: 'Unique within the task' },
+          text: { type: 'string' },
+          completed: { type: 'boolean' }
+        }
+      },
+      TaskRecurrence: {
+        type: 'object',
+        description: 'Series definition, held by the earliest remaining occurrence',
+        required: ['rule', 'start', 'courseId', 'description', 'priority', 'category', 'exceptions'],
+        properties: {
+          rule: {
+            type: 'object',
+            required: ['interval', 'weekdays'],
+            properties: {
+              interval: { type: 'integer', minimum: 1, description: 'Repeat every N weeks' },
+              weekdays: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: '0 is Sunday' },
+              until: { type: 'string', format: 'date-time' },
+              count: { type: 'integer', minimum: 1 }
+            }
+          },
+          start: { type: 'string', format: 'date-time' },
+          courseId: { type: 'string' },
+          description: { type: 'string' },
+          priority,
+          category,
+          estimatedHours: hours,
+          exceptions: { type: 'array', items: { type: 'string', format: 'date-time' } }
+        }
+      },
+      TaskInput: {
+        type: 'object',
+        required: ['courseId', 'description', 'deadline'],
+        additionalProperties: false,
+        properties: {
+          courseId: { type: 'string' },
+          description: { type: 'string' },
+          deadline: { type: 'string', description: 'ISO 8601 date-time, or YYYY-MM-DD for the end of that day' },
+          priority: { ...priority, default: 'normal' },
+          category: { ...category, default: 'assignment' },
+          checklist,
+          autoComplete: { ...autoComplete, default: false },
+          estimatedHours: { ...hours, description: 'Expected effort in hours' }
+        }
+      },
+      TaskUpdate: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          courseId: { type: 'string' },
+          description: { type: 'string' },
+          deadline: { type: 'string', description: 'ISO 8601 date-time, or YYYY-MM-DD for the end of that day' },
+          priority,
+          category,
+          checklist: { ...checklist, description: 'Replaces the whole checklist' },
+          autoComplete,
+          estimatedHours: { ...hours, description: 'Expected effort in hours; 0 clears the estimate' }
+        }
+      },
+      WeekView: {
+        type: 'object',
+        required: ['weekNumber', 'year', 'startDate', 'endDate', 'tasks'],
+        properties: {
+          weekNumber: { type: 'integer' },
+          year: { type: 'integer' },
+          startDate: { type: 'string', format: 'date-time' },
+          endDate: { type: 'string', format: 'date-time' },
+          tasks: { type: 'array', items: task }
+        }
+      },
+      WeeklyStatistics: {
+        type: 'object',
+        properties: {
+          weekNumber: { type: 'integer' },
+          year: { type: 'integer' },
+          totalTasks: { type: 'integer' },
+          completedTasks: { type: 'integer' },
+          completionPercentage: { type: 'number' },
+          overdueTasks: { type: 'integer' },
+          estimatedHours: hours,
+          actualHours: hours,
+          statsByDepartment: {
+            type: 'object',
+            description: 'Keyed by department',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                department: { type: 'string' },
+                totalTasks: { type: 'integer' },
+                completedTasks: { type: 'integer' },
+                completionPercentage: { type: 'number' },
+                estimatedHours: hours,
+                actualHours: hours
+              }
+            }
+          },
+          statsByCourse: {
+            type: 'object',
+            description: 'Keyed by course ID',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                courseId: { type: 'string' },
+                courseName: { type: 'string' },
+                totalTasks: { type: 'integer' },
+                completedTasks: { type: 'integer' },
+                completionPercentage: { type: 'number' },
+                estimatedHours: hours,
+                actualHours: hours
+              }
+            }
+          },
+          statsByPriority: {
+            type: 'object',
+            description: 'Keyed by priority, most important first',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                priority,
+                totalTasks: { type: 'integer' },
+                completedTasks: { type: 'integer' }
+              }
+            }
+          },
+          statsByCategory: {
+            type: 'object',
+            description: 'Keyed by category',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                category,
+                totalTasks: { type: 'integer' },
+                completedTasks: { type: 'integer' }
+              }
+            }
+          }
+        }
+      },
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['type', 'message'],
+            properties: {
+              type: { type: 'string', example: 'ValidationError' },
+              message: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,106 @@
+/**
+ * Tests for the HTTP server
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createTrackerServer, TrackerServerOptions } from './server.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+describe('createTrackerServer', () => {
+  let server: http.Server | null = null;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  /**
+   * Start a server on a free port over a fresh tracker
+   * @returns The base URL and the tracker
+   */
+  async function start(options: TrackerServerOptions = {}, storage: MockStorage = new MockStorage()) {
+    const tracker = new TrackerService(storage);
+    tracker.initialize();
+    server = createTrackerServer(tracker, options);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { baseUrl: `http://127.0.0.1:${port}`, tracker };
+  }
+
+  it('should parse JSON bodies and serialize JSON responses', async () => {
+    const { baseUrl } = await start();
+
+    const response = await fetch(`${baseUrl}/courses`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'CS101', department: 'Computer Science' })
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('content-type')).toContain('application/json');
+    const course = await response.json();
+    expect(course.name).toBe('CS101');
+    expect(typeof course.createdAt).toBe('string');
+  });
+
+  it('should answer malformed JSON with 400', async () => {
+    const { baseUrl } = await start();
+
+    const response = await fetch(`${baseUrl}/courses`, { method: 'POST', body: '{"name": ' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.type).toBe('ValidationError');
+  });
+
+  it('should answer bodies over the size limit with 413', async () => {
+    const { baseUrl } = await start({ maxBodyBytes: 16 });
+
+    const response = await fetch(`${baseUrl}/courses`, {
+      method: 'POST',
+      body: JSON.stringify({ name: 'A long course name', department: 'Computer Science' })
+    });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should send no body for 204 responses', async () => {
+    const { baseUrl, tracker } = await start();
+    const course = tracker.createCourse('CS101', 'Computer Science');
+    if (!course.success) throw course.error;
+
+    const response = await fetch(`${baseUrl}/courses/${course.value.id}`, { method: 'DELETE' });
+
+    expect(response.status).toBe(204);
+    expect(await response.text()).toBe('');
+  });
+
+  it('should require the API token when one is configured', async () => {
+    const { baseUrl } = await start({ apiToken: 'secret' });
+
+    const missing = await fetch(`${baseUrl}/courses`);
+    const wrong = await fetch(`${baseUrl}/courses`, { headers: { Authorization: 'Bearer wrong' } });
+    const valid = await fetch(`${baseUrl}/courses`, { headers: { Authorization: 'Bearer secret' } });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(valid.status).toBe(200);
+  });
+
+  it('should see changes made to the storage by other processes', async () => {
+    const storage = new MockStorage();
+    const { baseUrl } = await start({}, storage);
+    const other = new TrackerService(new StorageService(storage));
+    other.createCourse('CS101', 'Computer Science');
+
+    const response = await fetch(`${baseUrl}/courses`);
+
+    expect((await response.json()).map((c: { name: string }) => c.name)).toEqual(['CS101']);
+  });
+});
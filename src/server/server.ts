@@ -0,0 +1,130 @@
+/**
+ * HTTP server for the tracker REST API
+ * Parses requests into ApiRequest objects for TrackerApi and writes its responses as JSON
+ */
+
+import * as http from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { ValidationError } from '../models/errors.js';
+import { ITrackerService } from '../services/TrackerService.js';
+import { TrackerApi, ApiResponse, errorResponse } from './api.js';
+
+/**
+ * Largest request body accepted, in bytes
+ */
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Options for createTrackerServer
+ */
+export interface TrackerServerOptions {
+  apiToken?: string;          // When set, requests need `Authorization: Bearer <token>`
+  maxBodyBytes?: number;      // Defaults to DEFAULT_MAX_BODY_BYTES
+}
+
+/**
+ * Compare a presented token with the expected one in constant time
+ */
+function isTokenValid(header: string | undefined, apiToken: string): boolean {
+  const match = /^Bearer (.+)$/.exec(header ?? '');
+  if (!match) {
+    return false;
+  }
+  // Hash both sides so the comparison does not depend on the token lengths
+  const presented = createHash('sha256').update(match[1]).digest();
+  const expected = createHash('sha256').update(apiToken).digest();
+  return timingSafeEqual(presented, expected);
+}
+
+/**
+ * Write a response as JSON
+ */
+function sendResponse(res: http.ServerResponse, response: ApiResponse): void {
+  const headers: Record<string, string> = { ...response.headers };
+  if (response.body === undefined) {
+    res.writeHead(response.status, headers);
+    res.end();
+    return;
+  }
+
+  const json = JSON.stringify(response.body);
+  headers['Content-Type'] = 'application/json; charset=utf-8';
+  headers['Content-Length'] = String(Buffer.byteLength(json));
+  res.writeHead(response.status, headers);
+  res.end(json);
+}
+
+/**
+ * Read a request body up to a size limit
+ * @returns The body text, or null if it exceeded the limit
+ */
+function readRequestBody(req: http.IncomingMessage, maxBytes: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        tooLarge = true;
+        chunks.length = 0;
+      } else if (!tooLarge) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(tooLarge ? null : Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Create an HTTP server that serves TrackerApi over a TrackerService
+ *
+ * The tracker is reloaded before every request, so changes made through other processes sharing
+ * its storage (such as the CLI) are visible. The server is not started; call listen() on it.
+ */
+export function createTrackerServer(tracker: ITrackerService, options: TrackerServerOptions = {}): http.Server {
+  const api = new TrackerApi(tracker);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return http.createServer(async (req, res) => {
+    try {
+      if (options.apiToken && !isTokenValid(req.headers.authorization, options.apiToken)) {
+        sendResponse(res, {
+          ...errorResponse(401, new Error('Missing or invalid API token')),
+          headers: { 'WWW-Authenticate': 'Bearer' }
+        });
+        return;
+      }
+
+      const text = await readRequestBody(req, maxBodyBytes);
+      if (text === null) {
+        sendResponse(res, errorResponse(413, new ValidationError(`Request body exceeds ${maxBodyBytes} bytes`)));
+        return;
+      }
+
+      let body: unknown;
+      if (text.trim() !== '') {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          sendResponse(res, errorResponse(400, new ValidationError('Request body is not valid JSON')));
+          return;
+        }
+      }
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      tracker.reload();
+      sendResponse(res, api.handle({
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        body
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      sendResponse(res, errorResponse(500, new Error(`Internal error: ${message}`)));
+    }
+  });
+}
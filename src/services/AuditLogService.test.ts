@@ -0,0 +1,137 @@
+/**
+ * Tests for the audit log of course and task changes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuditLogService, diffFields } from './AuditLogService.js';
+import { TaskService } from './TaskService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { StorageError } from '../models/errors.js';
+import { AUDIT_LOG_STORAGE_KEY, AUDIT_LOG_ARCHIVE_STORAGE_KEY } from '../storage/storageKeys.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+describe('AuditLogService', () => {
+  let storage: MockStorage;
+  let storageService: StorageService;
+  let auditLog: AuditLogService;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    storageService = new StorageService(storage);
+    auditLog = new AuditLogService(storageService);
+  });
+
+  describe('diffFields', () => {
+    it('should list changed fields with their old and new values', () => {
+      const before = { id: '1', description: 'Essay', deadline: new Date('2024-03-01'), completed: false };
+      const after = { id: '1', description: 'Essay', deadline: new Date('2024-03-08'), completed: true, completedAt: new Date('2024-03-02') };
+
+      expect(diffFields(before, after)).toEqual([
+        { field: 'deadline', before: new Date('2024-03-01'), after: new Date('2024-03-08') },
+        { field: 'completed', before: false, after: true },
+        { field: 'completedAt', after: new Date('2024-03-02') }
+      ]);
+    });
+
+    it('should treat a missing version as having no fields', () => {
+      expect(diffFields(null, { id: '1', name: 'CS101' })).toEqual([{ field: 'name', after: 'CS101' }]);
+      expect(diffFields({ id: '1', name: 'CS101' }, null)).toEqual([{ field: 'name', before: 'CS101' }]);
+    });
+
+    it('should compare dates by time', () => {
+      expect(diffFields({ deadline: new Date('2024-03-01') }, { deadline: new Date('2024-03-01') })).toEqual([]);
+    });
+  });
+
+  describe('record', () => {
+    it('should persist entries with a timestamp, newest first', () => {
+      auditLog.record('task', 'task-1', 'create', null, { id: 'task-1', description: 'Essay' });
+      auditLog.record('task', 'task-1', 'update', { description: 'Essay' }, { description: 'Final essay' });
+
+      const entries = new AuditLogService(storageService).getEntries();
+
+      expect(entries.success).toBe(true);
+      if (entries.success) {
+        expect(entries.value.map(entry => entry.action)).toEqual(['update', 'create']);
+        expect(entries.value[0].timestamp).toBeInstanceOf(Date);
+        expect(entries.value[0].changes).toEqual([{ field: 'description', before: 'Essay', after: 'Final essay' }]);
+      }
+    });
+
+    it('should not record changes that leave every field as it was', () => {
+      auditLog.record('task', 'task-1', 'update', { description: 'Essay' }, { description: 'Essay' });
+
+      expect(storage.getItem(AUDIT_LOG_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should report entries that cannot be saved', () => {
+      const onError = vi.fn();
+      storage.setItem(AUDIT_LOG_STORAGE_KEY, '{not json');
+      auditLog = new AuditLogService(storageService, { onError });
+
+      auditLog.record('task', 'task-1', 'create', null, { description: 'Essay' });
+
+      expect(onError).toHaveBeenCalledWith(expect.any(StorageError));
+    });
+
+    it('should roll entries back with the transaction they were written in', () => {
+      storageService.beginTransaction();
+      auditLog.record('task', 'task-1', 'create', null, { description: 'Essay' });
+      storageService.rollbackTransaction();
+
+      const entries = auditLog.getEntries();
+      expect(entries.success && entries.value).toEqual([]);
+    });
+  });
+
+  describe('rotation', () => {
+    it('should rotate full segments into the archive and drop the oldest', () => {
+      auditLog = new AuditLogService(storageService, { segmentSize: 2, archivedSegments: 2 });
+
+      for (let i = 1; i <= 7; i++) {
+        auditLog.record('task', `task-${i}`, 'create', null, { description: `Task ${i}` });
+      }
+
+      // Segment [1, 2] was dropped; [3, 4] and [5, 6] are archived and [7] is current
+      const entries = auditLog.getEntries();
+      expect(entries.success).toBe(true);
+      if (entries.success) {
+        expect(entries.value.map(entry => entry.entityId)).toEqual(['task-7', 'task-6', 'task-5', 'task-4', 'task-3']);
+      }
+      expect(JSON.parse(storage.getItem(AUDIT_LOG_STORAGE_KEY)!)).toHaveLength(1);
+      expect(JSON.parse(storage.getItem(AUDIT_LOG_ARCHIVE_STORAGE_KEY)!)).toHaveLength(2);
+    });
+  });
+
+  describe('getEntityHistory', () => {
+    it('should record every change made through TaskService', () => {
+      const taskService = new TaskService(storageService, auditLog);
+      const created = taskService.createTask('course-1', 'Essay', new Date('2024-03-01T12:00:00.000Z'));
+      if (!created.success) throw created.error;
+      const other = taskService.createTask('course-1', 'Quiz', new Date('2024-03-01T12:00:00.000Z'));
+      if (!other.success) throw other.error;
+      const id = created.value.id;
+
+      taskService.updateTask(id, { deadline: new Date('2024-03-08T12:00:00.000Z') });
+      taskService.markComplete(id);
+      taskService.markIncomplete(id);
+      taskService.deleteTask(id);
+      taskService.restoreDeletedTasks([id]);
+      taskService.purgeTasks([id]);
+
+      const history = auditLog.getEntityHistory('task', id);
+      expect(history.success).toBe(true);
+      if (history.success) {
+        expect(history.value.map(entry => entry.action)).toEqual(
+          ['purge', 'restore', 'delete', 'reopen', 'complete', 'update', 'create']
+        );
+        expect(history.value[5].changes).toEqual([{
+          field: 'deadline',
+          before: new Date('2024-03-01T12:00:00.000Z'),
+          after: new Date('2024-03-08T12:00:00.000Z')
+        }]);
+        expect(history.value[3].changes.map(change => change.field)).toEqual(['completed', 'completedAt']);
+      }
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * AuditLogService keeps an append-only log of changes to courses and tasks
+ * Entries are written to a current segment that is rotated into a bounded archive when full
+ */
+
+import { AuditEntry, AuditAction, AuditEntityType, AuditFieldChange, Result } from '../models/types.js';
+import { StorageError } from '../models/errors.js';
+import { IStorageService } from '../storage/StorageService.js';
+import { AUDIT_LOG_STORAGE_KEY, AUDIT_LOG_ARCHIVE_STORAGE_KEY } from '../storage/storageKeys.js';
+import { generateUUID } from '../utils/uuid.js';
+
+/**
+ * Number of entries in a segment before it is rotated into the archive
+ */
+export const DEFAULT_AUDIT_SEGMENT_SIZE = 500;
+
+/**
+ * Number of full segments kept in the archive; older segments are dropped
+ */
+export const DEFAULT_AUDIT_ARCHIVED_SEGMENTS = 4;
+
+/**
+ * Options for AuditLogService
+ */
+export interface AuditLogOptions {
+  segmentSize?: number;                         // Defaults to DEFAULT_AUDIT_SEGMENT_SIZE
+  archivedSegments?: number;                    // Defaults to DEFAULT_AUDIT_ARCHIVED_SEGMENTS
+  onError?: (error: StorageError) => void;      // Called when an entry cannot be saved
+}
+
+/**
+ * Recorder that CourseService and TaskService report their changes to
+ */
+export interface IAuditLog {
+  record(entityType: AuditEntityType, entityId: string, action: AuditAction, before: object | null, after: object | null): void;
+}
+
+/**
+ * AuditLogService interface
+ */
+export interface IAuditLogService extends IAuditLog {
+  getEntries(): Result<AuditEntry[], StorageError>;
+  getEntityHistory(entityType: AuditEntityType, entityId: string): Result<AuditEntry[], StorageError>;
+}
+
+/**
+ * Compare two field values; dates are compared by time
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * List the fields that differ between two versions of an entity
+ * A null version (the entity did not exist) has no fields. The ID is never listed.
+ * @returns The changed fields, in the order they first appear
+ */
+export function diffFields(before: object | null, after: object | null): AuditFieldChange[] {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  fields.delete('id');
+
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    if (isSameValue(beforeFields[field], afterFields[field])) {
+      continue;
+    }
+    const change: AuditFieldChange = { field };
+    if (beforeFields[field] !== undefined) {
+      change.before = beforeFields[field];
+    }
+    if (afterFields[field] !== undefined) {
+      change.after = afterFields[field];
+    }
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * AuditLogService implementation
+ *
+ * Entries are appended to the current segment under AUDIT_LOG_STORAGE_KEY. When it holds
+ * segmentSize entries, it moves to the front of the archive under AUDIT_LOG_ARCHIVE_STORAGE_KEY
+ * and a new segment starts; the archive keeps the newest archivedSegments segments. Nothing is
+ * cached in memory, so entries written inside a storage transaction are rolled back with it and
+ * entries written by other tabs are always visible.
+ */
+export class AuditLogService implements IAuditLogService {
+  private storage: IStorageService;
+  private segmentSize: number;
+  private archivedSegments: number;
+  private onError?: (error: StorageError) => void;
+
+  constructor(storage: IStorageService, options: AuditLogOptions = {}) {
+    this.storage = storage;
+    this.segmentSize = options.segmentSize ?? DEFAULT_AUDIT_SEGMENT_SIZE;
+    this.archivedSegments = options.archivedSegments ?? DEFAULT_AUDIT_ARCHIVED_SEGMENTS;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Append an entry describing the change from one version of an entity to another
+   * Changes that leave every field as it was are not recorded. The log is a record of changes
+   * that have already been saved, so a failed write is reported to onError rather than returned.
+   * @param before - The entity before the change, or null if it was created
+   * @param after - The entity after the change, or null if it was purged
+   */
+  record(entityType: AuditEntityType, entityId: string, action: AuditAction, before: object | null, after: object | null): void {
+    const changes = diffFields(before, after);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const entry: AuditEntry = {
+      id: generateUUID(),
+      timestamp: new Date(),
+      entityType,
+      entityId,
+      action,
+      changes
+    };
+
+    const result = this.append(entry);
+    if (!result.success) {
+      this.onError?.(result.error);
+    }
+  }
+
+  /**
+   * Get every entry still in the log, newest first
+   */
+  getEntries(): Result<AuditEntry[], StorageError> {
+    const current = this.loadList<AuditEntry>(AUDIT_LOG_STORAGE_KEY);
+    if (!current.success) {
+      return current;
+    }
+    const archive = this.loadList<AuditEntry[]>(AUDIT_LOG_ARCHIVE_STORAGE_KEY);
+    if (!archive.success) {
+      return archive;
+    }
+
+    // Segments are stored oldest entry first and the archive newest segment first
+    const entries = [...current.value].reverse();
+    archive.value.forEach(segment => entries.push(...[...segment].reverse()));
+    return { success: true, value: entries };
+  }
+
+  /**
+   * Get the entries for one course or task, newest first
+   */
+  getEntityHistory(entityType: AuditEntityType, entityId: string): Result<AuditEntry[], StorageError> {
+    const entries = this.getEntries();
+    if (!entries.success) {
+      return entries;
+    }
+    return {
+      success: true,
+      value: entries.value.filter(entry => entry.entityType === entityType && entry.entityId === entityId)
+    };
+  }
+
+  /**
+   * Append an entry, rotating the current segment into the archive when it is full
+   */
+  private append(entry: AuditEntry): Result<void, StorageError> {
+    const current = this.loadList<AuditEntry>(AUDIT_LOG_STORAGE_KEY);
+    if (!current.success) {
+      return current;
+    }
+
+    if (current.value.length < this.segmentSize) {
+      return this.storage.save(AUDIT_LOG_STORAGE_KEY, [...current.value, entry]);
+    }
+
+    const archive = this.loadList<AuditEntry[]>(AUDIT_LOG_ARCHIVE_STORAGE_KEY);
+    // An unreadable archive is replaced rather than blocking new entries
+    const segments = archive.success ? archive.value : [];
+    const archiveResult = this.storage.save(
+      AUDIT_LOG_ARCHIVE_STORAGE_KEY,
+      [current.value, ...segments].slice(0, this.archivedSegments)
+    );
+    if (!archiveResult.success) {
+      return archiveResult;
+    }
+    return this.storage.save(AUDIT_LOG_STORAGE_KEY, [entry]);
+  }
+
+  /**
+   * Read a stored list, treating a missing key as an empty list
+   */
+  private loadList<T>(key: string): Result<T[], StorageError> {
+    const result = this.storage.load<T[]>(key);
+    if (!result.success) {
+      if (result.error.message.startsWith('No data found')) {
+        return { success: true, value: [] };
+      }
+      return result;
+    }
+    return { success: true, value: Array.isArray(result.value) ? result.value : [] };
+  }
+}
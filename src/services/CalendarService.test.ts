@@ -0,0 +1,238 @@
+/**
+ * Tests for iCalendar export and import
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TrackerService } from './TrackerService.js';
+import { taskUid } from './CalendarService.js';
+import { Course } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+/**
+ * Unfold an .ics document into its logical content lines
+ */
+function contentLines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n').filter(line => line.length > 0);
+}
+
+/**
+ * Build a calendar document from component lines
+ */
+function calendar(...items: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...items.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+/**
+ * Build a VEVENT with the given extra properties
+ */
+function event(uid: string, summary: string, ...properties: string[]): string[] {
+  return ['BEGIN:VEVENT', `UID:${uid}`, `SUMMARY:${summary}`, ...properties, 'END:VEVENT'];
+}
+
+/**
+ * Export and unwrap the document, failing the test on error
+ */
+function exportLines(tracker: TrackerService, ...args: Parameters<TrackerService['exportIcs']>): string[] {
+  const result = tracker.exportIcs(...args);
+  if (!result.success) {
+    throw result.error;
+  }
+  return contentLines(result.value);
+}
+
+describe('CalendarService', () => {
+  let tracker: TrackerService;
+  let course: Course;
+
+  beforeEach(() => {
+    tracker = new TrackerService(new MockStorage());
+    tracker.initialize();
+    const created = tracker.createCourse('CS101', 'Computer Science');
+    if (!created.success) throw created.error;
+    course = created.value;
+  });
+
+  it('should produce an empty calendar when there are no tasks', () => {
+    const lines = exportLines(tracker);
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines[lines.length - 1]).toBe('END:VCALENDAR');
+    expect(lines.some(line => line.startsWith('BEGIN:VEVENT'))).toBe(false);
+  });
+
+  it('should export tasks as events with summary, categories and deadline', () => {
+    const task = tracker.createTask(course.id, 'Essay; draft, v2', new Date('2024-03-01T12:00:00.000Z'));
+    if (!task.success) throw task.error;
+
+    const lines = exportLines(tracker);
+
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(lines).toContain(`UID:${taskUid(task.value.id)}`);
+    expect(lines).toContain('SUMMARY:Essay\\; draft\\, v2');
+    expect(lines).toContain('CATEGORIES:CS101,Computer Science');
+    expect(lines).toContain('DTSTART:20240301T120000Z');
+  });
+
+  it('should use CRLF line breaks and fold long lines', () => {
+    tracker.createTask(course.id, 'A'.repeat(200), new Date('2024-03-01T12:00:00.000Z'));
+
+    const result = tracker.exportIcs();
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.replace(/\r\n/g, '')).not.toContain('\n');
+      result.value.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(75));
+    }
+  });
+
+  it('should export completion status on to-dos', () => {
+    const done = tracker.createTask(course.id, 'Done', new Date('2024-03-01T12:00:00.000Z'));
+    const open = tracker.createTask(course.id, 'Open', new Date('2024-03-02T12:00:00.000Z'));
+    if (!done.success || !open.success) throw new Error('Failed to create tasks');
+    tracker.markTaskComplete(done.value.id);
+
+    const lines = exportLines(tracker, { componentType: 'VTODO' });
+
+    expect(lines.filter(line => line === 'BEGIN:VTODO')).toHaveLength(2);
+    expect(lines).toContain('DUE:20240301T120000Z');
+    expect(lines).toContain('STATUS:COMPLETED');
+    expect(lines).toContain('STATUS:NEEDS-ACTION');
+    expect(lines.some(line => line.startsWith('COMPLETED:'))).toBe(true);
+  });
+
+  it('should export only the tasks of one course', () => {
+    const other = tracker.createCourse('MATH200', 'Mathematics');
+    if (!other.success) throw other.error;
+    tracker.createTask(course.id, 'CS task', new Date('2024-03-01T12:00:00.000Z'));
+    tracker.createTask(other.value.id, 'Math task', new Date('2024-03-01T12:00:00.000Z'));
+
+    const lines = exportLines(tracker, { scope: { type: 'course', courseId: other.value.id } });
+
+    expect(lines).toContain('SUMMARY:Math task');
+    expect(lines).not.toContain('SUMMARY:CS task');
+    expect(tracker.exportIcs({ scope: { type: 'course', courseId: 'missing' } }).success).toBe(false);
+  });
+
+  it('should export only the tasks of one ISO week', () => {
+    // ISO week 10 of 2024 runs from Monday March 4 to Sunday March 10
+    tracker.createTask(course.id, 'Before', new Date(2024, 2, 3, 23, 59));
+    tracker.createTask(course.id, 'Monday', new Date(2024, 2, 4, 0, 0));
+    tracker.createTask(course.id, 'Sunday night', new Date(2024, 2, 10, 23, 59));
+    tracker.createTask(course.id, 'After', new Date(2024, 2, 11, 0, 0));
+
+    const lines = exportLines(tracker, { scope: { type: 'week', weekNumber: 10, year: 2024 } });
+
+    expect(lines.filter(line => line.startsWith('SUMMARY:'))).toEqual(['SUMMARY:Monday', 'SUMMARY:Sunday night']);
+    expect(tracker.exportIcs({ scope: { type: 'week', weekNumber: 54, year: 2024 } }).success).toBe(false);
+  });
+
+  describe('importIcs', () => {
+    it('should create tasks for events in a mapped course', () => {
+      const result = tracker.importIcs(
+        calendar(event('e1@school', 'Midterm', 'DTSTART:20240301T090000Z', 'CATEGORIES:Computer Science 101')),
+        { courseMapping: { 'Computer Science 101': course.id } }
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.created).toBe(1);
+      }
+      const [task] = tracker.getAllTasks();
+      expect(task.description).toBe('Midterm');
+      expect(task.courseId).toBe(course.id);
+      expect(task.deadline).toEqual(new Date('2024-03-01T09:00:00.000Z'));
+      expect(task.externalUid).toBe('e1@school');
+    });
+
+    it('should update instead of duplicating when the same calendar is imported again', () => {
+      const options = { defaultCourseId: course.id };
+      tracker.importIcs(calendar(event('e1@school', 'Quiz', 'DTSTART:20240301T090000Z')), options);
+
+      const result = tracker.importIcs(calendar(event('e1@school', 'Quiz (moved)', 'DTSTART:20240308T090000Z')), options);
+
+      expect(result.success && result.value.updated).toBe(1);
+      expect(tracker.getAllTasks()).toHaveLength(1);
+      expect(tracker.getAllTasks()[0].description).toBe('Quiz (moved)');
+      expect(tracker.getAllTasks()[0].deadline).toEqual(new Date('2024-03-08T09:00:00.000Z'));
+    });
+
+    it('should map exported calendars back onto the original tasks', () => {
+      const task = tracker.createTask(course.id, 'Essay', new Date('2024-03-01T12:00:00.000Z'));
+      if (!task.success) throw task.error;
+      const exported = tracker.exportIcs({ componentType: 'VTODO' });
+      if (!exported.success) throw exported.error;
+      tracker.markTaskComplete(task.value.id);
+
+      const result = tracker.importIcs(exported.value);
+
+      expect(result.success && result.value.updated).toBe(1);
+      expect(tracker.getAllTasks()).toHaveLength(1);
+      expect(tracker.getTask(task.value.id)?.completed).toBe(false);
+    });
+
+    it('should auto-create courses from categories', () => {
+      const result = tracker.importIcs(
+        calendar(
+          event('e1', 'Lab 1', 'DTSTART:20240301T090000Z', 'CATEGORIES:PHYS150,Physics'),
+          event('e2', 'Lab 2', 'DTSTART:20240308T090000Z', 'CATEGORIES:PHYS150,Physics'),
+          event('e3', 'Reading', 'DTSTART:20240308T090000Z', 'CATEGORIES:HIST110')
+        ),
+        { autoCreateCourses: true }
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.coursesCreated.map(c => `${c.name}/${c.department}`)).toEqual(['PHYS150/Physics', 'HIST110/Imported']);
+        expect(result.value.created).toBe(3);
+      }
+      expect(tracker.getAllCourses()).toHaveLength(3);
+    });
+
+    it('should import all-day items, time zones and completed to-dos', () => {
+      const result = tracker.importIcs(calendar(
+        event('e1', 'Holiday reading', 'DTSTART;VALUE=DATE:20240301'),
+        event('e2', 'Seminar', 'DTSTART;TZID=Europe/Berlin:20240301T100000'),
+        ['BEGIN:VTODO', 'UID:t1', 'SUMMARY:Problem set', 'DUE:20240302T170000Z', 'STATUS:COMPLETED', 'COMPLETED:20240301T080000Z', 'END:VTODO']
+      ), { defaultCourseId: course.id });
+
+      expect(result.success && result.value.created).toBe(3);
+      const byDescription = new Map(tracker.getAllTasks().map(t => [t.description, t]));
+      expect(byDescription.get('Holiday reading')?.deadline).toEqual(new Date(2024, 2, 1, 23, 59));
+      expect(byDescription.get('Seminar')?.deadline.toISOString()).toBe('2024-03-01T09:00:00.000Z');
+      expect(byDescription.get('Problem set')?.completed).toBe(true);
+      expect(byDescription.get('Problem set')?.completedAt).toEqual(new Date('2024-03-01T08:00:00.000Z'));
+    });
+
+    it('should skip and report items that cannot be imported', () => {
+      const result = tracker.importIcs(calendar(
+        event('e1', 'No date'),
+        event('e2', 'No course', 'DTSTART:20240301T090000Z', 'CATEGORIES:Unknown'),
+        event('e3', 'Cancelled', 'DTSTART:20240301T090000Z', 'STATUS:CANCELLED'),
+        ['BEGIN:VEVENT', 'UID:e4', 'DTSTART:20240301T090000Z', 'END:VEVENT']
+      ));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.created).toBe(0);
+        expect(result.value.skipped.map(issue => issue.uid)).toEqual(['e1', 'e2', 'e3', 'e4']);
+        expect(result.value.skipped[1].reason).toContain('Unknown');
+      }
+    });
+
+    it('should reject malformed calendars and unknown mapped courses without changes', () => {
+      expect(tracker.importIcs('BEGIN:VCALENDAR\r\nBEGIN:VEVENT').success).toBe(false);
+
+      const result = tracker.importIcs(
+        calendar(
+          event('e1', 'First', 'DTSTART:20240301T090000Z', 'CATEGORIES:Known'),
+          event('e2', 'Second', 'DTSTART:20240301T090000Z', 'CATEGORIES:Missing')
+        ),
+        { courseMapping: { Known: course.id, Missing: 'no-such-course' } }
+      );
+
+      expect(result.success).toBe(false);
+      expect(tracker.getAllTasks()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * CalendarService converts between tasks and iCalendar (.ics) documents
+ * Lets deadlines show up in regular calendar applications, and imports published course calendars
+ */
+
+import { Course, Task, Result } from '../models/types.js';
+import { ValidationError, NotFoundError } from '../models/errors.js';
+import { getWeekRange } from '../utils/weekCalculations.js';
+import {
+  ICS_LINE_BREAK,
+  IcsComponent,
+  escapeText,
+  formatDateTimeUtc,
+  contentLine,
+  parseIcs,
+  getProperty,
+  unescapeText,
+  splitTextList,
+  parseIcsDate
+} from '../utils/icalendar.js';
+import { ICourseService } from './CourseService.js';
+import { ITaskService } from './TaskService.js';
+
+/**
+ * Product identifier written to exported calendars
+ */
+export const ICS_PRODUCT_ID = '-//Weekly Course Tracker//EN';
+
+/**
+ * Domain appended to task IDs to build globally unique calendar UIDs
+ */
+export const ICS_UID_DOMAIN = 'weekly-course-tracker';
+
+/**
+ * Which tasks to export
+ */
+export type IcsExportScope =
+  | { type: 'all' }
+  | { type: 'course'; courseId: string }
+  | { type: 'week'; weekNumber: number; year: number };
+
+/**
+ * Calendar component used for each task
+ * - VEVENT: appears as an event at the deadline in calendar views
+ * - VTODO: appears as a to-do item with completion status
+ */
+export type IcsComponentType = 'VEVENT' | 'VTODO';
+
+/**
+ * Options for ICS export
+ */
+export interface IcsExportOptions {
+  scope?: IcsExportScope;             // Defaults to all tasks
+  componentType?: IcsComponentType;   // Defaults to VEVENT
+  calendarName?: string;
+}
+
+/**
+ * Department used for auto-created courses when the calendar does not name one
+ */
+export const DEFAULT_IMPORT_DEPARTMENT = 'Imported';
+
+/**
+ * Time of day given to all-day items, which have a date but no deadline time
+ */
+const ALL_DAY_DEADLINE = { hours: 23, minutes: 59 };
+
+/**
+ * Options for ICS import
+ */
+export interface IcsImportOptions {
+  courseMapping?: Record<string, string>;   // Calendar category -> existing course ID
+  autoCreateCourses?: boolean;              // Create a course for unmapped categories
+  defaultDepartment?: string;               // Department for auto-created courses
+  defaultCourseId?: string;                 // Course for items that match nothing else
+}
+
+/**
+ * A calendar item that was not imported, and why
+ */
+export interface IcsImportIssue {
+  uid?: string;
+  summary?: string;
+  reason: string;
+}
+
+/**
+ * Outcome of an ICS import
+ */
+export interface IcsImportReport {
+  created: number;
+  updated: number;
+  coursesCreated: Course[];
+  skipped: IcsImportIssue[];
+}
+
+/**
+ * CalendarService interface
+ */
+export interface ICalendarService {
+  exportIcs(options?: IcsExportOptions): Result<string, Error>;
+  importIcs(text: string, options?: IcsImportOptions): Result<IcsImportReport, Error>;
+}
+
+/**
+ * Build the calendar UID for a task
+ */
+export function taskUid(taskId: string): string {
+  return `${taskId}@${ICS_UID_DOMAIN}`;
+}
+
+/**
+ * Serialize one task as a VEVENT or VTODO component
+ * @param task - The task to serialize
+ * @param course - The task's course, used for categories (may be missing for orphaned tasks)
+ * @param componentType - Component to emit
+ * @param timestamp - DTSTAMP value for the component
+ */
+export function serializeTask(
+  task: Task,
+  course: Course | null,
+  componentType: IcsComponentType,
+  timestamp: Date
+): string[] {
+  const deadline = formatDateTimeUtc(task.deadline);
+  const lines = [
+    `BEGIN:${componentType}`,
+    contentLine('UID', taskUid(task.id)),
+    contentLine('DTSTAMP', formatDateTimeUtc(timestamp)),
+    contentLine('CREATED', formatDateTimeUtc(task.createdAt)),
+    contentLine('SUMMARY', escapeText(task.description))
+  ];
+
+  if (course) {
+    lines.push(contentLine('CATEGORIES', [course.name, course.department].map(escapeText).join(',')));
+  }
+
+  if (componentType === 'VTODO') {
+    lines.push(contentLine('DUE', deadline));
+    if (task.completed) {
+      lines.push(contentLine('STATUS', 'COMPLETED'));
+      lines.push(contentLine('PERCENT-COMPLETE', '100'));
+      if (task.completedAt) {
+        lines.push(contentLine('COMPLETED', formatDateTimeUtc(task.completedAt)));
+      }
+    } else {
+      lines.push(contentLine('STATUS', 'NEEDS-ACTION'));
+    }
+  } else {
+    // Events have no completion status, so it is noted in the description
+    lines.push(contentLine('DTSTART', deadline));
+    lines.push(contentLine('DTEND', deadline));
+    lines.push(contentLine('TRANSP', 'TRANSPARENT'));
+    if (task.completed) {
+      const completedOn = task.completedAt ? ` on ${task.completedAt.toISOString()}` : '';
+      lines.push(contentLine('DESCRIPTION', escapeText(`Completed${completedOn}`)));
+    }
+  }
+
+  lines.push(`END:${componentType}`);
+  return lines;
+}
+
+/**
+ * CalendarService implementation
+ */
+export class CalendarService implements ICalendarService {
+  private courseService: ICourseService;
+  private taskService: ITaskService;
+
+  constructor(courseService: ICourseService, taskService: ITaskService) {
+    this.courseService = courseService;
+    this.taskService = taskService;
+  }
+
+  /**
+   * Export tasks as an iCalendar document
+   * @param options - Scope, component type and calendar name
+   * @returns The .ics document text with CRLF line breaks
+   */
+  exportIcs(options: IcsExportOptions = {}): Result<string, Error> {
+    const tasksResult = this.selectTasks(options.scope ?? { type: 'all' });
+    if (!tasksResult.success) {
+      return tasksResult;
+    }
+
+    const componentType = options.componentType ?? 'VEVENT';
+    const timestamp = new Date();
+    const tasks = [...tasksResult.value].sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      contentLine('PRODID', ICS_PRODUCT_ID),
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH'
+    ];
+    if (options.calendarName) {
+      lines.push(contentLine('X-WR-CALNAME', escapeText(options.calendarName)));
+    }
+
+    for (const task of tasks) {
+      const course = this.courseService.getCourse(task.courseId);
+      lines.push(...serializeTask(task, course, componentType, timestamp));
+    }
+
+    lines.push('END:VCALENDAR');
+    return { success: true, value: lines.join(ICS_LINE_BREAK) + ICS_LINE_BREAK };
+  }
+
+  /**
+   * Import VEVENT and VTODO items as tasks
+   * Items are matched on their UID, so importing the same calendar again updates the tasks it created.
+   * Items without a usable summary, date or course are skipped and reported.
+   * Recurrence rules are not expanded; only the first occurrence is imported.
+   * @param text - The .ics document
+   * @param options - How calendar categories map to courses
+   */
+  importIcs(text: string, options: IcsImportOptions = {}): Result<IcsImportReport, Error> {
+    const parsed = parseIcs(text);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    if (options.defaultCourseId && !this.courseService.getCourse(options.defaultCourseId)) {
+      return {
+        success: false,
+        error: new NotFoundError(`Course with ID "${options.defaultCourseId}" not found`)
+      };
+    }
+
+    const report: IcsImportReport = { created: 0, updated: 0, coursesCreated: [], skipped: [] };
+    const items = parsed.value.components.filter(c => c.type === 'VEVENT' || c.type === 'VTODO');
+
+    for (const item of items) {
+      const uidProperty = getProperty(item, 'UID');
+      const uid = uidProperty ? uidProperty.value.trim() : undefined;
+      const summaryProperty = getProperty(item, 'SUMMARY');
+      const summary = summaryProperty ? unescapeText(summaryProperty.value).trim() : '';
+      const skip = (reason: string) => report.skipped.push({ uid, summary: summary || undefined, reason });
+
+      if (getProperty(item, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+        skip('Item is cancelled');
+        continue;
+      }
+      if (!summary) {
+        skip('Item has no summary');
+        continue;
+      }
+
+      const deadline = this.getItemDeadline(item);
+      if (!deadline) {
+        skip(`Item has no valid ${item.type === 'VTODO' ? 'DUE' : 'DTSTART'} date`);
+        continue;
+      }
+
+      const categories = item.properties
+        .filter(property => property.name === 'CATEGORIES')
+        .flatMap(property => splitTextList(property.value));
+      const courseResult = this.resolveCourse(categories, options, report);
+      if (!courseResult.success) {
+        return courseResult;
+      }
+      if (!courseResult.value) {
+        skip(categories.length > 0
+          ? `No course matches categories: ${categories.join(', ')}`
+          : 'Item has no category and no default course was given');
+        continue;
+      }
+      const courseId = courseResult.value;
+
+      const existing = uid ? this.findTaskByUid(uid) : null;
+      let taskId: string;
+      if (existing) {
+        const updateResult = this.taskService.updateTask(existing.id, { courseId, description: summary, deadline });
+        if (!updateResult.success) {
+          skip(updateResult.error.message);
+          continue;
+        }
+        taskId = existing.id;
+        report.updated++;
+      } else {
+        const createResult = this.taskService.createTask(courseId, summary, deadline, { externalUid: uid });
+        if (!createResult.success) {
+          skip(createResult.error.message);
+          continue;
+        }
+        taskId = createResult.value.id;
+        report.created++;
+      }
+
+      const completionResult = this.applyCompletion(taskId, item);
+      if (!completionResult.success) {
+        return completionResult;
+      }
+    }
+
+    return { success: true, value: report };
+  }
+
+  /**
+   * Get the deadline of a calendar item
+   * To-dos use DUE (falling back to DTSTART), events use DTSTART.
+   * All-day items are due at the end of their day.
+   */
+  private getItemDeadline(item: IcsComponent): Date | null {
+    const property = item.type === 'VTODO'
+      ? getProperty(item, 'DUE') ?? getProperty(item, 'DTSTART')
+      : getProperty(item, 'DTSTART');
+    const parsed = property ? parseIcsDate(property) : null;
+    if (!parsed) {
+      return null;
+    }
+
+    if (parsed.allDay) {
+      const deadline = new Date(parsed.date);
+      deadline.setHours(ALL_DAY_DEADLINE.hours, ALL_DAY_DEADLINE.minutes, 0, 0);
+      return deadline;
+    }
+    return parsed.date;
+  }
+
+  /**
+   * Copy the completion state of a to-do onto its task
+   * Events carry no completion state, so their tasks are left as they are.
+   */
+  private applyCompletion(taskId: string, item: IcsComponent): Result<unknown, Error> {
+    const task = this.taskService.getTask(taskId);
+    if (item.type !== 'VTODO' || !task) {
+      return { success: true, value: undefined };
+    }
+
+    const completedProperty = getProperty(item, 'COMPLETED');
+    const completed = getProperty(item, 'STATUS')?.value.toUpperCase() === 'COMPLETED' || completedProperty !== undefined;
+    if (!completed) {
+      return task.completed ? this.taskService.markIncomplete(taskId) : { success: true, value: undefined };
+    }
+
+    const completedAt = completedProperty ? parseIcsDate(completedProperty)?.date : undefined;
+    return this.taskService.updateTask(taskId, { completed: true, completedAt: completedAt ?? task.completedAt ?? new Date() });
+  }
+
+  /**
+   * Find the task created from a calendar item
+   * UIDs written by exportIcs() map straight back to their task IDs
+   */
+  private findTaskByUid(uid: string): Task | null {
+    const imported = this.taskService.findByExternalUid(uid);
+    if (imported) {
+      return imported;
+    }
+
+    const suffix = `@${ICS_UID_DOMAIN}`;
+    return uid.endsWith(suffix) ? this.taskService.getTask(uid.slice(0, -suffix.length)) : null;
+  }
+
+  /**
+   * Find or create the course for a calendar item's categories
+   * Tries, in order: the explicit mapping, a course matching the first two categories as name and
+   * department (as written by exportIcs()), a course named after any category, an auto-created
+   * course, and the default course.
+   * @returns The course ID, or null if no course applies
+   */
+  private resolveCourse(
+    categories: string[],
+    options: IcsImportOptions,
+    report: IcsImportReport
+  ): Result<string | null, Error> {
+    const courses = this.courseService.getAllCourses();
+
+    for (const category of categories) {
+      const mappedId = options.courseMapping?.[category];
+      if (mappedId !== undefined) {
+        if (!this.courseService.getCourse(mappedId)) {
+          return {
+            success: false,
+            error: new NotFoundError(`Course with ID "${mappedId}" for category "${category}" not found`)
+          };
+        }
+        return { success: true, value: mappedId };
+      }
+    }
+
+    if (categories.length >= 2) {
+      const exported = courses.find(c => c.name === categories[0] && c.department === categories[1]);
+      if (exported) {
+        return { success: true, value: exported.id };
+      }
+    }
+
+    for (const category of categories) {
+      const named = courses.find(c => c.name === category);
+      if (named) {
+        return { success: true, value: named.id };
+      }
+    }
+
+    if (options.autoCreateCourses && categories.length > 0) {
+      const department = categories[1] ?? options.defaultDepartment ?? DEFAULT_IMPORT_DEPARTMENT;
+      const createResult = this.courseService.createCourse(categories[0], department);
+      if (!createResult.success) {
+        return createResult;
+      }
+      report.coursesCreated.push(createResult.value);
+      return { success: true, value: createResult.value.id };
+    }
+
+    return { success: true, value: options.defaultCourseId ?? null };
+  }
+
+  /**
+   * Get the tasks in an export scope
+   */
+  private selectTasks(scope: IcsExportScope): Result<Task[], Error> {
+    switch (scope.type) {
+      case 'all':
+        return { success: true, value: this.taskService.getAllTasks() };
+
+      case 'course':
+        if (!this.courseService.getCourse(scope.courseId)) {
+          return {
+            success: false,
+            error: new NotFoundError(`Course with ID "${scope.courseId}" not found`)
+          };
+        }
+        return { success: true, value: this.taskService.getTasksByCourse(scope.courseId) };
+
+      case 'week': {
+        if (!Number.isInteger(scope.weekNumber) || scope.weekNumber < 1 || scope.weekNumber > 53) {
+          return {
+            success: false,
+            error: new ValidationError('Week number must be between 1 and 53')
+          };
+        }
+        const { startDate, endDate } = getWeekRange(scope.weekNumber, scope.year);
+        return {
+          success: true,
+          value: this.taskService.getAllTasks().filter(task =>
+            task.deadline >= startDate && task.deadline <= endDate
+          )
+        };
+      }
+    }
+  }
+}
@@ -6,41 +6,11 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import { CourseService } from './CourseService.js';
 import { TaskService } from './TaskService.js';
+import { TermService } from './TermService.js';
 import { StorageService } from '../storage/StorageService.js';
 import { ValidationError, NotFoundError } from '../models/errors.js';
-import { Course, Task, Result } from '../models/types.js';
-
-/**
- * Mock Storage implementation for testing
- */
-class MockStorage implements Storage {
-  private store: Map<string, string> = new Map();
-
-  get length(): number {
-    return this.store.size;
-  }
-
-  clear(): void {
-    this.store.clear();
-  }
-
-  getItem(key: string): string | null {
-    return this.store.get(key) ?? null;
-  }
-
-  key(index: number): string | null {
-    const keys = Array.from(this.store.keys());
-    return keys[index] ?? null;
-  }
-
-  removeItem(key: string): void {
-    this.store.delete(key);
-  }
-
-  setItem(key: string, value: string): void {
-    this.store.set(key, value);
-  }
-}
+import { Course, CourseMeeting, Task, Result } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
 
 describe('CourseService', () => {
   let storage: MockStorage;
@@ -1679,6 +1649,75 @@ describe('CourseService', () => {
       });
     });
 
+    describe('deleteCourseWithTasks - atomicity', () => {
+      /**
+       * Storage that fails to write the courses key while failCourses is set
+       */
+      class FailingCourseStorage extends MockStorage {
+        failCourses = false;
+        setItem(key: string, value: string): void {
+          if (this.failCourses && key === 'tracker:courses') {
+            const error: any = new Error('QuotaExceededError');
+            error.name = 'QuotaExceededError';
+            throw error;
+          }
+          super.setItem(key, value);
+        }
+      }
+
+      let failingStorage: FailingCourseStorage;
+      let failingTaskService: TaskService;
+      let failingCourseService: CourseService;
+
+      beforeEach(() => {
+        failingStorage = new FailingCourseStorage();
+        const failingStorageService = new StorageService(failingStorage);
+        failingTaskService = new TaskService(failingStorageService);
+        failingCourseService = new CourseService(failingStorageService, failingTaskService);
+      });
+
+      it('should keep all tasks when the cascade cannot be saved', () => {
+        const course = failingCourseService.createCourse('CS101', 'Computer Science');
+        if (!course.success) throw course.error;
+        const deadline = new Date(Date.now() + 86400000);
+        failingTaskService.createTask(course.value.id, 'Assignment 1', deadline);
+        failingTaskService.createTask(course.value.id, 'Assignment 2', deadline);
+
+        failingStorage.failCourses = true;
+        const deleteResult = failingCourseService.deleteCourseWithTasks(course.value.id, 'cascade');
+
+        expect(deleteResult.success).toBe(false);
+        expect(failingCourseService.getCourse(course.value.id)).not.toBeNull();
+        expect(failingTaskService.getTasksByCourse(course.value.id).length).toBe(2);
+
+        // Storage still holds both tasks
+        const reloaded = new TaskService(new StorageService(failingStorage));
+        expect(reloaded.getTasksByCourse(course.value.id).length).toBe(2);
+      });
+
+      it('should leave tasks on the original course when the reassignment cannot be saved', () => {
+        const source = failingCourseService.createCourse('CS101', 'Computer Science');
+        const target = failingCourseService.createCourse('CS102', 'Computer Science');
+        if (!source.success || !target.success) throw new Error('Failed to create courses');
+        const deadline = new Date(Date.now() + 86400000);
+        failingTaskService.createTask(source.value.id, 'Assignment 1', deadline);
+
+        failingStorage.failCourses = true;
+        const deleteResult = failingCourseService.deleteCourseWithTasks(
+          source.value.id,
+          'reassign',
+          target.value.id
+        );
+
+        expect(deleteResult.success).toBe(false);
+        expect(failingTaskService.getTasksByCourse(source.value.id).length).toBe(1);
+        expect(failingTaskService.getTasksByCourse(target.value.id).length).toBe(0);
+
+        const reloaded = new TaskService(new StorageService(failingStorage));
+        expect(reloaded.getTasksByCourse(source.value.id).length).toBe(1);
+      });
+    });
+
     /**
      * **Feature: weekly-course-tracker, Property 20: Cascade deletion or reassignment**
      * **Validates: Requirements 7.3**
@@ -2000,4 +2039,152 @@ describe('CourseService', () => {
       });
     });
   });
+
+  describe('Trash', () => {
+    let taskService: TaskService;
+
+    beforeEach(() => {
+      storage = new MockStorage();
+      storageService = new StorageService(storage);
+      taskService = new TaskService(storageService);
+      courseService = new CourseService(storageService, taskService);
+    });
+
+    it('should keep deleted courses in the trash instead of removing them', () => {
+      const course = courseService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+
+      expect(courseService.deleteCourse(course.value.id).success).toBe(true);
+
+      expect(courseService.getCourse(course.value.id)).toBeNull();
+      expect(courseService.getAllCourses()).toEqual([]);
+      expect(courseService.getCoursesByDepartment().size).toBe(0);
+      expect(courseService.getDeletedCourse(course.value.id)?.deletedAt).toBeInstanceOf(Date);
+      expect(new CourseService(storageService).getDeletedCourses().map(c => c.id)).toEqual([course.value.id]);
+    });
+
+    it('should allow a new course with the name of a deleted one', () => {
+      const course = courseService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      courseService.deleteCourse(course.value.id);
+
+      expect(courseService.courseExists('CS101', 'Computer Science')).toBe(false);
+      expect(courseService.createCourse('CS101', 'Computer Science').success).toBe(true);
+    });
+
+    it('should give cascaded tasks the same deletion time as their course', () => {
+      const course = courseService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = taskService.createTask(course.value.id, 'Essay', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+
+      expect(courseService.deleteCourseWithTasks(course.value.id, 'cascade').success).toBe(true);
+
+      const deletedCourse = courseService.getDeletedCourse(course.value.id);
+      expect(taskService.getTask(task.value.id)).toBeNull();
+      expect(taskService.getDeletedTask(task.value.id)?.deletedAt).toEqual(deletedCourse?.deletedAt);
+    });
+
+    it('should restore a deleted course', () => {
+      const course = courseService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      courseService.deleteCourse(course.value.id);
+
+      const result = courseService.restoreDeletedCourse(course.value.id);
+
+      expect(result.success).toBe(true);
+      expect(courseService.getCourse(course.value.id)).toEqual(course.value);
+      expect(courseService.getDeletedCourses()).toEqual([]);
+    });
+
+    it('should not restore a course whose name has been taken', () => {
+      const course = courseService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      courseService.deleteCourse(course.value.id);
+      courseService.createCourse('CS101', 'Computer Science');
+
+      const result = courseService.restoreDeletedCourse(course.value.id);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(courseService.getDeletedCourse(course.value.id)).not.toBeNull();
+    });
+
+    it('should purge a course permanently', () => {
+      const course = courseService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      courseService.deleteCourse(course.value.id);
+
+      expect(courseService.purgeCourse(course.value.id).success).toBe(true);
+
+      expect(courseService.getDeletedCourse(course.value.id)).toBeNull();
+      expect(courseService.purgeCourse(course.value.id).success).toBe(false);
+    });
+  });
+
+  describe('Class meetings', () => {
+    const lecture: CourseMeeting = { weekday: 1, start: '10:00', end: '12:00', type: 'lecture', location: 'Room 101' };
+
+    it('should store validated meetings and replace or remove them on update', () => {
+      const created = courseService.createCourse('CS101', 'Computer Science', undefined, [{ ...lecture, start: '9:00' }]);
+      if (!created.success) throw created.error;
+      expect(created.value.meetings).toEqual([{ ...lecture, start: '09:00' }]);
+
+      expect(courseService.createCourse('CS102', 'Computer Science', undefined, [{ ...lecture, end: '08:00' }]).success).toBe(false);
+
+      const replaced = courseService.updateCourse(created.value.id, { meetings: [{ ...lecture, type: 'lab' }] });
+      expect(replaced.success && replaced.value.meetings?.[0].type).toBe('lab');
+
+      const renamed = courseService.updateCourse(created.value.id, { name: 'CS 101' });
+      expect(renamed.success && renamed.value.meetings).toHaveLength(1);
+
+      const removed = courseService.updateCourse(created.value.id, { meetings: [] });
+      expect(removed.success && removed.value.meetings).toBeUndefined();
+    });
+
+    it('should only report conflicts between courses whose terms overlap', () => {
+      const termService = new TermService(storageService);
+      const termCourses = new CourseService(storageService, undefined, undefined, termService);
+      const fall = termService.createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      const spring = termService.createTerm('Spring 2025', new Date(2025, 0, 10), new Date(2025, 4, 20));
+      if (!fall.success || !spring.success) throw new Error('Term creation failed');
+
+      const cs = termCourses.createCourse('CS101', 'Computer Science', fall.value.id, [lecture]);
+      const math = termCourses.createCourse('MATH100', 'Mathematics', fall.value.id, [{ ...lecture, start: '11:00', end: '13:00' }]);
+      termCourses.createCourse('ART200', 'Art', spring.value.id, [lecture]);
+      if (!cs.success || !math.success) throw new Error('Course creation failed');
+
+      expect(termCourses.getMeetingConflicts()).toEqual([
+        { courseIds: [cs.value.id, math.value.id], weekday: 1, start: '11:00', end: '12:00' }
+      ]);
+    });
+
+    it('should list the sessions of a week held during each course\'s term', () => {
+      const termService = new TermService(storageService);
+      const termCourses = new CourseService(storageService, undefined, undefined, termService);
+      // The term ends on Monday, September 9 2024
+      const term = termService.createTerm('Summer 2024', new Date(2024, 5, 1), new Date(2024, 8, 9));
+      if (!term.success) throw term.error;
+
+      const cs = termCourses.createCourse('CS101', 'Computer Science', term.value.id, [lecture]);
+      const math = termCourses.createCourse('MATH100', 'Mathematics', undefined, [
+        { weekday: 1, start: '11:30', end: '12:30', type: 'tutorial' },
+        { weekday: 3, start: '09:00', end: '10:00', type: 'lecture' }
+      ]);
+      if (!cs.success || !math.success) throw new Error('Course creation failed');
+
+      const firstWeek = termCourses.getClassSessions(new Date(2024, 8, 9), new Date(2024, 8, 15, 23, 59));
+      expect(firstWeek).toEqual([
+        { courseId: cs.value.id, type: 'lecture', location: 'Room 101', start: new Date(2024, 8, 9, 10), end: new Date(2024, 8, 9, 12), overlapsWith: [math.value.id] },
+        { courseId: math.value.id, type: 'tutorial', start: new Date(2024, 8, 9, 11, 30), end: new Date(2024, 8, 9, 12, 30), overlapsWith: [cs.value.id] },
+        { courseId: math.value.id, type: 'lecture', start: new Date(2024, 8, 11, 9), end: new Date(2024, 8, 11, 10), overlapsWith: [] }
+      ]);
+
+      const nextWeek = termCourses.getClassSessions(new Date(2024, 8, 16), new Date(2024, 8, 22, 23, 59));
+      expect(nextWeek.map(session => session.courseId)).toEqual([math.value.id, math.value.id]);
+      expect(nextWeek[0].overlapsWith).toEqual([]);
+    });
+  });
 });
@@ -3,36 +3,68 @@
  * Handles validation, duplicate checking, and persistence
  */
 
-import { Course, Result } from '../models/types.js';
+import { Course, CourseMeeting, ClassSession, MeetingConflict, Term, Task, Result } from '../models/types.js';
 import { ValidationError, NotFoundError } from '../models/errors.js';
-import { IStorageService } from '../storage/StorageService.js';
+import { IStorageService, runInTransaction } from '../storage/StorageService.js';
+import { COURSES_STORAGE_KEY } from '../storage/storageKeys.js';
+import { IAuditLog } from './AuditLogService.js';
 import { validateNonEmptyString } from '../utils/validation.js';
+import { validateMeetings, findMeetingConflicts } from '../utils/meeting.js';
+import { parseTimeOfDay } from '../utils/timeOfDay.js';
+import { startOfDay } from '../utils/recurrence.js';
+import { getDaysBetween } from '../utils/weekCalculations.js';
 import { generateUUID } from '../utils/uuid.js';
 
-const COURSES_STORAGE_KEY = 'tracker:courses';
-
 /**
  * Deletion strategy for courses with associated tasks
  */
 export type DeletionStrategy = 'cascade' | 'reassign';
 
+/**
+ * Task operations CourseService needs for cascade deletion and reassignment
+ */
+export interface CourseTaskOperations {
+  getTasksByCourse(courseId: string): Task[];
+  deleteTask(id: string): Result<void, Error>;
+  deleteTasks(ids: string[], deletedAt?: Date): Result<void, Error>;
+  updateTask(id: string, updates: Partial<Task>): Result<Task, ValidationError>;
+  updateTasks(ids: string[], updates: Partial<Task>): Result<Task[], ValidationError>;
+  reload(): void;
+}
+
+/**
+ * Term lookups CourseService needs to check term assignments and hide archived terms
+ */
+export interface CourseTermLookup {
+  getTerm(id: string): Term | null;
+}
+
 /**
  * CourseService interface
  */
 export interface ICourseService {
-  createCourse(name: string, department: string): Result<Course, ValidationError>;
+  createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Result<Course, ValidationError>;
   getCourse(id: string): Course | null;
+  getDeletedCourse(id: string): Course | null;
+  getDeletedCourses(): Course[];
   getAllCourses(): Course[];
-  getCoursesByDepartment(): Map<string, Course[]>;
+  getCoursesForTerm(termId?: string): Course[];
+  getCoursesByDepartment(termId?: string): Map<string, Course[]>;
+  getMeetingConflicts(termId?: string): MeetingConflict[];
+  getClassSessions(from: Date, to: Date): ClassSession[];
   updateCourse(id: string, updates: Partial<Course>): Result<Course, ValidationError>;
-  deleteCourse(id: string): Result<void, Error>;
+  deleteCourse(id: string, deletedAt?: Date): Result<void, Error>;
+  restoreDeletedCourse(id: string): Result<Course, Error>;
+  purgeCourse(id: string): Result<void, Error>;
   deleteCourseWithTasks(
     id: string, 
     strategy: DeletionStrategy, 
     targetCourseId?: string
   ): Result<void, Error>;
-  courseExists(name: string, department: string): boolean;
+  courseExists(name: string, department: string, termId?: string): boolean;
   hasAssociatedTasks(id: string): boolean;
+  restoreCourse(course: Course): Result<Course, Error>;
+  reload(): void;
 }
 
 /**
@@ -41,19 +73,20 @@ export interface ICourseService {
 export class CourseService implements ICourseService {
   private storage: IStorageService;
   private courses: Map<string, Course>;
-  private taskService?: { 
-    getTasksByCourse(courseId: string): any[]; 
-    deleteTask(id: string): Result<void, Error>;
-    updateTask(id: string, updates: any): Result<any, ValidationError>;
-  };
-
-  constructor(storage: IStorageService, taskService?: { 
-    getTasksByCourse(courseId: string): any[]; 
-    deleteTask(id: string): Result<void, Error>;
-    updateTask(id: string, updates: any): Result<any, ValidationError>;
-  }) {
+  private taskService?: CourseTaskOperations;
+  private auditLog?: IAuditLog;
+  private termService?: CourseTermLookup;
+
+  /**
+   * @param taskService - Task operations for cascade deletion and reassignment
+   * @param auditLog - Optional log that every saved change is recorded in
+   * @param termService - Term lookups; without them term IDs are not checked
+   */
+  constructor(storage: IStorageService, taskService?: CourseTaskOperations, auditLog?: IAuditLog, termService?: CourseTermLookup) {
     this.storage = storage;
     this.taskService = taskService;
+    this.auditLog = auditLog;
+    this.termService = termService;
     this.courses = new Map();
     this.loadCourses();
   }
@@ -71,6 +104,13 @@ export class CourseService implements ICourseService {
     }
   }
 
+  /**
+   * Reload courses from storage, discarding the in-memory state
+   */
+  reload(): void {
+    this.loadCourses();
+  }
+
   /**
    * Save courses to storage
    */
@@ -83,10 +123,30 @@ export class CourseService implements ICourseService {
     return { success: true, value: undefined };
   }
 
+  /**
+   * Check that courses can be assigned to a term
+   */
+  private validateTermId(termId: string): Result<string, ValidationError> {
+    if (!this.termService) {
+      return { success: true, value: termId };
+    }
+    const term = this.termService.getTerm(termId);
+    if (!term) {
+      return { success: false, error: new ValidationError(`Term with ID "${termId}" not found`) };
+    }
+    if (term.archivedAt) {
+      return { success: false, error: new ValidationError(`Term "${term.name}" is archived`) };
+    }
+    return { success: true, value: termId };
+  }
+
   /**
    * Create a new course with validation and duplicate checking
+   * Courses with the same name and department may exist in different terms.
+   * @param termId - Term the course is taught in (optional)
+   * @param meetings - Weekly class meetings (optional)
    */
-  createCourse(name: string, department: string): Result<Course, ValidationError> {
+  createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Result<Course, ValidationError> {
     // Validate course name
     const validatedName = validateNonEmptyString(name);
     if (validatedName === null) {
@@ -105,8 +165,22 @@ export class CourseService implements ICourseService {
       };
     }
 
+    // Validate term if provided
+    if (termId !== undefined) {
+      const validatedTerm = this.validateTermId(termId);
+      if (!validatedTerm.success) {
+        return validatedTerm;
+      }
+    }
+
+    // Validate meetings if provided
+    const validatedMeetings = meetings !== undefined ? validateMeetings(meetings) : null;
+    if (validatedMeetings && !validatedMeetings.success) {
+      return validatedMeetings;
+    }
+
     // Check for duplicate
-    if (this.courseExists(validatedName, validatedDepartment)) {
+    if (this.courseExists(validatedName, validatedDepartment, termId)) {
       return {
         success: false,
         error: new ValidationError(
@@ -122,6 +196,12 @@ export class CourseService implements ICourseService {
       department: validatedDepartment,
       createdAt: new Date()
     };
+    if (termId !== undefined) {
+      course.termId = termId;
+    }
+    if (validatedMeetings && validatedMeetings.value.length > 0) {
+      course.meetings = validatedMeetings.value;
+    }
 
     // Add to memory
     this.courses.set(course.id, course);
@@ -137,30 +217,139 @@ export class CourseService implements ICourseService {
       };
     }
 
+    this.auditLog?.record('course', course.id, 'create', null, course);
     return { success: true, value: course };
   }
 
+  /**
+   * Get the courses that are not in the trash
+   */
+  private activeCourses(): Course[] {
+    return Array.from(this.courses.values()).filter(course => !course.deletedAt);
+  }
+
   /**
    * Get a course by ID
+   * Courses in the trash are not returned
    */
   getCourse(id: string): Course | null {
-    return this.courses.get(id) || null;
+    const course = this.courses.get(id);
+    return course && !course.deletedAt ? course : null;
+  }
+
+  /**
+   * Get a course in the trash by ID
+   */
+  getDeletedCourse(id: string): Course | null {
+    const course = this.courses.get(id);
+    return course && course.deletedAt ? course : null;
+  }
+
+  /**
+   * Get all courses in the trash
+   */
+  getDeletedCourses(): Course[] {
+    return Array.from(this.courses.values()).filter(course => course.deletedAt);
   }
 
   /**
    * Get all courses
    */
   getAllCourses(): Course[] {
-    return Array.from(this.courses.values());
+    return this.activeCourses();
+  }
+
+  /**
+   * Get the courses of a term
+   * Without a term, get every course except those of archived terms.
+   */
+  getCoursesForTerm(termId?: string): Course[] {
+    if (termId !== undefined) {
+      return this.activeCourses().filter(course => course.termId === termId);
+    }
+    return this.activeCourses().filter(course =>
+      course.termId === undefined || !this.termService?.getTerm(course.termId)?.archivedAt
+    );
+  }
+
+  /**
+   * Check whether a course is taught on a day: any day without a known term, otherwise the days of its term
+   */
+  private isTaughtOn(course: Course, day: Date): boolean {
+    const term = course.termId ? this.termService?.getTerm(course.termId) : null;
+    return !term || (day >= startOfDay(term.startDate) && day <= startOfDay(term.endDate));
+  }
+
+  /**
+   * Check whether two courses can meet in the same week: they do unless both are in terms that do not overlap
+   */
+  private canMeetTogether(a: Course, b: Course): boolean {
+    const termA = a.termId ? this.termService?.getTerm(a.termId) : null;
+    const termB = b.termId ? this.termService?.getTerm(b.termId) : null;
+    if (!termA || !termB) {
+      return true;
+    }
+    return startOfDay(termA.startDate) <= startOfDay(termB.endDate) && startOfDay(termB.startDate) <= startOfDay(termA.endDate);
+  }
+
+  /**
+   * Find the weekly times at which two courses both meet
+   * @param termId - Only check the courses of this term; without it, courses of archived terms are left out
+   */
+  getMeetingConflicts(termId?: string): MeetingConflict[] {
+    return findMeetingConflicts(this.getCoursesForTerm(termId), (a, b) => this.canMeetTogether(a, b));
+  }
+
+  /**
+   * Get the class meetings held from one date to another, inclusive, earliest first
+   * Courses of archived terms are left out, and courses in a term only meet during it.
+   * Sessions list the other courses meeting at the same time.
+   */
+  getClassSessions(from: Date, to: Date): ClassSession[] {
+    const courses = this.getCoursesForTerm().filter(course => course.meetings && course.meetings.length > 0);
+    const sessions: ClassSession[] = [];
+
+    for (const day of getDaysBetween(from, to)) {
+      const at = (time: string) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, parseTimeOfDay(time) ?? 0);
+
+      const daySessions: ClassSession[] = [];
+      for (const course of courses.filter(course => this.isTaughtOn(course, day))) {
+        for (const meeting of course.meetings!.filter(meeting => meeting.weekday === day.getDay())) {
+          const session: ClassSession = {
+            courseId: course.id,
+            type: meeting.type,
+            start: at(meeting.start),
+            end: at(meeting.end),
+            overlapsWith: []
+          };
+          if (meeting.location) {
+            session.location = meeting.location;
+          }
+          daySessions.push(session);
+        }
+      }
+
+      for (const session of daySessions) {
+        for (const other of daySessions) {
+          if (other.courseId !== session.courseId && other.start < session.end && session.start < other.end &&
+              !session.overlapsWith.includes(other.courseId)) {
+            session.overlapsWith.push(other.courseId);
+          }
+        }
+      }
+      sessions.push(...daySessions.sort((a, b) => a.start.getTime() - b.start.getTime()));
+    }
+    return sessions;
   }
 
   /**
    * Get courses grouped by department
+   * @param termId - Only group the courses of this term; without it, courses of archived terms are left out
    */
-  getCoursesByDepartment(): Map<string, Course[]> {
+  getCoursesByDepartment(termId?: string): Map<string, Course[]> {
     const grouped = new Map<string, Course[]>();
     
-    for (const course of this.courses.values()) {
+    for (const course of this.getCoursesForTerm(termId)) {
       const departmentCourses = grouped.get(course.department) || [];
       departmentCourses.push(course);
       grouped.set(course.department, departmentCourses);
@@ -171,10 +360,12 @@ export class CourseService implements ICourseService {
 
   /**
    * Update a course
+   * A termId key moves the course to that term; a termId of undefined takes it out of its term.
+   * A meetings key replaces the course's meetings; undefined or an empty list removes them.
    */
   updateCourse(id: string, updates: Partial<Course>): Result<Course, ValidationError> {
     // Check if course exists
-    const existingCourse = this.courses.get(id);
+    const existingCourse = this.getCourse(id);
     if (!existingCourse) {
       return {
         success: false,
@@ -208,9 +399,29 @@ export class CourseService implements ICourseService {
       validatedDepartment = validated;
     }
 
-    // Check for duplicate if name or department changed
-    if ((validatedName !== existingCourse.name || validatedDepartment !== existingCourse.department) &&
-        this.courseExists(validatedName, validatedDepartment)) {
+    // Validate term if it changed
+    const termId = 'termId' in updates ? updates.termId : existingCourse.termId;
+    if (termId !== undefined && termId !== existingCourse.termId) {
+      const validatedTerm = this.validateTermId(termId);
+      if (!validatedTerm.success) {
+        return validatedTerm;
+      }
+    }
+
+    // Validate meetings if they are replaced
+    let meetings = existingCourse.meetings;
+    if ('meetings' in updates) {
+      const validatedMeetings = validateMeetings(updates.meetings ?? []);
+      if (!validatedMeetings.success) {
+        return validatedMeetings;
+      }
+      meetings = validatedMeetings.value;
+    }
+
+    // Check for duplicate if name, department or term changed
+    if ((validatedName !== existingCourse.name || validatedDepartment !== existingCourse.department ||
+         termId !== existingCourse.termId) &&
+        this.courseExists(validatedName, validatedDepartment, termId)) {
       return {
         success: false,
         error: new ValidationError(
@@ -225,6 +436,16 @@ export class CourseService implements ICourseService {
       name: validatedName,
       department: validatedDepartment
     };
+    if (termId !== undefined) {
+      updatedCourse.termId = termId;
+    } else {
+      delete updatedCourse.termId;
+    }
+    if (meetings && meetings.length > 0) {
+      updatedCourse.meetings = meetings;
+    } else {
+      delete updatedCourse.meetings;
+    }
 
     // Update in memory
     this.courses.set(id, updatedCourse);
@@ -240,14 +461,65 @@ export class CourseService implements ICourseService {
       };
     }
 
+    this.auditLog?.record('course', id, 'update', existingCourse, updatedCourse);
     return { success: true, value: updatedCourse };
   }
 
   /**
-   * Delete a course
+   * Move a course to the trash
+   * @param deletedAt - Deletion time, shared with tasks deleted together with the course
    */
-  deleteCourse(id: string): Result<void, Error> {
+  deleteCourse(id: string, deletedAt: Date = new Date()): Result<void, Error> {
     // Check if course exists
+    const existingCourse = this.getCourse(id);
+    if (!existingCourse) {
+      return {
+        success: false,
+        error: new NotFoundError(`Course with ID "${id}" not found`)
+      };
+    }
+
+    // Mark as deleted in memory
+    const deletedCourse = { ...existingCourse, deletedAt };
+    this.courses.set(id, deletedCourse);
+
+    // Save to storage
+    const saveResult = this.saveCourses();
+    if (!saveResult.success) {
+      // Rollback in-memory change
+      this.courses.set(id, existingCourse);
+      return {
+        success: false,
+        error: saveResult.error
+      };
+    }
+
+    this.auditLog?.record('course', id, 'delete', existingCourse, deletedCourse);
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Take a course out of the trash
+   * Fails if another course with the same name and department has been created since
+   */
+  restoreDeletedCourse(id: string): Result<Course, Error> {
+    const deletedCourse = this.getDeletedCourse(id);
+    if (!deletedCourse) {
+      return {
+        success: false,
+        error: new NotFoundError(`Course with ID "${id}" not found in the trash`)
+      };
+    }
+
+    const restoredCourse = { ...deletedCourse };
+    delete restoredCourse.deletedAt;
+    return this.restoreCourse(restoredCourse);
+  }
+
+  /**
+   * Permanently remove a course, whether or not it is in the trash
+   */
+  purgeCourse(id: string): Result<void, Error> {
     const existingCourse = this.courses.get(id);
     if (!existingCourse) {
       return {
@@ -256,7 +528,7 @@ export class CourseService implements ICourseService {
       };
     }
 
-    // Delete from memory
+    // Remove from memory
     this.courses.delete(id);
 
     // Save to storage
@@ -270,9 +542,54 @@ export class CourseService implements ICourseService {
       };
     }
 
+    this.auditLog?.record('course', id, 'purge', existingCourse, null);
     return { success: true, value: undefined };
   }
 
+  /**
+   * Put a previously saved course back exactly as it was, replacing any course with the same ID
+   * Used to undo and redo course changes
+   */
+  restoreCourse(course: Course): Result<Course, Error> {
+    // Check for a different active course with the same name and department in the same term
+    for (const existing of course.deletedAt ? [] : this.activeCourses()) {
+      if (existing.id !== course.id &&
+          existing.name === course.name &&
+          existing.department === course.department &&
+          existing.termId === course.termId) {
+        return {
+          success: false,
+          error: new ValidationError(
+            `Course "${course.name}" already exists in department "${course.department}"`
+          )
+        };
+      }
+    }
+
+    const previousCourse = this.courses.get(course.id);
+
+    // Update in memory
+    this.courses.set(course.id, course);
+
+    // Save to storage
+    const saveResult = this.saveCourses();
+    if (!saveResult.success) {
+      // Rollback in-memory change
+      if (previousCourse) {
+        this.courses.set(course.id, previousCourse);
+      } else {
+        this.courses.delete(course.id);
+      }
+      return {
+        success: false,
+        error: saveResult.error
+      };
+    }
+
+    this.auditLog?.record('course', course.id, 'restore', previousCourse ?? null, course);
+    return { success: true, value: course };
+  }
+
   /**
    * Check if a course has associated tasks
    */
@@ -297,7 +614,7 @@ export class CourseService implements ICourseService {
     targetCourseId?: string
   ): Result<void, Error> {
     // Check if course exists
-    const existingCourse = this.courses.get(id);
+    const existingCourse = this.getCourse(id);
     if (!existingCourse) {
       return {
         success: false,
@@ -310,23 +627,13 @@ export class CourseService implements ICourseService {
       return this.deleteCourse(id);
     }
 
+    const taskService = this.taskService;
+    
     // Get associated tasks
-    const associatedTasks = this.taskService.getTasksByCourse(id);
+    const associatedTaskIds = taskService.getTasksByCourse(id).map(task => task.id);
 
-    // Handle based on strategy
-    if (strategy === 'cascade') {
-      // Delete all associated tasks
-      for (const task of associatedTasks) {
-        const deleteResult = this.taskService.deleteTask(task.id);
-        if (!deleteResult.success) {
-          return {
-            success: false,
-            error: new Error(`Failed to delete task ${task.id}: ${deleteResult.error.message}`)
-          };
-        }
-      }
-    } else if (strategy === 'reassign') {
-      // Validate target course ID is provided
+    // Validate the reassignment target before changing anything
+    if (strategy === 'reassign') {
       if (!targetCourseId) {
         return {
           success: false,
@@ -334,8 +641,7 @@ export class CourseService implements ICourseService {
         };
       }
 
-      // Validate target course exists
-      const targetCourse = this.courses.get(targetCourseId);
+      const targetCourse = this.getCourse(targetCourseId);
       if (!targetCourse) {
         return {
           success: false,
@@ -343,39 +649,60 @@ export class CourseService implements ICourseService {
         };
       }
 
-      // Validate target course is not the same as the course being deleted
       if (targetCourseId === id) {
         return {
           success: false,
           error: new ValidationError('Cannot reassign tasks to the course being deleted')
         };
       }
+    }
 
-      // Reassign all tasks to the target course
-      for (const task of associatedTasks) {
-        const updateResult = this.taskService.updateTask(task.id, { courseId: targetCourseId });
+    // Update tasks and delete the course in one transaction so a failure leaves no orphaned
+    // or half-reassigned tasks
+    // Tasks deleted with the course share its deletion time, so they can be restored with it
+    const deletedAt = new Date();
+    const result = runInTransaction(this.storage, (): Result<void, Error> => {
+      if (strategy === 'cascade') {
+        const deleteResult = taskService.deleteTasks(associatedTaskIds, deletedAt);
+        if (!deleteResult.success) {
+          return {
+            success: false,
+            error: new Error(`Failed to delete tasks: ${deleteResult.error.message}`)
+          };
+        }
+      } else if (strategy === 'reassign') {
+        const updateResult = taskService.updateTasks(associatedTaskIds, { courseId: targetCourseId });
         if (!updateResult.success) {
           return {
             success: false,
-            error: new Error(`Failed to reassign task ${task.id}: ${updateResult.error.message}`)
+            error: new Error(`Failed to reassign tasks: ${updateResult.error.message}`)
           };
         }
       }
+
+      return this.deleteCourse(id, deletedAt);
+    });
+
+    if (!result.success && !this.storage.isInTransaction()) {
+      // Storage was left untouched, so reload to discard the in-memory changes
+      this.loadCourses();
+      taskService.reload();
     }
 
-    // Delete the course
-    return this.deleteCourse(id);
+    return result;
   }
 
   /**
    * Check if a course exists with the given name and department
+   * @param termId - Term to look in; courses without a term only match other courses without a term
    */
-  courseExists(name: string, department: string): boolean {
+  courseExists(name: string, department: string, termId?: string): boolean {
     const normalizedName = name.trim();
     const normalizedDepartment = department.trim();
     
-    for (const course of this.courses.values()) {
-      if (course.name === normalizedName && course.department === normalizedDepartment) {
+    for (const course of this.activeCourses()) {
+      if (course.name === normalizedName && course.department === normalizedDepartment &&
+          course.termId === termId) {
         return true;
       }
     }
@@ -0,0 +1,170 @@
+/**
+ * Tests for CSV export and import
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TrackerService } from './TrackerService.js';
+import { parseCsvDate } from './CsvService.js';
+import { parseCsv } from '../utils/csv.js';
+import { Course } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+describe('CsvService', () => {
+  let tracker: TrackerService;
+  let course: Course;
+
+  beforeEach(() => {
+    tracker = new TrackerService(new MockStorage());
+    tracker.initialize();
+    const created = tracker.createCourse('CS101', 'Computer Science');
+    if (!created.success) throw created.error;
+    course = created.value;
+  });
+
+  describe('parseCsvDate', () => {
+    it('should parse ISO date-times, local date-times and dates', () => {
+      expect(parseCsvDate('2024-03-01T12:00:00.000Z')).toEqual(new Date('2024-03-01T12:00:00.000Z'));
+      expect(parseCsvDate('2024-03-01T12:00:00+02:00')).toEqual(new Date('2024-03-01T10:00:00.000Z'));
+      expect(parseCsvDate('2024-03-01 09:30')).toEqual(new Date(2024, 2, 1, 9, 30));
+      expect(parseCsvDate('2024-03-01')).toEqual(new Date(2024, 2, 1, 23, 59));
+    });
+
+    it('should reject ambiguous or invalid dates', () => {
+      expect(parseCsvDate('03/01/2024')).toBeNull();
+      expect(parseCsvDate('2024-02-30')).toBeNull();
+      expect(parseCsvDate('')).toBeNull();
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('should write a header and one row per task', () => {
+      const task = tracker.createTask(course.id, 'Essay, part 1', new Date('2024-03-01T12:00:00.000Z'));
+      if (!task.success) throw task.error;
+      tracker.markTaskComplete(task.value.id);
+
+      const rows = parseCsv(tracker.exportCsv()).map(row => row.fields);
+
+      expect(rows[0]).toEqual(['Course', 'Department', 'Description', 'Deadline', 'Completed', 'Completed At']);
+      expect(rows[1].slice(0, 5)).toEqual(['CS101', 'Computer Science', 'Essay, part 1', '2024-03-01T12:00:00.000Z', 'true']);
+      expect(rows[1][5]).not.toBe('');
+    });
+
+    it('should re-create the same tasks when an export is imported', () => {
+      const task = tracker.createTask(course.id, 'Essay', new Date('2024-03-01T12:00:00.000Z'));
+      if (!task.success) throw task.error;
+      tracker.markTaskComplete(task.value.id);
+      const csv = tracker.exportCsv();
+
+      const target = new TrackerService(new MockStorage());
+      target.initialize();
+      const result = target.importCsv(csv);
+
+      expect(result.success && result.value.tasksCreated).toBe(1);
+      const [imported] = target.getAllTasks();
+      expect(imported.description).toBe('Essay');
+      expect(imported.deadline).toEqual(task.value.deadline);
+      expect(imported.completed).toBe(true);
+      expect(imported.completedAt).toEqual(tracker.getTask(task.value.id)?.completedAt);
+      expect(target.getCourse(imported.courseId)?.department).toBe('Computer Science');
+    });
+  });
+
+  describe('importCsv', () => {
+    it('should import rows into existing and new courses', () => {
+      const csv = [
+        'Course,Department,Description,Deadline',
+        'CS101,Computer Science,Lab 1,2024-03-01',
+        'MATH200,Mathematics,Problem set,2024-03-02 17:00',
+        'MATH200,Mathematics,Quiz,2024-03-03 09:00'
+      ].join('\n');
+
+      const result = tracker.importCsv(csv);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.tasksCreated).toBe(3);
+        expect(result.value.coursesCreated).toEqual([{ name: 'MATH200', department: 'Mathematics' }]);
+      }
+      expect(tracker.getTasksByCourse(course.id).map(t => t.description)).toEqual(['Lab 1']);
+      expect(tracker.getAllCourses()).toHaveLength(2);
+    });
+
+    it('should use a column mapping for custom headers', () => {
+      const csv = 'Class,Due On,What\nCS101,2024-03-01,Read chapter 3\n';
+
+      const result = tracker.importCsv(csv, {
+        columnMapping: { course: 'Class', deadline: 'Due On', description: 'What' }
+      });
+
+      expect(result.success && result.value.tasksCreated).toBe(1);
+      expect(tracker.getAllTasks()[0].description).toBe('Read chapter 3');
+    });
+
+    it('should read files without a header in export column order', () => {
+      const result = tracker.importCsv('CS101,Computer Science,Essay,2024-03-01,yes,2024-02-28\n', { hasHeader: false });
+
+      expect(result.success && result.value.tasksCreated).toBe(1);
+      expect(tracker.getAllTasks()[0].completedAt).toEqual(new Date(2024, 1, 28, 23, 59));
+    });
+
+    it('should report row-level errors and import the valid rows', () => {
+      const csv = [
+        'Course,Department,Description,Deadline,Completed',
+        'CS101,Computer Science,   ,2024-03-01,',
+        'CS101,Computer Science,Essay,next week,',
+        'CS101,Computer Science,Lab,2024-03-01,maybe',
+        ',Computer Science,Orphan,2024-03-01,',
+        'CS101,Computer Science,Valid,2024-03-01,no'
+      ].join('\n');
+
+      const result = tracker.importCsv(csv);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.errors.map(e => [e.line, e.field])).toEqual([
+          [2, 'description'],
+          [3, 'deadline'],
+          [4, 'completed'],
+          [5, 'course']
+        ]);
+        expect(result.value.tasksCreated).toBe(1);
+      }
+      expect(tracker.getAllTasks().map(t => t.description)).toEqual(['Valid']);
+    });
+
+    it('should preview an import without saving anything in dry-run mode', () => {
+      const csv = 'Course,Department,Description,Deadline\nPHYS150,Physics,Lab,2024-03-01\n';
+
+      const result = tracker.importCsv(csv, { dryRun: true });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.dryRun).toBe(true);
+        expect(result.value.tasksCreated).toBe(0);
+        expect(result.value.rows).toHaveLength(1);
+        expect(result.value.rows[0].courseId).toBeNull();
+        expect(result.value.coursesCreated).toEqual([{ name: 'PHYS150', department: 'Physics' }]);
+      }
+      expect(tracker.getAllTasks()).toEqual([]);
+      expect(tracker.getAllCourses()).toEqual([course]);
+    });
+
+    it('should not create courses when auto-creation is disabled', () => {
+      const csv = 'Course,Department,Description,Deadline\nPHYS150,Physics,Lab,2024-03-01\n';
+
+      const result = tracker.importCsv(csv, { autoCreateCourses: false });
+
+      expect(result.success && result.value.errors[0].message).toContain('not found');
+      expect(tracker.getAllCourses()).toHaveLength(1);
+    });
+
+    it('should fail when a required column is missing', () => {
+      const result = tracker.importCsv('Course,Description\nCS101,Essay\n');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('deadline');
+      }
+    });
+  });
+});
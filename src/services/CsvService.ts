@@ -0,0 +1,396 @@
+/**
+ * CsvService converts between tasks and CSV spreadsheets
+ * Exports one row per task and imports rows with column mapping, validation and a dry-run preview
+ */
+
+import { Course, Task, Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { formatCsv, parseCsv } from '../utils/csv.js';
+import { validateNonEmptyString, isValidDate } from '../utils/validation.js';
+import { ICourseService } from './CourseService.js';
+import { ITaskService, validateTaskDetails } from './TaskService.js';
+
+/**
+ * Task fields that can be read from CSV columns
+ */
+export type CsvField = 'course' | 'department' | 'description' | 'deadline' | 'completed' | 'completedAt';
+
+/**
+ * Columns written by exportCsv(), in order
+ */
+export const CSV_COLUMNS: Array<{ field: CsvField; header: string }> = [
+  { field: 'course', header: 'Course' },
+  { field: 'department', header: 'Department' },
+  { field: 'description', header: 'Description' },
+  { field: 'deadline', header: 'Deadline' },
+  { field: 'completed', header: 'Completed' },
+  { field: 'completedAt', header: 'Completed At' }
+];
+
+/**
+ * Header names recognized for each field when no mapping is given (compared case-insensitively)
+ */
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  course: ['course', 'course name', 'class'],
+  department: ['department', 'dept'],
+  description: ['description', 'task', 'title', 'assignment'],
+  deadline: ['deadline', 'due', 'due date'],
+  completed: ['completed', 'done', 'status'],
+  completedAt: ['completed at', 'completedat', 'completed on']
+};
+
+/**
+ * Fields every row must provide
+ */
+const REQUIRED_FIELDS: CsvField[] = ['course', 'description', 'deadline'];
+
+/**
+ * Time of day given to date-only deadlines
+ */
+const DATE_ONLY_DEADLINE = { hours: 23, minutes: 59 };
+
+/**
+ * Values accepted for the completed column
+ */
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'done', 'completed'];
+const FALSE_VALUES = ['', 'false', 'no', 'n', '0', 'todo', 'open'];
+
+/**
+ * Options for CSV import
+ */
+export interface CsvImportOptions {
+  columnMapping?: Partial<Record<CsvField, string | number>>;  // Header name or zero-based column index
+  hasHeader?: boolean;                                         // Defaults to true
+  dryRun?: boolean;                                            // Validate and preview without saving
+  autoCreateCourses?: boolean;                                 // Defaults to true
+}
+
+/**
+ * A validated row and what importing it does
+ */
+export interface CsvImportRow {
+  line: number;                      // Line number in the file
+  courseName: string;
+  department: string | null;
+  courseId: string | null;           // null when the course will be created
+  description: string;
+  deadline: Date;
+  completed: boolean;
+  completedAt?: Date;
+}
+
+/**
+ * A row that cannot be imported, and why
+ */
+export interface CsvRowError {
+  line: number;
+  field?: CsvField;
+  message: string;
+}
+
+/**
+ * Outcome of a CSV import, or the preview of one in dry-run mode
+ */
+export interface CsvImportReport {
+  dryRun: boolean;
+  rows: CsvImportRow[];
+  errors: CsvRowError[];
+  tasksCreated: number;              // 0 in dry-run mode
+  coursesCreated: Array<{ name: string; department: string }>;
+}
+
+/**
+ * CsvService interface
+ */
+export interface ICsvService {
+  exportCsv(): string;
+  importCsv(text: string, options?: CsvImportOptions): Result<CsvImportReport, Error>;
+}
+
+/**
+ * Parse a deadline or completion date from a CSV cell
+ * Accepts ISO 8601 date-times (with or without a time zone; without one, local time is used)
+ * and plain YYYY-MM-DD dates, which are due at the end of the day.
+ * @returns The date, or null if the value is not in a supported format
+ */
+export function parseCsvDate(value: string): Date | null {
+  const trimmed = value.trim();
+
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const date = new Date(year, month - 1, day, DATE_ONLY_DEADLINE.hours, DATE_ONLY_DEADLINE.minutes);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+
+  const local = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(trimmed);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local.map(part => Number(part ?? 0));
+    const date = new Date(year, month - 1, day, hour, minute, second);
+    return date.getMonth() === month - 1 && date.getDate() === day && hour < 24 && minute < 60 ? date : null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isValidDate(date) ? date : null;
+  }
+
+  return null;
+}
+
+/**
+ * Find the column index for each field
+ */
+function resolveColumns(
+  header: string[] | null,
+  mapping: Partial<Record<CsvField, string | number>>
+): Result<Partial<Record<CsvField, number>>, ValidationError> {
+  const columns: Partial<Record<CsvField, number>> = {};
+  const normalizedHeader = header?.map(name => name.trim().toLowerCase()) ?? null;
+
+  for (const { field } of CSV_COLUMNS) {
+    const mapped = mapping[field];
+    if (typeof mapped === 'number') {
+      columns[field] = mapped;
+    } else if (typeof mapped === 'string') {
+      const index = normalizedHeader?.indexOf(mapped.trim().toLowerCase()) ?? -1;
+      if (index === -1) {
+        return {
+          success: false,
+          error: new ValidationError(`Column "${mapped}" mapped to ${field} was not found`)
+        };
+      }
+      columns[field] = index;
+    } else if (normalizedHeader) {
+      const index = normalizedHeader.findIndex(name => HEADER_ALIASES[field].includes(name));
+      if (index !== -1) {
+        columns[field] = index;
+      }
+    } else {
+      // Without a header, columns follow the export layout
+      columns[field] = CSV_COLUMNS.findIndex(column => column.field === field);
+    }
+  }
+
+  const missing = REQUIRED_FIELDS.filter(field => columns[field] === undefined);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: new ValidationError(`Missing required column(s): ${missing.join(', ')}`)
+    };
+  }
+
+  return { success: true, value: columns };
+}
+
+/**
+ * CsvService implementation
+ */
+export class CsvService implements ICsvService {
+  private courseService: ICourseService;
+  private taskService: ITaskService;
+
+  constructor(courseService: ICourseService, taskService: ITaskService) {
+    this.courseService = courseService;
+    this.taskService = taskService;
+  }
+
+  /**
+   * Export all tasks, one row per task, sorted by deadline
+   */
+  exportCsv(): string {
+    const tasks = [...this.taskService.getAllTasks()].sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+    const rows = tasks.map(task => {
+      const course = this.courseService.getCourse(task.courseId);
+      return [
+        course?.name ?? '',
+        course?.department ?? '',
+        task.description,
+        task.deadline.toISOString(),
+        task.completed ? 'true' : 'false',
+        task.completedAt ? task.completedAt.toISOString() : ''
+      ];
+    });
+
+    return formatCsv([CSV_COLUMNS.map(column => column.header), ...rows]);
+  }
+
+  /**
+   * Import tasks from CSV rows
+   * Every row is validated with the same rules as task creation; invalid rows are reported with
+   * their line number and skipped. Courses are matched on name and department (or name alone when
+   * there is no department column) and created when missing.
+   * @param text - The CSV text
+   * @param options - Column mapping, header and dry-run options
+   */
+  importCsv(text: string, options: CsvImportOptions = {}): Result<CsvImportReport, Error> {
+    const parsed = parseCsv(text);
+    const hasHeader = options.hasHeader ?? true;
+    const header = hasHeader ? parsed[0]?.fields ?? [] : null;
+    const dataRows = hasHeader ? parsed.slice(1) : parsed;
+
+    const columnsResult = resolveColumns(header, options.columnMapping ?? {});
+    if (!columnsResult.success) {
+      return columnsResult;
+    }
+    const columns = columnsResult.value;
+
+    const report: CsvImportReport = {
+      dryRun: options.dryRun ?? false,
+      rows: [],
+      errors: [],
+      tasksCreated: 0,
+      coursesCreated: []
+    };
+
+    // Courses created by earlier rows, keyed like findCourse
+    const plannedCourses = new Set<string>();
+
+    for (const { line, fields } of dataRows) {
+      const cell = (field: CsvField): string => {
+        const index = columns[field];
+        return index !== undefined ? (fields[index] ?? '').trim() : '';
+      };
+      const fail = (message: string, field?: CsvField) => report.errors.push({ line, field, message });
+
+      const courseName = validateNonEmptyString(cell('course'));
+      if (courseName === null) {
+        fail('Course name cannot be empty or whitespace only', 'course');
+        continue;
+      }
+      const department = columns.department !== undefined ? validateNonEmptyString(cell('department')) : null;
+      if (columns.department !== undefined && department === null) {
+        fail('Department cannot be empty or whitespace only', 'department');
+        continue;
+      }
+
+      const deadline = parseCsvDate(cell('deadline'));
+      if (!deadline) {
+        fail(`Deadline must be a valid date, got "${cell('deadline')}"`, 'deadline');
+        continue;
+      }
+      const details = validateTaskDetails(cell('description'), deadline);
+      if (!details.success) {
+        fail(details.error.message, 'description');
+        continue;
+      }
+
+      const completedValue = cell('completed').toLowerCase();
+      if (!TRUE_VALUES.includes(completedValue) && !FALSE_VALUES.includes(completedValue)) {
+        fail(`Completed must be true or false, got "${cell('completed')}"`, 'completed');
+        continue;
+      }
+      const completed = TRUE_VALUES.includes(completedValue);
+
+      let completedAt: Date | undefined;
+      if (completed && cell('completedAt') !== '') {
+        const parsedCompletedAt = parseCsvDate(cell('completedAt'));
+        if (!parsedCompletedAt) {
+          fail(`Completed At must be a valid date, got "${cell('completedAt')}"`, 'completedAt');
+          continue;
+        }
+        completedAt = parsedCompletedAt;
+      }
+
+      const courseResult = this.findCourse(courseName, department);
+      if (!courseResult.success) {
+        fail(courseResult.error.message, 'course');
+        continue;
+      }
+      const course = courseResult.value;
+      if (!course) {
+        if (options.autoCreateCourses === false) {
+          fail(`Course "${courseName}" not found`, 'course');
+          continue;
+        }
+        if (department === null) {
+          fail(`Course "${courseName}" not found; add a department column to create it`, 'course');
+          continue;
+        }
+        const key = `${courseName}\u0000${department}`;
+        if (!plannedCourses.has(key)) {
+          plannedCourses.add(key);
+          report.coursesCreated.push({ name: courseName, department });
+        }
+      }
+
+      report.rows.push({
+        line,
+        courseName,
+        department: course?.department ?? department,
+        courseId: course?.id ?? null,
+        description: details.value.description,
+        deadline: details.value.deadline,
+        completed,
+        ...(completedAt ? { completedAt } : {})
+      });
+    }
+
+    if (report.dryRun) {
+      return { success: true, value: report };
+    }
+
+    const applyResult = this.applyRows(report.rows);
+    if (!applyResult.success) {
+      return applyResult;
+    }
+    report.tasksCreated = applyResult.value;
+    return { success: true, value: report };
+  }
+
+  /**
+   * Find the course for a row
+   * Without a department, the name must identify a single course.
+   */
+  private findCourse(name: string, department: string | null): Result<Course | null, ValidationError> {
+    const matches = this.courseService.getAllCourses().filter(course =>
+      course.name === name && (department === null || course.department === department)
+    );
+    if (matches.length > 1) {
+      return {
+        success: false,
+        error: new ValidationError(`Course "${name}" exists in several departments; add a department column`)
+      };
+    }
+    return { success: true, value: matches[0] ?? null };
+  }
+
+  /**
+   * Create the courses and tasks for validated rows
+   * @returns The number of tasks created
+   */
+  private applyRows(rows: CsvImportRow[]): Result<number, Error> {
+    for (const row of rows) {
+      let courseId = row.courseId;
+      if (courseId === null) {
+        // department is always set for rows whose course has to be created
+        const department = row.department ?? '';
+        const existing = this.findCourse(row.courseName, department);
+        if (existing.success && existing.value) {
+          courseId = existing.value.id;
+        } else {
+          const createResult = this.courseService.createCourse(row.courseName, department);
+          if (!createResult.success) {
+            return createResult;
+          }
+          courseId = createResult.value.id;
+        }
+      }
+
+      const createResult = this.taskService.createTask(courseId, row.description, row.deadline);
+      if (!createResult.success) {
+        return createResult;
+      }
+
+      if (row.completed) {
+        const updates: Partial<Task> = { completed: true, completedAt: row.completedAt ?? new Date() };
+        const updateResult = this.taskService.updateTask(createResult.value.id, updates);
+        if (!updateResult.success) {
+          return updateResult;
+        }
+      }
+    }
+
+    return { success: true, value: rows.length };
+  }
+}
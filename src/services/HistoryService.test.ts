@@ -0,0 +1,99 @@
+/**
+ * Tests for HistoryService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HistoryService, HistoryCommand } from './HistoryService.js';
+import { Result } from '../models/types.js';
+
+/**
+ * Create a command that adds to and subtracts from a shared counter
+ */
+function counterCommand(state: { value: number }, amount: number, label: string = `Add ${amount}`): HistoryCommand {
+  return {
+    label,
+    undo: (): Result<void, Error> => {
+      state.value -= amount;
+      return { success: true, value: undefined };
+    },
+    redo: (): Result<void, Error> => {
+      state.value += amount;
+      return { success: true, value: undefined };
+    }
+  };
+}
+
+describe('HistoryService', () => {
+  let history: HistoryService;
+  let state: { value: number };
+
+  beforeEach(() => {
+    history = new HistoryService();
+    state = { value: 0 };
+  });
+
+  it('should undo and redo commands in order', () => {
+    state.value += 1;
+    history.record(counterCommand(state, 1));
+    state.value += 2;
+    history.record(counterCommand(state, 2));
+
+    expect(history.getUndoLabel()).toBe('Add 2');
+    const undoResult = history.undo();
+    expect(undoResult.success && undoResult.value).toBe('Add 2');
+    expect(state.value).toBe(1);
+
+    history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+
+    history.redo();
+    expect(state.value).toBe(1);
+    expect(history.getRedoLabel()).toBe('Add 2');
+  });
+
+  it('should fail when there is nothing to undo or redo', () => {
+    expect(history.undo().success).toBe(false);
+    expect(history.redo().success).toBe(false);
+  });
+
+  it('should clear the redo stack when a new command is recorded', () => {
+    history.record(counterCommand(state, 1));
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+
+    history.record(counterCommand(state, 5));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should drop the oldest commands beyond the limit', () => {
+    const bounded = new HistoryService(3);
+    for (let i = 1; i <= 5; i++) {
+      bounded.record(counterCommand(state, i));
+    }
+
+    const labels: string[] = [];
+    while (bounded.canUndo()) {
+      const result = bounded.undo();
+      if (result.success) labels.push(result.value);
+    }
+    expect(labels).toEqual(['Add 5', 'Add 4', 'Add 3']);
+  });
+
+  it('should keep a command on the stack when its undo fails', () => {
+    history.record({
+      label: 'Broken',
+      undo: () => ({ success: false, error: new Error('storage full') }),
+      redo: () => ({ success: true, value: undefined })
+    });
+
+    const result = history.undo();
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('storage full');
+    }
+    expect(history.getUndoLabel()).toBe('Broken');
+    expect(history.canRedo()).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * HistoryService provides undo/redo for tracker mutations
+ * Each mutation is recorded as a command that knows how to undo and redo itself
+ */
+
+import { Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+
+/**
+ * Maximum number of commands kept on the undo stack by default
+ */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * A recorded mutation with its inverse
+ */
+export interface HistoryCommand {
+  label: string;                      // Human-readable description, e.g. 'Delete task "Essay"'
+  undo(): Result<void, Error>;
+  redo(): Result<void, Error>;
+}
+
+/**
+ * HistoryService interface
+ */
+export interface IHistoryService {
+  record(command: HistoryCommand): void;
+  undo(): Result<string, Error>;
+  redo(): Result<string, Error>;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  getUndoLabel(): string | null;
+  getRedoLabel(): string | null;
+  clear(): void;
+}
+
+/**
+ * HistoryService implementation with bounded undo and redo stacks
+ */
+export class HistoryService implements IHistoryService {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private limit: number;
+
+  constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+    this.limit = Math.max(1, limit);
+  }
+
+  /**
+   * Record a mutation that has just been applied
+   * Clears the redo stack and drops the oldest command when the limit is reached
+   */
+  record(command: HistoryCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Undo the most recent command
+   * @returns The label of the undone command
+   */
+  undo(): Result<string, Error> {
+    const command = this.undoStack[this.undoStack.length - 1];
+    if (!command) {
+      return {
+        success: false,
+        error: new ValidationError('Nothing to undo')
+      };
+    }
+
+    const result = command.undo();
+    if (!result.success) {
+      // The command stays on the stack; its undo is expected to be all-or-nothing
+      return {
+        success: false,
+        error: new Error(`Failed to undo "${command.label}": ${result.error.message}`)
+      };
+    }
+
+    this.undoStack.pop();
+    this.redoStack.push(command);
+    return { success: true, value: command.label };
+  }
+
+  /**
+   * Redo the most recently undone command
+   * @returns The label of the redone command
+   */
+  redo(): Result<string, Error> {
+    const command = this.redoStack[this.redoStack.length - 1];
+    if (!command) {
+      return {
+        success: false,
+        error: new ValidationError('Nothing to redo')
+      };
+    }
+
+    const result = command.redo();
+    if (!result.success) {
+      return {
+        success: false,
+        error: new Error(`Failed to redo "${command.label}": ${result.error.message}`)
+      };
+    }
+
+    this.redoStack.pop();
+    this.undoStack.push(command);
+    return { success: true, value: command.label };
+  }
+
+  /**
+   * Check whether there is a command to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check whether there is a command to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Get the label of the command undo() would revert
+   */
+  getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Get the label of the command redo() would reapply
+   */
+  getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Forget all recorded commands
+   * Used when data changes outside of recorded mutations (e.g. an import)
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
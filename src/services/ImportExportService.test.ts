@@ -0,0 +1,344 @@
+/**
+ * Tests for JSON export and import of the tracker dataset
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TrackerService } from './TrackerService.js';
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, parseExportDocument } from './ImportExportService.js';
+import { CURRENT_SCHEMA_VERSION } from '../storage/migrations.js';
+import { arbitraryCourse, arbitraryTask } from '../utils/testGenerators.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+/**
+ * Create an initialized tracker on empty storage
+ */
+function createTracker(storage: Storage = new MockStorage()): TrackerService {
+  const tracker = new TrackerService(storage);
+  tracker.initialize();
+  return tracker;
+}
+
+/**
+ * Build an export document from raw records
+ */
+function buildDocument(courses: any[], tasks: any[], overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date(),
+    courses,
+    tasks,
+    ...overrides
+  });
+}
+
+describe('ImportExportService', () => {
+  let tracker: TrackerService;
+
+  beforeEach(() => {
+    tracker = createTracker();
+  });
+
+  describe('exportData', () => {
+    it('should produce a versioned document with all courses and tasks', () => {
+      const course = tracker.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      tracker.createTask(course.value.id, 'Essay', new Date('2024-12-31T12:00:00.000Z'));
+
+      const document = JSON.parse(tracker.exportData());
+
+      expect(document.format).toBe(EXPORT_FORMAT);
+      expect(document.version).toBe(EXPORT_FORMAT_VERSION);
+      expect(document.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(document.courses).toHaveLength(1);
+      expect(document.tasks[0].deadline).toBe('2024-12-31T12:00:00.000Z');
+    });
+
+    it('should round-trip any valid dataset through a replace import', () => {
+      fc.assert(
+        fc.property(
+          fc.uniqueArray(arbitraryCourse(), { selector: c => `${c.name.trim()}|${c.department.trim()}`, minLength: 1, maxLength: 5 }),
+          fc.array(arbitraryTask(), { maxLength: 10 }),
+          (courses, tasks) => {
+            const normalizedCourses = courses.map(c => ({ ...c, name: c.name.trim(), department: c.department.trim() }));
+            // Attach every task to one of the generated courses
+            const normalizedTasks = tasks.map((t, i) => {
+              const { completedAt, ...task } = t;
+              return {
+                ...task,
+                description: t.description.trim(),
+                courseId: normalizedCourses[i % normalizedCourses.length].id,
+                ...(t.completed && completedAt ? { completedAt } : {})
+              };
+            });
+            const uniqueCourseIds = new Set(normalizedCourses.map(c => c.id));
+            fc.pre(uniqueCourseIds.size === normalizedCourses.length);
+            fc.pre(new Set(normalizedTasks.map(t => t.id)).size === normalizedTasks.length);
+
+            const source = createTracker();
+            const seeded = source.importData(buildDocument(normalizedCourses, normalizedTasks), 'replace');
+            expect(seeded.success).toBe(true);
+
+            const target = createTracker();
+            const result = target.importData(source.exportData(), 'replace');
+
+            expect(result.success).toBe(true);
+            expect(target.getAllCourses()).toEqual(normalizedCourses);
+            expect(target.getAllTasks()).toEqual(normalizedTasks);
+          }
+        ),
+        { numRuns: 30 }
+      );
+    });
+  });
+
+  describe('importData - validation', () => {
+    it('should reject documents that are not tracker exports', () => {
+      expect(tracker.importData('not json').success).toBe(false);
+      expect(tracker.importData(JSON.stringify({ courses: [], tasks: [] })).success).toBe(false);
+
+      const newer = tracker.importData(buildDocument([], [], { version: EXPORT_FORMAT_VERSION + 1 }));
+      expect(newer.success).toBe(false);
+      if (!newer.success) {
+        expect(newer.error.name).toBe('ValidationError');
+      }
+    });
+
+    it('should reject records from a newer schema version', () => {
+      const result = tracker.importData(buildDocument([], [], { schemaVersion: CURRENT_SCHEMA_VERSION + 1 }));
+      expect(result.success).toBe(false);
+    });
+
+    it('should upgrade records from older schema versions', () => {
+      const parsed = parseExportDocument(buildDocument(
+        [{ id: 'c1', name: 'CS101', department: 'CS', createdAt: 1704067200000 }],
+        [],
+        { schemaVersion: 0 }
+      ));
+
+      expect(parsed.success).toBe(true);
+      if (parsed.success) {
+        expect(parsed.value.courses[0]).toMatchObject({ createdAt: new Date(1704067200000) });
+      }
+    });
+
+    it('should skip invalid records and report them', () => {
+      const createdAt = new Date();
+      const result = tracker.importData(buildDocument(
+        [
+          { id: 'c1', name: 'CS101', department: 'CS', createdAt },
+          { id: 'c2', name: '   ', department: 'CS', createdAt }
+        ],
+        [
+          { id: 't1', courseId: 'c1', description: 'Essay', deadline: new Date(), completed: false, createdAt },
+          { id: 't2', courseId: 'c1', description: '', deadline: new Date(), completed: false, createdAt },
+          { id: 't3', courseId: 'missing', description: 'Orphan', deadline: new Date(), completed: false, createdAt }
+        ]
+      ));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.coursesImported).toBe(1);
+        expect(result.value.tasksImported).toBe(1);
+        expect(result.value.skipped.map(issue => issue.id)).toEqual(['c2', 't2', 't3']);
+        expect(result.value.skipped[2].reason).toContain('not found');
+      }
+      expect(tracker.getAllTasks().map(t => t.id)).toEqual(['t1']);
+    });
+
+    it('should import course meetings and skip courses with invalid ones', () => {
+      const createdAt = new Date();
+      const meeting = { weekday: 1, start: '10:00', end: '11:00', type: 'lecture' };
+      const result = tracker.importData(buildDocument(
+        [
+          { id: 'c1', name: 'CS101', department: 'CS', meetings: [meeting], createdAt },
+          { id: 'c2', name: 'CS102', department: 'CS', meetings: [{ ...meeting, type: 'party' }], createdAt }
+        ],
+        []
+      ));
+
+      expect(result.success && result.value.skipped.map(issue => issue.id)).toEqual(['c2']);
+      expect(tracker.getCourse('c1')?.meetings).toEqual([meeting]);
+    });
+  });
+
+  describe('importData - modes', () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    const deadline = new Date('2024-12-31T12:00:00.000Z');
+
+    it('should replace all existing data', () => {
+      const existing = tracker.createCourse('MATH200', 'Mathematics');
+      if (!existing.success) throw existing.error;
+      tracker.createTask(existing.value.id, 'Old task', deadline);
+
+      const result = tracker.importData(buildDocument(
+        [{ id: 'c1', name: 'CS101', department: 'CS', createdAt }],
+        [{ id: 't1', courseId: 'c1', description: 'Essay', deadline, completed: false, createdAt }]
+      ), 'replace');
+
+      expect(result.success).toBe(true);
+      expect(tracker.getAllCourses().map(c => c.name)).toEqual(['CS101']);
+      expect(tracker.getAllTasks().map(t => t.description)).toEqual(['Essay']);
+    });
+
+    it('should merge tasks into an existing course with the same name and department', () => {
+      const existing = tracker.createCourse('CS101', 'CS');
+      if (!existing.success) throw existing.error;
+
+      const result = tracker.importData(buildDocument(
+        [{ id: 'other-id', name: 'CS101', department: 'CS', createdAt }],
+        [{ id: 't1', courseId: 'other-id', description: 'Essay', deadline, completed: false, createdAt }]
+      ), 'merge');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.coursesImported).toBe(0);
+        expect(result.value.duplicates).toHaveLength(1);
+        expect(result.value.duplicates[0].kind).toBe('course');
+      }
+      expect(tracker.getAllCourses()).toHaveLength(1);
+      expect(tracker.getTask('t1')?.courseId).toBe(existing.value.id);
+    });
+
+    it('should keep the series of recurring tasks and map the series course', () => {
+      const existing = tracker.createCourse('CS101', 'CS');
+      if (!existing.success) throw existing.error;
+      const recurrence = {
+        rule: { interval: 1, weekdays: [deadline.getDay()], count: 4 },
+        start: deadline,
+        courseId: 'other-id',
+        description: 'Reading',
+        exceptions: []
+      };
+
+      const result = tracker.importData(buildDocument(
+        [{ id: 'other-id', name: 'CS101', department: 'CS', createdAt }],
+        [{
+          id: 't1', courseId: 'other-id', description: 'Reading', deadline, completed: false, createdAt,
+          seriesId: 'series-1', occurrenceDate: deadline, recurrence
+        }]
+      ), 'merge');
+
+      expect(result.success).toBe(true);
+      const task = tracker.getTask('t1');
+      expect(task?.seriesId).toBe('series-1');
+      expect(task?.occurrenceDate).toEqual(deadline);
+      // Exports from before priorities and categories existed get the defaults
+      expect(task?.priority).toBe('normal');
+      expect(task?.category).toBe('assignment');
+      expect(task?.recurrence).toEqual({
+        ...recurrence,
+        courseId: existing.value.id,
+        priority: 'normal',
+        category: 'assignment'
+      });
+    });
+
+    it('should skip tasks with an unknown priority', () => {
+      const result = tracker.importData(buildDocument(
+        [{ id: 'c1', name: 'CS101', department: 'CS', createdAt }],
+        [{ id: 't1', courseId: 'c1', description: 'Essay', deadline, completed: false, createdAt, priority: 'urgent' }]
+      ), 'replace');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.skipped[0].reason).toContain('priority');
+      }
+      expect(tracker.getAllTasks()).toEqual([]);
+    });
+
+    it('should import checklists and skip tasks with a malformed one', () => {
+      const checklist = [{ id: 'i1', text: 'Outline', completed: true }, { id: 'i2', text: 'Draft', completed: false }];
+      const result = tracker.importData(buildDocument(
+        [{ id: 'c1', name: 'CS101', department: 'CS', createdAt }],
+        [
+          { id: 't1', courseId: 'c1', description: 'Essay', deadline, completed: false, createdAt, checklist, autoComplete: true },
+          { id: 't2', courseId: 'c1', description: 'Report', deadline, completed: false, createdAt, checklist: [{ id: 'i1', text: '' }] }
+        ]
+      ), 'replace');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.skipped[0].reason).toContain('checklist');
+      }
+      expect(tracker.getTask('t1')?.checklist).toEqual(checklist);
+      expect(tracker.getTask('t1')?.autoComplete).toBe(true);
+      expect(tracker.getTask('t2')).toBeNull();
+    });
+
+    it('should skip tasks with an invalid recurrence', () => {
+      const result = tracker.importData(buildDocument(
+        [{ id: 'c1', name: 'CS101', department: 'CS', createdAt }],
+        [{
+          id: 't1', courseId: 'c1', description: 'Reading', deadline, completed: false, createdAt,
+          seriesId: 'series-1', recurrence: { rule: { interval: 0, weekdays: [] }, start: deadline }
+        }]
+      ), 'merge');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.skipped[0].reason).toContain('recurrence');
+      }
+      expect(tracker.getTask('t1')).toBeNull();
+    });
+
+    it('should not duplicate records when the same export is merged twice', () => {
+      const course = tracker.createCourse('CS101', 'CS');
+      if (!course.success) throw course.error;
+      tracker.createTask(course.value.id, 'Essay', deadline);
+      const exported = tracker.exportData();
+
+      const result = tracker.importData(exported, 'merge');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.coursesImported).toBe(0);
+        expect(result.value.tasksImported).toBe(0);
+        expect(result.value.duplicates.map(issue => issue.kind)).toEqual(['course', 'task']);
+      }
+      expect(tracker.getAllTasks()).toHaveLength(1);
+    });
+
+    it('should import terms and attach courses to an existing term with the same name', () => {
+      const existing = tracker.createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      if (!existing.success) throw existing.error;
+      const term = { id: 'other-term', name: 'Fall 2024', startDate: new Date(2024, 8, 1), endDate: new Date(2024, 11, 20), createdAt };
+      const spring = { ...term, id: 'spring', name: 'Spring 2025', startDate: new Date(2025, 0, 10), endDate: new Date(2025, 4, 20) };
+
+      const result = tracker.importData(buildDocument(
+        [
+          { id: 'c1', name: 'CS101', department: 'CS', termId: 'other-term', createdAt },
+          { id: 'c2', name: 'CS102', department: 'CS', termId: 'spring', createdAt },
+          { id: 'c3', name: 'CS103', department: 'CS', termId: 'unknown', createdAt }
+        ],
+        [],
+        { terms: [term, spring, { ...term, id: 'bad', name: ' ' }] }
+      ), 'merge');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.termsImported).toBe(1);
+        expect(result.value.duplicates.map(issue => issue.kind)).toEqual(['term']);
+        expect(result.value.skipped.map(issue => issue.kind)).toEqual(['term']);
+      }
+      expect(tracker.getAllTerms().map(t => t.name)).toEqual(['Fall 2024', 'Spring 2025']);
+      expect(tracker.getCourse('c1')?.termId).toBe(existing.value.id);
+      expect(tracker.getCourse('c2')?.termId).toBe('spring');
+      expect(tracker.getCourse('c3')?.termId).toBeUndefined();
+    });
+
+    it('should persist imported data and clear the undo history', () => {
+      const storage = new MockStorage();
+      const first = createTracker(storage);
+      first.createCourse('MATH200', 'Mathematics');
+      expect(first.canUndo()).toBe(true);
+
+      first.importData(buildDocument([{ id: 'c1', name: 'CS101', department: 'CS', createdAt }], []), 'replace');
+
+      expect(first.canUndo()).toBe(false);
+      expect(createTracker(storage).getAllCourses().map(c => c.id)).toEqual(['c1']);
+    });
+  });
+});
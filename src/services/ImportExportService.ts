@@ -0,0 +1,630 @@
+/**
+ * ImportExportService moves the full tracker dataset in and out as a versioned JSON document
+ * Handles document validation, schema upgrades, and replace/merge imports
+ */
+
+import { Course, Term, Task, TaskRecurrence, RecurrenceRule, Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { IStorageService, runInTransaction, dateReviver } from '../storage/StorageService.js';
+import { CURRENT_SCHEMA_VERSION, migrateData } from '../storage/migrations.js';
+import { validateNonEmptyString, isValidDate } from '../utils/validation.js';
+import { validateRecurrenceRule } from '../utils/recurrence.js';
+import { isTaskPriority, DEFAULT_PRIORITY } from '../utils/priority.js';
+import { isTaskCategory, DEFAULT_CATEGORY } from '../utils/category.js';
+import { validateChecklist } from '../utils/checklist.js';
+import { isValidEstimate, isValidTimeSession } from '../utils/effort.js';
+import { validateMeetings } from '../utils/meeting.js';
+import { ICourseService } from './CourseService.js';
+import { ITaskService } from './TaskService.js';
+import { ITermService } from './TermService.js';
+
+/**
+ * Identifies tracker export documents
+ */
+export const EXPORT_FORMAT = 'weekly-course-tracker';
+
+/**
+ * Version of the export document layout (independent of the record schema version)
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Versioned JSON document containing every term, course and task
+ */
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: number;             // Export document layout version
+  schemaVersion: number;       // Schema version of the course and task records
+  exportedAt: Date;
+  terms?: Term[];              // Missing from documents exported before courses had terms
+  courses: Course[];
+  tasks: Task[];
+}
+
+/**
+ * How imported data is combined with existing data
+ * - replace: existing courses and tasks are removed first
+ * - merge: imported records are added alongside existing ones
+ */
+export type ImportMode = 'replace' | 'merge';
+
+/**
+ * A record that was not imported, and why
+ */
+export interface ImportIssue {
+  kind: 'term' | 'course' | 'task';
+  index: number;               // Position of the record in the document
+  id?: string;
+  reason: string;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportReport {
+  mode: ImportMode;
+  termsImported: number;
+  coursesImported: number;
+  tasksImported: number;
+  skipped: ImportIssue[];      // Invalid records
+  duplicates: ImportIssue[];   // Records matching data that already exists
+}
+
+/**
+ * ImportExportService interface
+ */
+export interface IImportExportService {
+  exportData(): ExportDocument;
+  importData(json: string, mode: ImportMode): Result<ImportReport, Error>;
+}
+
+/**
+ * Check that a value from an import document is an object whose fields can be read
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+/**
+ * Get the ID of an import record, if it has one
+ */
+function getRecordId(record: unknown): string | undefined {
+  return isRecord(record) && typeof record.id === 'string' ? record.id : undefined;
+}
+
+/**
+ * Validate a course record from an import document
+ * @returns The normalized course, or a reason for rejecting it
+ */
+function validateCourseRecord(record: unknown): Result<Course, string> {
+  if (!isRecord(record)) {
+    return { success: false, error: 'Course is not an object' };
+  }
+  if (typeof record.id !== 'string' || record.id.length === 0) {
+    return { success: false, error: 'Course ID is missing' };
+  }
+
+  const name = typeof record.name === 'string' ? validateNonEmptyString(record.name) : null;
+  if (name === null) {
+    return { success: false, error: 'Course name cannot be empty or whitespace only' };
+  }
+
+  const department = typeof record.department === 'string' ? validateNonEmptyString(record.department) : null;
+  if (department === null) {
+    return { success: false, error: 'Department cannot be empty or whitespace only' };
+  }
+
+  if (!isValidDate(record.createdAt)) {
+    return { success: false, error: 'Course creation date is invalid' };
+  }
+  if (record.termId !== undefined && (typeof record.termId !== 'string' || record.termId.length === 0)) {
+    return { success: false, error: 'Course term ID is invalid' };
+  }
+
+  const meetings = record.meetings !== undefined ? validateMeetings(record.meetings) : null;
+  if (meetings && !meetings.success) {
+    return { success: false, error: meetings.error.message };
+  }
+
+  const course: Course = { id: record.id, name, department, createdAt: record.createdAt };
+  if (record.termId !== undefined) {
+    course.termId = record.termId;
+  }
+  if (meetings && meetings.value.length > 0) {
+    course.meetings = meetings.value;
+  }
+  return { success: true, value: course };
+}
+
+/**
+ * Validate a term record from an import document
+ * @returns The normalized term, or a reason for rejecting it
+ */
+function validateTermRecord(record: unknown): Result<Term, string> {
+  if (!isRecord(record)) {
+    return { success: false, error: 'Term is not an object' };
+  }
+  if (typeof record.id !== 'string' || record.id.length === 0) {
+    return { success: false, error: 'Term ID is missing' };
+  }
+
+  const name = typeof record.name === 'string' ? validateNonEmptyString(record.name) : null;
+  if (name === null) {
+    return { success: false, error: 'Term name cannot be empty or whitespace only' };
+  }
+  if (!isValidDate(record.startDate) || !isValidDate(record.endDate) || record.endDate < record.startDate) {
+    return { success: false, error: 'Term dates are invalid' };
+  }
+  if (!isValidDate(record.createdAt)) {
+    return { success: false, error: 'Term creation date is invalid' };
+  }
+  if (record.archivedAt !== undefined && !isValidDate(record.archivedAt)) {
+    return { success: false, error: 'Term archive date is invalid' };
+  }
+
+  const term: Term = { id: record.id, name, startDate: record.startDate, endDate: record.endDate, createdAt: record.createdAt };
+  if (record.archivedAt) {
+    term.archivedAt = record.archivedAt;
+  }
+  return { success: true, value: term };
+}
+
+/**
+ * Validate the series definition of a recurring task record
+ * @returns The normalized definition, or a reason for rejecting it
+ */
+function validateRecurrenceRecord(record: unknown): Result<TaskRecurrence, string> {
+  if (!isRecord(record) || !isRecord(record.rule)) {
+    return { success: false, error: 'Task recurrence is not an object' };
+  }
+  if (!isValidDate(record.start)) {
+    return { success: false, error: 'Task recurrence start date is invalid' };
+  }
+
+  // validateRecurrenceRule checks each field of the rule
+  const rule = validateRecurrenceRule(record.rule as unknown as RecurrenceRule, record.start);
+  if (!rule.success) {
+    return { success: false, error: `Task recurrence is invalid: ${rule.error.message}` };
+  }
+
+  const description = typeof record.description === 'string' ? validateNonEmptyString(record.description) : null;
+  if (description === null || typeof record.courseId !== 'string' || record.courseId.length === 0) {
+    return { success: false, error: 'Task recurrence needs a description and course ID' };
+  }
+  if (!Array.isArray(record.exceptions) || !record.exceptions.every(isValidDate)) {
+    return { success: false, error: 'Task recurrence exceptions are invalid' };
+  }
+  if (record.priority !== undefined && !isTaskPriority(record.priority)) {
+    return { success: false, error: 'Task recurrence priority is invalid' };
+  }
+  if (record.category !== undefined && !isTaskCategory(record.category)) {
+    return { success: false, error: 'Task recurrence category is invalid' };
+  }
+  if (record.estimatedHours !== undefined && !isValidEstimate(record.estimatedHours)) {
+    return { success: false, error: 'Task recurrence estimated effort is invalid' };
+  }
+
+  const recurrence: TaskRecurrence = {
+    rule: rule.value,
+    start: record.start,
+    courseId: record.courseId,
+    description,
+    priority: record.priority ?? DEFAULT_PRIORITY,
+    category: record.category ?? DEFAULT_CATEGORY,
+    exceptions: record.exceptions
+  };
+  if (record.estimatedHours) {
+    recurrence.estimatedHours = record.estimatedHours;
+  }
+  return { success: true, value: recurrence };
+}
+
+/**
+ * Validate a task record from an import document
+ * @returns The normalized task, or a reason for rejecting it
+ */
+function validateTaskRecord(record: unknown): Result<Task, string> {
+  if (!isRecord(record)) {
+    return { success: false, error: 'Task is not an object' };
+  }
+  if (typeof record.id !== 'string' || record.id.length === 0) {
+    return { success: false, error: 'Task ID is missing' };
+  }
+  if (typeof record.courseId !== 'string' || record.courseId.length === 0) {
+    return { success: false, error: 'Task course ID is missing' };
+  }
+
+  const description = typeof record.description === 'string' ? validateNonEmptyString(record.description) : null;
+  if (description === null) {
+    return { success: false, error: 'Task description cannot be empty or whitespace only' };
+  }
+
+  if (!isValidDate(record.deadline)) {
+    return { success: false, error: 'Deadline must be a valid date' };
+  }
+  if (typeof record.completed !== 'boolean') {
+    return { success: false, error: 'Task completion status must be a boolean' };
+  }
+  if (record.completedAt !== undefined && !isValidDate(record.completedAt)) {
+    return { success: false, error: 'Task completion date is invalid' };
+  }
+  if (!isValidDate(record.createdAt)) {
+    return { success: false, error: 'Task creation date is invalid' };
+  }
+  if (record.priority !== undefined && !isTaskPriority(record.priority)) {
+    return { success: false, error: 'Task priority is invalid' };
+  }
+  if (record.category !== undefined && !isTaskCategory(record.category)) {
+    return { success: false, error: 'Task category is invalid' };
+  }
+  if (record.autoComplete !== undefined && typeof record.autoComplete !== 'boolean') {
+    return { success: false, error: 'Task auto-completion must be a boolean' };
+  }
+  if (record.estimatedHours !== undefined && !isValidEstimate(record.estimatedHours)) {
+    return { success: false, error: 'Task estimated effort is invalid' };
+  }
+  if (record.timeSessions !== undefined && (!Array.isArray(record.timeSessions) || !record.timeSessions.every(isValidTimeSession))) {
+    return { success: false, error: 'Task time sessions are invalid' };
+  }
+  if (record.timerStartedAt !== undefined && !isValidDate(record.timerStartedAt)) {
+    return { success: false, error: 'Task timer start is invalid' };
+  }
+
+  const task: Task = {
+    id: record.id,
+    courseId: record.courseId,
+    description,
+    deadline: record.deadline,
+    priority: record.priority ?? DEFAULT_PRIORITY,
+    category: record.category ?? DEFAULT_CATEGORY,
+    completed: record.completed,
+    createdAt: record.createdAt
+  };
+  // completedAt is only meaningful on completed tasks
+  if (record.completed && record.completedAt) {
+    task.completedAt = record.completedAt;
+  }
+  if (typeof record.externalUid === 'string' && record.externalUid.length > 0) {
+    task.externalUid = record.externalUid;
+  }
+  if (typeof record.seriesId === 'string' && record.seriesId.length > 0) {
+    task.seriesId = record.seriesId;
+    task.occurrenceDate = isValidDate(record.occurrenceDate) ? record.occurrenceDate : record.deadline;
+    if (record.recurrence !== undefined) {
+      const recurrence = validateRecurrenceRecord(record.recurrence);
+      if (!recurrence.success) {
+        return recurrence;
+      }
+      task.recurrence = recurrence.value;
+    }
+  }
+  if (record.checklist !== undefined) {
+    const checklist = validateChecklist(record.checklist);
+    if (!checklist.success) {
+      return { success: false, error: `Task checklist is invalid: ${checklist.error.message}` };
+    }
+    if (checklist.value.length > 0) {
+      task.checklist = checklist.value;
+    }
+  }
+  if (record.autoComplete) {
+    task.autoComplete = true;
+  }
+  if (record.estimatedHours) {
+    task.estimatedHours = record.estimatedHours;
+  }
+  if (record.timeSessions !== undefined && record.timeSessions.length > 0) {
+    task.timeSessions = record.timeSessions.map(session => ({ start: session.start, end: session.end }));
+  }
+  if (record.timerStartedAt) {
+    task.timerStartedAt = record.timerStartedAt;
+  }
+
+  return { success: true, value: task };
+}
+
+/**
+ * Build the lookup key used to match courses by name, department and term
+ */
+function courseKey(name: string, department: string, termId?: string): string {
+  return `${name}\u0000${department}\u0000${termId ?? ''}`;
+}
+
+/**
+ * Parse and upgrade an export document
+ * Records from an older schema version are run through the storage migrations.
+ */
+export function parseExportDocument(json: string): Result<{ terms: unknown[]; courses: unknown[]; tasks: unknown[] }, ValidationError> {
+  let document: unknown;
+  try {
+    document = JSON.parse(json, dateReviver);
+  } catch (error) {
+    return {
+      success: false,
+      error: new ValidationError('Import file is not valid JSON')
+    };
+  }
+
+  if (!isRecord(document) || document.format !== EXPORT_FORMAT) {
+    return {
+      success: false,
+      error: new ValidationError('Import file is not a Weekly Course Tracker export')
+    };
+  }
+
+  if (typeof document.version !== 'number' || document.version > EXPORT_FORMAT_VERSION) {
+    return {
+      success: false,
+      error: new ValidationError(`Unsupported export version: ${document.version}`)
+    };
+  }
+
+  if (!Array.isArray(document.courses) || !Array.isArray(document.tasks)) {
+    return {
+      success: false,
+      error: new ValidationError('Import file must contain course and task lists')
+    };
+  }
+  if (document.terms !== undefined && !Array.isArray(document.terms)) {
+    return {
+      success: false,
+      error: new ValidationError('Import file terms must be a list')
+    };
+  }
+
+  const schemaVersion = typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+  const migrated = migrateData({ courses: document.courses, tasks: document.tasks }, schemaVersion);
+  if (!migrated.success) {
+    return {
+      success: false,
+      error: new ValidationError(`Cannot import data: ${migrated.error.message}`)
+    };
+  }
+
+  return { success: true, value: { terms: document.terms ?? [], ...migrated.value.data } };
+}
+
+/**
+ * ImportExportService implementation
+ */
+export class ImportExportService implements IImportExportService {
+  private storage: IStorageService;
+  private courseService: ICourseService;
+  private taskService: ITaskService;
+  private termService?: ITermService;
+
+  /**
+   * @param termService - Terms to export and import; without it terms are left out
+   */
+  constructor(storage: IStorageService, courseService: ICourseService, taskService: ITaskService, termService?: ITermService) {
+    this.storage = storage;
+    this.courseService = courseService;
+    this.taskService = taskService;
+    this.termService = termService;
+  }
+
+  /**
+   * Export all terms, courses and tasks
+   */
+  exportData(): ExportDocument {
+    const document: ExportDocument = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_FORMAT_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: new Date(),
+      courses: this.courseService.getAllCourses(),
+      tasks: this.taskService.getAllTasks()
+    };
+    if (this.termService) {
+      document.terms = this.termService.getAllTerms();
+    }
+    return document;
+  }
+
+  /**
+   * Import an export document
+   * Invalid records are skipped and reported rather than failing the whole import.
+   * In merge mode, courses matching an existing ID or name, department and term are not duplicated;
+   * their tasks are attached to the existing course instead. Terms matching an existing ID or name
+   * are not duplicated either. Courses whose term is not imported are imported without a term.
+   * All changes are written in one transaction.
+   * @param json - Export document as produced by exportData()
+   * @param mode - 'replace' to discard existing data, 'merge' to keep it
+   */
+  importData(json: string, mode: ImportMode): Result<ImportReport, Error> {
+    const parsed = parseExportDocument(json);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    const report: ImportReport = {
+      mode,
+      termsImported: 0,
+      coursesImported: 0,
+      tasksImported: 0,
+      skipped: [],
+      duplicates: []
+    };
+
+    // Existing data that imported records are matched against
+    const existingTerms = mode === 'merge' && this.termService ? this.termService.getAllTerms() : [];
+    const termIdsByName = new Map(existingTerms.map(t => [t.name, t.id]));
+
+    // Imported term IDs mapped to the term their courses belong to
+    const termIdMap = new Map<string, string>(existingTerms.map(t => [t.id, t.id]));
+    const termsToImport: Term[] = [];
+
+    if (this.termService) {
+      parsed.value.terms.forEach((record, index) => {
+        const validation = validateTermRecord(record);
+        if (!validation.success) {
+          report.skipped.push({ kind: 'term', index, id: getRecordId(record), reason: validation.error });
+          return;
+        }
+
+        const term = validation.value;
+        if (termIdMap.has(term.id)) {
+          report.duplicates.push({ kind: 'term', index, id: term.id, reason: 'A term with this ID already exists' });
+          return;
+        }
+
+        const matchingId = termIdsByName.get(term.name);
+        if (matchingId !== undefined) {
+          report.duplicates.push({ kind: 'term', index, id: term.id, reason: `Term "${term.name}" already exists` });
+          termIdMap.set(term.id, matchingId);
+          return;
+        }
+
+        termsToImport.push(term);
+        termIdsByName.set(term.name, term.id);
+        termIdMap.set(term.id, term.id);
+      });
+    }
+
+    const existingCourses = mode === 'merge' ? this.courseService.getAllCourses() : [];
+    const existingTaskIds = new Set(mode === 'merge' ? this.taskService.getAllTasks().map(t => t.id) : []);
+
+    const courseIdsByKey = new Map(existingCourses.map(c => [courseKey(c.name, c.department, c.termId), c.id]));
+    const knownCourseIds = new Set(existingCourses.map(c => c.id));
+
+    // Imported course IDs mapped to the course their tasks belong to
+    const courseIdMap = new Map<string, string>(existingCourses.map(c => [c.id, c.id]));
+    const coursesToImport: Course[] = [];
+
+    parsed.value.courses.forEach((record, index) => {
+      const validation = validateCourseRecord(record);
+      if (!validation.success) {
+        report.skipped.push({ kind: 'course', index, id: getRecordId(record), reason: validation.error });
+        return;
+      }
+
+      const course = validation.value;
+      if (course.termId !== undefined) {
+        const termId = termIdMap.get(course.termId);
+        if (termId !== undefined) {
+          course.termId = termId;
+        } else {
+          delete course.termId;
+        }
+      }
+      if (knownCourseIds.has(course.id)) {
+        report.duplicates.push({ kind: 'course', index, id: course.id, reason: 'A course with this ID already exists' });
+        return;
+      }
+
+      const matchingId = courseIdsByKey.get(courseKey(course.name, course.department, course.termId));
+      if (matchingId !== undefined) {
+        report.duplicates.push({
+          kind: 'course',
+          index,
+          id: course.id,
+          reason: `Course "${course.name}" already exists in department "${course.department}"`
+        });
+        courseIdMap.set(course.id, matchingId);
+        return;
+      }
+
+      coursesToImport.push(course);
+      knownCourseIds.add(course.id);
+      courseIdsByKey.set(courseKey(course.name, course.department, course.termId), course.id);
+      courseIdMap.set(course.id, course.id);
+    });
+
+    const tasksToImport: Task[] = [];
+    parsed.value.tasks.forEach((record, index) => {
+      const validation = validateTaskRecord(record);
+      if (!validation.success) {
+        report.skipped.push({ kind: 'task', index, id: getRecordId(record), reason: validation.error });
+        return;
+      }
+
+      const task = validation.value;
+      if (existingTaskIds.has(task.id)) {
+        report.duplicates.push({ kind: 'task', index, id: task.id, reason: 'A task with this ID already exists' });
+        return;
+      }
+
+      const courseId = courseIdMap.get(task.courseId);
+      if (courseId === undefined) {
+        report.skipped.push({ kind: 'task', index, id: task.id, reason: `Course with ID "${task.courseId}" not found` });
+        return;
+      }
+
+      if (task.recurrence) {
+        // Series whose course is not imported fall back to the task's course
+        task.recurrence.courseId = courseIdMap.get(task.recurrence.courseId) ?? courseId;
+      }
+      tasksToImport.push({ ...task, courseId });
+      existingTaskIds.add(task.id);
+    });
+
+    const result = runInTransaction(this.storage, (): Result<void, Error> => {
+      if (mode === 'replace') {
+        const clearResult = this.removeAll();
+        if (!clearResult.success) {
+          return clearResult;
+        }
+      }
+
+      for (const term of termsToImport) {
+        const restoreResult = this.termService!.restoreTerm(term);
+        if (!restoreResult.success) {
+          return { success: false, error: restoreResult.error };
+        }
+      }
+
+      for (const course of coursesToImport) {
+        const restoreResult = this.courseService.restoreCourse(course);
+        if (!restoreResult.success) {
+          return { success: false, error: restoreResult.error };
+        }
+      }
+
+      return tasksToImport.length > 0 ? this.taskService.restoreTasks(tasksToImport) : { success: true, value: undefined };
+    });
+
+    if (!result.success) {
+      if (!this.storage.isInTransaction()) {
+        // Storage was left untouched, so reload to discard the in-memory changes
+        this.termService?.reload();
+        this.courseService.reload();
+        this.taskService.reload();
+      }
+      return result;
+    }
+
+    report.termsImported = termsToImport.length;
+    report.coursesImported = coursesToImport.length;
+    report.tasksImported = tasksToImport.length;
+    return { success: true, value: report };
+  }
+
+  /**
+   * Permanently remove every term, course and task, including those in the trash
+   */
+  private removeAll(): Result<void, Error> {
+    const taskIds = [...this.taskService.getAllTasks(), ...this.taskService.getDeletedTasks()].map(task => task.id);
+    if (taskIds.length > 0) {
+      const deleteResult = this.taskService.purgeTasks(taskIds);
+      if (!deleteResult.success) {
+        return deleteResult;
+      }
+    }
+
+    for (const course of [...this.courseService.getAllCourses(), ...this.courseService.getDeletedCourses()]) {
+      const deleteResult = this.courseService.purgeCourse(course.id);
+      if (!deleteResult.success) {
+        return deleteResult;
+      }
+    }
+
+    for (const term of this.termService?.getAllTerms() ?? []) {
+      const deleteResult = this.termService!.deleteTerm(term.id);
+      if (!deleteResult.success) {
+        return deleteResult;
+      }
+    }
+
+    return { success: true, value: undefined };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for the study planner settings and weekly plans
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlannerService } from './PlannerService.js';
+import { TaskService } from './TaskService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { ValidationError } from '../models/errors.js';
+import { DEFAULT_PLANNER_SETTINGS } from '../utils/planner.js';
+import { PlannerSettings } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+// ISO week 10 of 2024 runs from Monday March 4 to Sunday March 10
+const WEEK = 10;
+const YEAR = 2024;
+
+function at(dayOffset: number, hour: number): Date {
+  return new Date(2024, 2, 4 + dayOffset, hour);
+}
+
+describe('PlannerService', () => {
+  let storageService: StorageService;
+  let taskService: TaskService;
+  let plannerService: PlannerService;
+  const settings: PlannerSettings = { hoursPerWeekday: [0, 2, 2, 2, 2, 2, 0], dayStart: '18:00', blockedTimes: [] };
+
+  beforeEach(() => {
+    storageService = new StorageService(new MockStorage());
+    taskService = new TaskService(storageService);
+    plannerService = new PlannerService(storageService, taskService);
+  });
+
+  describe('settings', () => {
+    it('should default and persist the settings', () => {
+      expect(plannerService.getSettings()).toEqual(DEFAULT_PLANNER_SETTINGS);
+
+      const result = plannerService.updateSettings({
+        ...settings,
+        blockedTimes: [{ weekday: 2, start: '18:00', end: '19:00', label: 'Practice' }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(new PlannerService(storageService, taskService).getSettings().blockedTimes).toEqual([
+        { weekday: 2, start: '18:00', end: '19:00', label: 'Practice' }
+      ]);
+    });
+
+    it('should reject invalid settings and keep the current ones', () => {
+      const result = plannerService.updateSettings({ ...settings, dayStart: 'evening' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toBeInstanceOf(ValidationError);
+      expect(plannerService.getSettings()).toEqual(DEFAULT_PLANNER_SETTINGS);
+    });
+  });
+
+  describe('planWeek', () => {
+    beforeEach(() => {
+      plannerService.updateSettings(settings);
+    });
+
+    it('should re-plan when a task is completed or moved', () => {
+      const essay = taskService.createTask('c1', 'Essay', at(2, 23), { estimatedHours: 3 });
+      const lab = taskService.createTask('c1', 'Lab', at(4, 23), { estimatedHours: 2 });
+      if (!essay.success || !lab.success) throw new Error('Failed to create tasks');
+
+      expect(plannerService.planWeek(WEEK, YEAR, at(0, 8)).blocks).toEqual([
+        { taskId: essay.value.id, start: at(0, 18), end: at(0, 20) },
+        { taskId: essay.value.id, start: at(1, 18), end: at(1, 19) },
+        { taskId: lab.value.id, start: at(1, 19), end: at(1, 20) },
+        { taskId: lab.value.id, start: at(2, 18), end: at(2, 19) }
+      ]);
+
+      taskService.markComplete(essay.value.id);
+      expect(plannerService.planWeek(WEEK, YEAR, at(0, 8)).blocks).toEqual([
+        { taskId: lab.value.id, start: at(0, 18), end: at(0, 20) }
+      ]);
+
+      taskService.updateTask(lab.value.id, { deadline: at(0, 19) });
+      expect(plannerService.planWeek(WEEK, YEAR, at(0, 8))).toEqual({
+        blocks: [{ taskId: lab.value.id, start: at(0, 18), end: at(0, 19) }],
+        unscheduled: [{ taskId: lab.value.id, hours: 1 }]
+      });
+    });
+
+    it('should plan nothing in past weeks and report only work due in the week', () => {
+      taskService.createTask('c1', 'Old', at(-3, 12), { estimatedHours: 2 });
+      taskService.createTask('c1', 'Project', at(8, 23), { estimatedHours: 4 });
+
+      expect(plannerService.planWeek(WEEK - 1, YEAR, at(0, 8)).blocks).toEqual([]);
+      const nextWeek = plannerService.planWeek(WEEK + 1, YEAR, at(0, 8));
+      expect(nextWeek.blocks).toEqual([]);
+      expect(nextWeek.unscheduled).toEqual([]);
+      expect(plannerService.planWeek(WEEK, YEAR, at(0, 8)).unscheduled).toEqual([]);
+    });
+
+    it('should plan the whole of Sunday', () => {
+      plannerService.updateSettings({ ...settings, hoursPerWeekday: [2, 0, 0, 0, 0, 0, 0] });
+      const review = taskService.createTask('c1', 'Review', at(6, 23), { estimatedHours: 3 });
+      if (!review.success) throw review.error;
+
+      expect(plannerService.planWeek(WEEK, YEAR, at(0, 8))).toEqual({
+        blocks: [{ taskId: review.value.id, start: at(6, 18), end: at(6, 20) }],
+        unscheduled: [{ taskId: review.value.id, hours: 1 }]
+      });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * PlannerService schedules work blocks for the incomplete tasks in the user's study time
+ * Plans are not stored: they are built from the current tasks each time they are asked for,
+ * so completing, editing or moving a task re-plans the remaining work.
+ */
+
+import { PlannerSettings, StudyPlan, Result } from '../models/types.js';
+import { StorageError } from '../models/errors.js';
+import { IStorageService } from '../storage/StorageService.js';
+import { PLANNER_STORAGE_KEY } from '../storage/storageKeys.js';
+import { ITaskService } from './TaskService.js';
+import { DEFAULT_PLANNER_SETTINGS, validatePlannerSettings, buildStudyPlan } from '../utils/planner.js';
+import { getWeekRange } from '../utils/weekCalculations.js';
+
+/**
+ * PlannerService interface
+ */
+export interface IPlannerService {
+  getSettings(): PlannerSettings;
+  updateSettings(settings: PlannerSettings): Result<PlannerSettings, Error>;
+  planWeek(weekNumber: number, year: number, now?: Date): StudyPlan;
+  reload(): void;
+}
+
+/**
+ * PlannerService implementation
+ */
+export class PlannerService implements IPlannerService {
+  private storage: IStorageService;
+  private taskService: ITaskService;
+  private settings: PlannerSettings = DEFAULT_PLANNER_SETTINGS;
+
+  constructor(storage: IStorageService, taskService: ITaskService) {
+    this.storage = storage;
+    this.taskService = taskService;
+    this.loadSettings();
+  }
+
+  /**
+   * Load the settings from storage, falling back to the defaults if they are missing or invalid
+   */
+  private loadSettings(): void {
+    const result = this.storage.load<PlannerSettings>(PLANNER_STORAGE_KEY);
+    const validated = result.success && result.value !== null ? validatePlannerSettings(result.value) : null;
+    this.settings = validated?.success ? validated.value : DEFAULT_PLANNER_SETTINGS;
+  }
+
+  /**
+   * Reload the settings from storage, discarding the in-memory state
+   */
+  reload(): void {
+    this.loadSettings();
+  }
+
+  /**
+   * Get the user's study hours and blocked times
+   */
+  getSettings(): PlannerSettings {
+    return {
+      ...this.settings,
+      hoursPerWeekday: [...this.settings.hoursPerWeekday],
+      blockedTimes: this.settings.blockedTimes.map(blocked => ({ ...blocked }))
+    };
+  }
+
+  /**
+   * Replace the user's study hours and blocked times
+   * @returns The validated settings
+   */
+  updateSettings(settings: PlannerSettings): Result<PlannerSettings, Error> {
+    const validated = validatePlannerSettings(settings);
+    if (!validated.success) {
+      return validated;
+    }
+
+    const saveResult = this.storage.save(PLANNER_STORAGE_KEY, validated.value);
+    if (!saveResult.success) {
+      return { success: false, error: new StorageError(`Failed to save planner settings: ${saveResult.error.message}`) };
+    }
+    this.settings = validated.value;
+    return { success: true, value: this.getSettings() };
+  }
+
+  /**
+   * Plan the work blocks of an ISO week
+   * Work is planned from now on, so a past week has no blocks, and work planned before the
+   * week is taken into account. Only work due in the week is reported as unscheduled.
+   * @param now - The current time (defaults to now)
+   */
+  planWeek(weekNumber: number, year: number, now: Date = new Date()): StudyPlan {
+    const { startDate, endDate } = getWeekRange(weekNumber, year);
+    const plan = buildStudyPlan(this.taskService.getAllTasks(), this.settings, now, endDate);
+    return {
+      blocks: plan.blocks.filter(block => block.end > startDate),
+      unscheduled: plan.unscheduled.filter(work => {
+        const task = this.taskService.getTask(work.taskId);
+        return task !== null && task.deadline >= startDate;
+      })
+    };
+  }
+}
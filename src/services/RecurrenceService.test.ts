@@ -0,0 +1,298 @@
+/**
+ * Tests for recurring task series
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecurrenceService } from './RecurrenceService.js';
+import { CourseService } from './CourseService.js';
+import { TaskService } from './TaskService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { ValidationError } from '../models/errors.js';
+import { Course, Task } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+describe('RecurrenceService', () => {
+  let storageService: StorageService;
+  let taskService: TaskService;
+  let courseService: CourseService;
+  let recurrenceService: RecurrenceService;
+  let course: Course;
+
+  // Monday, March 4 2024 at 09:00; the series repeats on Mondays and Wednesdays
+  const start = new Date(2024, 2, 4, 9, 0);
+  const weekdays = [1, 3];
+
+  beforeEach(() => {
+    storageService = new StorageService(new MockStorage());
+    taskService = new TaskService(storageService);
+    courseService = new CourseService(storageService, taskService);
+    recurrenceService = new RecurrenceService(storageService, courseService, taskService);
+    const created = courseService.createCourse('CS101', 'Computer Science');
+    if (!created.success) throw created.error;
+    course = created.value;
+  });
+
+  /**
+   * Create a series and its occurrences up to the end of March 17
+   */
+  function createSeries(count?: number): Task[] {
+    const result = recurrenceService.createRecurringTask(course.id, 'Reading', start, { interval: 1, weekdays, count });
+    if (!result.success) throw result.error;
+    const materialized = recurrenceService.materialize(start, new Date(2024, 2, 17, 23, 59));
+    if (!materialized.success) throw materialized.error;
+    return seriesTasks(result.value.seriesId!);
+  }
+
+  /**
+   * Get the active occurrences of a series by deadline
+   */
+  function seriesTasks(seriesId: string): Task[] {
+    return taskService.getAllTasks()
+      .filter(task => task.seriesId === seriesId)
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  }
+
+  function days(tasks: Task[]): number[] {
+    return tasks.map(task => task.deadline.getDate());
+  }
+
+  describe('createRecurringTask', () => {
+    it('should create the first occurrence holding the series definition', () => {
+      const result = recurrenceService.createRecurringTask(course.id, '  Reading ', start, { interval: 1, weekdays: [3, 1] });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.description).toBe('Reading');
+        expect(result.value.occurrenceDate).toEqual(start);
+        expect(result.value.recurrence).toEqual({
+          rule: { interval: 1, weekdays: [1, 3] },
+          start,
+          courseId: course.id,
+          description: 'Reading',
+          priority: 'normal',
+          category: 'assignment',
+          exceptions: []
+        });
+      }
+    });
+
+    it('should give every occurrence the priority and category of the series', () => {
+      const result = recurrenceService.createRecurringTask(
+        course.id, 'Quiz', start, { interval: 1, weekdays }, { priority: 'high', category: 'exam' }
+      );
+      if (!result.success) throw result.error;
+      recurrenceService.materialize(start, new Date(2024, 2, 17, 23, 59));
+
+      const tasks = seriesTasks(result.value.seriesId!);
+      expect(tasks).toHaveLength(4);
+      expect(tasks.every(task => task.priority === 'high' && task.category === 'exam')).toBe(true);
+      expect(tasks[0].recurrence?.priority).toBe('high');
+      expect(tasks[0].recurrence?.category).toBe('exam');
+    });
+
+    it('should give every occurrence the effort estimate of the series', () => {
+      const result = recurrenceService.createRecurringTask(
+        course.id, 'Reading', start, { interval: 1, weekdays }, { estimatedHours: 2 }
+      );
+      if (!result.success) throw result.error;
+      recurrenceService.materialize(start, new Date(2024, 2, 17, 23, 59));
+
+      const tasks = seriesTasks(result.value.seriesId!);
+      expect(tasks.every(task => task.estimatedHours === 2)).toBe(true);
+
+      recurrenceService.updateOccurrences(tasks[0].id, { estimatedHours: 3 }, 'all');
+      recurrenceService.materialize(start, new Date(2024, 2, 31, 23, 59));
+      expect(seriesTasks(result.value.seriesId!).every(task => task.estimatedHours === 3)).toBe(true);
+      expect(recurrenceService.updateOccurrences(tasks[0].id, { estimatedHours: -2 }, 'all').success).toBe(false);
+    });
+
+    it('should reject a rule that does not include the first deadline', () => {
+      const result = recurrenceService.createRecurringTask(course.id, 'Reading', start, { interval: 1, weekdays: [2] });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(taskService.getAllTasks()).toEqual([]);
+    });
+  });
+
+  describe('materialize', () => {
+    it('should create the occurrences in a range once', () => {
+      const tasks = createSeries();
+
+      expect(days(tasks)).toEqual([4, 6, 11, 13]);
+      expect(tasks.every(task => task.description === 'Reading' && task.deadline.getHours() === 9)).toBe(true);
+      expect(tasks.filter(task => task.recurrence)).toHaveLength(1);
+
+      const again = recurrenceService.materialize(start, new Date(2024, 2, 17));
+      expect(again.success && again.value).toEqual([]);
+    });
+
+    it('should stop at the occurrence count', () => {
+      const tasks = createSeries(3);
+
+      expect(days(tasks)).toEqual([4, 6, 11]);
+    });
+
+    it('should not create occurrences again once they are in the trash', () => {
+      const tasks = createSeries();
+      taskService.deleteTasks([tasks[1].id]);
+
+      recurrenceService.materialize(start, new Date(2024, 2, 17));
+
+      expect(days(seriesTasks(tasks[0].seriesId!))).toEqual([4, 11, 13]);
+    });
+  });
+
+  describe('deleteOccurrences', () => {
+    it("should delete 'this' occurrence and never create it again", () => {
+      const tasks = createSeries();
+
+      const result = recurrenceService.deleteOccurrences(tasks[2].id, 'this');
+      taskService.purgeTasks([tasks[2].id]);
+      recurrenceService.materialize(start, new Date(2024, 2, 17));
+
+      expect(result.success).toBe(true);
+      expect(days(seriesTasks(tasks[0].seriesId!))).toEqual([4, 6, 13]);
+    });
+
+    it('should hand the series definition over when the first occurrence is deleted', () => {
+      const tasks = createSeries(6);
+
+      recurrenceService.deleteOccurrences(tasks[0].id, 'this');
+
+      const next = taskService.getTask(tasks[1].id);
+      expect(taskService.getDeletedTask(tasks[0].id)?.recurrence).toBeUndefined();
+      expect(next?.recurrence?.start).toEqual(tasks[1].deadline);
+      expect(next?.recurrence?.rule.count).toBe(5);
+
+      recurrenceService.materialize(start, new Date(2024, 2, 31));
+      expect(days(seriesTasks(tasks[0].seriesId!))).toEqual([6, 11, 13, 18, 20]);
+    });
+
+    it('should create the next occurrence to hand the series over to', () => {
+      const result = recurrenceService.createRecurringTask(course.id, 'Reading', start, { interval: 2, weekdays: [1] });
+      if (!result.success) throw result.error;
+
+      recurrenceService.deleteOccurrences(result.value.id, 'this');
+
+      const remaining = seriesTasks(result.value.seriesId!);
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].deadline).toEqual(new Date(2024, 2, 18, 9, 0));
+      expect(remaining[0].recurrence?.start).toEqual(new Date(2024, 2, 18, 9, 0));
+    });
+
+    it("should end the series before 'following' occurrences", () => {
+      const tasks = createSeries();
+
+      recurrenceService.deleteOccurrences(tasks[2].id, 'following');
+      recurrenceService.materialize(start, new Date(2024, 3, 30));
+
+      expect(days(seriesTasks(tasks[0].seriesId!))).toEqual([4, 6]);
+      expect(taskService.getTask(tasks[0].id)?.recurrence?.rule.until).toEqual(new Date(2024, 2, 11, 0, 0, 0, -1));
+    });
+
+    it("should delete 'all' occurrences and end the series", () => {
+      const tasks = createSeries();
+
+      recurrenceService.deleteOccurrences(tasks[2].id, 'all');
+      recurrenceService.materialize(start, new Date(2024, 3, 30));
+
+      expect(seriesTasks(tasks[0].seriesId!)).toEqual([]);
+    });
+  });
+
+  describe('updateOccurrences', () => {
+    it("should change 'this' occurrence alone", () => {
+      const tasks = createSeries();
+
+      recurrenceService.updateOccurrences(tasks[1].id, { description: 'Chapter 2' }, 'this');
+
+      expect(seriesTasks(tasks[0].seriesId!).map(task => task.description))
+        .toEqual(['Reading', 'Chapter 2', 'Reading', 'Reading']);
+    });
+
+    it("should change 'all' occurrences and the series definition", () => {
+      const tasks = createSeries();
+
+      const result = recurrenceService.updateOccurrences(
+        tasks[1].id,
+        { description: 'Reading notes', deadline: new Date(2024, 2, 6, 14, 30) },
+        'all'
+      );
+      recurrenceService.materialize(start, new Date(2024, 2, 24, 23, 59));
+
+      expect(result.success && result.value).toHaveLength(4);
+      const updated = seriesTasks(tasks[0].seriesId!);
+      expect(days(updated)).toEqual([4, 6, 11, 13, 18, 20]);
+      expect(updated.every(task => task.description === 'Reading notes')).toBe(true);
+      expect(updated.every(task => task.deadline.getHours() === 14 && task.deadline.getMinutes() === 30)).toBe(true);
+    });
+
+    it("should split the series for 'following' occurrences", () => {
+      const tasks = createSeries(8);
+
+      recurrenceService.updateOccurrences(tasks[2].id, { description: 'Lab report' }, 'following');
+      recurrenceService.materialize(start, new Date(2024, 3, 30));
+
+      const oldSeries = seriesTasks(tasks[0].seriesId!);
+      const newSeriesId = taskService.getTask(tasks[2].id)?.seriesId;
+      expect(newSeriesId).not.toBe(tasks[0].seriesId);
+      expect(days(oldSeries)).toEqual([4, 6]);
+      expect(oldSeries.every(task => task.description === 'Reading')).toBe(true);
+
+      const newSeries = seriesTasks(newSeriesId!);
+      expect(days(newSeries)).toEqual([11, 13, 18, 20, 25, 27]);
+      expect(newSeries.every(task => task.description === 'Lab report')).toBe(true);
+      expect(newSeries[0].recurrence?.rule.count).toBe(6);
+    });
+
+    it("should change the priority of 'following' occurrences and later ones", () => {
+      const tasks = createSeries(8);
+
+      recurrenceService.updateOccurrences(tasks[2].id, { priority: 'critical' }, 'following');
+      recurrenceService.materialize(start, new Date(2024, 3, 30));
+
+      const newSeries = seriesTasks(taskService.getTask(tasks[2].id)!.seriesId!);
+      expect(seriesTasks(tasks[0].seriesId!).map(task => task.priority)).toEqual(['normal', 'normal']);
+      expect(newSeries).toHaveLength(6);
+      expect(newSeries.every(task => task.priority === 'critical')).toBe(true);
+    });
+
+    it('should only allow the deadline time to change for several occurrences', () => {
+      const tasks = createSeries();
+
+      const result = recurrenceService.updateOccurrences(tasks[1].id, { deadline: new Date(2024, 2, 7, 9, 0) }, 'all');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(taskService.getTask(tasks[1].id)?.deadline).toEqual(tasks[1].deadline);
+    });
+
+    it('should reject other fields for several occurrences', () => {
+      const tasks = createSeries();
+
+      const result = recurrenceService.updateOccurrences(tasks[1].id, { completed: true }, 'following');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('deleteTasks', () => {
+    it('should delete occurrences one by one along with other tasks', () => {
+      const tasks = createSeries();
+      const other = taskService.createTask(course.id, 'Essay', new Date(2024, 2, 8));
+      if (!other.success) throw other.error;
+
+      const result = recurrenceService.deleteTasks([tasks[0].id, tasks[3].id, other.value.id]);
+      recurrenceService.materialize(start, new Date(2024, 2, 24, 23, 59));
+
+      expect(result.success).toBe(true);
+      expect(taskService.getTask(other.value.id)).toBeNull();
+      expect(days(seriesTasks(tasks[0].seriesId!))).toEqual([6, 11, 18, 20]);
+    });
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * RecurrenceService manages recurring tasks
+ *
+ * A series is stored as ordinary tasks sharing a seriesId. The earliest remaining occurrence holds the
+ * series definition (recurrence), from which later occurrences are created as their weeks are shown.
+ */
+
+import { Task, TaskOptions, TaskRecurrence, RecurrenceRule, RecurrenceScope, Result } from '../models/types.js';
+import { ValidationError, NotFoundError } from '../models/errors.js';
+import { IStorageService, runInTransaction } from '../storage/StorageService.js';
+import { ICourseService } from './CourseService.js';
+import { ITaskService, validateTaskDetails } from './TaskService.js';
+import { generateUUID } from '../utils/uuid.js';
+import { isValidDate, validateNonEmptyString } from '../utils/validation.js';
+import { isTaskPriority, DEFAULT_PRIORITY } from '../utils/priority.js';
+import { isTaskCategory, DEFAULT_CATEGORY } from '../utils/category.js';
+import { isValidEstimate } from '../utils/effort.js';
+import {
+  validateRecurrenceRule,
+  iterateOccurrences,
+  getOccurrences,
+  findOccurrence,
+  startOfDay,
+  isSameDay,
+  withTimeOf,
+  Occurrence
+} from '../utils/recurrence.js';
+
+/**
+ * Task fields that can be changed for several occurrences at once
+ */
+const SERIES_UPDATE_FIELDS = ['description', 'courseId', 'deadline', 'priority', 'category', 'estimatedHours'];
+
+/**
+ * RecurrenceService interface
+ */
+export interface IRecurrenceService {
+  createRecurringTask(courseId: string, description: string, deadline: Date, rule: RecurrenceRule, options?: TaskOptions): Result<Task, ValidationError>;
+  getSeriesTasks(seriesId: string): Task[];
+  materialize(from: Date, to: Date, seriesId?: string): Result<Task[], Error>;
+  updateOccurrences(id: string, updates: Partial<Task>, scope: RecurrenceScope): Result<Task[], Error>;
+  deleteOccurrences(id: string, scope: RecurrenceScope): Result<void, Error>;
+  deleteTasks(ids: string[]): Result<void, Error>;
+}
+
+/**
+ * Get the day a task was scheduled for in its series
+ */
+function scheduledDate(task: Task): Date {
+  return task.occurrenceDate ?? task.deadline;
+}
+
+/**
+ * Copy a task without its series definition
+ */
+function withoutRecurrence(task: Task): Task {
+  const copy = { ...task };
+  delete copy.recurrence;
+  return copy;
+}
+
+/**
+ * RecurrenceService implementation
+ */
+export class RecurrenceService implements IRecurrenceService {
+  private storage: IStorageService;
+  private courseService: ICourseService;
+  private taskService: ITaskService;
+
+  constructor(storage: IStorageService, courseService: ICourseService, taskService: ITaskService) {
+    this.storage = storage;
+    this.courseService = courseService;
+    this.taskService = taskService;
+  }
+
+  /**
+   * Run work in a storage transaction, reloading the services when it fails on its own
+   * A failure inside an outer transaction is left to the outer caller to roll back.
+   */
+  private runAtomically<T>(work: () => Result<T, Error>): Result<T, Error> {
+    const result = runInTransaction(this.storage, work);
+    if (!result.success && !this.storage.isInTransaction()) {
+      this.courseService.reload();
+      this.taskService.reload();
+    }
+    return result;
+  }
+
+  /**
+   * Create the first occurrence of a recurring task
+   * Later occurrences are created by materialize().
+   * @param deadline - Deadline of the first occurrence; its weekday must be one of the rule's weekdays
+   * @param options - Optional task fields, which every occurrence gets
+   */
+  createRecurringTask(
+    courseId: string,
+    description: string,
+    deadline: Date,
+    rule: RecurrenceRule,
+    options: TaskOptions = {}
+  ): Result<Task, ValidationError> {
+    const details = validateTaskDetails(description, deadline);
+    if (!details.success) {
+      return details;
+    }
+
+    const validatedRule = validateRecurrenceRule(rule, deadline);
+    if (!validatedRule.success) {
+      return validatedRule;
+    }
+
+    const recurrence: TaskRecurrence = {
+      rule: validatedRule.value,
+      start: deadline,
+      courseId: courseId.trim(),
+      description: details.value.description,
+      priority: options.priority ?? DEFAULT_PRIORITY,
+      category: options.category ?? DEFAULT_CATEGORY,
+      exceptions: []
+    };
+    if (options.estimatedHours) {
+      recurrence.estimatedHours = options.estimatedHours;
+    }
+
+    return this.taskService.createTask(courseId, description, deadline, {
+      ...options,
+      seriesId: generateUUID(),
+      occurrenceDate: deadline,
+      recurrence
+    });
+  }
+
+  /**
+   * Get the occurrences of a series, including those in the trash
+   */
+  getSeriesTasks(seriesId: string): Task[] {
+    return [...this.taskService.getAllTasks(), ...this.taskService.getDeletedTasks()]
+      .filter(task => task.seriesId === seriesId);
+  }
+
+  /**
+   * Get the occurrence holding a series definition
+   */
+  private getSeriesMaster(seriesId: string): Task | null {
+    return this.taskService.getAllTasks().find(task => task.seriesId === seriesId && task.recurrence) ?? null;
+  }
+
+  /**
+   * Get the occurrences of a series definition within a range that have no task yet
+   * Occurrences deleted on their own, or whose tasks are in the trash, are not created again.
+   */
+  private getMissingOccurrences(master: Task, from: Date, to: Date): Occurrence[] {
+    const recurrence = master.recurrence!;
+    const takenDays = new Set([
+      ...this.getSeriesTasks(master.seriesId!).map(task => startOfDay(scheduledDate(task)).getTime()),
+      ...recurrence.exceptions.map(date => startOfDay(date).getTime())
+    ]);
+    return getOccurrences(recurrence.start, recurrence.rule, from, to)
+      .filter(occurrence => !takenDays.has(startOfDay(occurrence.date).getTime()));
+  }
+
+  /**
+   * Create an occurrence of a series from its definition
+   */
+  private createOccurrence(master: Task, date: Date, recurrence?: TaskRecurrence): Result<Task, ValidationError> {
+    const template = master.recurrence!;
+    // Fall back to the master's course when the series course was deleted or replaced
+    const courseId = this.courseService.getCourse(template.courseId) ? template.courseId : master.courseId;
+    return this.taskService.createTask(courseId, template.description, date, {
+      priority: template.priority,
+      category: template.category,
+      estimatedHours: template.estimatedHours,
+      seriesId: master.seriesId,
+      occurrenceDate: date,
+      recurrence
+    });
+  }
+
+  /**
+   * Create the tasks of recurring series that fall within a date range
+   * @param seriesId - Only materialize this series (optional)
+   * @returns The created tasks
+   */
+  materialize(from: Date, to: Date, seriesId?: string): Result<Task[], Error> {
+    const pending = this.taskService.getAllTasks()
+      .filter(task => task.recurrence && task.seriesId && (!seriesId || task.seriesId === seriesId))
+      .flatMap(master => this.getMissingOccurrences(master, from, to).map(occurrence => ({ master, occurrence })));
+
+    // Most calls find nothing to create, so skip the transaction
+    if (pending.length === 0) {
+      return { success: true, value: [] };
+    }
+
+    return this.runAtomically(() => {
+      const created: Task[] = [];
+      for (const { master, occurrence } of pending) {
+        const result = this.createOccurrence(master, occurrence.date);
+        if (!result.success) {
+          return result;
+        }
+        created.push(result.value);
+      }
+      return { success: true, value: created };
+    });
+  }
+
+  /**
+   * Change the description, course, priority, category, estimate or deadline time of occurrences of a recurring task
+   *
+   * 'this' updates the task alone, like updateTask. 'following' and 'all' also change the series
+   * definition, so later occurrences are created with the changes; for them the deadline may only
+   * move to another time on the same day. 'following' on a later occurrence splits the series in two.
+   * @returns The updated tasks
+   */
+  updateOccurrences(id: string, updates: Partial<Task>, scope: RecurrenceScope): Result<Task[], Error> {
+    const task = this.taskService.getTask(id);
+    if (!task) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${id}" not found`)
+      };
+    }
+
+    if (scope === 'this' || !task.seriesId) {
+      const result = this.taskService.updateTask(id, updates);
+      return result.success ? { success: true, value: [result.value] } : result;
+    }
+
+    const validation = this.validateSeriesUpdates(task, updates);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const seriesId = task.seriesId;
+    const master = this.getSeriesMaster(seriesId);
+    const taskDay = startOfDay(scheduledDate(task));
+    const targets = this.taskService.getAllTasks().filter(other =>
+      other.seriesId === seriesId && (scope === 'all' || startOfDay(scheduledDate(other)) >= taskDay)
+    );
+
+    return this.runAtomically(() => {
+      if (master) {
+        const splits = scope === 'following' && startOfDay(scheduledDate(master)) < taskDay;
+        const seriesResult = splits
+          ? this.splitSeries(master, task, targets, updates)
+          : this.taskService.replaceTasks([
+            { ...master, recurrence: this.applyToDefinition(master.recurrence!, updates) }
+          ]);
+        if (!seriesResult.success) {
+          return seriesResult;
+        }
+      }
+
+      const updated: Task[] = [];
+      for (const target of targets) {
+        const changes: Partial<Task> = {};
+        if (updates.description !== undefined) {
+          changes.description = updates.description;
+        }
+        if (updates.courseId !== undefined) {
+          changes.courseId = updates.courseId;
+        }
+        if (updates.priority !== undefined) {
+          changes.priority = updates.priority;
+        }
+        if (updates.category !== undefined) {
+          changes.category = updates.category;
+        }
+        if (updates.estimatedHours !== undefined) {
+          changes.estimatedHours = updates.estimatedHours;
+        }
+        if (updates.deadline !== undefined) {
+          changes.deadline = withTimeOf(target.deadline, updates.deadline);
+        }
+
+        const result = this.taskService.updateTask(target.id, changes);
+        if (!result.success) {
+          return result;
+        }
+        updated.push(result.value);
+      }
+      return { success: true, value: updated };
+    });
+  }
+
+  /**
+   * Check the updates for several occurrences of a series
+   */
+  private validateSeriesUpdates(task: Task, updates: Partial<Task>): Result<void, Error> {
+    const unsupported = Object.keys(updates).filter(field => !SERIES_UPDATE_FIELDS.includes(field));
+    if (unsupported.length > 0) {
+      return {
+        success: false,
+        error: new ValidationError(`Cannot change ${unsupported.join(', ')} for several occurrences`)
+      };
+    }
+
+    if (updates.description !== undefined && validateNonEmptyString(updates.description) === null) {
+      return {
+        success: false,
+        error: new ValidationError('Task description cannot be empty or whitespace only')
+      };
+    }
+
+    if (updates.courseId !== undefined && !this.courseService.getCourse(updates.courseId)) {
+      return {
+        success: false,
+        error: new NotFoundError(`Course with ID "${updates.courseId}" not found`)
+      };
+    }
+
+    if (updates.priority !== undefined && !isTaskPriority(updates.priority)) {
+      return {
+        success: false,
+        error: new ValidationError(`Invalid priority: ${updates.priority}`)
+      };
+    }
+
+    if (updates.category !== undefined && !isTaskCategory(updates.category)) {
+      return {
+        success: false,
+        error: new ValidationError(`Invalid category: ${updates.category}`)
+      };
+    }
+
+    if (updates.estimatedHours !== undefined && !isValidEstimate(updates.estimatedHours)) {
+      return {
+        success: false,
+        error: new ValidationError('Estimated effort must be a number of hours, zero or more')
+      };
+    }
+
+    if (updates.deadline !== undefined) {
+      if (!isValidDate(updates.deadline)) {
+        return {
+          success: false,
+          error: new ValidationError('Deadline must be a valid date')
+        };
+      }
+      if (!isSameDay(updates.deadline, task.deadline)) {
+        return {
+          success: false,
+          error: new ValidationError('Only the time of the deadline can be changed for several occurrences')
+        };
+      }
+    }
+
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Apply occurrence updates to a series definition
+   */
+  private applyToDefinition(recurrence: TaskRecurrence, updates: Partial<Task>): TaskRecurrence {
+    return {
+      ...recurrence,
+      description: updates.description !== undefined ? updates.description.trim() : recurrence.description,
+      courseId: updates.courseId ?? recurrence.courseId,
+      priority: updates.priority ?? recurrence.priority,
+      category: updates.category ?? recurrence.category,
+      estimatedHours: updates.estimatedHours !== undefined ? updates.estimatedHours || undefined : recurrence.estimatedHours,
+      start: updates.deadline ? withTimeOf(recurrence.start, updates.deadline) : recurrence.start
+    };
+  }
+
+  /**
+   * End a series before an occurrence and start a new series from it
+   * @param targets - The active occurrences from the split point on, which move to the new series
+   */
+  private splitSeries(master: Task, task: Task, targets: Task[], updates: Partial<Task>): Result<void, Error> {
+    const recurrence = master.recurrence!;
+    const splitDate = scheduledDate(task);
+    const splitDay = startOfDay(splitDate);
+    const occurrence = findOccurrence(recurrence.start, recurrence.rule, splitDate);
+
+    // Trashed occurrences stay with the old series, so the new one must not create them again
+    const trashedDays = this.taskService.getDeletedTasks()
+      .filter(other => other.seriesId === master.seriesId && startOfDay(scheduledDate(other)) > splitDay)
+      .map(scheduledDate);
+
+    const rule: RecurrenceRule = { ...recurrence.rule };
+    if (rule.count !== undefined && occurrence) {
+      rule.count = Math.max(1, rule.count - occurrence.index);
+    }
+    const newRecurrence = this.applyToDefinition({
+      rule,
+      start: withTimeOf(splitDate, recurrence.start),
+      courseId: recurrence.courseId,
+      description: recurrence.description,
+      priority: recurrence.priority,
+      category: recurrence.category,
+      estimatedHours: recurrence.estimatedHours,
+      exceptions: [...recurrence.exceptions.filter(date => startOfDay(date) > splitDay), ...trashedDays]
+    }, updates);
+
+    const seriesId = generateUUID();
+    return this.taskService.replaceTasks([
+      { ...master, recurrence: this.endDefinitionBefore(recurrence, splitDay) },
+      ...targets.map(target => target.id === task.id
+        ? { ...target, seriesId, recurrence: newRecurrence }
+        : { ...withoutRecurrence(target), seriesId })
+    ]);
+  }
+
+  /**
+   * Make a series definition end before a day
+   */
+  private endDefinitionBefore(recurrence: TaskRecurrence, day: Date): TaskRecurrence {
+    const until = new Date(day.getTime() - 1);
+    return {
+      ...recurrence,
+      rule: {
+        ...recurrence.rule,
+        until: recurrence.rule.until && recurrence.rule.until < until ? recurrence.rule.until : until
+      }
+    };
+  }
+
+  /**
+   * Move occurrences of a recurring task to the trash
+   *
+   * 'this' deletes the task alone; the series does not create it again. 'following' also ends the
+   * series before it, and 'all' deletes every occurrence, which ends the series.
+   */
+  deleteOccurrences(id: string, scope: RecurrenceScope): Result<void, Error> {
+    const task = this.taskService.getTask(id);
+    if (!task) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${id}" not found`)
+      };
+    }
+
+    if (!task.seriesId) {
+      return this.taskService.deleteTask(id);
+    }
+
+    if (scope === 'this') {
+      return this.runAtomically(() => this.deleteOccurrence(task));
+    }
+
+    const seriesId = task.seriesId;
+    const master = this.getSeriesMaster(seriesId);
+    const taskDay = startOfDay(scheduledDate(task));
+    const deletedIds = this.taskService.getAllTasks()
+      .filter(other => other.seriesId === seriesId && (scope === 'all' || startOfDay(scheduledDate(other)) >= taskDay))
+      .map(other => other.id);
+
+    return this.runAtomically(() => {
+      // The master is deleted along with the rest unless the series continues before the task
+      if (master && !deletedIds.includes(master.id)) {
+        const result = this.taskService.replaceTasks([
+          { ...master, recurrence: this.endDefinitionBefore(master.recurrence!, taskDay) }
+        ]);
+        if (!result.success) {
+          return result;
+        }
+      }
+      return this.taskService.deleteTasks(deletedIds);
+    });
+  }
+
+  /**
+   * Move tasks to the trash, deleting occurrences of recurring tasks one by one
+   */
+  deleteTasks(ids: string[]): Result<void, Error> {
+    for (const id of ids) {
+      if (!this.taskService.getTask(id)) {
+        return {
+          success: false,
+          error: new NotFoundError(`Task with ID "${id}" not found`)
+        };
+      }
+    }
+
+    return this.runAtomically(() => {
+      const standaloneIds: string[] = [];
+      for (const id of ids) {
+        const task = this.taskService.getTask(id);
+        if (!task) {
+          continue;
+        }
+        if (!task.seriesId) {
+          standaloneIds.push(id);
+          continue;
+        }
+
+        const result = this.deleteOccurrence(task);
+        if (!result.success) {
+          return result;
+        }
+      }
+      return standaloneIds.length > 0 ? this.taskService.deleteTasks(standaloneIds) : { success: true, value: undefined };
+    });
+  }
+
+  /**
+   * Move one occurrence to the trash, keeping the rest of its series
+   * Deleting the master hands the series definition to the next occurrence.
+   */
+  private deleteOccurrence(task: Task): Result<void, Error> {
+    const master = this.getSeriesMaster(task.seriesId!);
+    if (master && master.id === task.id) {
+      const result = this.handOverSeries(master);
+      if (!result.success) {
+        return result;
+      }
+    } else if (master) {
+      const recurrence = master.recurrence!;
+      const result = this.taskService.replaceTasks([
+        { ...master, recurrence: { ...recurrence, exceptions: [...recurrence.exceptions, scheduledDate(task)] } }
+      ]);
+      if (!result.success) {
+        return result;
+      }
+    }
+    return this.taskService.deleteTasks([task.id]);
+  }
+
+  /**
+   * Move a series definition from its master to the next occurrence that is not deleted
+   * The next occurrence is created if its week has not been shown yet.
+   */
+  private handOverSeries(master: Task): Result<void, Error> {
+    const recurrence = master.recurrence!;
+    const masterDay = startOfDay(scheduledDate(master));
+    const exceptionDays = new Set(recurrence.exceptions.map(date => startOfDay(date).getTime()));
+    const tasksByDay = new Map(this.getSeriesTasks(master.seriesId!)
+      .filter(task => task.id !== master.id)
+      .map(task => [startOfDay(scheduledDate(task)).getTime(), task]));
+
+    let next: { occurrence: Occurrence; task?: Task } | null = null;
+    for (const occurrence of iterateOccurrences(recurrence.start, recurrence.rule)) {
+      const day = startOfDay(occurrence.date).getTime();
+      const task = tasksByDay.get(day);
+      if (day <= masterDay.getTime() || exceptionDays.has(day) || task?.deletedAt) {
+        continue;
+      }
+      next = { occurrence, task };
+      break;
+    }
+
+    const stripped = withoutRecurrence(master);
+    if (!next) {
+      return this.taskService.replaceTasks([stripped]);
+    }
+
+    const nextDay = startOfDay(next.occurrence.date);
+    const rule: RecurrenceRule = { ...recurrence.rule };
+    if (rule.count !== undefined) {
+      rule.count -= next.occurrence.index;
+    }
+    const nextRecurrence: TaskRecurrence = {
+      ...recurrence,
+      rule,
+      start: next.occurrence.date,
+      exceptions: recurrence.exceptions.filter(date => startOfDay(date) > nextDay)
+    };
+
+    if (next.task) {
+      return this.taskService.replaceTasks([stripped, { ...next.task, recurrence: nextRecurrence }]);
+    }
+
+    const result = this.taskService.replaceTasks([stripped]);
+    if (!result.success) {
+      return result;
+    }
+    const created = this.createOccurrence(master, next.occurrence.date, nextRecurrence);
+    return created.success ? { success: true, value: undefined } : created;
+  }
+}
@@ -7,40 +7,10 @@ import * as fc from 'fast-check';
 import { StatisticsService } from './StatisticsService.js';
 import { CourseService } from './CourseService.js';
 import { TaskService } from './TaskService.js';
+import { TermService } from './TermService.js';
 import { StorageService } from '../storage/StorageService.js';
 import { getWeekBounds } from '../utils/weekCalculations.js';
-
-/**
- * Mock Storage implementation for testing
- */
-class MockStorage implements Storage {
-  private store: Map<string, string> = new Map();
-
-  get length(): number {
-    return this.store.size;
-  }
-
-  clear(): void {
-    this.store.clear();
-  }
-
-  getItem(key: string): string | null {
-    return this.store.get(key) ?? null;
-  }
-
-  key(index: number): string | null {
-    const keys = Array.from(this.store.keys());
-    return keys[index] ?? null;
-  }
-
-  removeItem(key: string): void {
-    this.store.delete(key);
-  }
-
-  setItem(key: string, value: string): void {
-    this.store.set(key, value);
-  }
-}
+import { MockStorage } from '../utils/mockStorage.js';
 
 describe('StatisticsService', () => {
   let storage: MockStorage;
@@ -208,6 +178,109 @@ describe('StatisticsService', () => {
       expect(mathStats?.courseName).toBe('MATH101');
       expect(mathStats?.totalTasks).toBe(1);
     });
+
+    it('should group statistics by priority, most important first', () => {
+      const courseResult = courseService.createCourse('CS101', 'Computer Science');
+      expect(courseResult.success).toBe(true);
+      if (!courseResult.success) return;
+
+      const deadline = new Date('2024-01-02T10:00:00');
+      const courseId = courseResult.value.id;
+      const critical = taskService.createTask(courseId, 'Exam', deadline, { priority: 'critical' });
+      taskService.createTask(courseId, 'Reading', deadline, { priority: 'low' });
+      taskService.createTask(courseId, 'Homework', deadline);
+
+      if (critical.success) {
+        taskService.updateTask(critical.value.id, { completed: true });
+      }
+
+      const stats = statisticsService.getWeeklyStatistics(1, 2024);
+
+      expect(Array.from(stats.statsByPriority.keys())).toEqual(['critical', 'high', 'normal', 'low']);
+      expect(stats.statsByPriority.get('critical')).toEqual({ priority: 'critical', totalTasks: 1, completedTasks: 1 });
+      expect(stats.statsByPriority.get('high')).toEqual({ priority: 'high', totalTasks: 0, completedTasks: 0 });
+      expect(stats.statsByPriority.get('normal')?.totalTasks).toBe(1);
+      expect(stats.statsByPriority.get('low')?.totalTasks).toBe(1);
+    });
+
+    it('should group statistics by category', () => {
+      const courseResult = courseService.createCourse('CS101', 'Computer Science');
+      expect(courseResult.success).toBe(true);
+      if (!courseResult.success) return;
+
+      const deadline = new Date('2024-01-02T10:00:00');
+      const courseId = courseResult.value.id;
+      const exam = taskService.createTask(courseId, 'Midterm', deadline, { category: 'exam' });
+      taskService.createTask(courseId, 'Chapter 3', deadline, { category: 'reading' });
+      taskService.createTask(courseId, 'Chapter 4', deadline, { category: 'reading' });
+      taskService.createTask(courseId, 'Problem set', deadline);
+
+      if (exam.success) {
+        taskService.updateTask(exam.value.id, { completed: true });
+      }
+
+      const stats = statisticsService.getWeeklyStatistics(1, 2024);
+
+      expect(Array.from(stats.statsByCategory.keys())).toEqual(['assignment', 'exam', 'reading', 'project', 'lab']);
+      expect(stats.statsByCategory.get('exam')).toEqual({ category: 'exam', totalTasks: 1, completedTasks: 1 });
+      expect(stats.statsByCategory.get('reading')).toEqual({ category: 'reading', totalTasks: 2, completedTasks: 0 });
+      expect(stats.statsByCategory.get('assignment')?.totalTasks).toBe(1);
+      expect(stats.statsByCategory.get('lab')?.totalTasks).toBe(0);
+    });
+
+    it('should total estimated and logged hours by course and department', () => {
+      const cs = courseService.createCourse('CS101', 'Computer Science');
+      const math = courseService.createCourse('MATH101', 'Mathematics');
+      if (!cs.success || !math.success) return;
+
+      const deadline = new Date('2024-01-02T10:00:00');
+      const essay = taskService.createTask(cs.value.id, 'Essay', deadline, { estimatedHours: 3 });
+      taskService.createTask(math.value.id, 'Problem set', deadline, { estimatedHours: 1.5 });
+      if (!essay.success) return;
+      taskService.replaceTasks([{
+        ...essay.value,
+        timeSessions: [
+          { start: new Date('2024-01-01T09:00:00'), end: new Date('2024-01-01T10:30:00') },
+          { start: new Date('2024-01-01T14:00:00'), end: new Date('2024-01-01T14:30:00') }
+        ]
+      }]);
+
+      const stats = statisticsService.getWeeklyStatistics(1, 2024);
+
+      expect(stats.estimatedHours).toBe(4.5);
+      expect(stats.actualHours).toBe(2);
+      expect(stats.statsByCourse.get(cs.value.id)).toMatchObject({ estimatedHours: 3, actualHours: 2 });
+      expect(stats.statsByDepartment.get('Mathematics')).toMatchObject({ estimatedHours: 1.5, actualHours: 0 });
+      expect(statisticsService.getDepartmentProgress('Computer Science')).toMatchObject({ estimatedHours: 3, actualHours: 2 });
+    });
+
+    it('should count partial checklist progress in the completion percentage', () => {
+      const courseResult = courseService.createCourse('CS101', 'Computer Science');
+      expect(courseResult.success).toBe(true);
+      if (!courseResult.success) return;
+
+      const deadline = new Date('2024-01-02T10:00:00');
+      const courseId = courseResult.value.id;
+      taskService.createTask(courseId, 'Project', deadline, {
+        checklist: [
+          { id: 'outline', text: 'Outline', completed: true },
+          { id: 'draft', text: 'Draft', completed: false }
+        ]
+      });
+      const done = taskService.createTask(courseId, 'Essay', deadline);
+      if (done.success) {
+        taskService.markComplete(done.value.id);
+      }
+
+      const stats = statisticsService.getWeeklyStatistics(1, 2024);
+
+      expect(stats.completedTasks).toBe(1);
+      expect(stats.completionPercentage).toBe(75); // (1 + 1/2) / 2 = 75%
+      expect(stats.statsByCourse.get(courseId)?.completionPercentage).toBe(75);
+      expect(stats.statsByDepartment.get('Computer Science')?.completionPercentage).toBe(75);
+      expect(statisticsService.getCourseProgress(courseId)?.completionPercentage).toBe(75);
+      expect(statisticsService.getDepartmentProgress('Computer Science').completionPercentage).toBe(75);
+    });
   });
 
   describe('getCourseProgress', () => {
@@ -574,4 +647,34 @@ describe('StatisticsService', () => {
       expect(progress.completedTasks).toBe(0);
     });
   });
+
+  describe('getTermStatistics', () => {
+    it('should summarize only the tasks of the term\'s courses', () => {
+      const termService = new TermService(storageService);
+      const termCourseService = new CourseService(storageService, taskService, undefined, termService);
+      const termStatisticsService = new StatisticsService(taskService, termCourseService);
+      const term = termService.createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      if (!term.success) throw term.error;
+
+      const inTerm = termCourseService.createCourse('CS101', 'Computer Science', term.value.id);
+      const otherTerm = termCourseService.createCourse('MATH100', 'Mathematics');
+      if (!inTerm.success || !otherTerm.success) throw new Error('Course creation failed');
+
+      const deadline = new Date(2024, 9, 1, 12);
+      const first = taskService.createTask(inTerm.value.id, 'Essay', deadline, { estimatedHours: 3 });
+      taskService.createTask(inTerm.value.id, 'Lab', deadline, { estimatedHours: 2 });
+      taskService.createTask(otherTerm.value.id, 'Homework', deadline);
+      if (!first.success) throw first.error;
+      taskService.markComplete(first.value.id);
+
+      const stats = termStatisticsService.getTermStatistics(term.value);
+
+      expect(stats.termName).toBe('Fall 2024');
+      expect(stats.totalTasks).toBe(2);
+      expect(stats.completedTasks).toBe(1);
+      expect(stats.completionPercentage).toBe(50);
+      expect(stats.estimatedHours).toBe(5);
+      expect(Array.from(stats.statsByDepartment.keys())).toEqual(['Computer Science']);
+    });
+  });
 });
@@ -3,7 +3,22 @@
  * Handles weekly statistics, course progress, and department progress
  */
 
-import { WeeklyStatistics, DepartmentStats, CourseStats, Task } from '../models/types.js';
+import {
+  WeeklyStatistics,
+  DepartmentStats,
+  CourseStats,
+  PriorityStats,
+  CategoryStats,
+  TermStatistics,
+  Term,
+  TaskPriority,
+  TaskCategory,
+  Task
+} from '../models/types.js';
+import { TASK_PRIORITIES } from '../utils/priority.js';
+import { TASK_CATEGORIES } from '../utils/category.js';
+import { getTaskProgress } from '../utils/checklist.js';
+import { getLoggedHours } from '../utils/effort.js';
 import { ITaskService } from './TaskService.js';
 import { ICourseService } from './CourseService.js';
 
@@ -14,6 +29,7 @@ export interface IStatisticsService {
   getWeeklyStatistics(weekNumber: number, year: number): WeeklyStatistics;
   getCourseProgress(courseId: string): CourseStats | null;
   getDepartmentProgress(department: string): DepartmentStats;
+  getTermStatistics(term: Term): TermStatistics;
 }
 
 /**
@@ -36,17 +52,8 @@ export class StatisticsService implements IStatisticsService {
     const weekTasks = this.taskService.getTasksForWeek(weekNumber, year);
     
     // Calculate basic statistics
-    const totalTasks = weekTasks.length;
-    const completedTasks = weekTasks.filter(task => task.completed).length;
-    const completionPercentage = totalTasks > 0 
-      ? Math.round((completedTasks / totalTasks) * 100) 
-      : 0;
-    
-    // Calculate overdue tasks (incomplete tasks with deadline in the past)
-    const now = new Date();
-    const overdueTasks = weekTasks.filter(task => 
-      !task.completed && task.deadline < now
-    ).length;
+    const { totalTasks, completedTasks, completionPercentage, overdueTasks, estimatedHours, actualHours } =
+      this.summarizeTasks(weekTasks);
     
     // Calculate statistics by department
     const statsByDepartment = this.calculateDepartmentStats(weekTasks);
@@ -54,6 +61,12 @@ export class StatisticsService implements IStatisticsService {
     // Calculate statistics by course
     const statsByCourse = this.calculateCourseStats(weekTasks);
     
+    // Calculate statistics by priority
+    const statsByPriority = this.calculatePriorityStats(weekTasks);
+    
+    // Calculate statistics by category
+    const statsByCategory = this.calculateCategoryStats(weekTasks);
+    
     return {
       weekNumber,
       year,
@@ -61,8 +74,12 @@ export class StatisticsService implements IStatisticsService {
       completedTasks,
       completionPercentage,
       overdueTasks,
+      estimatedHours,
+      actualHours,
       statsByDepartment,
-      statsByCourse
+      statsByCourse,
+      statsByPriority,
+      statsByCategory
     };
   }
 
@@ -87,7 +104,9 @@ export class StatisticsService implements IStatisticsService {
       courseId: course.id,
       courseName: course.name,
       totalTasks,
-      completedTasks
+      completedTasks,
+      completionPercentage: this.getCompletionPercentage(courseTasks),
+      ...this.sumHours(courseTasks)
     };
   }
 
@@ -102,19 +121,68 @@ export class StatisticsService implements IStatisticsService {
     );
     
     // Get all tasks for courses in this department
-    let totalTasks = 0;
-    let completedTasks = 0;
-    
-    for (const course of departmentCourses) {
-      const courseTasks = this.taskService.getTasksByCourse(course.id);
-      totalTasks += courseTasks.length;
-      completedTasks += courseTasks.filter(task => task.completed).length;
-    }
+    const departmentTasks = departmentCourses.flatMap(course => this.taskService.getTasksByCourse(course.id));
     
     return {
       department,
-      totalTasks,
-      completedTasks
+      totalTasks: departmentTasks.length,
+      completedTasks: departmentTasks.filter(task => task.completed).length,
+      completionPercentage: this.getCompletionPercentage(departmentTasks),
+      ...this.sumHours(departmentTasks)
+    };
+  }
+
+  /**
+   * Get statistics for the tasks of a term's courses
+   */
+  getTermStatistics(term: Term): TermStatistics {
+    const termTasks = this.courseService.getCoursesForTerm(term.id)
+      .flatMap(course => this.taskService.getTasksByCourse(course.id));
+    
+    return {
+      termId: term.id,
+      termName: term.name,
+      ...this.summarizeTasks(termTasks),
+      statsByDepartment: this.calculateDepartmentStats(termTasks),
+      statsByCourse: this.calculateCourseStats(termTasks)
+    };
+  }
+
+  /**
+   * Calculate the totals, completion, overdue count and hours of a set of tasks
+   */
+  private summarizeTasks(tasks: Task[]) {
+    const totalTasks = tasks.length;
+    const completedTasks = tasks.filter(task => task.completed).length;
+    const completionPercentage = this.getCompletionPercentage(tasks);
+    
+    // Calculate overdue tasks (incomplete tasks with deadline in the past)
+    const now = new Date();
+    const overdueTasks = tasks.filter(task => 
+      !task.completed && task.deadline < now
+    ).length;
+    
+    return { totalTasks, completedTasks, completionPercentage, overdueTasks, ...this.sumHours(tasks) };
+  }
+
+  /**
+   * Calculate the completion percentage of a set of tasks
+   * Open tasks count for the share of their checklist that is done
+   */
+  private getCompletionPercentage(tasks: Task[]): number {
+    const progress = tasks.reduce((sum, task) => sum + getTaskProgress(task), 0);
+    return tasks.length > 0 
+      ? Math.round((progress / tasks.length) * 100) 
+      : 0;
+  }
+
+  /**
+   * Sum the effort estimates and the logged time of a set of tasks
+   */
+  private sumHours(tasks: Task[]): { estimatedHours: number; actualHours: number } {
+    return {
+      estimatedHours: tasks.reduce((sum, task) => sum + (task.estimatedHours ?? 0), 0),
+      actualHours: tasks.reduce((sum, task) => sum + getLoggedHours(task), 0)
     };
   }
 
@@ -123,6 +191,7 @@ export class StatisticsService implements IStatisticsService {
    */
   private calculateDepartmentStats(tasks: Task[]): Map<string, DepartmentStats> {
     const departmentMap = new Map<string, DepartmentStats>();
+    const departmentTasks = new Map<string, Task[]>();
     
     // Group tasks by department
     for (const task of tasks) {
@@ -139,16 +208,27 @@ export class StatisticsService implements IStatisticsService {
         stats = {
           department,
           totalTasks: 0,
-          completedTasks: 0
+          completedTasks: 0,
+          completionPercentage: 0,
+          estimatedHours: 0,
+          actualHours: 0
         };
         departmentMap.set(department, stats);
+        departmentTasks.set(department, []);
       }
+      departmentTasks.get(department)!.push(task);
       
       // Update statistics
       stats.totalTasks++;
       if (task.completed) {
         stats.completedTasks++;
       }
+      stats.estimatedHours += task.estimatedHours ?? 0;
+      stats.actualHours += getLoggedHours(task);
+    }
+    
+    for (const stats of departmentMap.values()) {
+      stats.completionPercentage = this.getCompletionPercentage(departmentTasks.get(stats.department)!);
     }
     
     return departmentMap;
@@ -159,6 +239,7 @@ export class StatisticsService implements IStatisticsService {
    */
   private calculateCourseStats(tasks: Task[]): Map<string, CourseStats> {
     const courseMap = new Map<string, CourseStats>();
+    const courseTasks = new Map<string, Task[]>();
     
     // Group tasks by course
     for (const task of tasks) {
@@ -174,18 +255,79 @@ export class StatisticsService implements IStatisticsService {
           courseId: course.id,
           courseName: course.name,
           totalTasks: 0,
-          completedTasks: 0
+          completedTasks: 0,
+          completionPercentage: 0,
+          estimatedHours: 0,
+          actualHours: 0
         };
         courseMap.set(task.courseId, stats);
+        courseTasks.set(task.courseId, []);
       }
+      courseTasks.get(task.courseId)!.push(task);
       
       // Update statistics
       stats.totalTasks++;
       if (task.completed) {
         stats.completedTasks++;
       }
+      stats.estimatedHours += task.estimatedHours ?? 0;
+      stats.actualHours += getLoggedHours(task);
+    }
+    
+    for (const stats of courseMap.values()) {
+      stats.completionPercentage = this.getCompletionPercentage(courseTasks.get(stats.courseId)!);
     }
     
     return courseMap;
   }
+
+  /**
+   * Calculate statistics grouped by priority for a set of tasks
+   * Every priority gets an entry, in order from most to least important
+   */
+  private calculatePriorityStats(tasks: Task[]): Map<TaskPriority, PriorityStats> {
+    const priorityMap = new Map<TaskPriority, PriorityStats>();
+    for (const priority of TASK_PRIORITIES) {
+      priorityMap.set(priority, { priority, totalTasks: 0, completedTasks: 0 });
+    }
+    
+    for (const task of tasks) {
+      const stats = priorityMap.get(task.priority);
+      if (!stats) {
+        continue; // Skip tasks with an unknown priority
+      }
+      
+      stats.totalTasks++;
+      if (task.completed) {
+        stats.completedTasks++;
+      }
+    }
+    
+    return priorityMap;
+  }
+
+  /**
+   * Calculate statistics grouped by category for a set of tasks
+   * Every category gets an entry, in TASK_CATEGORIES order
+   */
+  private calculateCategoryStats(tasks: Task[]): Map<TaskCategory, CategoryStats> {
+    const categoryMap = new Map<TaskCategory, CategoryStats>();
+    for (const category of TASK_CATEGORIES) {
+      categoryMap.set(category, { category, totalTasks: 0, completedTasks: 0 });
+    }
+    
+    for (const task of tasks) {
+      const stats = categoryMap.get(task.category);
+      if (!stats) {
+        continue; // Skip tasks with an unknown category
+      }
+      
+      stats.totalTasks++;
+      if (task.completed) {
+        stats.completedTasks++;
+      }
+    }
+    
+    return categoryMap;
+  }
 }
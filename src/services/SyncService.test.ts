@@ -0,0 +1,138 @@
+/**
+ * Tests for cross-tab synchronization
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { SyncService, StorageEventSource } from './SyncService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY } from '../storage/storageKeys.js';
+
+/**
+ * Storage event source standing in for the window
+ */
+class FakeStorageEventSource implements StorageEventSource {
+  private listeners = new Set<(event: StorageEvent) => void>();
+
+  addEventListener(_type: 'storage', listener: (event: StorageEvent) => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: 'storage', listener: (event: StorageEvent) => void): void {
+    this.listeners.delete(listener);
+  }
+
+  dispatchEvent(event: StorageEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Dispatch a storage event as another tab would cause it
+ */
+function dispatchStorageEvent(target: FakeStorageEventSource, key: string | null, storageArea: Storage | null = null): void {
+  const event = new Event('storage') as StorageEvent;
+  Object.defineProperty(event, 'key', { value: key });
+  Object.defineProperty(event, 'storageArea', { value: storageArea });
+  target.dispatchEvent(event);
+}
+
+/**
+ * Wait for scheduled reloads to run
+ */
+async function flushReloads(): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('SyncService', () => {
+  let target: FakeStorageEventSource;
+  let reload: Mock<[], void>;
+  let sync: SyncService;
+
+  beforeEach(() => {
+    target = new FakeStorageEventSource();
+    reload = vi.fn<[], void>();
+    sync = new SyncService(target, reload);
+    sync.start();
+  });
+
+  it('should reload and notify listeners when another tab changes tracked data', async () => {
+    const listener = vi.fn();
+    sync.onExternalChange(listener);
+
+    dispatchStorageEvent(target, TASKS_STORAGE_KEY);
+    await flushReloads();
+
+    expect(reload).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([TASKS_STORAGE_KEY]);
+  });
+
+  it('should coalesce events that arrive together into one reload', async () => {
+    dispatchStorageEvent(target, COURSES_STORAGE_KEY);
+    dispatchStorageEvent(target, TASKS_STORAGE_KEY);
+    await flushReloads();
+
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore keys it does not watch', async () => {
+    dispatchStorageEvent(target, 'tracker:revisions');
+    dispatchStorageEvent(target, 'other-app:data');
+    await flushReloads();
+
+    expect(reload).not.toHaveBeenCalled();
+  });
+
+  it('should reload when another tab clears storage', async () => {
+    dispatchStorageEvent(target, null);
+    await flushReloads();
+
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only react to its own storage area when one is given', async () => {
+    const area = {} as Storage;
+    sync.stop();
+    sync = new SyncService(target, reload, { storageArea: area });
+    sync.start();
+
+    dispatchStorageEvent(target, TASKS_STORAGE_KEY, {} as Storage);
+    dispatchStorageEvent(target, TASKS_STORAGE_KEY, area);
+    await flushReloads();
+
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify listeners once an asynchronous reload has finished', async () => {
+    let finishReload: () => void = () => {};
+    const asyncReload = vi.fn(() => new Promise<void>(resolve => {
+      finishReload = resolve;
+    }));
+    const listener = vi.fn();
+    sync.stop();
+    sync = new SyncService(target, asyncReload);
+    sync.start();
+    sync.onExternalChange(listener);
+
+    dispatchStorageEvent(target, TASKS_STORAGE_KEY);
+    await flushReloads();
+    expect(asyncReload).toHaveBeenCalledTimes(1);
+    expect(listener).not.toHaveBeenCalled();
+
+    finishReload();
+    await flushReloads();
+    expect(listener).toHaveBeenCalledWith([TASKS_STORAGE_KEY]);
+  });
+
+  it('should stop listening after stop and after unsubscribing', async () => {
+    const listener = vi.fn();
+    const unsubscribe = sync.onExternalChange(listener);
+    unsubscribe();
+    sync.requestReload([TASKS_STORAGE_KEY]);
+    await flushReloads();
+    expect(listener).not.toHaveBeenCalled();
+
+    sync.stop();
+    dispatchStorageEvent(target, TASKS_STORAGE_KEY);
+    await flushReloads();
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * SyncService keeps the tracker in step with other tabs
+ * Listens for storage change events and reloads the in-memory data when another tab writes it
+ */
+
+import { DEFAULT_TRACKED_KEYS } from '../storage/RevisionedStorageService.js';
+
+/**
+ * Source of storage change events, normally the window
+ */
+export interface StorageEventSource {
+  addEventListener(type: 'storage', listener: (event: StorageEvent) => void): void;
+  removeEventListener(type: 'storage', listener: (event: StorageEvent) => void): void;
+}
+
+/**
+ * Options for SyncService
+ */
+export interface SyncOptions {
+  watchedKeys?: string[];       // Keys whose changes trigger a reload
+  storageArea?: Storage;        // Only react to events for this storage area
+}
+
+/**
+ * SyncService interface
+ */
+export interface ISyncService {
+  start(): void;
+  stop(): void;
+  requestReload(keys: string[]): void;
+  onExternalChange(listener: (keys: string[]) => void): () => void;
+}
+
+/**
+ * SyncService implementation
+ * Storage events only fire in the tabs that did not make the change, so every event is an
+ * external change. Events arriving together are coalesced into a single reload.
+ */
+export class SyncService implements ISyncService {
+  private source: StorageEventSource;
+  private reload: () => void | Promise<void>;
+  private watchedKeys: Set<string>;
+  private storageArea?: Storage;
+  private listeners: Set<(keys: string[]) => void> = new Set();
+  private pendingKeys: Set<string> | null = null;
+  private started: boolean = false;
+
+  /**
+   * @param source - Where storage events are received (e.g. window)
+   * @param reload - Reloads the in-memory data from storage; listeners are notified once it settles
+   * @param options - Keys to watch and storage area to filter on
+   */
+  constructor(source: StorageEventSource, reload: () => void | Promise<void>, options: SyncOptions = {}) {
+    this.source = source;
+    this.reload = reload;
+    this.watchedKeys = new Set(options.watchedKeys ?? DEFAULT_TRACKED_KEYS);
+    this.storageArea = options.storageArea;
+  }
+
+  /**
+   * Start listening for changes from other tabs
+   */
+  start(): void {
+    if (!this.started) {
+      this.source.addEventListener('storage', this.handleStorageEvent);
+      this.started = true;
+    }
+  }
+
+  /**
+   * Stop listening for changes from other tabs
+   */
+  stop(): void {
+    if (this.started) {
+      this.source.removeEventListener('storage', this.handleStorageEvent);
+      this.started = false;
+    }
+  }
+
+  /**
+   * Schedule a reload, e.g. after a write was rejected because of a conflict
+   * The reload runs after the current operation has finished rolling back its in-memory changes.
+   */
+  requestReload(keys: string[]): void {
+    if (this.pendingKeys) {
+      keys.forEach(key => this.pendingKeys!.add(key));
+      return;
+    }
+
+    this.pendingKeys = new Set(keys);
+    queueMicrotask(() => {
+      const changedKeys = Array.from(this.pendingKeys ?? []);
+      this.pendingKeys = null;
+      const notify = () => this.listeners.forEach(listener => listener(changedKeys));
+      const reloading = this.reload();
+      if (reloading) {
+        reloading.then(notify, notify);
+      } else {
+        notify();
+      }
+    });
+  }
+
+  /**
+   * Subscribe to reloads caused by other tabs
+   * @returns A function that removes the listener
+   */
+  onExternalChange(listener: (keys: string[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Handle a storage event from another tab
+   * A null key means the other tab cleared the storage area
+   */
+  private handleStorageEvent = (event: StorageEvent): void => {
+    if (this.storageArea && event.storageArea !== this.storageArea) {
+      return;
+    }
+    if (event.key === null) {
+      this.requestReload(Array.from(this.watchedKeys));
+    } else if (this.watchedKeys.has(event.key)) {
+      this.requestReload([event.key]);
+    }
+  };
+}
@@ -7,41 +7,10 @@ import * as fc from 'fast-check';
 import { TaskService } from './TaskService.js';
 import { CourseService } from './CourseService.js';
 import { StorageService } from '../storage/StorageService.js';
-import { ValidationError } from '../models/errors.js';
-import { Task, Course } from '../models/types.js';
+import { ValidationError, NotFoundError } from '../models/errors.js';
+import { Task, TaskPriority, TaskCategory, Course } from '../models/types.js';
 import { getWeekNumber, getWeekBounds } from '../utils/weekCalculations.js';
-
-/**
- * Mock Storage implementation for testing
- */
-class MockStorage implements Storage {
-  private store: Map<string, string> = new Map();
-
-  get length(): number {
-    return this.store.size;
-  }
-
-  clear(): void {
-    this.store.clear();
-  }
-
-  getItem(key: string): string | null {
-    return this.store.get(key) ?? null;
-  }
-
-  key(index: number): string | null {
-    const keys = Array.from(this.store.keys());
-    return keys[index] ?? null;
-  }
-
-  removeItem(key: string): void {
-    this.store.delete(key);
-  }
-
-  setItem(key: string, value: string): void {
-    this.store.set(key, value);
-  }
-}
+import { MockStorage } from '../utils/mockStorage.js';
 
 describe('TaskService', () => {
   let storage: MockStorage;
@@ -1787,6 +1756,356 @@ describe('TaskService', () => {
     });
   });
 
+  describe('Bulk operations', () => {
+    const deadline = new Date(Date.now() + 86400000);
+
+    it('should delete several tasks at once', () => {
+      const ids = ['A', 'B', 'C'].map(description => {
+        const result = taskService.createTask('course-1', description, deadline);
+        if (!result.success) throw result.error;
+        return result.value.id;
+      });
+
+      const result = taskService.deleteTasks([ids[0], ids[2]]);
+
+      expect(result.success).toBe(true);
+      expect(taskService.getAllTasks().map(t => t.id)).toEqual([ids[1]]);
+      expect(new TaskService(storageService).getAllTasks().map(t => t.id)).toEqual([ids[1]]);
+    });
+
+    it('should not delete anything if one of the tasks does not exist', () => {
+      const task = taskService.createTask('course-1', 'A', deadline);
+      if (!task.success) throw task.error;
+
+      const result = taskService.deleteTasks([task.value.id, 'missing']);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+      expect(taskService.getTask(task.value.id)).not.toBeNull();
+    });
+
+    it('should update several tasks at once', () => {
+      const first = taskService.createTask('course-1', 'A', deadline);
+      const second = taskService.createTask('course-1', 'B', deadline);
+      if (!first.success || !second.success) throw new Error('Failed to create tasks');
+
+      const result = taskService.updateTasks([first.value.id, second.value.id], { courseId: 'course-2' });
+
+      expect(result.success).toBe(true);
+      expect(taskService.getTasksByCourse('course-2').length).toBe(2);
+      expect(new TaskService(storageService).getTasksByCourse('course-2').length).toBe(2);
+    });
+
+    it('should not update anything if one of the updates is invalid', () => {
+      const task = taskService.createTask('course-1', 'A', deadline);
+      if (!task.success) throw task.error;
+
+      const result = taskService.updateTasks([task.value.id, 'missing'], { courseId: 'course-2' });
+
+      expect(result.success).toBe(false);
+      expect(taskService.getTask(task.value.id)?.courseId).toBe('course-1');
+    });
+  });
+
+  describe('External calendar UIDs', () => {
+    const deadline = new Date(Date.now() + 86400000);
+
+    it('should store the external UID and find the task by it', () => {
+      const result = taskService.createTask('course-1', 'Quiz', deadline, { externalUid: 'quiz-1@school' });
+      if (!result.success) throw result.error;
+
+      expect(result.value.externalUid).toBe('quiz-1@school');
+      expect(new TaskService(storageService).findByExternalUid('quiz-1@school')?.id).toBe(result.value.id);
+      expect(taskService.findByExternalUid('other')).toBeNull();
+    });
+
+    it('should not add an external UID when none is given', () => {
+      const result = taskService.createTask('course-1', 'Quiz', deadline);
+      if (!result.success) throw result.error;
+
+      expect(result.value).not.toHaveProperty('externalUid');
+    });
+  });
+
+  describe('Priorities', () => {
+    const deadline = new Date(Date.now() + 86400000);
+
+    it('should default to normal priority and keep a given one', () => {
+      const normal = taskService.createTask('course-1', 'Reading', deadline);
+      const critical = taskService.createTask('course-1', 'Exam', deadline, { priority: 'critical' });
+      if (!normal.success) throw normal.error;
+      if (!critical.success) throw critical.error;
+
+      expect(normal.value.priority).toBe('normal');
+      expect(critical.value.priority).toBe('critical');
+      expect(new TaskService(storageService).getTask(critical.value.id)?.priority).toBe('critical');
+    });
+
+    it('should change the priority and keep it on other updates', () => {
+      const created = taskService.createTask('course-1', 'Essay', deadline, { priority: 'high' });
+      if (!created.success) throw created.error;
+
+      const renamed = taskService.updateTask(created.value.id, { description: 'Final essay' });
+      expect(renamed.success && renamed.value.priority).toBe('high');
+
+      const lowered = taskService.updateTask(created.value.id, { priority: 'low' });
+      expect(lowered.success && lowered.value.priority).toBe('low');
+    });
+
+    it('should reject an unknown priority', () => {
+      const created = taskService.createTask('course-1', 'Essay', deadline, { priority: 'urgent' as TaskPriority });
+      expect(created.success).toBe(false);
+      if (!created.success) {
+        expect(created.error).toBeInstanceOf(ValidationError);
+      }
+
+      const existing = taskService.createTask('course-1', 'Essay', deadline);
+      if (!existing.success) throw existing.error;
+      const updated = taskService.updateTask(existing.value.id, { priority: 'urgent' as TaskPriority });
+      expect(updated.success).toBe(false);
+      expect(taskService.getTask(existing.value.id)?.priority).toBe('normal');
+    });
+  });
+
+  describe('Categories', () => {
+    const deadline = new Date(Date.now() + 86400000);
+
+    it('should default to the assignment category and keep a given one', () => {
+      const assignment = taskService.createTask('course-1', 'Problem set', deadline);
+      const exam = taskService.createTask('course-1', 'Midterm', deadline, { category: 'exam' });
+      if (!assignment.success) throw assignment.error;
+      if (!exam.success) throw exam.error;
+
+      expect(assignment.value.category).toBe('assignment');
+      expect(exam.value.category).toBe('exam');
+      expect(new TaskService(storageService).getTask(exam.value.id)?.category).toBe('exam');
+    });
+
+    it('should change the category and reject an unknown one', () => {
+      const created = taskService.createTask('course-1', 'Chapter 3', deadline);
+      if (!created.success) throw created.error;
+
+      const reading = taskService.updateTask(created.value.id, { category: 'reading' });
+      expect(reading.success && reading.value.category).toBe('reading');
+
+      const invalid = taskService.updateTask(created.value.id, { category: 'homework' as TaskCategory });
+      expect(invalid.success).toBe(false);
+      if (!invalid.success) {
+        expect(invalid.error).toBeInstanceOf(ValidationError);
+      }
+      expect(taskService.createTask('course-1', 'Essay', deadline, { category: 'homework' as TaskCategory }).success).toBe(false);
+      expect(taskService.getTask(created.value.id)?.category).toBe('reading');
+    });
+  });
+
+  describe('Checklists', () => {
+    const deadline = new Date(Date.now() + 86400000);
+    const steps = [
+      { id: 'outline', text: ' Outline ', completed: false },
+      { id: 'draft', text: 'Draft', completed: false }
+    ];
+
+    it('should store a checklist with trimmed item text', () => {
+      const created = taskService.createTask('course-1', 'Essay', deadline, { checklist: steps });
+      if (!created.success) throw created.error;
+
+      expect(created.value.checklist).toEqual([
+        { id: 'outline', text: 'Outline', completed: false },
+        { id: 'draft', text: 'Draft', completed: false }
+      ]);
+      expect(new TaskService(storageService).getTask(created.value.id)?.checklist).toHaveLength(2);
+    });
+
+    it('should reject empty items and duplicate IDs', () => {
+      const empty = taskService.createTask('course-1', 'Essay', deadline, {
+        checklist: [{ id: 'a', text: '  ', completed: false }]
+      });
+      expect(empty.success).toBe(false);
+      if (!empty.success) {
+        expect(empty.error).toBeInstanceOf(ValidationError);
+      }
+
+      const created = taskService.createTask('course-1', 'Essay', deadline);
+      if (!created.success) throw created.error;
+      const duplicate = taskService.updateTask(created.value.id, {
+        checklist: [{ id: 'a', text: 'One', completed: false }, { id: 'a', text: 'Two', completed: false }]
+      });
+      expect(duplicate.success).toBe(false);
+      expect(taskService.getTask(created.value.id)?.checklist).toBeUndefined();
+    });
+
+    it('should check items off one by one', () => {
+      const created = taskService.createTask('course-1', 'Essay', deadline, { checklist: steps });
+      if (!created.success) throw created.error;
+
+      const result = taskService.setChecklistItemCompleted(created.value.id, 'outline', true);
+      if (!result.success) throw result.error;
+
+      expect(result.value.checklist?.map(item => item.completed)).toEqual([true, false]);
+      expect(result.value.completed).toBe(false);
+
+      const missing = taskService.setChecklistItemCompleted(created.value.id, 'revise', true);
+      expect(missing.success).toBe(false);
+      if (!missing.success) {
+        expect(missing.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+
+    it('should complete the task with its last item only when auto-completion is on', () => {
+      const manual = taskService.createTask('course-1', 'Essay', deadline, { checklist: steps });
+      const auto = taskService.createTask('course-1', 'Report', deadline, { checklist: steps, autoComplete: true });
+      if (!manual.success) throw manual.error;
+      if (!auto.success) throw auto.error;
+
+      for (const task of [manual.value, auto.value]) {
+        taskService.setChecklistItemCompleted(task.id, 'outline', true);
+        taskService.setChecklistItemCompleted(task.id, 'draft', true);
+      }
+
+      expect(taskService.getTask(manual.value.id)?.completed).toBe(false);
+      expect(taskService.getTask(auto.value.id)?.completed).toBe(true);
+      expect(taskService.getTask(auto.value.id)?.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep a task reopened by hand open while its checklist is unchanged', () => {
+      const created = taskService.createTask('course-1', 'Report', deadline, {
+        checklist: steps.map(item => ({ ...item, completed: true })),
+        autoComplete: true
+      });
+      if (!created.success) throw created.error;
+      expect(created.value.completed).toBe(true);
+
+      taskService.markIncomplete(created.value.id);
+      const edited = taskService.updateTask(created.value.id, {
+        description: 'Final report',
+        checklist: created.value.checklist,
+        autoComplete: true
+      });
+
+      expect(edited.success && edited.value.completed).toBe(false);
+    });
+  });
+
+  describe('Effort', () => {
+    const deadline = new Date(Date.now() + 86400000);
+
+    it('should store an estimate, clear it with zero and reject negative ones', () => {
+      const created = taskService.createTask('course-1', 'Essay', deadline, { estimatedHours: 2.5 });
+      if (!created.success) throw created.error;
+      expect(created.value.estimatedHours).toBe(2.5);
+
+      expect(taskService.updateTask(created.value.id, { estimatedHours: -1 }).success).toBe(false);
+      expect(taskService.createTask('course-1', 'Essay', deadline, { estimatedHours: NaN }).success).toBe(false);
+
+      const cleared = taskService.updateTask(created.value.id, { estimatedHours: 0 });
+      expect(cleared.success && cleared.value.estimatedHours).toBeUndefined();
+    });
+
+    it('should log a session from starting to stopping the timer', () => {
+      const created = taskService.createTask('course-1', 'Essay', deadline);
+      if (!created.success) throw created.error;
+
+      const started = taskService.startTimer(created.value.id);
+      if (!started.success) throw started.error;
+      expect(started.value.timerStartedAt).toBeInstanceOf(Date);
+      expect(taskService.startTimer(created.value.id).success).toBe(false);
+
+      const stopped = taskService.stopTimer(created.value.id);
+      if (!stopped.success) throw stopped.error;
+      expect(stopped.value.timerStartedAt).toBeUndefined();
+      expect(stopped.value.timeSessions).toEqual([{ start: started.value.timerStartedAt, end: expect.any(Date) }]);
+      expect(new TaskService(storageService).getTask(created.value.id)?.timeSessions).toHaveLength(1);
+
+      const notRunning = taskService.stopTimer(created.value.id);
+      expect(notRunning.success).toBe(false);
+      if (!notRunning.success) {
+        expect(notRunning.error).toBeInstanceOf(ValidationError);
+      }
+      const missing = taskService.startTimer('missing');
+      expect(!missing.success && missing.error).toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('Trash', () => {
+    const deadline = new Date(Date.now() + 86400000);
+
+    it('should keep deleted tasks in the trash instead of removing them', () => {
+      const task = taskService.createTask('course-1', 'Essay', deadline);
+      if (!task.success) throw task.error;
+      const deletedAt = new Date('2024-03-01T12:00:00Z');
+
+      expect(taskService.deleteTasks([task.value.id], deletedAt).success).toBe(true);
+
+      const { weekNumber, year } = getWeekNumber(deadline);
+      expect(taskService.getTask(task.value.id)).toBeNull();
+      expect(taskService.getAllTasks()).toEqual([]);
+      expect(taskService.getTasksByCourse('course-1')).toEqual([]);
+      expect(taskService.getTasksForWeek(weekNumber, year)).toEqual([]);
+      expect(taskService.getDeletedTask(task.value.id)?.deletedAt).toEqual(deletedAt);
+      expect(new TaskService(storageService).getDeletedTasks().map(t => t.id)).toEqual([task.value.id]);
+    });
+
+    it('should not find deleted tasks by external UID or as overdue', () => {
+      const task = taskService.createTask('course-1', 'Quiz', new Date(Date.now() - 86400000), { externalUid: 'quiz-1@school' });
+      if (!task.success) throw task.error;
+
+      taskService.deleteTask(task.value.id);
+
+      expect(taskService.findByExternalUid('quiz-1@school')).toBeNull();
+      expect(taskService.getOverdueTasks()).toEqual([]);
+    });
+
+    it('should not update or delete a task that is in the trash', () => {
+      const task = taskService.createTask('course-1', 'Essay', deadline);
+      if (!task.success) throw task.error;
+      taskService.deleteTask(task.value.id);
+
+      expect(taskService.updateTask(task.value.id, { description: 'Changed' }).success).toBe(false);
+      expect(taskService.markComplete(task.value.id).success).toBe(false);
+      expect(taskService.deleteTask(task.value.id).success).toBe(false);
+    });
+
+    it('should restore deleted tasks without the deletion marker', () => {
+      const task = taskService.createTask('course-1', 'Essay', deadline);
+      if (!task.success) throw task.error;
+      taskService.deleteTask(task.value.id);
+
+      const result = taskService.restoreDeletedTasks([task.value.id]);
+
+      expect(result.success).toBe(true);
+      expect(taskService.getTask(task.value.id)).toEqual(task.value);
+      expect(taskService.getDeletedTasks()).toEqual([]);
+      expect(new TaskService(storageService).getTask(task.value.id)).not.toHaveProperty('deletedAt');
+    });
+
+    it('should only restore tasks that are in the trash', () => {
+      const task = taskService.createTask('course-1', 'Essay', deadline);
+      if (!task.success) throw task.error;
+
+      const result = taskService.restoreDeletedTasks([task.value.id]);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+
+    it('should purge tasks permanently', () => {
+      const active = taskService.createTask('course-1', 'A', deadline);
+      const deleted = taskService.createTask('course-1', 'B', deadline);
+      if (!active.success || !deleted.success) throw new Error('Failed to create tasks');
+      taskService.deleteTask(deleted.value.id);
+
+      expect(taskService.purgeTasks([active.value.id, deleted.value.id]).success).toBe(true);
+
+      expect(taskService.getTask(active.value.id)).toBeNull();
+      expect(taskService.getDeletedTask(deleted.value.id)).toBeNull();
+      expect(new TaskService(storageService).getDeletedTasks()).toEqual([]);
+    });
+  });
+
   /**
    * **Feature: weekly-course-tracker, Property 15: Deadline change triggers week reassignment**
    * **Validates: Requirements 5.4**
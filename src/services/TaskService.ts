@@ -3,29 +3,73 @@
  * Handles validation, week association, and persistence
  */
 
-import { Task, Result } from '../models/types.js';
+import { Task, TaskOptions, ChecklistItem, Result } from '../models/types.js';
 import { ValidationError, NotFoundError } from '../models/errors.js';
 import { IStorageService } from '../storage/StorageService.js';
+import { TASKS_STORAGE_KEY } from '../storage/storageKeys.js';
+import { IAuditLog } from './AuditLogService.js';
 import { validateNonEmptyString, isValidDate } from '../utils/validation.js';
 import { generateUUID } from '../utils/uuid.js';
 import { isDateInWeek } from '../utils/weekCalculations.js';
-
-const TASKS_STORAGE_KEY = 'tracker:tasks';
+import { isTaskPriority, DEFAULT_PRIORITY } from '../utils/priority.js';
+import { isTaskCategory, DEFAULT_CATEGORY } from '../utils/category.js';
+import { validateChecklist, isChecklistDone } from '../utils/checklist.js';
+import { isValidEstimate } from '../utils/effort.js';
 
 /**
  * TaskService interface
  */
 export interface ITaskService {
-  createTask(courseId: string, description: string, deadline: Date): Result<Task, ValidationError>;
+  createTask(courseId: string, description: string, deadline: Date, options?: TaskOptions): Result<Task, ValidationError>;
   getTask(id: string): Task | null;
+  getDeletedTask(id: string): Task | null;
+  getDeletedTasks(): Task[];
+  findByExternalUid(uid: string): Task | null;
   getAllTasks(): Task[];
   getTasksByCourse(courseId: string): Task[];
   getTasksForWeek(weekNumber: number, year: number): Task[];
   updateTask(id: string, updates: Partial<Task>): Result<Task, ValidationError>;
+  updateTasks(ids: string[], updates: Partial<Task>): Result<Task[], ValidationError>;
   deleteTask(id: string): Result<void, Error>;
+  deleteTasks(ids: string[], deletedAt?: Date): Result<void, Error>;
+  restoreDeletedTasks(ids: string[]): Result<Task[], Error>;
+  purgeTasks(ids: string[]): Result<void, Error>;
+  restoreTasks(tasks: Task[]): Result<void, Error>;
+  replaceTasks(tasks: Task[]): Result<void, Error>;
   markComplete(id: string): Result<Task, Error>;
   markIncomplete(id: string): Result<Task, Error>;
+  setChecklistItemCompleted(id: string, itemId: string, completed: boolean): Result<Task, Error>;
+  startTimer(id: string): Result<Task, Error>;
+  stopTimer(id: string): Result<Task, Error>;
   getOverdueTasks(): Task[];
+  reload(): void;
+}
+
+/**
+ * Validate the description and deadline of a new task
+ * Shared by createTask and importers so imported rows follow the same rules
+ * @returns The trimmed description and the deadline
+ */
+export function validateTaskDetails(
+  description: string,
+  deadline: Date
+): Result<{ description: string; deadline: Date }, ValidationError> {
+  const validatedDescription = validateNonEmptyString(description);
+  if (validatedDescription === null) {
+    return {
+      success: false,
+      error: new ValidationError('Task description cannot be empty or whitespace only')
+    };
+  }
+
+  if (!isValidDate(deadline)) {
+    return {
+      success: false,
+      error: new ValidationError('Deadline must be a valid date')
+    };
+  }
+
+  return { success: true, value: { description: validatedDescription, deadline } };
 }
 
 /**
@@ -34,9 +78,14 @@ export interface ITaskService {
 export class TaskService implements ITaskService {
   private storage: IStorageService;
   private tasks: Map<string, Task>;
+  private auditLog?: IAuditLog;
 
-  constructor(storage: IStorageService) {
+  /**
+   * @param auditLog - Optional log that every saved change is recorded in
+   */
+  constructor(storage: IStorageService, auditLog?: IAuditLog) {
     this.storage = storage;
+    this.auditLog = auditLog;
     this.tasks = new Map();
     this.loadTasks();
   }
@@ -54,6 +103,13 @@ export class TaskService implements ITaskService {
     }
   }
 
+  /**
+   * Reload tasks from storage, discarding the in-memory state
+   */
+  reload(): void {
+    this.loadTasks();
+  }
+
   /**
    * Save tasks to storage
    */
@@ -68,22 +124,43 @@ export class TaskService implements ITaskService {
 
   /**
    * Create a new task with validation
+   * @param options - Optional task fields
    */
-  createTask(courseId: string, description: string, deadline: Date): Result<Task, ValidationError> {
-    // Validate description
-    const validatedDescription = validateNonEmptyString(description);
-    if (validatedDescription === null) {
+  createTask(courseId: string, description: string, deadline: Date, options: TaskOptions = {}): Result<Task, ValidationError> {
+    // Validate description and deadline
+    const details = validateTaskDetails(description, deadline);
+    if (!details.success) {
+      return details;
+    }
+    const validatedDescription = details.value.description;
+
+    if (options.priority !== undefined && !isTaskPriority(options.priority)) {
+      return {
+        success: false,
+        error: new ValidationError(`Invalid priority: ${options.priority}`)
+      };
+    }
+
+    if (options.category !== undefined && !isTaskCategory(options.category)) {
       return {
         success: false,
-        error: new ValidationError('Task description cannot be empty or whitespace only')
+        error: new ValidationError(`Invalid category: ${options.category}`)
       };
     }
 
-    // Validate deadline
-    if (!isValidDate(deadline)) {
+    let checklist: ChecklistItem[] | undefined;
+    if (options.checklist !== undefined) {
+      const checklistResult = validateChecklist(options.checklist);
+      if (!checklistResult.success) {
+        return checklistResult;
+      }
+      checklist = checklistResult.value;
+    }
+
+    if (options.estimatedHours !== undefined && !isValidEstimate(options.estimatedHours)) {
       return {
         success: false,
-        error: new ValidationError('Deadline must be a valid date')
+        error: new ValidationError('Estimated effort must be a number of hours, zero or more')
       };
     }
 
@@ -102,9 +179,34 @@ export class TaskService implements ITaskService {
       courseId: validatedCourseId,
       description: validatedDescription,
       deadline: deadline,
+      priority: options.priority ?? DEFAULT_PRIORITY,
+      category: options.category ?? DEFAULT_CATEGORY,
       completed: false,
       createdAt: new Date()
     };
+    if (options.externalUid) {
+      task.externalUid = options.externalUid;
+    }
+    if (options.seriesId) {
+      task.seriesId = options.seriesId;
+      task.occurrenceDate = options.occurrenceDate ?? deadline;
+    }
+    if (options.recurrence) {
+      task.recurrence = options.recurrence;
+    }
+    if (checklist && checklist.length > 0) {
+      task.checklist = checklist;
+    }
+    if (options.estimatedHours) {
+      task.estimatedHours = options.estimatedHours;
+    }
+    if (options.autoComplete) {
+      task.autoComplete = true;
+      if (isChecklistDone(task.checklist)) {
+        task.completed = true;
+        task.completedAt = task.createdAt;
+      }
+    }
 
     // Add to memory
     this.tasks.set(task.id, task);
@@ -120,35 +222,67 @@ export class TaskService implements ITaskService {
       };
     }
 
+    this.auditLog?.record('task', task.id, 'create', null, task);
     return { success: true, value: task };
   }
 
+  /**
+   * Get the tasks that are not in the trash
+   */
+  private activeTasks(): Task[] {
+    return Array.from(this.tasks.values()).filter(task => !task.deletedAt);
+  }
+
   /**
    * Get a task by ID
+   * Tasks in the trash are not returned
    */
   getTask(id: string): Task | null {
-    return this.tasks.get(id) || null;
+    const task = this.tasks.get(id);
+    return task && !task.deletedAt ? task : null;
+  }
+
+  /**
+   * Get a task in the trash by ID
+   */
+  getDeletedTask(id: string): Task | null {
+    const task = this.tasks.get(id);
+    return task && task.deletedAt ? task : null;
+  }
+
+  /**
+   * Get all tasks in the trash
+   */
+  getDeletedTasks(): Task[] {
+    return Array.from(this.tasks.values()).filter(task => task.deletedAt);
+  }
+
+  /**
+   * Find the task imported from the calendar item with the given UID
+   */
+  findByExternalUid(uid: string): Task | null {
+    return this.activeTasks().find(task => task.externalUid === uid) ?? null;
   }
 
   /**
    * Get all tasks
    */
   getAllTasks(): Task[] {
-    return Array.from(this.tasks.values());
+    return this.activeTasks();
   }
 
   /**
    * Get all tasks for a specific course
    */
   getTasksByCourse(courseId: string): Task[] {
-    return Array.from(this.tasks.values()).filter(task => task.courseId === courseId);
+    return this.activeTasks().filter(task => task.courseId === courseId);
   }
 
   /**
    * Get all tasks for a specific week
    */
   getTasksForWeek(weekNumber: number, year: number): Task[] {
-    return Array.from(this.tasks.values()).filter(task => 
+    return this.activeTasks().filter(task => 
       isDateInWeek(task.deadline, weekNumber, year)
     );
   }
@@ -158,7 +292,7 @@ export class TaskService implements ITaskService {
    */
   updateTask(id: string, updates: Partial<Task>): Result<Task, ValidationError> {
     // Check if task exists
-    const existingTask = this.tasks.get(id);
+    const existingTask = this.getTask(id);
     if (!existingTask) {
       return {
         success: false,
@@ -166,6 +300,79 @@ export class TaskService implements ITaskService {
       };
     }
 
+    // Create updated task
+    const updateResult = this.applyUpdates(existingTask, updates);
+    if (!updateResult.success) {
+      return updateResult;
+    }
+    const updatedTask = updateResult.value;
+
+    // Update in memory
+    this.tasks.set(id, updatedTask);
+
+    // Save to storage
+    const saveResult = this.saveTasks();
+    if (!saveResult.success) {
+      // Rollback in-memory change
+      this.tasks.set(id, existingTask);
+      return {
+        success: false,
+        error: new ValidationError(`Failed to save task: ${saveResult.error.message}`)
+      };
+    }
+
+    this.auditLog?.record('task', id, 'update', existingTask, updatedTask);
+    return { success: true, value: updatedTask };
+  }
+
+  /**
+   * Apply the same updates to several tasks in a single save
+   * Either all tasks are updated or none are
+   */
+  updateTasks(ids: string[], updates: Partial<Task>): Result<Task[], ValidationError> {
+    const existingTasks: Task[] = [];
+    const updatedTasks: Task[] = [];
+
+    // Validate every update before changing anything
+    for (const id of ids) {
+      const existingTask = this.getTask(id);
+      if (!existingTask) {
+        return {
+          success: false,
+          error: new ValidationError(`Task with ID "${id}" not found`)
+        };
+      }
+
+      const updateResult = this.applyUpdates(existingTask, updates);
+      if (!updateResult.success) {
+        return updateResult;
+      }
+      existingTasks.push(existingTask);
+      updatedTasks.push(updateResult.value);
+    }
+
+    // Update in memory
+    updatedTasks.forEach(task => this.tasks.set(task.id, task));
+
+    // Save to storage
+    const saveResult = this.saveTasks();
+    if (!saveResult.success) {
+      // Rollback in-memory changes
+      existingTasks.forEach(task => this.tasks.set(task.id, task));
+      return {
+        success: false,
+        error: new ValidationError(`Failed to save tasks: ${saveResult.error.message}`)
+      };
+    }
+
+    existingTasks.forEach((task, index) => this.auditLog?.record('task', task.id, 'update', task, updatedTasks[index]));
+    return { success: true, value: updatedTasks };
+  }
+
+  /**
+   * Validate updates and build the updated task
+   */
+  private applyUpdates(existingTask: Task, updates: Partial<Task>): Result<Task, ValidationError> {
     // Validate description if provided
     let validatedDescription = existingTask.description;
     if (updates.description !== undefined) {
@@ -204,60 +411,236 @@ export class TaskService implements ITaskService {
       validatedCourseId = validated;
     }
 
-    // Create updated task
+    // Validate priority if provided
+    if (updates.priority !== undefined && !isTaskPriority(updates.priority)) {
+      return {
+        success: false,
+        error: new ValidationError(`Invalid priority: ${updates.priority}`)
+      };
+    }
+
+    // Validate category if provided
+    if (updates.category !== undefined && !isTaskCategory(updates.category)) {
+      return {
+        success: false,
+        error: new ValidationError(`Invalid category: ${updates.category}`)
+      };
+    }
+
+    // Validate checklist if provided
+    let validatedChecklist = existingTask.checklist;
+    if (updates.checklist !== undefined) {
+      const checklistResult = validateChecklist(updates.checklist);
+      if (!checklistResult.success) {
+        return checklistResult;
+      }
+      validatedChecklist = checklistResult.value.length > 0 ? checklistResult.value : undefined;
+    }
+
+    // Validate estimated effort if provided; zero clears the estimate
+    if (updates.estimatedHours !== undefined && !isValidEstimate(updates.estimatedHours)) {
+      return {
+        success: false,
+        error: new ValidationError('Estimated effort must be a number of hours, zero or more')
+      };
+    }
+
     const updatedTask: Task = {
       ...existingTask,
       courseId: validatedCourseId,
       description: validatedDescription,
       deadline: validatedDeadline,
+      priority: updates.priority ?? existingTask.priority,
+      category: updates.category ?? existingTask.category,
       completed: updates.completed !== undefined ? updates.completed : existingTask.completed,
-      completedAt: updates.completedAt !== undefined ? updates.completedAt : existingTask.completedAt
+      completedAt: updates.completedAt !== undefined ? updates.completedAt : existingTask.completedAt,
+      checklist: validatedChecklist,
+      autoComplete: updates.autoComplete !== undefined ? updates.autoComplete || undefined : existingTask.autoComplete,
+      estimatedHours: updates.estimatedHours !== undefined ? updates.estimatedHours || undefined : existingTask.estimatedHours
     };
 
-    // Update in memory
-    this.tasks.set(id, updatedTask);
+    // Finishing the last checklist item, or turning auto-completion on once all items are done,
+    // completes the task; a task reopened by hand stays open while its checklist is unchanged
+    const checklistFinished = isChecklistDone(updatedTask.checklist) &&
+      (!isChecklistDone(existingTask.checklist) || !existingTask.autoComplete);
+    if (updatedTask.autoComplete && !updatedTask.completed && checklistFinished) {
+      updatedTask.completed = true;
+      updatedTask.completedAt = new Date();
+    }
+
+    return { success: true, value: updatedTask };
+  }
+
+  /**
+   * Move a task to the trash
+   */
+  deleteTask(id: string): Result<void, Error> {
+    return this.deleteTasks([id]);
+  }
+
+  /**
+   * Move several tasks to the trash in a single save
+   * Either all tasks are deleted or none are
+   * @param deletedAt - Deletion time; tasks deleted together with their course share the course's
+   */
+  deleteTasks(ids: string[], deletedAt: Date = new Date()): Result<void, Error> {
+    // Check that every task exists before deleting anything
+    const existingTasks: Task[] = [];
+    for (const id of ids) {
+      const existingTask = this.getTask(id);
+      if (!existingTask) {
+        return {
+          success: false,
+          error: new NotFoundError(`Task with ID "${id}" not found`)
+        };
+      }
+      existingTasks.push(existingTask);
+    }
+
+    // Mark as deleted in memory
+    const deletedTasks = existingTasks.map(task => ({ ...task, deletedAt }));
+    deletedTasks.forEach(task => this.tasks.set(task.id, task));
 
     // Save to storage
     const saveResult = this.saveTasks();
     if (!saveResult.success) {
-      // Rollback in-memory change
-      this.tasks.set(id, existingTask);
+      // Rollback in-memory changes
+      existingTasks.forEach(task => this.tasks.set(task.id, task));
       return {
         success: false,
-        error: new ValidationError(`Failed to save task: ${saveResult.error.message}`)
+        error: saveResult.error
       };
     }
 
-    return { success: true, value: updatedTask };
+    existingTasks.forEach((task, index) => this.auditLog?.record('task', task.id, 'delete', task, deletedTasks[index]));
+    return { success: true, value: undefined };
   }
 
   /**
-   * Delete a task
+   * Take several tasks out of the trash in a single save
+   * Either all tasks are restored or none are
    */
-  deleteTask(id: string): Result<void, Error> {
-    // Check if task exists
-    const existingTask = this.tasks.get(id);
-    if (!existingTask) {
+  restoreDeletedTasks(ids: string[]): Result<Task[], Error> {
+    const deletedTasks: Task[] = [];
+    for (const id of ids) {
+      const deletedTask = this.getDeletedTask(id);
+      if (!deletedTask) {
+        return {
+          success: false,
+          error: new NotFoundError(`Task with ID "${id}" not found in the trash`)
+        };
+      }
+      deletedTasks.push(deletedTask);
+    }
+
+    // Clear the deletion marker in memory
+    const restoredTasks = deletedTasks.map(task => {
+      const restored = { ...task };
+      delete restored.deletedAt;
+      return restored;
+    });
+    restoredTasks.forEach(task => this.tasks.set(task.id, task));
+
+    // Save to storage
+    const saveResult = this.saveTasks();
+    if (!saveResult.success) {
+      // Rollback in-memory changes
+      deletedTasks.forEach(task => this.tasks.set(task.id, task));
       return {
         success: false,
-        error: new NotFoundError(`Task with ID "${id}" not found`)
+        error: saveResult.error
       };
     }
 
-    // Delete from memory
-    this.tasks.delete(id);
+    deletedTasks.forEach((task, index) => this.auditLog?.record('task', task.id, 'restore', task, restoredTasks[index]));
+    return { success: true, value: restoredTasks };
+  }
+
+  /**
+   * Permanently remove several tasks, whether or not they are in the trash
+   * Either all tasks are removed or none are
+   */
+  purgeTasks(ids: string[]): Result<void, Error> {
+    const existingTasks: Task[] = [];
+    for (const id of ids) {
+      const existingTask = this.tasks.get(id);
+      if (!existingTask) {
+        return {
+          success: false,
+          error: new NotFoundError(`Task with ID "${id}" not found`)
+        };
+      }
+      existingTasks.push(existingTask);
+    }
+
+    // Remove from memory
+    existingTasks.forEach(task => this.tasks.delete(task.id));
 
     // Save to storage
     const saveResult = this.saveTasks();
     if (!saveResult.success) {
-      // Rollback in-memory change
-      this.tasks.set(id, existingTask);
+      // Rollback in-memory changes
+      existingTasks.forEach(task => this.tasks.set(task.id, task));
+      return {
+        success: false,
+        error: saveResult.error
+      };
+    }
+
+    existingTasks.forEach(task => this.auditLog?.record('task', task.id, 'purge', task, null));
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Put previously saved tasks back exactly as they were, replacing tasks with the same IDs
+   * Used to undo and redo task changes
+   */
+  restoreTasks(tasks: Task[]): Result<void, Error> {
+    return this.putTasks(tasks, 'restore');
+  }
+
+  /**
+   * Save new versions of existing tasks, including fields updateTask does not change
+   * Used to change the series fields of recurring tasks
+   */
+  replaceTasks(tasks: Task[]): Result<void, Error> {
+    const missingTask = tasks.find(task => !this.tasks.has(task.id));
+    if (missingTask) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${missingTask.id}" not found`)
+      };
+    }
+    return this.putTasks(tasks, 'update');
+  }
+
+  /**
+   * Store whole tasks, replacing tasks with the same IDs, and record them in the audit log
+   */
+  private putTasks(tasks: Task[], action: 'restore' | 'update'): Result<void, Error> {
+    const previousTasks = new Map(tasks.map(task => [task.id, this.tasks.get(task.id)]));
+
+    // Update in memory
+    tasks.forEach(task => this.tasks.set(task.id, task));
+
+    // Save to storage
+    const saveResult = this.saveTasks();
+    if (!saveResult.success) {
+      // Rollback in-memory changes
+      previousTasks.forEach((previousTask, id) => {
+        if (previousTask) {
+          this.tasks.set(id, previousTask);
+        } else {
+          this.tasks.delete(id);
+        }
+      });
       return {
         success: false,
         error: saveResult.error
       };
     }
 
+    tasks.forEach(task => this.auditLog?.record('task', task.id, action, previousTasks.get(task.id) ?? null, task));
     return { success: true, value: undefined };
   }
 
@@ -266,7 +649,7 @@ export class TaskService implements ITaskService {
    */
   markComplete(id: string): Result<Task, Error> {
     // Check if task exists
-    const existingTask = this.tasks.get(id);
+    const existingTask = this.getTask(id);
     if (!existingTask) {
       return {
         success: false,
@@ -295,6 +678,7 @@ export class TaskService implements ITaskService {
       };
     }
 
+    this.auditLog?.record('task', id, 'complete', existingTask, updatedTask);
     return { success: true, value: updatedTask };
   }
 
@@ -303,7 +687,7 @@ export class TaskService implements ITaskService {
    */
   markIncomplete(id: string): Result<Task, Error> {
     // Check if task exists
-    const existingTask = this.tasks.get(id);
+    const existingTask = this.getTask(id);
     if (!existingTask) {
       return {
         success: false,
@@ -332,6 +716,101 @@ export class TaskService implements ITaskService {
       };
     }
 
+    this.auditLog?.record('task', id, 'reopen', existingTask, updatedTask);
+    return { success: true, value: updatedTask };
+  }
+
+  /**
+   * Check or uncheck one checklist item of a task
+   */
+  setChecklistItemCompleted(id: string, itemId: string, completed: boolean): Result<Task, Error> {
+    const existingTask = this.getTask(id);
+    if (!existingTask) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${id}" not found`)
+      };
+    }
+
+    const checklist = existingTask.checklist ?? [];
+    if (!checklist.some(item => item.id === itemId)) {
+      return {
+        success: false,
+        error: new NotFoundError(`Checklist item with ID "${itemId}" not found`)
+      };
+    }
+
+    return this.updateTask(id, {
+      checklist: checklist.map(item => item.id === itemId ? { ...item, completed } : item)
+    });
+  }
+
+  /**
+   * Start the timer of a task
+   */
+  startTimer(id: string): Result<Task, Error> {
+    const existingTask = this.getTask(id);
+    if (!existingTask) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${id}" not found`)
+      };
+    }
+    if (existingTask.timerStartedAt) {
+      return {
+        success: false,
+        error: new ValidationError('The timer of this task is already running')
+      };
+    }
+
+    return this.saveTimerChange(existingTask, { ...existingTask, timerStartedAt: new Date() });
+  }
+
+  /**
+   * Stop the timer of a task, logging the time since it was started as a session
+   */
+  stopTimer(id: string): Result<Task, Error> {
+    const existingTask = this.getTask(id);
+    if (!existingTask) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${id}" not found`)
+      };
+    }
+    if (!existingTask.timerStartedAt) {
+      return {
+        success: false,
+        error: new ValidationError('The timer of this task is not running')
+      };
+    }
+
+    const session = { start: existingTask.timerStartedAt, end: new Date() };
+    return this.saveTimerChange(existingTask, {
+      ...existingTask,
+      timeSessions: [...(existingTask.timeSessions ?? []), session],
+      timerStartedAt: undefined
+    });
+  }
+
+  /**
+   * Save a task whose timer was started or stopped
+   */
+  private saveTimerChange(existingTask: Task, updatedTask: Task): Result<Task, Error> {
+    // Update in memory
+    this.tasks.set(updatedTask.id, updatedTask);
+
+    // Save to storage
+    const saveResult = this.saveTasks();
+    if (!saveResult.success) {
+      // Rollback in-memory change
+      this.tasks.set(existingTask.id, existingTask);
+      return {
+        success: false,
+        error: saveResult.error
+      };
+    }
+
+    this.auditLog?.record('task', updatedTask.id, 'update', existingTask, updatedTask);
     return { success: true, value: updatedTask };
   }
 
@@ -340,7 +819,7 @@ export class TaskService implements ITaskService {
    */
   getOverdueTasks(): Task[] {
     const now = new Date();
-    return Array.from(this.tasks.values()).filter(task => 
+    return this.activeTasks().filter(task => 
       !task.completed && task.deadline < now
     );
   }
@@ -0,0 +1,160 @@
+/**
+ * Tests for terms and the courses taught in them
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TermService } from './TermService.js';
+import { CourseService } from './CourseService.js';
+import { TaskService } from './TaskService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { ValidationError, NotFoundError } from '../models/errors.js';
+import { Term } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+describe('TermService', () => {
+  let storageService: StorageService;
+  let termService: TermService;
+  let courseService: CourseService;
+
+  beforeEach(() => {
+    storageService = new StorageService(new MockStorage());
+    termService = new TermService(storageService);
+    courseService = new CourseService(storageService, new TaskService(storageService), undefined, termService);
+  });
+
+  /**
+   * Create a term, failing the test if it cannot be created
+   */
+  function createTerm(name: string, startDate: Date, endDate: Date): Term {
+    const result = termService.createTerm(name, startDate, endDate);
+    if (!result.success) throw result.error;
+    return result.value;
+  }
+
+  describe('createTerm', () => {
+    it('should create terms and list them by start date', () => {
+      createTerm('Spring 2025', new Date(2025, 0, 10), new Date(2025, 4, 20));
+      createTerm('  Fall 2024 ', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+      expect(termService.getAllTerms().map(term => term.name)).toEqual(['Fall 2024', 'Spring 2025']);
+      expect(new TermService(storageService).getAllTerms()).toHaveLength(2);
+    });
+
+    it('should reject empty names, duplicate names and reversed dates', () => {
+      createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+      const results = [
+        termService.createTerm('  ', new Date(2025, 0, 10), new Date(2025, 4, 20)),
+        termService.createTerm('Fall 2024', new Date(2025, 0, 10), new Date(2025, 4, 20)),
+        termService.createTerm('Spring 2025', new Date(2025, 4, 20), new Date(2025, 0, 10)),
+        termService.createTerm('Spring 2025', new Date('invalid'), new Date(2025, 4, 20))
+      ];
+
+      for (const result of results) {
+        expect(result.success).toBe(false);
+        expect(!result.success && result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(termService.getAllTerms()).toHaveLength(1);
+    });
+  });
+
+  describe('getCurrentTerm', () => {
+    it('should find the term running on a date, including its last day', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+      expect(termService.getCurrentTerm(new Date(2024, 11, 20, 18))?.id).toBe(fall.id);
+      expect(termService.getCurrentTerm(new Date(2024, 11, 21))).toBeNull();
+      expect(termService.getCurrentTerm(new Date(2024, 7, 31))).toBeNull();
+    });
+  });
+
+  describe('updateTerm', () => {
+    it('should change a term and keep it valid', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+      const renamed = termService.updateTerm(fall.id, { name: 'Autumn 2024' });
+      const reversed = termService.updateTerm(fall.id, { endDate: new Date(2024, 7, 1) });
+      const missing = termService.updateTerm('missing', { name: 'Winter' });
+
+      expect(renamed.success && renamed.value.name).toBe('Autumn 2024');
+      expect(reversed.success).toBe(false);
+      expect(!missing.success && missing.error).toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('archiveTerm', () => {
+    it('should only archive finished terms', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+      expect(termService.archiveTerm(fall.id, new Date(2024, 11, 20, 12)).success).toBe(false);
+
+      const archived = termService.archiveTerm(fall.id, new Date(2024, 11, 21));
+      expect(archived.success && archived.value.archivedAt).toEqual(new Date(2024, 11, 21));
+      expect(termService.archiveTerm(fall.id, new Date(2025, 0, 1)).success).toBe(false);
+
+      const unarchived = termService.unarchiveTerm(fall.id);
+      expect(unarchived.success && unarchived.value.archivedAt).toBeUndefined();
+      expect(termService.unarchiveTerm(fall.id).success).toBe(false);
+    });
+
+    it('should hide the courses of archived terms from course lists', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      const spring = createTerm('Spring 2025', new Date(2025, 0, 10), new Date(2025, 4, 20));
+      courseService.createCourse('CS101', 'Computer Science', fall.id);
+      courseService.createCourse('CS102', 'Computer Science', spring.id);
+      courseService.createCourse('MATH100', 'Mathematics');
+
+      termService.archiveTerm(fall.id, new Date(2025, 0, 1));
+
+      expect(courseService.getCoursesForTerm().map(course => course.name).sort()).toEqual(['CS102', 'MATH100']);
+      expect(courseService.getCoursesForTerm(fall.id).map(course => course.name)).toEqual(['CS101']);
+      expect(Array.from(courseService.getCoursesByDepartment().keys())).toEqual(['Computer Science', 'Mathematics']);
+      expect(courseService.getCoursesByDepartment(spring.id).get('Computer Science')?.map(c => c.name)).toEqual(['CS102']);
+      expect(courseService.getAllCourses()).toHaveLength(3);
+    });
+  });
+
+  describe('courses in terms', () => {
+    it('should allow the same course in different terms but not twice in one', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      const spring = createTerm('Spring 2025', new Date(2025, 0, 10), new Date(2025, 4, 20));
+
+      expect(courseService.createCourse('CS101', 'Computer Science', fall.id).success).toBe(true);
+      expect(courseService.createCourse('CS101', 'Computer Science', spring.id).success).toBe(true);
+      expect(courseService.createCourse('CS101', 'Computer Science', fall.id).success).toBe(false);
+    });
+
+    it('should reject unknown and archived terms', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      termService.archiveTerm(fall.id, new Date(2025, 0, 1));
+
+      const unknown = courseService.createCourse('CS101', 'Computer Science', 'missing');
+      const archived = courseService.createCourse('CS101', 'Computer Science', fall.id);
+
+      expect(!unknown.success && unknown.error).toBeInstanceOf(ValidationError);
+      expect(!archived.success && archived.error.message).toContain('archived');
+    });
+
+    it('should move a course to another term or out of its term', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      const created = courseService.createCourse('CS101', 'Computer Science');
+      if (!created.success) throw created.error;
+
+      const moved = courseService.updateCourse(created.value.id, { termId: fall.id });
+      expect(moved.success && moved.value.termId).toBe(fall.id);
+
+      const removed = courseService.updateCourse(created.value.id, { termId: undefined });
+      expect(removed.success && removed.value.termId).toBeUndefined();
+    });
+  });
+
+  describe('deleteTerm', () => {
+    it('should remove a term', () => {
+      const fall = createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+      expect(termService.deleteTerm(fall.id).success).toBe(true);
+      expect(termService.getTerm(fall.id)).toBeNull();
+      expect(termService.deleteTerm(fall.id).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * TermService provides operations for the terms that courses are taught in
+ * Handles validation, archiving of finished terms, and persistence
+ */
+
+import { Term, Result } from '../models/types.js';
+import { ValidationError, NotFoundError, StorageError } from '../models/errors.js';
+import { IStorageService } from '../storage/StorageService.js';
+import { TERMS_STORAGE_KEY } from '../storage/storageKeys.js';
+import { validateNonEmptyString, isValidDate } from '../utils/validation.js';
+import { compareTerms, getTermStatus, isTermFinished } from '../utils/term.js';
+import { generateUUID } from '../utils/uuid.js';
+
+/**
+ * Term fields that can be changed after creation
+ */
+export type TermUpdates = Partial<Pick<Term, 'name' | 'startDate' | 'endDate'>>;
+
+/**
+ * TermService interface
+ */
+export interface ITermService {
+  createTerm(name: string, startDate: Date, endDate: Date): Result<Term, ValidationError>;
+  getTerm(id: string): Term | null;
+  getAllTerms(): Term[];
+  getCurrentTerm(now?: Date): Term | null;
+  updateTerm(id: string, updates: TermUpdates): Result<Term, Error>;
+  archiveTerm(id: string, now?: Date): Result<Term, Error>;
+  unarchiveTerm(id: string): Result<Term, Error>;
+  deleteTerm(id: string): Result<void, Error>;
+  restoreTerm(term: Term): Result<Term, Error>;
+  reload(): void;
+}
+
+/**
+ * TermService implementation
+ */
+export class TermService implements ITermService {
+  private storage: IStorageService;
+  private terms: Map<string, Term>;
+
+  constructor(storage: IStorageService) {
+    this.storage = storage;
+    this.terms = new Map();
+    this.loadTerms();
+  }
+
+  /**
+   * Load terms from storage into memory
+   */
+  private loadTerms(): void {
+    const result = this.storage.load<Term[]>(TERMS_STORAGE_KEY);
+    this.terms = result.success && Array.isArray(result.value)
+      ? new Map(result.value.map(term => [term.id, term]))
+      : new Map();
+  }
+
+  /**
+   * Reload terms from storage, discarding the in-memory state
+   */
+  reload(): void {
+    this.loadTerms();
+  }
+
+  /**
+   * Save a changed term, or remove it when term is null
+   * The in-memory change is rolled back if it cannot be saved.
+   */
+  private saveTerm(id: string, term: Term | null): Result<void, StorageError> {
+    const previous = this.terms.get(id);
+    if (term) {
+      this.terms.set(id, term);
+    } else {
+      this.terms.delete(id);
+    }
+
+    const result = this.storage.save(TERMS_STORAGE_KEY, Array.from(this.terms.values()));
+    if (!result.success) {
+      if (previous) {
+        this.terms.set(id, previous);
+      } else {
+        this.terms.delete(id);
+      }
+      return { success: false, error: new StorageError(`Failed to save term: ${result.error.message}`) };
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Validate a term's name and dates
+   * @param id - ID of the term being changed, which may keep its own name
+   */
+  private validateTerm(name: string, startDate: Date, endDate: Date, id?: string): Result<string, ValidationError> {
+    const validatedName = validateNonEmptyString(name);
+    if (validatedName === null) {
+      return { success: false, error: new ValidationError('Term name cannot be empty or whitespace only') };
+    }
+    if (!isValidDate(startDate) || !isValidDate(endDate)) {
+      return { success: false, error: new ValidationError('Term start and end dates must be valid dates') };
+    }
+    if (endDate < startDate) {
+      return { success: false, error: new ValidationError('Term end date cannot be before its start date') };
+    }
+    for (const term of this.terms.values()) {
+      if (term.id !== id && term.name === validatedName) {
+        return { success: false, error: new ValidationError(`Term "${validatedName}" already exists`) };
+      }
+    }
+    return { success: true, value: validatedName };
+  }
+
+  /**
+   * Create a new term
+   */
+  createTerm(name: string, startDate: Date, endDate: Date): Result<Term, ValidationError> {
+    const validated = this.validateTerm(name, startDate, endDate);
+    if (!validated.success) {
+      return validated;
+    }
+
+    const term: Term = {
+      id: generateUUID(),
+      name: validated.value,
+      startDate,
+      endDate,
+      createdAt: new Date()
+    };
+
+    const saveResult = this.saveTerm(term.id, term);
+    if (!saveResult.success) {
+      return { success: false, error: new ValidationError(saveResult.error.message) };
+    }
+    return { success: true, value: term };
+  }
+
+  /**
+   * Get a term by ID
+   */
+  getTerm(id: string): Term | null {
+    return this.terms.get(id) ?? null;
+  }
+
+  /**
+   * Get all terms, earliest first
+   */
+  getAllTerms(): Term[] {
+    return Array.from(this.terms.values()).sort(compareTerms);
+  }
+
+  /**
+   * Get the term running today, the earliest one if terms overlap
+   */
+  getCurrentTerm(now: Date = new Date()): Term | null {
+    return this.getAllTerms().find(term => getTermStatus(term, now) === 'current') ?? null;
+  }
+
+  /**
+   * Update a term's name or dates
+   */
+  updateTerm(id: string, updates: TermUpdates): Result<Term, Error> {
+    const existing = this.getTerm(id);
+    if (!existing) {
+      return { success: false, error: new NotFoundError(`Term with ID "${id}" not found`) };
+    }
+
+    const startDate = updates.startDate ?? existing.startDate;
+    const endDate = updates.endDate ?? existing.endDate;
+    const validated = this.validateTerm(updates.name ?? existing.name, startDate, endDate, id);
+    if (!validated.success) {
+      return validated;
+    }
+
+    const updated: Term = { ...existing, name: validated.value, startDate, endDate };
+    const saveResult = this.saveTerm(id, updated);
+    return saveResult.success ? { success: true, value: updated } : saveResult;
+  }
+
+  /**
+   * Archive a finished term, hiding its courses from course lists
+   * @param now - The current time (defaults to now)
+   */
+  archiveTerm(id: string, now: Date = new Date()): Result<Term, Error> {
+    const existing = this.getTerm(id);
+    if (!existing) {
+      return { success: false, error: new NotFoundError(`Term with ID "${id}" not found`) };
+    }
+    if (existing.archivedAt) {
+      return { success: false, error: new ValidationError(`Term "${existing.name}" is already archived`) };
+    }
+    if (!isTermFinished(existing, now)) {
+      return { success: false, error: new ValidationError(`Term "${existing.name}" has not finished yet`) };
+    }
+
+    const archived: Term = { ...existing, archivedAt: now };
+    const saveResult = this.saveTerm(id, archived);
+    return saveResult.success ? { success: true, value: archived } : saveResult;
+  }
+
+  /**
+   * Take a term out of the archive
+   */
+  unarchiveTerm(id: string): Result<Term, Error> {
+    const existing = this.getTerm(id);
+    if (!existing) {
+      return { success: false, error: new NotFoundError(`Term with ID "${id}" not found`) };
+    }
+    if (!existing.archivedAt) {
+      return { success: false, error: new ValidationError(`Term "${existing.name}" is not archived`) };
+    }
+
+    const unarchived: Term = { ...existing };
+    delete unarchived.archivedAt;
+    const saveResult = this.saveTerm(id, unarchived);
+    return saveResult.success ? { success: true, value: unarchived } : saveResult;
+  }
+
+  /**
+   * Permanently remove a term
+   * TrackerService only allows this for terms without courses.
+   */
+  deleteTerm(id: string): Result<void, Error> {
+    if (!this.getTerm(id)) {
+      return { success: false, error: new NotFoundError(`Term with ID "${id}" not found`) };
+    }
+    return this.saveTerm(id, null);
+  }
+
+  /**
+   * Put a term back exactly as it was, replacing any term with the same ID
+   * Used to import terms
+   */
+  restoreTerm(term: Term): Result<Term, Error> {
+    const validated = this.validateTerm(term.name, term.startDate, term.endDate, term.id);
+    if (!validated.success) {
+      return validated;
+    }
+    const saveResult = this.saveTerm(term.id, term);
+    return saveResult.success ? { success: true, value: term } : saveResult;
+  }
+}
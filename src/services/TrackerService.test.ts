@@ -3,7 +3,7 @@
  * Requirements: All
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TrackerService } from './TrackerService.js';
 import { StorageService } from '../storage/StorageService.js';
 import { getWeekBounds } from '../utils/weekCalculations.js';
@@ -706,4 +706,417 @@ describe('TrackerService', () => {
       }
     });
   });
+
+  describe('Bulk Task Operations', () => {
+    it('should mark several tasks complete and incomplete', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task1 = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      const task2 = trackerService.createTask(course.value.id, 'Task 2', new Date('2024-12-31'));
+      if (!task1.success || !task2.success) throw new Error('Failed to create tasks');
+      const ids = [task1.value.id, task2.value.id];
+
+      const completeResult = trackerService.markTasksComplete(ids);
+      expect(completeResult.success).toBe(true);
+      expect(trackerService.getAllTasks().every(t => t.completed)).toBe(true);
+
+      const incompleteResult = trackerService.markTasksIncomplete(ids);
+      expect(incompleteResult.success).toBe(true);
+      expect(trackerService.getAllTasks().every(t => !t.completed)).toBe(true);
+    });
+
+    it('should leave every task unchanged if one of them cannot be completed', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+
+      const result = trackerService.markTasksComplete([task.value.id, 'missing']);
+
+      expect(result.success).toBe(false);
+      expect(trackerService.getTask(task.value.id)?.completed).toBe(false);
+      const stored = JSON.parse(mockStorage.get('tracker:tasks')!);
+      expect(stored[0].completed).toBe(false);
+    });
+
+    it('should delete several tasks', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task1 = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      const task2 = trackerService.createTask(course.value.id, 'Task 2', new Date('2024-12-31'));
+      if (!task1.success || !task2.success) throw new Error('Failed to create tasks');
+
+      const result = trackerService.deleteTasks([task1.value.id, task2.value.id]);
+
+      expect(result.success).toBe(true);
+      expect(trackerService.getAllTasks()).toEqual([]);
+    });
+  });
+
+  describe('Undo and Redo', () => {
+    it('should restore a course and its tasks after undoing a cascade delete', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task1 = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      const task2 = trackerService.createTask(course.value.id, 'Task 2', new Date('2024-12-31'));
+      if (!task1.success || !task2.success) throw new Error('Failed to create tasks');
+      trackerService.markTaskComplete(task1.value.id);
+
+      expect(trackerService.deleteCourse(course.value.id, 'cascade').success).toBe(true);
+      expect(trackerService.getAllTasks()).toEqual([]);
+
+      const undoResult = trackerService.undo();
+      expect(undoResult.success).toBe(true);
+      if (undoResult.success) {
+        expect(undoResult.value).toBe('Delete course "CS101"');
+      }
+      expect(trackerService.getCourse(course.value.id)).toEqual(course.value);
+      expect(trackerService.getTask(task1.value.id)?.completed).toBe(true);
+      expect(trackerService.getTasksByCourse(course.value.id)).toHaveLength(2);
+
+      // Restored data is persisted
+      const reloaded = new TrackerService(new StorageService({
+        getItem: (key: string) => mockStorage.get(key) || null,
+        setItem: (key: string, value: string) => mockStorage.set(key, value),
+        removeItem: (key: string) => mockStorage.delete(key),
+        clear: () => mockStorage.clear(),
+        length: 0,
+        key: () => null
+      } as Storage));
+      expect(reloaded.getAllTasks()).toHaveLength(2);
+    });
+
+    it('should redo an undone delete', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+
+      trackerService.deleteTask(task.value.id);
+      trackerService.undo();
+      expect(trackerService.getTask(task.value.id)).not.toBeNull();
+      expect(trackerService.canRedo()).toBe(true);
+
+      const redoResult = trackerService.redo();
+      expect(redoResult.success).toBe(true);
+      expect(trackerService.getTask(task.value.id)).toBeNull();
+      expect(trackerService.canRedo()).toBe(false);
+    });
+
+    it('should undo task creation and completion', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+      trackerService.markTaskComplete(task.value.id);
+
+      trackerService.undo();
+      expect(trackerService.getTask(task.value.id)?.completed).toBe(false);
+      expect(trackerService.getTask(task.value.id)?.completedAt).toBeUndefined();
+
+      trackerService.undo();
+      expect(trackerService.getTask(task.value.id)).toBeNull();
+
+      trackerService.undo();
+      expect(trackerService.getCourse(course.value.id)).toBeNull();
+      expect(trackerService.canUndo()).toBe(false);
+    });
+
+    it('should undo a bulk operation as a single step', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task1 = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      const task2 = trackerService.createTask(course.value.id, 'Task 2', new Date('2024-12-31'));
+      if (!task1.success || !task2.success) throw new Error('Failed to create tasks');
+
+      trackerService.deleteTasks([task1.value.id, task2.value.id]);
+      const undoResult = trackerService.undo();
+
+      expect(undoResult.success && undoResult.value).toBe('Delete 2 tasks');
+      expect(trackerService.getAllTasks()).toHaveLength(2);
+    });
+
+    it('should not record failed mutations', () => {
+      const result = trackerService.deleteTask('missing');
+
+      expect(result.success).toBe(false);
+      expect(trackerService.canUndo()).toBe(false);
+      expect(trackerService.undo().success).toBe(false);
+    });
+  });
+
+  describe('Trash', () => {
+    it('should move deleted tasks out of the week view and statistics', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const deadline = new Date('2024-12-31');
+      const task = trackerService.createTask(course.value.id, 'Task 1', deadline);
+      if (!task.success) throw task.error;
+
+      trackerService.deleteTask(task.value.id);
+
+      expect(trackerService.getTasksForWeek(1, 2025)).toEqual([]);
+      expect(trackerService.getWeeklyStatistics(1, 2025).totalTasks).toBe(0);
+      expect(trackerService.getTrash().tasks.map(t => t.id)).toEqual([task.value.id]);
+    });
+
+    it('should restore a course with its tasks and undo the restore', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+      trackerService.deleteCourse(course.value.id, 'cascade');
+
+      const result = trackerService.restoreDeletedCourse(course.value.id);
+
+      expect(result.success).toBe(true);
+      expect(trackerService.getTasksByCourse(course.value.id)).toEqual([task.value]);
+
+      const undoResult = trackerService.undo();
+      expect(undoResult.success).toBe(true);
+      if (undoResult.success) {
+        expect(undoResult.value).toBe('Restore course "CS101"');
+      }
+      expect(trackerService.getCourse(course.value.id)).toBeNull();
+      expect(trackerService.getTrash().tasks.map(t => t.id)).toEqual([task.value.id]);
+    });
+
+    it('should purge entities older than the retention period on initialize', () => {
+      const storage = {
+        getItem: (key: string) => mockStorage.get(key) || null,
+        setItem: (key: string, value: string) => mockStorage.set(key, value),
+        removeItem: (key: string) => mockStorage.delete(key),
+        clear: () => mockStorage.clear(),
+        length: 0,
+        key: () => null
+      } as Storage;
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+      trackerService.deleteTask(task.value.id);
+
+      const keeping = new TrackerService(storage);
+      keeping.initialize();
+      expect(keeping.getTrash().tasks).toHaveLength(1);
+
+      const purging = new TrackerService(storage, { trashRetentionDays: -1 });
+      purging.initialize();
+      expect(purging.getTrash().tasks).toEqual([]);
+      expect(new TrackerService(storage).getTrash().tasks).toEqual([]);
+    });
+
+    it('should clear the undo history when the trash is emptied', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      trackerService.deleteCourse(course.value.id);
+
+      const result = trackerService.emptyTrash();
+
+      expect(result.success).toBe(true);
+      expect(trackerService.canUndo()).toBe(false);
+      expect(trackerService.getTrash().courses).toEqual([]);
+    });
+  });
+
+  describe('Recurring Tasks', () => {
+    // Monday, January 7 2030 at 09:00, in ISO week 2 of 2030
+    const start = new Date(2030, 0, 7, 9, 0);
+
+    function createSeries() {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createRecurringTask(course.value.id, 'Reading', start, { interval: 1, weekdays: [1, 3] });
+      if (!task.success) throw task.error;
+      return task.value;
+    }
+
+    it('should create occurrences as their weeks are shown', () => {
+      const task = createSeries();
+
+      expect(trackerService.getAllTasks().map(t => t.deadline.getDate())).toEqual([7, 9]);
+
+      const week = trackerService.getTasksForWeek(3, 2030);
+      expect(week.map(t => t.deadline)).toEqual([new Date(2030, 0, 14, 9, 0), new Date(2030, 0, 16, 9, 0)]);
+      expect(week.every(t => t.seriesId === task.seriesId && t.description === 'Reading')).toBe(true);
+      expect(trackerService.getWeeklyStatistics(4, 2030).totalTasks).toBe(2);
+    });
+
+    it('should show occurrences later on Sunday in their own week', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      // Sunday, January 13 2030, the last day of ISO week 2
+      trackerService.createRecurringTask(course.value.id, 'Review', new Date(2030, 0, 13, 18, 0), { interval: 1, weekdays: [0] });
+
+      expect(trackerService.getTasksForWeek(3, 2030).map(t => t.deadline)).toEqual([new Date(2030, 0, 20, 18, 0)]);
+    });
+
+    it('should not show a deleted occurrence again', () => {
+      createSeries();
+      const wednesday = trackerService.getTasksForWeek(2, 2030)[1];
+
+      trackerService.deleteTask(wednesday.id);
+      trackerService.emptyTrash();
+
+      expect(trackerService.getTasksForWeek(2, 2030).map(t => t.deadline.getDate())).toEqual([7]);
+    });
+
+    it('should undo and redo deleting the first occurrence', () => {
+      const task = createSeries();
+
+      trackerService.deleteRecurringTask(task.id, 'this');
+      expect(trackerService.getTask(task.id)).toBeNull();
+      expect(trackerService.getAllTasks()[0].recurrence).toBeDefined();
+
+      trackerService.undo();
+      expect(trackerService.getTask(task.id)?.recurrence).toEqual(task.recurrence);
+      expect(trackerService.getAllTasks().filter(t => t.recurrence)).toHaveLength(1);
+
+      trackerService.redo();
+      expect(trackerService.getTask(task.id)).toBeNull();
+    });
+
+    it('should undo creating a series', () => {
+      createSeries();
+
+      const result = trackerService.undo();
+
+      expect(result.success && result.value).toBe('Create recurring task "Reading"');
+      expect(trackerService.getAllTasks()).toEqual([]);
+    });
+
+    it('should also remove occurrences created after the series when undoing its creation', () => {
+      createSeries();
+      trackerService.getTasksForWeek(6, 2030);
+
+      trackerService.undo();
+
+      expect(trackerService.getAllTasks()).toEqual([]);
+      expect(trackerService.getTrash().tasks).toEqual([]);
+
+      trackerService.redo();
+      expect(trackerService.getAllTasks().map(t => t.deadline.getDate())).toEqual([7, 9]);
+      expect(trackerService.getTasksForWeek(6, 2030)).toHaveLength(2);
+    });
+
+    it('should update all occurrences and undo the update', () => {
+      const task = createSeries();
+
+      const result = trackerService.updateRecurringTask(task.id, { description: 'Notes' }, 'all');
+
+      expect(result.success && result.value.map(t => t.description)).toEqual(['Notes', 'Notes']);
+      expect(trackerService.getTasksForWeek(3, 2030).map(t => t.description)).toEqual(['Notes', 'Notes']);
+
+      trackerService.undo();
+      expect(trackerService.getTask(task.id)?.recurrence?.description).toBe('Reading');
+      expect(trackerService.getTasksForWeek(3, 2030).map(t => t.description)).toEqual(['Reading', 'Reading']);
+    });
+
+    it('should report occurrences that cannot be created', () => {
+      let full = false;
+      const storage = {
+        getItem: (key: string) => mockStorage.get(key) || null,
+        setItem: (key: string, value: string) => {
+          if (full) throw new Error('Exceeded the quota');
+          mockStorage.set(key, value);
+        },
+        removeItem: (key: string) => mockStorage.delete(key),
+        clear: () => mockStorage.clear(),
+        length: mockStorage.size,
+        key: (index: number) => Array.from(mockStorage.keys())[index] || null
+      } as Storage;
+      const errors: Error[] = [];
+      createSeries();
+      const tracker = new TrackerService(storage, { onMaterializeError: error => errors.push(error) });
+      tracker.initialize();
+
+      full = true;
+
+      expect(tracker.getTasksForWeek(3, 2030)).toEqual([]);
+      expect(errors.map(error => error.message)).toEqual(['Storage quota exceeded. Please free up space.']);
+    });
+  });
+
+  describe('Workload', () => {
+    it('should flag overloaded days and suggest moving work to earlier ones', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      // Friday of ISO week 2 of 2030, which starts on Monday, January 7
+      const task = trackerService.createTask(course.value.id, 'Project', new Date(2030, 0, 11, 17), { estimatedHours: 8 });
+      if (!task.success) throw task.error;
+
+      expect(trackerService.setDailyCapacity(5).success).toBe(true);
+      const workload = trackerService.getWeekWorkload(2, 2030);
+      const suggestions = trackerService.suggestRebalancing(2, 2030);
+
+      expect(workload.days[4]).toMatchObject({ plannedHours: 8, capacityHours: 5, overloaded: true });
+      expect(suggestions).toEqual([
+        { taskId: task.value.id, from: new Date(2030, 0, 11), to: new Date(2030, 0, 10), hours: 3 }
+      ]);
+      expect(trackerService.canUndo()).toBe(true);
+      expect(trackerService.undo().success && trackerService.getDailyCapacity()).toBe(5);
+    });
+  });
+
+  describe('Study Plan', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should plan the occurrences of recurring tasks due before the planned week', () => {
+      // Monday of ISO week 2 of 2030, before the first study window
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2030, 0, 7, 8, 0));
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const problemSet = trackerService.createRecurringTask(
+        course.value.id, 'Problem set', new Date(2030, 0, 11, 17), { interval: 1, weekdays: [5] }, { estimatedHours: 12 }
+      );
+      if (!problemSet.success) throw problemSet.error;
+      const thesis = trackerService.createTask(course.value.id, 'Thesis', new Date(2030, 0, 27, 17), { estimatedHours: 60 });
+      if (!thesis.success) throw thesis.error;
+
+      const plan = trackerService.getStudyPlan(4, 2030);
+
+      // The problem sets of weeks 2, 3 and 4 come first, leaving 36 of the 72 study hours for the thesis
+      expect(trackerService.getAllTasks().filter(t => t.seriesId).map(t => t.deadline.getDate())).toEqual([11, 18, 25]);
+      expect(plan.unscheduled).toEqual([{ taskId: thesis.value.id, hours: 24 }]);
+    });
+  });
+
+  describe('Terms', () => {
+    it('should only delete terms without courses and summarize a term\'s tasks', () => {
+      const term = trackerService.createTerm('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+      if (!term.success) throw term.error;
+      const course = trackerService.createCourse('CS101', 'Computer Science', term.value.id);
+      if (!course.success) throw course.error;
+      trackerService.createTask(course.value.id, 'Essay', new Date(2024, 9, 1, 12));
+
+      const refused = trackerService.deleteTerm(term.value.id);
+      expect(!refused.success && refused.error.message).toContain('1 course.');
+      expect(trackerService.getTermStatistics(term.value.id)?.totalTasks).toBe(1);
+      expect(trackerService.getTermStatistics('missing')).toBeNull();
+
+      trackerService.deleteCourse(course.value.id, 'cascade');
+      expect(trackerService.deleteTerm(term.value.id).success).toBe(true);
+      expect(trackerService.getAllTerms()).toEqual([]);
+    });
+  });
+
+  describe('Audit Log', () => {
+    it('should record course and task changes, including those made by undo', () => {
+      const course = trackerService.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = trackerService.createTask(course.value.id, 'Task 1', new Date('2024-12-31'));
+      if (!task.success) throw task.error;
+
+      trackerService.deleteCourse(course.value.id, 'cascade');
+      trackerService.undo();
+
+      const taskHistory = trackerService.getTaskHistory(task.value.id);
+      expect(taskHistory.success && taskHistory.value.map(entry => entry.action)).toEqual(['restore', 'delete', 'create']);
+      const courseHistory = trackerService.getCourseHistory(course.value.id);
+      expect(courseHistory.success && courseHistory.value.map(entry => entry.action)).toEqual(['restore', 'delete', 'create']);
+    });
+  });
 });
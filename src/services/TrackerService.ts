@@ -3,32 +3,58 @@
  * Initializes and manages all services, providing a unified API for the UI layer
  */
 
-import { Course, Task, WeeklyStatistics, DepartmentStats, CourseStats, Result } from '../models/types.js';
-import { ValidationError } from '../models/errors.js';
-import { StorageService, IStorageService } from '../storage/StorageService.js';
+import { Course, CourseMeeting, ClassSession, MeetingConflict, Term, TermStatistics, Task, TaskOptions, RecurrenceRule, RecurrenceScope, WeeklyStatistics, DepartmentStats, CourseStats, TrashContents, AuditEntry, WeekWorkload, RebalanceSuggestion, PlannerSettings, StudyPlan, Result } from '../models/types.js';
+import { ValidationError, StorageError } from '../models/errors.js';
+import { StorageService, IStorageService, runInTransaction } from '../storage/StorageService.js';
+import { runMigrations } from '../storage/migrations.js';
 import { CourseService, ICourseService, DeletionStrategy } from './CourseService.js';
 import { TaskService, ITaskService } from './TaskService.js';
+import { TermService, ITermService, TermUpdates } from './TermService.js';
 import { StatisticsService, IStatisticsService } from './StatisticsService.js';
+import { HistoryService, IHistoryService } from './HistoryService.js';
+import { ImportExportService, IImportExportService, ImportMode, ImportReport } from './ImportExportService.js';
+import { CalendarService, ICalendarService, IcsExportOptions, IcsImportOptions, IcsImportReport } from './CalendarService.js';
+import { CsvService, ICsvService, CsvImportOptions, CsvImportReport } from './CsvService.js';
+import { TrashService, ITrashService, DEFAULT_TRASH_RETENTION_DAYS } from './TrashService.js';
+import { AuditLogService, IAuditLogService, AuditLogOptions } from './AuditLogService.js';
+import { RecurrenceService, IRecurrenceService } from './RecurrenceService.js';
+import { WorkloadService, IWorkloadService } from './WorkloadService.js';
+import { PlannerService, IPlannerService } from './PlannerService.js';
+import { getWeekNumber, getWeekRange } from '../utils/weekCalculations.js';
 
 /**
  * TrackerService interface - unified API for the application
  */
 export interface ITrackerService {
   // Initialization
-  initialize(): void;
+  initialize(): Result<void, StorageError>;
+  reload(): void;
   
   // Course operations
-  createCourse(name: string, department: string): Result<Course, ValidationError>;
+  createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Result<Course, ValidationError>;
   getCourse(id: string): Course | null;
   getAllCourses(): Course[];
-  getCoursesByDepartment(): Map<string, Course[]>;
+  getCoursesForTerm(termId?: string): Course[];
+  getCoursesByDepartment(termId?: string): Map<string, Course[]>;
   updateCourse(id: string, updates: Partial<Course>): Result<Course, ValidationError>;
   deleteCourse(id: string, strategy?: DeletionStrategy, targetCourseId?: string): Result<void, Error>;
-  courseExists(name: string, department: string): boolean;
+  courseExists(name: string, department: string, termId?: string): boolean;
   hasAssociatedTasks(courseId: string): boolean;
+  getMeetingConflicts(termId?: string): MeetingConflict[];
+  getClassSessions(weekNumber: number, year: number): ClassSession[];
+  
+  // Term operations
+  createTerm(name: string, startDate: Date, endDate: Date): Result<Term, ValidationError>;
+  getTerm(id: string): Term | null;
+  getAllTerms(): Term[];
+  getCurrentTerm(): Term | null;
+  updateTerm(id: string, updates: TermUpdates): Result<Term, Error>;
+  archiveTerm(id: string): Result<Term, Error>;
+  unarchiveTerm(id: string): Result<Term, Error>;
+  deleteTerm(id: string): Result<void, Error>;
   
   // Task operations
-  createTask(courseId: string, description: string, deadline: Date): Result<Task, ValidationError>;
+  createTask(courseId: string, description: string, deadline: Date, options?: TaskOptions): Result<Task, ValidationError>;
   getTask(id: string): Task | null;
   getAllTasks(): Task[];
   getTasksByCourse(courseId: string): Task[];
@@ -37,12 +63,105 @@ export interface ITrackerService {
   deleteTask(id: string): Result<void, Error>;
   markTaskComplete(id: string): Result<Task, Error>;
   markTaskIncomplete(id: string): Result<Task, Error>;
+  setChecklistItemCompleted(taskId: string, itemId: string, completed: boolean): Result<Task, Error>;
+  startTaskTimer(id: string): Result<Task, Error>;
+  stopTaskTimer(id: string): Result<Task, Error>;
   getOverdueTasks(): Task[];
   
+  // Recurring task operations
+  createRecurringTask(courseId: string, description: string, deadline: Date, rule: RecurrenceRule, options?: TaskOptions): Result<Task, Error>;
+  updateRecurringTask(id: string, updates: Partial<Task>, scope: RecurrenceScope): Result<Task[], Error>;
+  deleteRecurringTask(id: string, scope: RecurrenceScope): Result<void, Error>;
+  
+  // Bulk task operations (all-or-nothing)
+  deleteTasks(ids: string[]): Result<void, Error>;
+  markTasksComplete(ids: string[]): Result<Task[], Error>;
+  markTasksIncomplete(ids: string[]): Result<Task[], Error>;
+  
+  // Trash operations
+  getTrash(): TrashContents;
+  getTrashRetentionDays(): number;
+  restoreDeletedTask(id: string): Result<Task, Error>;
+  restoreDeletedCourse(id: string): Result<Course, Error>;
+  emptyTrash(): Result<number, Error>;
+  
+  // Audit log
+  getTaskHistory(id: string): Result<AuditEntry[], StorageError>;
+  getCourseHistory(id: string): Result<AuditEntry[], StorageError>;
+  
+  // Import and export
+  exportData(): string;
+  importData(json: string, mode?: ImportMode): Result<ImportReport, Error>;
+  exportIcs(options?: IcsExportOptions): Result<string, Error>;
+  importIcs(text: string, options?: IcsImportOptions): Result<IcsImportReport, Error>;
+  exportCsv(): string;
+  importCsv(text: string, options?: CsvImportOptions): Result<CsvImportReport, Error>;
+  
+  // History operations
+  undo(): Result<string, Error>;
+  redo(): Result<string, Error>;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  
   // Statistics operations
   getWeeklyStatistics(weekNumber: number, year: number): WeeklyStatistics;
   getCourseProgress(courseId: string): CourseStats | null;
   getDepartmentProgress(department: string): DepartmentStats;
+  getTermStatistics(termId: string): TermStatistics | null;
+  
+  // Workload operations
+  getDailyCapacity(): number;
+  setDailyCapacity(hours: number): Result<number, Error>;
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload;
+  suggestRebalancing(weekNumber: number, year: number): RebalanceSuggestion[];
+  
+  // Study planner operations
+  getPlannerSettings(): PlannerSettings;
+  updatePlannerSettings(settings: PlannerSettings): Result<PlannerSettings, Error>;
+  getStudyPlan(weekNumber: number, year: number): StudyPlan;
+}
+
+/**
+ * State of a set of courses and tasks at one point in time
+ * null marks an entity that did not exist
+ */
+interface EntityState {
+  courses: Map<string, Course | null>;
+  tasks: Map<string, Task | null>;
+  seriesIds: string[];    // Series whose every occurrence is in tasks
+}
+
+/**
+ * IDs of the entities a mutation touches
+ */
+interface AffectedEntities {
+  courseIds?: string[];
+  taskIds?: string[];
+  seriesIds?: string[];
+}
+
+/**
+ * Options for TrackerService
+ */
+export interface TrackerServiceOptions {
+  trashRetentionDays?: number;    // Days before deleted entities are purged; defaults to DEFAULT_TRASH_RETENTION_DAYS
+  auditLog?: AuditLogOptions;     // Audit log segment sizes and error handler
+  onMaterializeError?: (error: Error) => void;   // Called when the occurrences of recurring tasks in a shown week cannot be created
+}
+
+/**
+ * Check whether a storage backend is already an IStorageService
+ */
+function isStorageService(storage: Storage | IStorageService | undefined): storage is IStorageService {
+  return storage !== undefined && typeof (storage as IStorageService).load === 'function';
+}
+
+/**
+ * Get the last moment of the ISO week containing a date
+ */
+function endOfWeek(date: Date): Date {
+  const { weekNumber, year } = getWeekNumber(date);
+  return getWeekRange(weekNumber, year).endDate;
 }
 
 /**
@@ -52,43 +171,145 @@ export class TrackerService implements ITrackerService {
   private storageService: IStorageService;
   private courseService: ICourseService;
   private taskService: ITaskService;
+  private termService: ITermService;
   private statisticsService: IStatisticsService;
+  private history: IHistoryService;
+  private importExportService: IImportExportService;
+  private calendarService: ICalendarService;
+  private csvService: ICsvService;
+  private trashService: ITrashService;
+  private auditLog: IAuditLogService;
+  private recurrenceService: IRecurrenceService;
+  private workloadService: IWorkloadService;
+  private plannerService: IPlannerService;
+  private onMaterializeError?: (error: Error) => void;
   private initialized: boolean = false;
 
-  constructor(storage?: Storage) {
+  /**
+   * @param storage - Storage backend: a Storage object (defaults to localStorage)
+   *                  or any IStorageService implementation such as IndexedDBStorageService
+   * @param options - Trash retention period, audit log options and materialize error handler
+   */
+  constructor(storage?: Storage | IStorageService, options: TrackerServiceOptions = {}) {
+    this.onMaterializeError = options.onMaterializeError;
+    
     // Initialize storage service
-    this.storageService = new StorageService(storage);
+    this.storageService = isStorageService(storage) ? storage : new StorageService(storage);
+    
+    // Initialize the audit log that course and task changes are recorded in
+    this.auditLog = new AuditLogService(this.storageService, options.auditLog);
     
     // Initialize task service first (no dependencies)
-    this.taskService = new TaskService(this.storageService);
+    this.taskService = new TaskService(this.storageService, this.auditLog);
+    
+    // Initialize terms (no dependencies)
+    this.termService = new TermService(this.storageService);
     
     // Initialize course service with task service reference for cascade operations
-    this.courseService = new CourseService(this.storageService, this.taskService);
+    this.courseService = new CourseService(this.storageService, this.taskService, this.auditLog, this.termService);
     
     // Initialize statistics service with both task and course services
     this.statisticsService = new StatisticsService(this.taskService, this.courseService);
+    
+    // Initialize undo/redo history
+    this.history = new HistoryService();
+    
+    // Initialize import/export over the course and task services
+    this.importExportService = new ImportExportService(this.storageService, this.courseService, this.taskService, this.termService);
+    this.calendarService = new CalendarService(this.courseService, this.taskService);
+    this.csvService = new CsvService(this.courseService, this.taskService);
+    
+    // Initialize the trash over the course and task services
+    this.trashService = new TrashService(
+      this.storageService,
+      this.courseService,
+      this.taskService,
+      options.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+    );
+    
+    // Initialize recurring task series over the course and task services
+    this.recurrenceService = new RecurrenceService(this.storageService, this.courseService, this.taskService);
+    
+    // Initialize workload analysis over the task service
+    this.workloadService = new WorkloadService(this.storageService, this.taskService);
+    
+    // Initialize the study planner over the task service
+    this.plannerService = new PlannerService(this.storageService, this.taskService);
   }
 
   /**
    * Initialize the application and load data from storage
+   * Upgrades persisted data to the current schema version before it is used,
+   * then purges trashed entities whose retention period has ended and creates
+   * the occurrences of recurring tasks up to the end of the current week
    */
-  initialize(): void {
+  initialize(): Result<void, StorageError> {
     if (this.initialized) {
-      return;
+      return { success: true, value: undefined };
+    }
+    
+    const migrationResult = runMigrations(this.storageService);
+    if (!migrationResult.success) {
+      return { success: false, error: migrationResult.error };
+    }
+    
+    // Services load their data in constructors, so reload anything that was migrated
+    if (migrationResult.value.applied.length > 0) {
+      this.taskService.reload();
+      this.courseService.reload();
+      this.termService.reload();
+    }
+    
+    const purgeResult = this.trashService.purgeExpired();
+    if (!purgeResult.success) {
+      return {
+        success: false,
+        error: purgeResult.error instanceof StorageError ? purgeResult.error : new StorageError(purgeResult.error.message)
+      };
+    }
+    
+    const materializeResult = this.recurrenceService.materialize(new Date(0), endOfWeek(new Date()));
+    if (!materializeResult.success) {
+      return {
+        success: false,
+        error: materializeResult.error instanceof StorageError
+          ? materializeResult.error
+          : new StorageError(materializeResult.error.message)
+      };
     }
     
-    // Services automatically load their data in constructors
-    // This method is provided for explicit initialization if needed
     this.initialized = true;
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Reload all data from storage, discarding the in-memory state
+   * Used when another tab has changed the data. The undo history is cleared, since undoing
+   * an earlier change would overwrite the other tab's changes.
+   */
+  reload(): void {
+    this.taskService.reload();
+    this.courseService.reload();
+    this.termService.reload();
+    this.workloadService.reload();
+    this.plannerService.reload();
+    this.history.clear();
   }
 
   // ==================== Course Operations ====================
 
   /**
    * Create a new course
+   * @param termId - Term the course is taught in (optional)
+   * @param meetings - Weekly class meetings (optional)
    */
-  createCourse(name: string, department: string): Result<Course, ValidationError> {
-    return this.courseService.createCourse(name, department);
+  createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Result<Course, ValidationError> {
+    return this.recordMutation(
+      `Create course "${name.trim()}"`,
+      {},
+      () => this.courseService.createCourse(name, department, termId, meetings),
+      course => ({ courseIds: [course.id] })
+    );
   }
 
   /**
@@ -105,18 +326,46 @@ export class TrackerService implements ITrackerService {
     return this.courseService.getAllCourses();
   }
 
+  /**
+   * Get the courses of a term, or without a term every course except those of archived terms
+   */
+  getCoursesForTerm(termId?: string): Course[] {
+    return this.courseService.getCoursesForTerm(termId);
+  }
+
   /**
    * Get courses grouped by department
+   * @param termId - Only group the courses of this term; without it, courses of archived terms are left out
+   */
+  getCoursesByDepartment(termId?: string): Map<string, Course[]> {
+    return this.courseService.getCoursesByDepartment(termId);
+  }
+
+  /**
+   * Find the weekly times at which two courses both meet
+   * @param termId - Only check the courses of this term; without it, courses of archived terms are left out
    */
-  getCoursesByDepartment(): Map<string, Course[]> {
-    return this.courseService.getCoursesByDepartment();
+  getMeetingConflicts(termId?: string): MeetingConflict[] {
+    return this.courseService.getMeetingConflicts(termId);
+  }
+
+  /**
+   * Get the class meetings held in an ISO week, earliest first
+   */
+  getClassSessions(weekNumber: number, year: number): ClassSession[] {
+    const { startDate, endDate } = getWeekRange(weekNumber, year);
+    return this.courseService.getClassSessions(startDate, endDate);
   }
 
   /**
    * Update a course
    */
   updateCourse(id: string, updates: Partial<Course>): Result<Course, ValidationError> {
-    return this.courseService.updateCourse(id, updates);
+    return this.recordMutation(
+      `Update course "${this.courseService.getCourse(id)?.name ?? id}"`,
+      { courseIds: [id] },
+      () => this.courseService.updateCourse(id, updates)
+    );
   }
 
   /**
@@ -126,6 +375,18 @@ export class TrackerService implements ITrackerService {
    * @param targetCourseId - Required when strategy is 'reassign'
    */
   deleteCourse(id: string, strategy?: DeletionStrategy, targetCourseId?: string): Result<void, Error> {
+    const associatedTaskIds = this.taskService.getTasksByCourse(id).map(task => task.id);
+    return this.recordMutation(
+      `Delete course "${this.courseService.getCourse(id)?.name ?? id}"`,
+      { courseIds: [id], taskIds: associatedTaskIds },
+      () => this.performDeleteCourse(id, strategy, targetCourseId)
+    );
+  }
+
+  /**
+   * Delete a course, handling associated tasks with the given strategy
+   */
+  private performDeleteCourse(id: string, strategy?: DeletionStrategy, targetCourseId?: string): Result<void, Error> {
     // Check if course has associated tasks
     const hasAssociatedTasks = this.courseService.hasAssociatedTasks(id);
     
@@ -149,8 +410,8 @@ export class TrackerService implements ITrackerService {
   /**
    * Check if a course exists with the given name and department
    */
-  courseExists(name: string, department: string): boolean {
-    return this.courseService.courseExists(name, department);
+  courseExists(name: string, department: string, termId?: string): boolean {
+    return this.courseService.courseExists(name, department, termId);
   }
 
   /**
@@ -160,12 +421,81 @@ export class TrackerService implements ITrackerService {
     return this.courseService.hasAssociatedTasks(courseId);
   }
 
+  // ==================== Term Operations ====================
+  // Terms are not course or task data, so term changes are not recorded for undo
+
+  /**
+   * Create a new term
+   */
+  createTerm(name: string, startDate: Date, endDate: Date): Result<Term, ValidationError> {
+    return this.termService.createTerm(name, startDate, endDate);
+  }
+
+  /**
+   * Get a term by ID
+   */
+  getTerm(id: string): Term | null {
+    return this.termService.getTerm(id);
+  }
+
+  /**
+   * Get all terms, earliest first
+   */
+  getAllTerms(): Term[] {
+    return this.termService.getAllTerms();
+  }
+
+  /**
+   * Get the term running today
+   */
+  getCurrentTerm(): Term | null {
+    return this.termService.getCurrentTerm();
+  }
+
+  /**
+   * Update a term's name or dates
+   */
+  updateTerm(id: string, updates: TermUpdates): Result<Term, Error> {
+    return this.termService.updateTerm(id, updates);
+  }
+
+  /**
+   * Archive a finished term, hiding its courses from course lists
+   */
+  archiveTerm(id: string): Result<Term, Error> {
+    return this.termService.archiveTerm(id);
+  }
+
+  /**
+   * Take a term out of the archive
+   */
+  unarchiveTerm(id: string): Result<Term, Error> {
+    return this.termService.unarchiveTerm(id);
+  }
+
+  /**
+   * Delete a term that has no courses
+   */
+  deleteTerm(id: string): Result<void, Error> {
+    const courseCount = this.courseService.getCoursesForTerm(id).length;
+    if (courseCount > 0) {
+      return {
+        success: false,
+        error: new ValidationError(
+          `Cannot delete a term with ${courseCount} course${courseCount !== 1 ? 's' : ''}. Move or delete the courses first.`
+        )
+      };
+    }
+    return this.termService.deleteTerm(id);
+  }
+
   // ==================== Task Operations ====================
 
   /**
    * Create a new task
+   * @param options - Optional task fields
    */
-  createTask(courseId: string, description: string, deadline: Date): Result<Task, ValidationError> {
+  createTask(courseId: string, description: string, deadline: Date, options?: TaskOptions): Result<Task, ValidationError> {
     // Validate that the course exists
     const course = this.courseService.getCourse(courseId);
     if (!course) {
@@ -175,7 +505,12 @@ export class TrackerService implements ITrackerService {
       };
     }
     
-    return this.taskService.createTask(courseId, description, deadline);
+    return this.recordMutation(
+      `Create task "${description.trim()}"`,
+      {},
+      () => this.taskService.createTask(courseId, description, deadline, options),
+      task => ({ taskIds: [task.id] })
+    );
   }
 
   /**
@@ -201,8 +536,10 @@ export class TrackerService implements ITrackerService {
 
   /**
    * Get all tasks for a specific week
+   * Creates the week's occurrences of recurring tasks first.
    */
   getTasksForWeek(weekNumber: number, year: number): Task[] {
+    this.materializeWeek(weekNumber, year);
     return this.taskService.getTasksForWeek(weekNumber, year);
   }
 
@@ -221,28 +558,78 @@ export class TrackerService implements ITrackerService {
       }
     }
     
-    return this.taskService.updateTask(id, updates);
+    return this.recordMutation(
+      this.taskLabel('Update', id),
+      { taskIds: [id] },
+      () => this.taskService.updateTask(id, updates)
+    );
   }
 
   /**
    * Delete a task
+   * An occurrence of a recurring task is deleted on its own; the rest of its series remains.
    */
   deleteTask(id: string): Result<void, Error> {
-    return this.taskService.deleteTask(id);
+    return this.recordSeriesMutation(
+      this.taskLabel('Delete', id),
+      [id],
+      () => this.recurrenceService.deleteTasks([id])
+    );
   }
 
   /**
    * Mark a task as complete
    */
   markTaskComplete(id: string): Result<Task, Error> {
-    return this.taskService.markComplete(id);
+    return this.recordMutation(
+      this.taskLabel('Complete', id),
+      { taskIds: [id] },
+      () => this.taskService.markComplete(id)
+    );
   }
 
   /**
    * Mark a task as incomplete
    */
   markTaskIncomplete(id: string): Result<Task, Error> {
-    return this.taskService.markIncomplete(id);
+    return this.recordMutation(
+      this.taskLabel('Reopen', id),
+      { taskIds: [id] },
+      () => this.taskService.markIncomplete(id)
+    );
+  }
+
+  /**
+   * Check or uncheck one checklist item of a task
+   */
+  setChecklistItemCompleted(taskId: string, itemId: string, completed: boolean): Result<Task, Error> {
+    return this.recordMutation(
+      this.taskLabel('Update checklist of', taskId),
+      { taskIds: [taskId] },
+      () => this.taskService.setChecklistItemCompleted(taskId, itemId, completed)
+    );
+  }
+
+  /**
+   * Start timing the work on a task
+   */
+  startTaskTimer(id: string): Result<Task, Error> {
+    return this.recordMutation(
+      this.taskLabel('Start timer of', id),
+      { taskIds: [id] },
+      () => this.taskService.startTimer(id)
+    );
+  }
+
+  /**
+   * Stop the timer of a task and log the session
+   */
+  stopTaskTimer(id: string): Result<Task, Error> {
+    return this.recordMutation(
+      this.taskLabel('Stop timer of', id),
+      { taskIds: [id] },
+      () => this.taskService.stopTimer(id)
+    );
   }
 
   /**
@@ -252,12 +639,484 @@ export class TrackerService implements ITrackerService {
     return this.taskService.getOverdueTasks();
   }
 
+  // ==================== Recurring Task Operations ====================
+
+  /**
+   * Create a recurring task
+   * Its occurrences up to the end of the current week, or of the first deadline's week, are created at once.
+   * @param deadline - Deadline of the first occurrence
+   * @param options - Optional task fields, which every occurrence gets
+   */
+  createRecurringTask(
+    courseId: string,
+    description: string,
+    deadline: Date,
+    rule: RecurrenceRule,
+    options?: TaskOptions
+  ): Result<Task, Error> {
+    const course = this.courseService.getCourse(courseId);
+    if (!course) {
+      return {
+        success: false,
+        error: new ValidationError(`Course with ID "${courseId}" not found`)
+      };
+    }
+
+    return this.recordMutation(
+      `Create recurring task "${description.trim()}"`,
+      {},
+      () => this.runAtomically(() => {
+        const createResult = this.recurrenceService.createRecurringTask(courseId, description, deadline, rule, options);
+        if (!createResult.success) {
+          return createResult;
+        }
+        const task = createResult.value;
+        const to = new Date(Math.max(endOfWeek(new Date()).getTime(), endOfWeek(task.deadline).getTime()));
+        const materializeResult = this.recurrenceService.materialize(task.deadline, to, task.seriesId);
+        return materializeResult.success ? createResult : materializeResult;
+      }),
+      task => ({
+        taskIds: this.recurrenceService.getSeriesTasks(task.seriesId!).map(other => other.id),
+        seriesIds: [task.seriesId!]
+      })
+    );
+  }
+
+  /**
+   * Update occurrences of a recurring task
+   * @param scope - 'this' occurrence, 'following' occurrences including this one, or 'all' occurrences
+   */
+  updateRecurringTask(id: string, updates: Partial<Task>, scope: RecurrenceScope): Result<Task[], Error> {
+    return this.recordSeriesMutation(
+      this.taskLabel('Update', id),
+      [id],
+      () => this.recurrenceService.updateOccurrences(id, updates, scope)
+    );
+  }
+
+  /**
+   * Delete occurrences of a recurring task
+   * @param scope - 'this' occurrence, 'following' occurrences including this one, or 'all' occurrences
+   */
+  deleteRecurringTask(id: string, scope: RecurrenceScope): Result<void, Error> {
+    return this.recordSeriesMutation(
+      this.taskLabel('Delete', id),
+      [id],
+      () => this.recurrenceService.deleteOccurrences(id, scope)
+    );
+  }
+
+  /**
+   * Create the occurrences of recurring tasks in a week
+   */
+  private materializeWeek(weekNumber: number, year: number): void {
+    const { startDate, endDate } = getWeekRange(weekNumber, year);
+    this.materializeBetween(startDate, endDate);
+  }
+
+  /**
+   * Create the occurrences of recurring tasks in a date range
+   * A failure is reported to onMaterializeError; the occurrences are created the next time they are read.
+   */
+  private materializeBetween(from: Date, to: Date): void {
+    const result = this.recurrenceService.materialize(from, to);
+    if (!result.success) {
+      this.onMaterializeError?.(result.error);
+    }
+  }
+
+  /**
+   * Run a mutation of tasks and their series and record it in the undo history
+   * Every occurrence of the tasks' series is captured, since series changes touch several of them.
+   * Occurrences created from a series definition after the mutation are removed again by its undo.
+   */
+  private recordSeriesMutation<T>(label: string, ids: string[], mutate: () => Result<T, Error>): Result<T, Error> {
+    const seriesIds = Array.from(new Set(ids
+      .map(id => this.taskService.getTask(id)?.seriesId)
+      .filter((seriesId): seriesId is string => seriesId !== undefined)));
+    const seriesTaskIds = () => seriesIds.flatMap(seriesId =>
+      this.recurrenceService.getSeriesTasks(seriesId).map(task => task.id));
+    const affectedIds = Array.from(new Set([...ids, ...seriesTaskIds()]));
+
+    return this.recordMutation(
+      label,
+      { taskIds: affectedIds, seriesIds },
+      mutate,
+      () => ({ taskIds: seriesTaskIds().filter(id => !affectedIds.includes(id)) })
+    );
+  }
+
+  // ==================== Bulk Task Operations ====================
+
+  /**
+   * Delete several tasks; either all are deleted or none are
+   */
+  deleteTasks(ids: string[]): Result<void, Error> {
+    return this.recordSeriesMutation(
+      `Delete ${ids.length} task${ids.length !== 1 ? 's' : ''}`,
+      ids,
+      () => this.recurrenceService.deleteTasks(ids)
+    );
+  }
+
+  /**
+   * Mark several tasks as complete; either all are updated or none are
+   */
+  markTasksComplete(ids: string[]): Result<Task[], Error> {
+    return this.recordMutation(
+      `Complete ${ids.length} task${ids.length !== 1 ? 's' : ''}`,
+      { taskIds: ids },
+      () => this.runAtomically(() => this.markEach(ids, id => this.taskService.markComplete(id)))
+    );
+  }
+
+  /**
+   * Mark several tasks as incomplete; either all are updated or none are
+   */
+  markTasksIncomplete(ids: string[]): Result<Task[], Error> {
+    return this.recordMutation(
+      `Reopen ${ids.length} task${ids.length !== 1 ? 's' : ''}`,
+      { taskIds: ids },
+      () => this.runAtomically(() => this.markEach(ids, id => this.taskService.markIncomplete(id)))
+    );
+  }
+
+  /**
+   * Apply a single-task operation to each task, stopping at the first failure
+   */
+  private markEach(ids: string[], mark: (id: string) => Result<Task, Error>): Result<Task[], Error> {
+    const updated: Task[] = [];
+    for (const id of ids) {
+      const result = mark(id);
+      if (!result.success) {
+        return result;
+      }
+      updated.push(result.value);
+    }
+    return { success: true, value: updated };
+  }
+
+  /**
+   * Run several service operations in one storage transaction
+   * On failure storage is left untouched and the services reload to discard in-memory changes
+   */
+  private runAtomically<T>(work: () => Result<T, Error>): Result<T, Error> {
+    const result = runInTransaction(this.storageService, work);
+    if (!result.success) {
+      this.taskService.reload();
+      this.courseService.reload();
+      this.termService.reload();
+    }
+    return result;
+  }
+
+  // ==================== Trash Operations ====================
+
+  /**
+   * Get the deleted courses and tasks
+   */
+  getTrash(): TrashContents {
+    return this.trashService.getTrash();
+  }
+
+  /**
+   * Get the number of days deleted entities are kept before they are purged
+   */
+  getTrashRetentionDays(): number {
+    return this.trashService.getRetentionDays();
+  }
+
+  /**
+   * Take a task out of the trash
+   */
+  restoreDeletedTask(id: string): Result<Task, Error> {
+    const task = this.taskService.getDeletedTask(id);
+    return this.recordMutation(
+      task ? `Restore task "${task.description}"` : 'Restore task',
+      { taskIds: [id] },
+      () => this.trashService.restoreTask(id)
+    );
+  }
+
+  /**
+   * Take a course out of the trash, together with the tasks deleted along with it
+   */
+  restoreDeletedCourse(id: string): Result<Course, Error> {
+    const course = this.courseService.getDeletedCourse(id);
+    const taskIds = this.taskService.getDeletedTasks()
+      .filter(task => task.courseId === id)
+      .map(task => task.id);
+    return this.recordMutation(
+      `Restore course "${course?.name ?? id}"`,
+      { courseIds: [id], taskIds },
+      () => this.trashService.restoreCourse(id)
+    );
+  }
+
+  /**
+   * Permanently remove everything in the trash
+   * Clears the undo history, since undoing a deletion can no longer restore a purged entity
+   * @returns The number of courses and tasks removed
+   */
+  emptyTrash(): Result<number, Error> {
+    const result = this.trashService.emptyTrash();
+    if (result.success && result.value > 0) {
+      this.history.clear();
+    }
+    return result;
+  }
+
+  // ==================== Audit Log ====================
+
+  /**
+   * Get the recorded changes to a task, newest first
+   */
+  getTaskHistory(id: string): Result<AuditEntry[], StorageError> {
+    return this.auditLog.getEntityHistory('task', id);
+  }
+
+  /**
+   * Get the recorded changes to a course, newest first
+   */
+  getCourseHistory(id: string): Result<AuditEntry[], StorageError> {
+    return this.auditLog.getEntityHistory('course', id);
+  }
+
+  // ==================== Import and Export ====================
+
+  /**
+   * Export all courses and tasks as a versioned JSON document
+   */
+  exportData(): string {
+    return JSON.stringify(this.importExportService.exportData(), null, 2);
+  }
+
+  /**
+   * Import a JSON document produced by exportData()
+   * Clears the undo history, since recorded changes no longer apply to the imported data
+   * @param json - The exported document
+   * @param mode - 'replace' to discard existing data, 'merge' (default) to keep it
+   */
+  importData(json: string, mode: ImportMode = 'merge'): Result<ImportReport, Error> {
+    const result = this.importExportService.importData(json, mode);
+    if (result.success) {
+      this.history.clear();
+    }
+    return result;
+  }
+
+  /**
+   * Export task deadlines as an iCalendar (.ics) document
+   * @param options - All tasks, one course or one ISO week, as events or to-dos
+   */
+  exportIcs(options?: IcsExportOptions): Result<string, Error> {
+    return this.calendarService.exportIcs(options);
+  }
+
+  /**
+   * Create or update tasks from an iCalendar (.ics) document
+   * All changes are written in one transaction; the undo history is cleared afterwards
+   * @param text - The .ics document
+   * @param options - How calendar categories map to courses
+   */
+  importIcs(text: string, options?: IcsImportOptions): Result<IcsImportReport, Error> {
+    const result = this.runAtomically(() => this.calendarService.importIcs(text, options));
+    if (result.success) {
+      this.history.clear();
+    }
+    return result;
+  }
+
+  /**
+   * Export all tasks as CSV
+   */
+  exportCsv(): string {
+    return this.csvService.exportCsv();
+  }
+
+  /**
+   * Create tasks from CSV rows
+   * Valid rows are written in one transaction; with dryRun nothing is saved and the report previews the import
+   * @param text - The CSV text
+   * @param options - Column mapping, header and dry-run options
+   */
+  importCsv(text: string, options?: CsvImportOptions): Result<CsvImportReport, Error> {
+    const result = this.runAtomically(() => this.csvService.importCsv(text, options));
+    if (result.success && !result.value.dryRun) {
+      this.history.clear();
+    }
+    return result;
+  }
+
+  // ==================== History Operations ====================
+
+  /**
+   * Undo the most recent mutation
+   * @returns The label of the undone mutation
+   */
+  undo(): Result<string, Error> {
+    return this.history.undo();
+  }
+
+  /**
+   * Redo the most recently undone mutation
+   * @returns The label of the redone mutation
+   */
+  redo(): Result<string, Error> {
+    return this.history.redo();
+  }
+
+  /**
+   * Check whether there is a mutation to undo
+   */
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Check whether there is a mutation to redo
+   */
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Run a mutation and record it in the undo history
+   * The state of the affected entities is captured before and after the mutation,
+   * so undo and redo simply put those entities back into the captured state.
+   * @param label - Description of the mutation shown for undo/redo
+   * @param affected - Entities the mutation may change
+   * @param mutate - The mutation itself
+   * @param created - Entities the mutation created, derived from its result
+   */
+  private recordMutation<T, E extends Error>(
+    label: string,
+    affected: AffectedEntities,
+    mutate: () => Result<T, E>,
+    created?: (value: T) => AffectedEntities
+  ): Result<T, E> {
+    const before = this.captureState(affected);
+    
+    const result = mutate();
+    if (!result.success) {
+      return result;
+    }
+    
+    // Created entities did not exist before the mutation
+    const createdEntities = created ? created(result.value) : {};
+    (createdEntities.courseIds ?? []).forEach(id => before.courses.set(id, null));
+    (createdEntities.taskIds ?? []).forEach(id => before.tasks.set(id, null));
+    
+    const after = this.captureState({
+      courseIds: Array.from(before.courses.keys()),
+      taskIds: Array.from(before.tasks.keys())
+    });
+    
+    // A series mutation covers every series its tasks belong to before or after it, such as one split off
+    if (before.seriesIds.length > 0 || createdEntities.seriesIds) {
+      const seriesIds = new Set([...before.seriesIds, ...(createdEntities.seriesIds ?? [])]);
+      [...before.tasks.values(), ...after.tasks.values()].forEach(task => {
+        if (task?.seriesId) {
+          seriesIds.add(task.seriesId);
+        }
+      });
+      before.seriesIds = after.seriesIds = Array.from(seriesIds);
+    }
+    
+    this.history.record({
+      label,
+      undo: () => this.applyState(before),
+      redo: () => this.applyState(after)
+    });
+    
+    return result;
+  }
+
+  /**
+   * Capture the current state of the given entities, including those in the trash
+   */
+  private captureState(affected: AffectedEntities): EntityState {
+    return {
+      courses: new Map((affected.courseIds ?? []).map(id => [
+        id,
+        this.courseService.getCourse(id) ?? this.courseService.getDeletedCourse(id)
+      ])),
+      tasks: new Map((affected.taskIds ?? []).map(id => [
+        id,
+        this.taskService.getTask(id) ?? this.taskService.getDeletedTask(id)
+      ])),
+      seriesIds: affected.seriesIds ?? []
+    };
+  }
+
+  /**
+   * Put entities back into a captured state in one transaction
+   * Entities that did not exist are purged rather than moved to the trash, as are occurrences
+   * of the state's series that were created from their definitions after the state was captured
+   */
+  private applyState(state: EntityState): Result<void, Error> {
+    return this.runAtomically((): Result<void, Error> => {
+      // Restore courses before their tasks, and delete tasks before their courses
+      for (const course of state.courses.values()) {
+        if (course) {
+          const restoreResult = this.courseService.restoreCourse(course);
+          if (!restoreResult.success) {
+            return { success: false, error: restoreResult.error };
+          }
+        }
+      }
+      
+      const tasksToRestore = Array.from(state.tasks.values()).filter((task): task is Task => task !== null);
+      if (tasksToRestore.length > 0) {
+        const restoreResult = this.taskService.restoreTasks(tasksToRestore);
+        if (!restoreResult.success) {
+          return restoreResult;
+        }
+      }
+      
+      const taskIdsToDelete = Array.from(state.tasks.keys())
+        .filter(id => state.tasks.get(id) === null &&
+          (this.taskService.getTask(id) ?? this.taskService.getDeletedTask(id)) !== null);
+      const laterOccurrenceIds = state.seriesIds
+        .flatMap(seriesId => this.recurrenceService.getSeriesTasks(seriesId))
+        .map(task => task.id)
+        .filter(id => !state.tasks.has(id));
+      taskIdsToDelete.push(...laterOccurrenceIds);
+      if (taskIdsToDelete.length > 0) {
+        const deleteResult = this.taskService.purgeTasks(taskIdsToDelete);
+        if (!deleteResult.success) {
+          return deleteResult;
+        }
+      }
+      
+      for (const [id, course] of state.courses) {
+        if (course === null && (this.courseService.getCourse(id) ?? this.courseService.getDeletedCourse(id)) !== null) {
+          const deleteResult = this.courseService.purgeCourse(id);
+          if (!deleteResult.success) {
+            return deleteResult;
+          }
+        }
+      }
+      
+      return { success: true, value: undefined };
+    });
+  }
+
+  /**
+   * Build an undo/redo label for a task mutation
+   */
+  private taskLabel(verb: string, id: string): string {
+    const task = this.taskService.getTask(id);
+    return task ? `${verb} task "${task.description}"` : `${verb} task`;
+  }
+
   // ==================== Statistics Operations ====================
 
   /**
    * Get comprehensive statistics for a specific week
    */
   getWeeklyStatistics(weekNumber: number, year: number): WeeklyStatistics {
+    this.materializeWeek(weekNumber, year);
     return this.statisticsService.getWeeklyStatistics(weekNumber, year);
   }
 
@@ -274,4 +1133,73 @@ export class TrackerService implements ITrackerService {
   getDepartmentProgress(department: string): DepartmentStats {
     return this.statisticsService.getDepartmentProgress(department);
   }
+
+  /**
+   * Get statistics for the tasks of a term's courses
+   */
+  getTermStatistics(termId: string): TermStatistics | null {
+    const term = this.termService.getTerm(termId);
+    return term ? this.statisticsService.getTermStatistics(term) : null;
+  }
+
+  // ==================== Workload Operations ====================
+
+  /**
+   * Get the hours the user can work in a day
+   */
+  getDailyCapacity(): number {
+    return this.workloadService.getDailyCapacity();
+  }
+
+  /**
+   * Set the hours the user can work in a day
+   * A setting rather than course or task data, so it is not recorded for undo
+   */
+  setDailyCapacity(hours: number): Result<number, Error> {
+    return this.workloadService.setDailyCapacity(hours);
+  }
+
+  /**
+   * Get the planned work of each day of a week against the daily capacity
+   */
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload {
+    this.materializeWeek(weekNumber, year);
+    return this.workloadService.getWeekWorkload(weekNumber, year);
+  }
+
+  /**
+   * Suggest moving work off the overloaded days of a week
+   */
+  suggestRebalancing(weekNumber: number, year: number): RebalanceSuggestion[] {
+    this.materializeWeek(weekNumber, year);
+    return this.workloadService.suggestRebalancing(weekNumber, year);
+  }
+
+  // ==================== Study Planner Operations ====================
+
+  /**
+   * Get the user's study hours and blocked times
+   */
+  getPlannerSettings(): PlannerSettings {
+    return this.plannerService.getSettings();
+  }
+
+  /**
+   * Replace the user's study hours and blocked times
+   * A setting rather than course or task data, so it is not recorded for undo
+   */
+  updatePlannerSettings(settings: PlannerSettings): Result<PlannerSettings, Error> {
+    return this.plannerService.updateSettings(settings);
+  }
+
+  /**
+   * Get the work blocks planned for a week from the current tasks
+   * Planning starts now, so the occurrences of recurring tasks due from now on are created first.
+   */
+  getStudyPlan(weekNumber: number, year: number): StudyPlan {
+    const now = new Date();
+    const { startDate, endDate } = getWeekRange(weekNumber, year);
+    this.materializeBetween(startDate < now ? startDate : now, endDate);
+    return this.plannerService.planWeek(weekNumber, year, now);
+  }
 }
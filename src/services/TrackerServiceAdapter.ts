@@ -3,66 +3,360 @@
  * This adapter wraps the synchronous TrackerService methods in Promises for UI compatibility
  */
 
-import { Course, Task, WeeklyStatistics, Result } from '../models/types.js';
+import { Course, CourseMeeting, ClassSession, MeetingConflict, Term, Task, TaskDetails, RecurrenceRule, RecurrenceScope, WeeklyStatistics, TermStatistics, SnapshotSummary, TrashContents, AuditEntry, WeekWorkload, RebalanceSuggestion, PlannerSettings, StudyPlan, Result } from '../models/types.js';
 import { ValidationError } from '../models/errors.js';
-import { TrackerService, ITrackerService } from './TrackerService.js';
+import { StorageService, IStorageService } from '../storage/StorageService.js';
+import { RevisionedStorageService } from '../storage/RevisionedStorageService.js';
+import { EncryptedStorageService } from '../storage/EncryptedStorageService.js';
+import { SnapshotStorageService } from '../storage/SnapshotStorageService.js';
+import { COURSES_STORAGE_KEY, TERMS_STORAGE_KEY } from '../storage/storageKeys.js';
+import { TrackerService, ITrackerService, TrackerServiceOptions } from './TrackerService.js';
+import { SyncService, ISyncService } from './SyncService.js';
 
 /**
  * Async interface expected by UI components
  */
 export interface TrackerServiceInterface {
   // Course operations
-  createCourse(name: string, department: string): Promise<Result<Course, ValidationError>>;
+  createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Promise<Result<Course, ValidationError>>;
   getCourse(id: string): Course | null;
   getAllCourses(): Course[];
-  updateCourse(id: string, name: string, department: string): Promise<Result<Course, ValidationError>>;
+  updateCourse(id: string, name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Promise<Result<Course, ValidationError>>;
   deleteCourse(id: string, strategy?: 'cascade' | 'cancel'): Promise<Result<void, Error>>;
+  getCoursesForTerm(termId?: string): Course[];
+  getMeetingConflicts(termId?: string): MeetingConflict[];
+  getClassSessions(weekNumber: number, year: number): ClassSession[];
+  
+  // Term operations
+  getAllTerms(): Term[];
+  getCurrentTerm(): Term | null;
+  createTerm(name: string, startDate: Date, endDate: Date): Promise<Result<Term, ValidationError>>;
+  archiveTerm(id: string): Promise<Result<Term, Error>>;
+  unarchiveTerm(id: string): Promise<Result<Term, Error>>;
+  deleteTerm(id: string): Promise<Result<void, Error>>;
   
   // Task operations
-  createTask(courseId: string, description: string, deadline: Date): Promise<Result<Task, ValidationError>>;
+  createTask(courseId: string, description: string, deadline: Date, details?: TaskDetails): Promise<Result<Task, ValidationError>>;
   getTask(id: string): Task | null;
   getAllTasks(): Task[];
   getTasksForWeek(weekNumber: number, year: number): Task[];
-  updateTask(id: string, description: string, deadline: Date): Promise<Result<Task, ValidationError>>;
+  updateTask(id: string, description: string, deadline: Date, details?: TaskDetails): Promise<Result<Task, ValidationError>>;
   deleteTask(id: string): Promise<Result<void, Error>>;
   toggleTaskComplete(id: string, completed: boolean): Promise<Result<Task, Error>>;
+  toggleChecklistItem(taskId: string, itemId: string, completed: boolean): Promise<Result<Task, Error>>;
+  startTaskTimer(id: string): Promise<Result<Task, Error>>;
+  stopTaskTimer(id: string): Promise<Result<Task, Error>>;
   getOverdueTasks(): Task[];
   
+  // Recurring task operations
+  createRecurringTask(courseId: string, description: string, deadline: Date, rule: RecurrenceRule, details?: TaskDetails): Promise<Result<Task, Error>>;
+  updateRecurringTask(id: string, description: string, deadline: Date, scope: RecurrenceScope, details?: TaskDetails): Promise<Result<Task[], Error>>;
+  deleteRecurringTask(id: string, scope: RecurrenceScope): Promise<Result<void, Error>>;
+  
+  // History operations
+  undo(): Promise<Result<string, Error>>;
+  redo(): Promise<Result<string, Error>>;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  
   // Statistics operations
   getWeeklyStatistics(weekNumber: number, year: number): WeeklyStatistics;
+  getTermStatistics(termId: string): TermStatistics | null;
+  
+  // Workload operations
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload;
+  getRebalancingSuggestions(weekNumber: number, year: number): RebalanceSuggestion[];
+  getDailyCapacity(): number;
+  setDailyCapacity(hours: number): Promise<Result<number, Error>>;
+  
+  // Study planner operations
+  getStudyPlan(weekNumber: number, year: number): StudyPlan;
+  getPlannerSettings(): PlannerSettings;
+  updatePlannerSettings(settings: PlannerSettings): Promise<Result<PlannerSettings, Error>>;
   
   // Utility
   getTaskCountByCourse(): Map<string, number>;
   
+  // Cross-tab synchronization
+  onExternalChange(listener: () => void): () => void;
+  
+  // Encryption at rest
+  isEncryptionEnabled(): boolean;
+  isLocked(): boolean;
+  unlock(passphrase: string): Promise<Result<void, Error>>;
+  lock(): void;
+  enableEncryption(passphrase: string): Promise<Result<void, Error>>;
+  changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<Result<void, Error>>;
+  
+  // Backups
+  listSnapshots(): Result<SnapshotSummary[], Error>;
+  restoreSnapshot(id: string): Promise<Result<SnapshotSummary, Error>>;
+  getRecoveryNotices(): string[];
+  
+  // Trash
+  getTrash(): TrashContents;
+  getTrashRetentionDays(): number;
+  restoreDeletedTask(id: string): Promise<Result<Task, Error>>;
+  restoreDeletedCourse(id: string): Promise<Result<Course, Error>>;
+  emptyTrash(): Promise<Result<number, Error>>;
+  
+  // Audit log
+  getTaskHistory(id: string): Result<AuditEntry[], Error>;
+  
   // Initialization
   initialize(): Promise<void>;
 }
 
+/**
+ * Check whether a storage backend is a Web Storage area such as localStorage
+ */
+function isStorageArea(storage: Storage | IStorageService): storage is Storage {
+  return typeof (storage as Storage).getItem === 'function';
+}
+
 /**
  * Adapter that wraps TrackerService to provide async interface for UI
  */
 export class TrackerServiceAdapter implements TrackerServiceInterface {
   private trackerService: ITrackerService;
+  private syncService: ISyncService | null = null;
+  private encryptedStorage: EncryptedStorageService | null = null;
+  private snapshotStorage: SnapshotStorageService | null = null;
+  private recoveryNotices: string[] = [];
 
-  constructor(storage?: Storage) {
-    this.trackerService = new TrackerService(storage);
+  /**
+   * @param storage - A Storage object (defaults to localStorage) or any IStorageService.
+   *                  With a Storage object, writes are checked for conflicts with other tabs,
+   *                  changes made in other tabs are picked up automatically, the data can
+   *                  be encrypted with a passphrase, and snapshots are kept for restoring.
+   */
+  constructor(storage?: Storage | IStorageService) {
+    const options: TrackerServiceOptions = {
+      // Every read of the week reports the failure, so keep one notice for it
+      onMaterializeError: error => {
+        const notice = `Recurring tasks could not be created: ${error.message}`;
+        if (!this.recoveryNotices.includes(notice)) {
+          this.recoveryNotices.push(notice);
+        }
+      }
+    };
+    if (storage !== undefined && !isStorageArea(storage)) {
+      this.trackerService = new TrackerService(storage, options);
+      return;
+    }
+
+    const storageArea = storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    const encryptedStorage = new EncryptedStorageService(new StorageService(storageArea), {
+      // The in-memory data no longer matches what is stored
+      onWriteError: () => this.syncService?.requestReload([])
+    });
+    const revisionedStorage = new RevisionedStorageService(encryptedStorage, {
+      onConflict: key => this.syncService?.requestReload([key])
+    });
+    const snapshotStorage = new SnapshotStorageService(revisionedStorage, {
+      onRecover: (key, snapshot) => {
+        const label = key === COURSES_STORAGE_KEY ? 'Courses' : key === TERMS_STORAGE_KEY ? 'Terms' : 'Tasks';
+        this.recoveryNotices.push(
+          `${label} could not be read and were restored from the backup of ${snapshot.createdAt.toLocaleString()}.`
+        );
+      }
+    });
+    this.encryptedStorage = encryptedStorage;
+    this.snapshotStorage = snapshotStorage;
+    this.trackerService = new TrackerService(snapshotStorage, options);
+
+    if (typeof window !== 'undefined') {
+      const trackerService = this.trackerService;
+      this.syncService = new SyncService(window, async () => {
+        // Encrypted data is decrypted into memory, so decrypt the other tab's writes first
+        await encryptedStorage.refresh();
+        trackerService.reload();
+      }, { storageArea });
+    }
   }
 
   /**
    * Initialize the application
    */
   async initialize(): Promise<void> {
-    // TrackerService initialization is synchronous, wrap in Promise
-    return Promise.resolve(this.trackerService.initialize());
+    // TrackerService initialization is synchronous; the UI expects a rejected Promise on failure
+    const result = this.trackerService.initialize();
+    if (!result.success) {
+      throw result.error;
+    }
+    this.syncService?.start();
+  }
+
+  /**
+   * Subscribe to data changes made in other tabs
+   * The data has already been reloaded when the listener is called.
+   * @returns A function that removes the listener
+   */
+  onExternalChange(listener: () => void): () => void {
+    return this.syncService ? this.syncService.onExternalChange(() => listener()) : () => {};
+  }
+
+  // ==================== Encryption ====================
+
+  /**
+   * Check whether the data is encrypted with a passphrase
+   */
+  isEncryptionEnabled(): boolean {
+    return this.encryptedStorage?.isEnabled() ?? false;
+  }
+
+  /**
+   * Check whether the passphrase must be entered before the data can be used
+   */
+  isLocked(): boolean {
+    return this.encryptedStorage?.isLocked() ?? false;
+  }
+
+  /**
+   * Decrypt the data and load it
+   */
+  async unlock(passphrase: string): Promise<Result<void, Error>> {
+    if (!this.encryptedStorage) {
+      return this.encryptionUnavailable();
+    }
+    const result = await this.encryptedStorage.unlock(passphrase);
+    if (result.success) {
+      this.trackerService.reload();
+    }
+    return result;
+  }
+
+  /**
+   * Forget the passphrase and drop the decrypted data from memory
+   */
+  lock(): void {
+    if (this.encryptedStorage) {
+      this.encryptedStorage.lock();
+      this.trackerService.reload();
+    }
+  }
+
+  /**
+   * Encrypt the existing data with a passphrase
+   */
+  async enableEncryption(passphrase: string): Promise<Result<void, Error>> {
+    if (!this.encryptedStorage) {
+      return this.encryptionUnavailable();
+    }
+    return this.encryptedStorage.enable(passphrase);
+  }
+
+  /**
+   * Re-encrypt the data with a new passphrase
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<Result<void, Error>> {
+    if (!this.encryptedStorage) {
+      return this.encryptionUnavailable();
+    }
+    return this.encryptedStorage.changePassphrase(currentPassphrase, newPassphrase);
+  }
+
+  /**
+   * Error for encryption requests when the adapter was given its own IStorageService
+   */
+  private encryptionUnavailable(): Result<never, Error> {
+    return {
+      success: false,
+      error: new Error('Encryption is not available for this storage')
+    };
+  }
+
+  // ==================== Backups ====================
+
+  /**
+   * List the snapshot backups, newest first
+   */
+  listSnapshots(): Result<SnapshotSummary[], Error> {
+    if (!this.snapshotStorage) {
+      return { success: true, value: [] };
+    }
+    return this.snapshotStorage.listSnapshots();
+  }
+
+  /**
+   * Replace all courses and tasks with a snapshot
+   */
+  async restoreSnapshot(id: string): Promise<Result<SnapshotSummary, Error>> {
+    if (!this.snapshotStorage) {
+      return {
+        success: false,
+        error: new Error('Backups are not available for this storage')
+      };
+    }
+    const result = this.snapshotStorage.restoreSnapshot(id);
+    if (result.success) {
+      this.trackerService.reload();
+    }
+    return result;
+  }
+
+  /**
+   * Take the messages about data recovered from snapshots, or recurring tasks that could not be created, since the last call
+   */
+  getRecoveryNotices(): string[] {
+    const notices = this.recoveryNotices;
+    this.recoveryNotices = [];
+    return notices;
+  }
+
+  // ==================== Trash ====================
+
+  /**
+   * Get the deleted courses and tasks
+   */
+  getTrash(): TrashContents {
+    return this.trackerService.getTrash();
+  }
+
+  /**
+   * Get the number of days deleted courses and tasks are kept
+   */
+  getTrashRetentionDays(): number {
+    return this.trackerService.getTrashRetentionDays();
+  }
+
+  /**
+   * Take a task out of the trash
+   */
+  async restoreDeletedTask(id: string): Promise<Result<Task, Error>> {
+    return Promise.resolve(this.trackerService.restoreDeletedTask(id));
+  }
+
+  /**
+   * Take a course out of the trash, together with the tasks deleted along with it
+   */
+  async restoreDeletedCourse(id: string): Promise<Result<Course, Error>> {
+    return Promise.resolve(this.trackerService.restoreDeletedCourse(id));
+  }
+
+  /**
+   * Permanently remove everything in the trash
+   */
+  async emptyTrash(): Promise<Result<number, Error>> {
+    return Promise.resolve(this.trackerService.emptyTrash());
+  }
+
+  // ==================== Audit Log ====================
+
+  /**
+   * Get the recorded changes to a task, newest first
+   */
+  getTaskHistory(id: string): Result<AuditEntry[], Error> {
+    return this.trackerService.getTaskHistory(id);
   }
 
   // ==================== Course Operations ====================
 
   /**
-   * Create a new course
+   * Create a new course, optionally in a term and with weekly meetings
    */
-  async createCourse(name: string, department: string): Promise<Result<Course, ValidationError>> {
-    return Promise.resolve(this.trackerService.createCourse(name, department));
+  async createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Promise<Result<Course, ValidationError>> {
+    return Promise.resolve(this.trackerService.createCourse(name, department, termId, meetings));
   }
 
   /**
@@ -79,12 +373,35 @@ export class TrackerServiceAdapter implements TrackerServiceInterface {
     return this.trackerService.getAllCourses();
   }
 
+  /**
+   * Get the courses of a term, or without a term every course except those of archived terms
+   */
+  getCoursesForTerm(termId?: string): Course[] {
+    return this.trackerService.getCoursesForTerm(termId);
+  }
+
+  /**
+   * Find the weekly times at which two courses both meet
+   */
+  getMeetingConflicts(termId?: string): MeetingConflict[] {
+    return this.trackerService.getMeetingConflicts(termId);
+  }
+
+  /**
+   * Get the class meetings held in a week
+   */
+  getClassSessions(weekNumber: number, year: number): ClassSession[] {
+    return this.trackerService.getClassSessions(weekNumber, year);
+  }
+
   /**
    * Update a course
+   * @param termId - The course's term; leave out to take the course out of its term
+   * @param meetings - The course's weekly meetings; leave out to remove them
    */
-  async updateCourse(id: string, name: string, department: string): Promise<Result<Course, ValidationError>> {
+  async updateCourse(id: string, name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Promise<Result<Course, ValidationError>> {
     return Promise.resolve(
-      this.trackerService.updateCourse(id, { name, department })
+      this.trackerService.updateCourse(id, { name, department, termId, meetings })
     );
   }
 
@@ -122,8 +439,8 @@ export class TrackerServiceAdapter implements TrackerServiceInterface {
   /**
    * Create a new task
    */
-  async createTask(courseId: string, description: string, deadline: Date): Promise<Result<Task, ValidationError>> {
-    return Promise.resolve(this.trackerService.createTask(courseId, description, deadline));
+  async createTask(courseId: string, description: string, deadline: Date, details?: TaskDetails): Promise<Result<Task, ValidationError>> {
+    return Promise.resolve(this.trackerService.createTask(courseId, description, deadline, details));
   }
 
   /**
@@ -150,9 +467,9 @@ export class TrackerServiceAdapter implements TrackerServiceInterface {
   /**
    * Update a task
    */
-  async updateTask(id: string, description: string, deadline: Date): Promise<Result<Task, ValidationError>> {
+  async updateTask(id: string, description: string, deadline: Date, details?: TaskDetails): Promise<Result<Task, ValidationError>> {
     return Promise.resolve(
-      this.trackerService.updateTask(id, { description, deadline })
+      this.trackerService.updateTask(id, { ...details, description, deadline })
     );
   }
 
@@ -174,6 +491,27 @@ export class TrackerServiceAdapter implements TrackerServiceInterface {
     }
   }
 
+  /**
+   * Check or uncheck one checklist item of a task
+   */
+  async toggleChecklistItem(taskId: string, itemId: string, completed: boolean): Promise<Result<Task, Error>> {
+    return Promise.resolve(this.trackerService.setChecklistItemCompleted(taskId, itemId, completed));
+  }
+
+  /**
+   * Start timing the work on a task
+   */
+  async startTaskTimer(id: string): Promise<Result<Task, Error>> {
+    return Promise.resolve(this.trackerService.startTaskTimer(id));
+  }
+
+  /**
+   * Stop the timer of a task and log the session
+   */
+  async stopTaskTimer(id: string): Promise<Result<Task, Error>> {
+    return Promise.resolve(this.trackerService.stopTaskTimer(id));
+  }
+
   /**
    * Get all overdue tasks
    */
@@ -181,6 +519,71 @@ export class TrackerServiceAdapter implements TrackerServiceInterface {
     return this.trackerService.getOverdueTasks();
   }
 
+  // ==================== Recurring Task Operations ====================
+
+  /**
+   * Create a recurring task
+   */
+  async createRecurringTask(
+    courseId: string,
+    description: string,
+    deadline: Date,
+    rule: RecurrenceRule,
+    details?: TaskDetails
+  ): Promise<Result<Task, Error>> {
+    return Promise.resolve(this.trackerService.createRecurringTask(courseId, description, deadline, rule, details));
+  }
+
+  /**
+   * Update the description, deadline and details of occurrences of a recurring task
+   */
+  async updateRecurringTask(
+    id: string,
+    description: string,
+    deadline: Date,
+    scope: RecurrenceScope,
+    details?: TaskDetails
+  ): Promise<Result<Task[], Error>> {
+    return Promise.resolve(this.trackerService.updateRecurringTask(id, { ...details, description, deadline }, scope));
+  }
+
+  /**
+   * Delete occurrences of a recurring task
+   */
+  async deleteRecurringTask(id: string, scope: RecurrenceScope): Promise<Result<void, Error>> {
+    return Promise.resolve(this.trackerService.deleteRecurringTask(id, scope));
+  }
+
+  // ==================== History Operations ====================
+
+  /**
+   * Undo the most recent change
+   */
+  async undo(): Promise<Result<string, Error>> {
+    return Promise.resolve(this.trackerService.undo());
+  }
+
+  /**
+   * Redo the most recently undone change
+   */
+  async redo(): Promise<Result<string, Error>> {
+    return Promise.resolve(this.trackerService.redo());
+  }
+
+  /**
+   * Check whether there is a change to undo
+   */
+  canUndo(): boolean {
+    return this.trackerService.canUndo();
+  }
+
+  /**
+   * Check whether there is a change to redo
+   */
+  canRedo(): boolean {
+    return this.trackerService.canRedo();
+  }
+
   // ==================== Statistics Operations ====================
 
   /**
@@ -190,6 +593,110 @@ export class TrackerServiceAdapter implements TrackerServiceInterface {
     return this.trackerService.getWeeklyStatistics(weekNumber, year);
   }
 
+  /**
+   * Get the statistics of all tasks in a term's courses
+   */
+  getTermStatistics(termId: string): TermStatistics | null {
+    return this.trackerService.getTermStatistics(termId);
+  }
+
+  // ==================== Term Operations ====================
+
+  /**
+   * Get all terms, earliest first
+   */
+  getAllTerms(): Term[] {
+    return this.trackerService.getAllTerms();
+  }
+
+  /**
+   * Get the term running today
+   */
+  getCurrentTerm(): Term | null {
+    return this.trackerService.getCurrentTerm();
+  }
+
+  /**
+   * Create a new term
+   */
+  async createTerm(name: string, startDate: Date, endDate: Date): Promise<Result<Term, ValidationError>> {
+    return Promise.resolve(this.trackerService.createTerm(name, startDate, endDate));
+  }
+
+  /**
+   * Archive a finished term, hiding its courses
+   */
+  async archiveTerm(id: string): Promise<Result<Term, Error>> {
+    return Promise.resolve(this.trackerService.archiveTerm(id));
+  }
+
+  /**
+   * Take a term out of the archive
+   */
+  async unarchiveTerm(id: string): Promise<Result<Term, Error>> {
+    return Promise.resolve(this.trackerService.unarchiveTerm(id));
+  }
+
+  /**
+   * Delete a term that has no courses
+   */
+  async deleteTerm(id: string): Promise<Result<void, Error>> {
+    return Promise.resolve(this.trackerService.deleteTerm(id));
+  }
+
+  // ==================== Workload Operations ====================
+
+  /**
+   * Get the planned work of each day of a week against the daily capacity
+   */
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload {
+    return this.trackerService.getWeekWorkload(weekNumber, year);
+  }
+
+  /**
+   * Get suggestions for moving work off the overloaded days of a week
+   */
+  getRebalancingSuggestions(weekNumber: number, year: number): RebalanceSuggestion[] {
+    return this.trackerService.suggestRebalancing(weekNumber, year);
+  }
+
+  /**
+   * Get the hours the user can work in a day
+   */
+  getDailyCapacity(): number {
+    return this.trackerService.getDailyCapacity();
+  }
+
+  /**
+   * Set the hours the user can work in a day
+   */
+  async setDailyCapacity(hours: number): Promise<Result<number, Error>> {
+    return Promise.resolve(this.trackerService.setDailyCapacity(hours));
+  }
+
+  // ==================== Study Planner Operations ====================
+
+  /**
+   * Get the work blocks planned for a week
+   */
+  getStudyPlan(weekNumber: number, year: number): StudyPlan {
+    return this.trackerService.getStudyPlan(weekNumber, year);
+  }
+
+  /**
+   * Get the user's study hours and blocked times
+   */
+  getPlannerSettings(): PlannerSettings {
+    return this.trackerService.getPlannerSettings();
+  }
+
+  /**
+   * Replace the user's study hours and blocked times
+   */
+  async updatePlannerSettings(settings: PlannerSettings): Promise<Result<PlannerSettings, Error>> {
+    return Promise.resolve(this.trackerService.updatePlannerSettings(settings));
+  }
+
   // ==================== Utility Operations ====================
 
   /**
@@ -0,0 +1,196 @@
+/**
+ * Tests for restoring and purging deleted courses and tasks
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TrashService } from './TrashService.js';
+import { CourseService } from './CourseService.js';
+import { TaskService } from './TaskService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { ValidationError, NotFoundError } from '../models/errors.js';
+import { Course } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('TrashService', () => {
+  let storageService: StorageService;
+  let taskService: TaskService;
+  let courseService: CourseService;
+  let trashService: TrashService;
+  let course: Course;
+
+  beforeEach(() => {
+    storageService = new StorageService(new MockStorage());
+    taskService = new TaskService(storageService);
+    courseService = new CourseService(storageService, taskService);
+    trashService = new TrashService(storageService, courseService, taskService, 30);
+    const created = courseService.createCourse('CS101', 'Computer Science');
+    if (!created.success) throw created.error;
+    course = created.value;
+  });
+
+  /**
+   * Create a task in the course
+   */
+  function createTask(description: string): string {
+    const result = taskService.createTask(course.id, description, new Date('2024-12-31'));
+    if (!result.success) throw result.error;
+    return result.value.id;
+  }
+
+  describe('getTrash', () => {
+    it('should list deleted courses and tasks, most recently deleted first', () => {
+      const first = createTask('First');
+      const second = createTask('Second');
+      taskService.deleteTasks([first], new Date('2024-03-01'));
+      taskService.deleteTasks([second], new Date('2024-03-02'));
+
+      const trash = trashService.getTrash();
+
+      expect(trash.courses).toEqual([]);
+      expect(trash.tasks.map(t => t.id)).toEqual([second, first]);
+    });
+  });
+
+  describe('restoreTask', () => {
+    it('should take a task out of the trash', () => {
+      const id = createTask('Essay');
+      taskService.deleteTask(id);
+
+      const result = trashService.restoreTask(id);
+
+      expect(result.success).toBe(true);
+      expect(taskService.getTask(id)?.description).toBe('Essay');
+      expect(trashService.getTrash().tasks).toEqual([]);
+    });
+
+    it('should fail for a task that is not in the trash', () => {
+      const id = createTask('Essay');
+
+      const result = trashService.restoreTask(id);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+
+    it('should require the course to be restored first', () => {
+      const id = createTask('Essay');
+      courseService.deleteCourseWithTasks(course.id, 'cascade');
+
+      const result = trashService.restoreTask(id);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(taskService.getTask(id)).toBeNull();
+    });
+  });
+
+  describe('restoreCourse', () => {
+    it('should restore a course together with its cascaded tasks', () => {
+      const first = createTask('First');
+      const second = createTask('Second');
+      courseService.deleteCourseWithTasks(course.id, 'cascade');
+
+      const result = trashService.restoreCourse(course.id);
+
+      expect(result.success).toBe(true);
+      expect(courseService.getCourse(course.id)).toEqual(course);
+      expect(taskService.getTasksByCourse(course.id).map(t => t.id).sort()).toEqual([first, second].sort());
+      expect(new TaskService(storageService).getDeletedTasks()).toEqual([]);
+    });
+
+    it('should leave tasks deleted before the course in the trash', () => {
+      const earlier = createTask('Deleted earlier');
+      const cascaded = createTask('Cascaded');
+      taskService.deleteTasks([earlier], new Date(Date.now() - DAY));
+      courseService.deleteCourseWithTasks(course.id, 'cascade');
+
+      expect(trashService.restoreCourse(course.id).success).toBe(true);
+
+      expect(taskService.getTask(cascaded)).not.toBeNull();
+      expect(taskService.getDeletedTask(earlier)).not.toBeNull();
+    });
+
+    it('should restore nothing if the course cannot be restored', () => {
+      const id = createTask('Essay');
+      courseService.deleteCourseWithTasks(course.id, 'cascade');
+      courseService.createCourse('CS101', 'Computer Science');
+
+      const result = trashService.restoreCourse(course.id);
+
+      expect(result.success).toBe(false);
+      expect(courseService.getDeletedCourse(course.id)).not.toBeNull();
+      expect(taskService.getDeletedTask(id)).not.toBeNull();
+    });
+  });
+
+  describe('emptyTrash', () => {
+    it('should permanently remove everything in the trash', () => {
+      const kept = createTask('Kept');
+      const deleted = createTask('Deleted');
+      taskService.deleteTask(deleted);
+      const other = courseService.createCourse('MATH201', 'Mathematics');
+      if (!other.success) throw other.error;
+      courseService.deleteCourse(other.value.id);
+
+      const result = trashService.emptyTrash();
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(2);
+      }
+      expect(trashService.getTrash()).toEqual({ courses: [], tasks: [] });
+      expect(taskService.getTask(kept)).not.toBeNull();
+      expect(new CourseService(storageService).getDeletedCourses()).toEqual([]);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should only purge entities deleted longer ago than the retention period', () => {
+      const now = new Date('2024-06-01T12:00:00Z');
+      const expired = createTask('Expired');
+      const recent = createTask('Recent');
+      taskService.deleteTasks([expired], new Date(now.getTime() - 31 * DAY));
+      taskService.deleteTasks([recent], new Date(now.getTime() - 29 * DAY));
+
+      const result = trashService.purgeExpired(now);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(1);
+      }
+      expect(taskService.getDeletedTask(expired)).toBeNull();
+      expect(taskService.getDeletedTask(recent)).not.toBeNull();
+    });
+
+    it('should purge all trashed tasks of an expired course, however recently deleted', () => {
+      const now = new Date('2024-06-01T12:00:00Z');
+      const recent = createTask('Recently deleted');
+      const cascaded = createTask('Cascaded');
+      const courseDeletedAt = new Date(now.getTime() - 40 * DAY);
+      taskService.deleteTasks([cascaded], courseDeletedAt);
+      courseService.deleteCourse(course.id, courseDeletedAt);
+      taskService.deleteTasks([recent], new Date(now.getTime() - 29 * DAY));
+
+      expect(trashService.purgeExpired(now).success).toBe(true);
+
+      expect(trashService.getTrash()).toEqual({ courses: [], tasks: [] });
+    });
+
+    it('should do nothing when nothing has expired', () => {
+      createTask('Essay');
+
+      const result = trashService.purgeExpired();
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(0);
+      }
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * TrashService restores and purges deleted courses and tasks
+ * Deleted entities keep a deletedAt marker until they are restored or their retention period ends
+ */
+
+import { Course, Task, TrashContents, Result } from '../models/types.js';
+import { ValidationError, NotFoundError } from '../models/errors.js';
+import { IStorageService, runInTransaction } from '../storage/StorageService.js';
+import { ICourseService } from './CourseService.js';
+import { ITaskService } from './TaskService.js';
+
+/**
+ * Days a deleted course or task stays in the trash before it is purged
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * TrashService interface
+ */
+export interface ITrashService {
+  getTrash(): TrashContents;
+  getRetentionDays(): number;
+  restoreTask(id: string): Result<Task, Error>;
+  restoreCourse(id: string): Result<Course, Error>;
+  emptyTrash(): Result<number, Error>;
+  purgeExpired(now?: Date): Result<number, Error>;
+}
+
+/**
+ * Sort entities by deletion time, most recent first
+ */
+function byDeletedAtDescending(a: { deletedAt?: Date }, b: { deletedAt?: Date }): number {
+  return (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0);
+}
+
+/**
+ * TrashService implementation
+ */
+export class TrashService implements ITrashService {
+  private storage: IStorageService;
+  private courseService: ICourseService;
+  private taskService: ITaskService;
+  private retentionDays: number;
+
+  /**
+   * @param retentionDays - Days before deleted entities are purged by purgeExpired()
+   */
+  constructor(
+    storage: IStorageService,
+    courseService: ICourseService,
+    taskService: ITaskService,
+    retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS
+  ) {
+    this.storage = storage;
+    this.courseService = courseService;
+    this.taskService = taskService;
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Get the deleted courses and tasks
+   */
+  getTrash(): TrashContents {
+    return {
+      courses: this.courseService.getDeletedCourses().sort(byDeletedAtDescending),
+      tasks: this.taskService.getDeletedTasks().sort(byDeletedAtDescending)
+    };
+  }
+
+  /**
+   * Get the number of days deleted entities are kept
+   */
+  getRetentionDays(): number {
+    return this.retentionDays;
+  }
+
+  /**
+   * Take a task out of the trash
+   * The task's course must not be in the trash itself.
+   */
+  restoreTask(id: string): Result<Task, Error> {
+    const task = this.taskService.getDeletedTask(id);
+    if (!task) {
+      return {
+        success: false,
+        error: new NotFoundError(`Task with ID "${id}" not found in the trash`)
+      };
+    }
+
+    const deletedCourse = this.courseService.getDeletedCourse(task.courseId);
+    if (deletedCourse) {
+      return {
+        success: false,
+        error: new ValidationError(`Course "${deletedCourse.name}" is in the trash. Restore the course first.`)
+      };
+    }
+
+    const result = this.taskService.restoreDeletedTasks([id]);
+    if (!result.success) {
+      return result;
+    }
+    return { success: true, value: result.value[0] };
+  }
+
+  /**
+   * Take a course out of the trash, together with the tasks deleted along with it
+   * Tasks that were deleted on their own before the course stay in the trash.
+   */
+  restoreCourse(id: string): Result<Course, Error> {
+    const course = this.courseService.getDeletedCourse(id);
+    if (!course) {
+      return {
+        success: false,
+        error: new NotFoundError(`Course with ID "${id}" not found in the trash`)
+      };
+    }
+
+    const cascadedTaskIds = this.taskService.getDeletedTasks()
+      .filter(task => task.courseId === id && task.deletedAt?.getTime() === course.deletedAt?.getTime())
+      .map(task => task.id);
+
+    return this.runAtomically((): Result<Course, Error> => {
+      const courseResult = this.courseService.restoreDeletedCourse(id);
+      if (!courseResult.success) {
+        return courseResult;
+      }
+
+      if (cascadedTaskIds.length > 0) {
+        const tasksResult = this.taskService.restoreDeletedTasks(cascadedTaskIds);
+        if (!tasksResult.success) {
+          return tasksResult;
+        }
+      }
+
+      return courseResult;
+    });
+  }
+
+  /**
+   * Permanently remove everything in the trash
+   * @returns The number of courses and tasks removed
+   */
+  emptyTrash(): Result<number, Error> {
+    return this.purge(
+      this.courseService.getDeletedCourses(),
+      this.taskService.getDeletedTasks()
+    );
+  }
+
+  /**
+   * Permanently remove courses and tasks deleted longer ago than the retention period
+   * @param now - Current time (defaults to now)
+   * @returns The number of courses and tasks removed
+   */
+  purgeExpired(now: Date = new Date()): Result<number, Error> {
+    const cutoff = now.getTime() - this.retentionDays * MS_PER_DAY;
+    const isExpired = (entity: { deletedAt?: Date }) => entity.deletedAt !== undefined && entity.deletedAt.getTime() < cutoff;
+
+    return this.purge(
+      this.courseService.getDeletedCourses().filter(isExpired),
+      this.taskService.getDeletedTasks().filter(isExpired)
+    );
+  }
+
+  /**
+   * Permanently remove courses and tasks in one transaction
+   * A purged course takes all of its remaining tasks with it.
+   */
+  private purge(courses: Course[], tasks: Task[]): Result<number, Error> {
+    const courseIds = new Set(courses.map(course => course.id));
+    const taskIds = new Set(tasks.map(task => task.id));
+    this.taskService.getDeletedTasks()
+      .filter(task => courseIds.has(task.courseId))
+      .forEach(task => taskIds.add(task.id));
+
+    if (courseIds.size === 0 && taskIds.size === 0) {
+      return { success: true, value: 0 };
+    }
+
+    return this.runAtomically((): Result<number, Error> => {
+      if (taskIds.size > 0) {
+        const tasksResult = this.taskService.purgeTasks(Array.from(taskIds));
+        if (!tasksResult.success) {
+          return tasksResult;
+        }
+      }
+
+      for (const id of courseIds) {
+        const courseResult = this.courseService.purgeCourse(id);
+        if (!courseResult.success) {
+          return courseResult;
+        }
+      }
+
+      return { success: true, value: courseIds.size + taskIds.size };
+    });
+  }
+
+  /**
+   * Run several service operations in one storage transaction
+   * On failure storage is left untouched and the services reload to discard in-memory changes
+   */
+  private runAtomically<T>(work: () => Result<T, Error>): Result<T, Error> {
+    const result = runInTransaction(this.storage, work);
+    if (!result.success && !this.storage.isInTransaction()) {
+      this.courseService.reload();
+      this.taskService.reload();
+    }
+    return result;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Tests for daily workload, overload detection and rebalancing suggestions
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { WorkloadService, DEFAULT_DAILY_CAPACITY } from './WorkloadService.js';
+import { TaskService } from './TaskService.js';
+import { StorageService } from '../storage/StorageService.js';
+import { ValidationError } from '../models/errors.js';
+import { TaskPriority } from '../models/types.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+// ISO week 10 of 2024 runs from Monday March 4 to Sunday March 10
+const WEEK = 10;
+const YEAR = 2024;
+const MONDAY = new Date('2024-03-04T00:00:00');
+
+function day(offset: number, hour: number = 17): Date {
+  return new Date(2024, 2, 4 + offset, hour);
+}
+
+describe('WorkloadService', () => {
+  let storageService: StorageService;
+  let taskService: TaskService;
+  let workloadService: WorkloadService;
+
+  beforeEach(() => {
+    storageService = new StorageService(new MockStorage());
+    taskService = new TaskService(storageService);
+    workloadService = new WorkloadService(storageService, taskService);
+  });
+
+  function addTask(description: string, deadline: Date, estimatedHours: number, priority: TaskPriority = 'normal'): string {
+    const result = taskService.createTask('c1', description, deadline, { estimatedHours, priority });
+    if (!result.success) throw result.error;
+    return result.value.id;
+  }
+
+  describe('daily capacity', () => {
+    it('should default and persist the capacity', () => {
+      expect(workloadService.getDailyCapacity()).toBe(DEFAULT_DAILY_CAPACITY);
+
+      const result = workloadService.setDailyCapacity(4.5);
+
+      expect(result).toEqual({ success: true, value: 4.5 });
+      expect(new WorkloadService(storageService, taskService).getDailyCapacity()).toBe(4.5);
+    });
+
+    it('should reject capacities outside a day', () => {
+      for (const hours of [0, -2, 25, NaN]) {
+        const result = workloadService.setDailyCapacity(hours);
+        expect(result.success).toBe(false);
+        if (!result.success) expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(workloadService.getDailyCapacity()).toBe(DEFAULT_DAILY_CAPACITY);
+    });
+  });
+
+  describe('getWeekWorkload', () => {
+    it('should plan the remaining effort of open tasks on their deadline day', () => {
+      const essay = addTask('Essay', day(3), 5);
+      const lab = addTask('Lab', day(3, 9), 3);
+      addTask('Reading', day(1), 2);
+      const done = addTask('Quiz', day(3), 4);
+      taskService.markComplete(done);
+      taskService.createTask('c1', 'Unestimated', day(3));
+
+      const workload = workloadService.getWeekWorkload(WEEK, YEAR);
+
+      expect(workload.days).toHaveLength(7);
+      expect(workload.days[0].date).toEqual(MONDAY);
+      expect(workload.days[3]).toMatchObject({ plannedHours: 8, capacityHours: 6, overloaded: true });
+      expect(workload.days[3].taskIds.sort()).toEqual([essay, lab].sort());
+      expect(workload.days[1]).toMatchObject({ plannedHours: 2, overloaded: false });
+      expect(workload.plannedHours).toBe(10);
+      expect(workload.capacityHours).toBe(42);
+      expect(workload.overloaded).toBe(false);
+    });
+
+    it('should flag the week when its work exceeds the capacity of all its days', () => {
+      workloadService.setDailyCapacity(1);
+      for (let i = 0; i < 7; i++) {
+        addTask(`Task ${i}`, day(i), 1.5);
+      }
+
+      const workload = workloadService.getWeekWorkload(WEEK, YEAR);
+
+      expect(workload.days.every(d => d.overloaded)).toBe(true);
+      expect(workload.overloaded).toBe(true);
+    });
+  });
+
+  describe('suggestRebalancing', () => {
+    it('should move the least important work to the lightest earlier day', () => {
+      addTask('Exam prep', day(3), 4, 'critical');
+      const essay = addTask('Essay', day(3), 4, 'low');
+      addTask('Reading', day(1), 5);
+
+      const suggestions = workloadService.suggestRebalancing(WEEK, YEAR, MONDAY);
+
+      expect(suggestions).toEqual([{ taskId: essay, from: day(3, 0), to: day(2, 0), hours: 2 }]);
+    });
+
+    it('should spread work over several days and never before today', () => {
+      workloadService.setDailyCapacity(2);
+      const essay = addTask('Essay', day(4), 7);
+
+      const suggestions = workloadService.suggestRebalancing(WEEK, YEAR, day(2, 12));
+
+      expect(suggestions).toEqual([
+        { taskId: essay, from: day(4, 0), to: day(3, 0), hours: 2 },
+        { taskId: essay, from: day(4, 0), to: day(2, 0), hours: 2 }
+      ]);
+    });
+
+    it('should suggest nothing when no day is overloaded', () => {
+      addTask('Essay', day(3), 6);
+
+      expect(workloadService.suggestRebalancing(WEEK, YEAR, MONDAY)).toEqual([]);
+    });
+
+    it('should never overload the day work is moved to', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.tuple(fc.integer({ min: 0, max: 6 }), fc.integer({ min: 1, max: 10 })), { maxLength: 12 }),
+          (entries) => {
+            const storage = new StorageService(new MockStorage());
+            const tasks = new TaskService(storage);
+            const workload = new WorkloadService(storage, tasks);
+            for (const [offset, hours] of entries) {
+              tasks.createTask('c1', 'Task', day(offset), { estimatedHours: hours });
+            }
+
+            const { days } = workload.getWeekWorkload(WEEK, YEAR);
+            const planned = days.map(d => d.plannedHours);
+            for (const suggestion of workload.suggestRebalancing(WEEK, YEAR, MONDAY)) {
+              const from = days.findIndex(d => d.date.getTime() === suggestion.from.getTime());
+              const to = days.findIndex(d => d.date.getTime() === suggestion.to.getTime());
+              expect(to).toBeLessThan(from);
+              expect(suggestion.hours).toBeGreaterThan(0);
+              planned[from] -= suggestion.hours;
+              planned[to] += suggestion.hours;
+            }
+            days.forEach((d, i) => {
+              if (!d.overloaded) {
+                expect(planned[i]).toBeLessThanOrEqual(d.capacityHours);
+              } else {
+                expect(planned[i]).toBeGreaterThanOrEqual(d.capacityHours);
+              }
+            });
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * WorkloadService compares the work planned on each day with the user's daily capacity
+ * The remaining effort of an incomplete task (its estimate less the time logged) is planned on
+ * its deadline day. Overloaded days get suggestions for doing some of that work on earlier,
+ * lighter days of the same week.
+ */
+
+import { Task, DayLoad, WeekWorkload, RebalanceSuggestion, Result } from '../models/types.js';
+import { ValidationError, StorageError } from '../models/errors.js';
+import { IStorageService } from '../storage/StorageService.js';
+import { WORKLOAD_STORAGE_KEY } from '../storage/storageKeys.js';
+import { ITaskService } from './TaskService.js';
+import { getRemainingHours } from '../utils/effort.js';
+import { TASK_PRIORITIES } from '../utils/priority.js';
+import { startOfDay } from '../utils/recurrence.js';
+import { getWeekBounds, getDaysBetween } from '../utils/weekCalculations.js';
+
+/**
+ * Hours a day holds when the user has not set a capacity
+ */
+export const DEFAULT_DAILY_CAPACITY = 6;
+
+/**
+ * Workload settings stored under WORKLOAD_STORAGE_KEY
+ */
+interface WorkloadSettings {
+  dailyCapacity: number;
+}
+
+/**
+ * WorkloadService interface
+ */
+export interface IWorkloadService {
+  getDailyCapacity(): number;
+  setDailyCapacity(hours: number): Result<number, Error>;
+  getDayLoads(from: Date, to: Date): DayLoad[];
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload;
+  suggestRebalancing(weekNumber: number, year: number, now?: Date): RebalanceSuggestion[];
+  reload(): void;
+}
+
+/**
+ * Order tasks for moving work: least important first, then the most remaining effort first
+ */
+function byMovability(a: Task, b: Task): number {
+  const byPriority = TASK_PRIORITIES.indexOf(b.priority) - TASK_PRIORITIES.indexOf(a.priority);
+  return byPriority !== 0 ? byPriority : getRemainingHours(b) - getRemainingHours(a);
+}
+
+/**
+ * WorkloadService implementation
+ */
+export class WorkloadService implements IWorkloadService {
+  private storage: IStorageService;
+  private taskService: ITaskService;
+  private dailyCapacity: number = DEFAULT_DAILY_CAPACITY;
+
+  constructor(storage: IStorageService, taskService: ITaskService) {
+    this.storage = storage;
+    this.taskService = taskService;
+    this.loadSettings();
+  }
+
+  /**
+   * Load the settings from storage, falling back to the defaults
+   */
+  private loadSettings(): void {
+    const result = this.storage.load<WorkloadSettings>(WORKLOAD_STORAGE_KEY);
+    const capacity = result.success ? result.value?.dailyCapacity : undefined;
+    this.dailyCapacity = typeof capacity === 'number' && capacity > 0 ? capacity : DEFAULT_DAILY_CAPACITY;
+  }
+
+  /**
+   * Reload the settings from storage, discarding the in-memory state
+   */
+  reload(): void {
+    this.loadSettings();
+  }
+
+  /**
+   * Get the hours the user can work in a day
+   */
+  getDailyCapacity(): number {
+    return this.dailyCapacity;
+  }
+
+  /**
+   * Set the hours the user can work in a day
+   * @returns The new capacity
+   */
+  setDailyCapacity(hours: number): Result<number, Error> {
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0 || hours > 24) {
+      return {
+        success: false,
+        error: new ValidationError('Daily capacity must be more than 0 and at most 24 hours')
+      };
+    }
+
+    const saveResult = this.storage.save<WorkloadSettings>(WORKLOAD_STORAGE_KEY, { dailyCapacity: hours });
+    if (!saveResult.success) {
+      return { success: false, error: new StorageError(`Failed to save workload settings: ${saveResult.error.message}`) };
+    }
+    this.dailyCapacity = hours;
+    return { success: true, value: hours };
+  }
+
+  /**
+   * Get the planned work of every day from one date to another, inclusive
+   */
+  getDayLoads(from: Date, to: Date): DayLoad[] {
+    // Group the tasks with effort left by their deadline day
+    const tasksByDay = new Map<number, Task[]>();
+    for (const task of this.taskService.getAllTasks()) {
+      if (getRemainingHours(task) <= 0) {
+        continue;
+      }
+      const day = startOfDay(task.deadline).getTime();
+      tasksByDay.set(day, [...(tasksByDay.get(day) ?? []), task]);
+    }
+
+    return getDaysBetween(from, to).map(date => {
+      const tasks = tasksByDay.get(date.getTime()) ?? [];
+      const plannedHours = tasks.reduce((sum, task) => sum + getRemainingHours(task), 0);
+      return {
+        date,
+        plannedHours,
+        capacityHours: this.dailyCapacity,
+        overloaded: plannedHours > this.dailyCapacity,
+        taskIds: tasks.map(task => task.id)
+      };
+    });
+  }
+
+  /**
+   * Get the planned work of an ISO week, day by day
+   */
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload {
+    const { startDate, endDate } = getWeekBounds(weekNumber, year);
+    const days = this.getDayLoads(startDate, endDate);
+    const plannedHours = days.reduce((sum, day) => sum + day.plannedHours, 0);
+    const capacityHours = this.dailyCapacity * days.length;
+
+    return {
+      weekNumber,
+      year,
+      days,
+      plannedHours,
+      capacityHours,
+      overloaded: plannedHours > capacityHours
+    };
+  }
+
+  /**
+   * Suggest doing work due on overloaded days on earlier days of the week that have spare capacity
+   * Work is never moved to a day before today. Less important tasks are moved first, and
+   * the day with the most spare capacity is filled first.
+   * @param now - The current time (defaults to now)
+   */
+  suggestRebalancing(weekNumber: number, year: number, now: Date = new Date()): RebalanceSuggestion[] {
+    const { days } = this.getWeekWorkload(weekNumber, year);
+    const today = startOfDay(now);
+    const spare = days.map(day => day.date >= today ? Math.max(0, day.capacityHours - day.plannedHours) : 0);
+
+    const suggestions: RebalanceSuggestion[] = [];
+    days.forEach((day, dayIndex) => {
+      let excess = day.plannedHours - day.capacityHours;
+      if (excess <= 0) {
+        return;
+      }
+
+      const tasks = day.taskIds
+        .map(id => this.taskService.getTask(id))
+        .filter((task): task is Task => task !== null)
+        .sort(byMovability);
+
+      for (const task of tasks) {
+        let movable = Math.min(getRemainingHours(task), excess);
+        while (movable > 0) {
+          // The lightest earlier day; ties go to the later day, closer to the deadline
+          let target = -1;
+          for (let i = 0; i < dayIndex; i++) {
+            if (spare[i] > 0 && (target === -1 || spare[i] >= spare[target])) {
+              target = i;
+            }
+          }
+          if (target === -1) {
+            return;
+          }
+
+          const hours = Math.min(spare[target], movable);
+          suggestions.push({ taskId: task.id, from: day.date, to: days[target].date, hours });
+          spare[target] -= hours;
+          movable -= hours;
+          excess -= hours;
+        }
+        if (excess <= 0) {
+          return;
+        }
+      }
+    });
+    return suggestions;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Tests for EncryptedStorageService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageService } from './StorageService.js';
+import { EncryptedStorageService } from './EncryptedStorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, REVISIONS_STORAGE_KEY, ENCRYPTION_STORAGE_KEY } from './storageKeys.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+// Keep key derivation fast in tests
+const TEST_ITERATIONS = 1000;
+const PASSPHRASE = 'correct horse battery';
+
+/**
+ * Create an encrypted storage service over a Web Storage area
+ */
+function openStorage(storage: Storage): EncryptedStorageService {
+  return new EncryptedStorageService(new StorageService(storage), { iterations: TEST_ITERATIONS });
+}
+
+describe('EncryptedStorageService', () => {
+  let storage: MockStorage;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+  });
+
+  describe('Without a passphrase', () => {
+    it('should pass data through unencrypted', () => {
+      const encrypted = openStorage(storage);
+
+      expect(encrypted.save(TASKS_STORAGE_KEY, [{ id: 't1' }]).success).toBe(true);
+
+      expect(encrypted.isEnabled()).toBe(false);
+      expect(encrypted.isLocked()).toBe(false);
+      expect(JSON.parse(storage.getItem(TASKS_STORAGE_KEY)!)).toEqual([{ id: 't1' }]);
+    });
+  });
+
+  describe('Enabling encryption', () => {
+    it('should encrypt the existing data', async () => {
+      const encrypted = openStorage(storage);
+      const createdAt = new Date('2024-03-01T10:00:00.000Z');
+      encrypted.save(COURSES_STORAGE_KEY, [{ id: 'c1', name: 'Secret Seminar', createdAt }]);
+
+      const result = await encrypted.enable(PASSPHRASE);
+
+      expect(result.success).toBe(true);
+      expect(encrypted.isEnabled()).toBe(true);
+      expect(storage.getItem(COURSES_STORAGE_KEY)).not.toContain('Secret Seminar');
+      expect(storage.getItem(ENCRYPTION_STORAGE_KEY)).not.toBeNull();
+
+      const loaded = encrypted.load<any[]>(COURSES_STORAGE_KEY);
+      expect(loaded.success && loaded.value[0].createdAt).toEqual(createdAt);
+    });
+
+    it('should reject a short passphrase', async () => {
+      const result = await openStorage(storage).enable('short');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.name).toBe('ValidationError');
+      }
+    });
+
+    it('should refuse to enable encryption twice', async () => {
+      const encrypted = openStorage(storage);
+      await encrypted.enable(PASSPHRASE);
+
+      expect((await encrypted.enable('another passphrase')).success).toBe(false);
+    });
+  });
+
+  describe('Locking and unlocking', () => {
+    beforeEach(async () => {
+      const encrypted = openStorage(storage);
+      encrypted.save(TASKS_STORAGE_KEY, [{ id: 't1', description: 'Confidential' }]);
+      await encrypted.enable(PASSPHRASE);
+    });
+
+    it('should start locked and refuse access', () => {
+      const encrypted = openStorage(storage);
+
+      expect(encrypted.isLocked()).toBe(true);
+      const result = encrypted.load(TASKS_STORAGE_KEY);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('locked');
+      }
+      expect(encrypted.save(TASKS_STORAGE_KEY, []).success).toBe(false);
+    });
+
+    it('should reject an incorrect passphrase', async () => {
+      const encrypted = openStorage(storage);
+
+      const result = await encrypted.unlock('wrong passphrase');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Incorrect passphrase');
+      }
+      expect(encrypted.isLocked()).toBe(true);
+    });
+
+    it('should decrypt the data with the correct passphrase', async () => {
+      const encrypted = openStorage(storage);
+
+      expect((await encrypted.unlock(PASSPHRASE)).success).toBe(true);
+
+      expect(encrypted.isLocked()).toBe(false);
+      expect(encrypted.load(TASKS_STORAGE_KEY)).toEqual({
+        success: true,
+        value: [{ id: 't1', description: 'Confidential' }]
+      });
+    });
+
+    it('should forget the data when locked', async () => {
+      const encrypted = openStorage(storage);
+      await encrypted.unlock(PASSPHRASE);
+
+      encrypted.lock();
+
+      expect(encrypted.isLocked()).toBe(true);
+      expect(encrypted.load(TASKS_STORAGE_KEY).success).toBe(false);
+    });
+
+    it('should report tampered data as corrupted', async () => {
+      const stored = JSON.parse(storage.getItem(TASKS_STORAGE_KEY)!);
+      const bytes = atob(stored.data);
+      stored.data = btoa(String.fromCharCode(bytes.charCodeAt(0) ^ 1) + bytes.slice(1));
+      storage.setItem(TASKS_STORAGE_KEY, JSON.stringify(stored));
+
+      const result = await openStorage(storage).unlock(PASSPHRASE);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe(`Corrupted data for key: ${TASKS_STORAGE_KEY}`);
+      }
+    });
+  });
+
+  describe('Writing while unlocked', () => {
+    let encrypted: EncryptedStorageService;
+
+    beforeEach(async () => {
+      encrypted = openStorage(storage);
+      await encrypted.enable(PASSPHRASE);
+    });
+
+    it('should write encrypted values in the background', async () => {
+      encrypted.save(TASKS_STORAGE_KEY, [{ id: 't1', description: 'Private notes' }]);
+      expect(encrypted.load(TASKS_STORAGE_KEY).success).toBe(true);
+
+      expect((await encrypted.flush()).success).toBe(true);
+      expect(storage.getItem(TASKS_STORAGE_KEY)).not.toContain('Private notes');
+
+      const reopened = openStorage(storage);
+      await reopened.unlock(PASSPHRASE);
+      expect(reopened.load(TASKS_STORAGE_KEY)).toEqual({
+        success: true,
+        value: [{ id: 't1', description: 'Private notes' }]
+      });
+    });
+
+    it('should keep plain text keys readable', async () => {
+      encrypted.save(REVISIONS_STORAGE_KEY, { [TASKS_STORAGE_KEY]: 3 });
+
+      expect(JSON.parse(storage.getItem(REVISIONS_STORAGE_KEY)!)).toEqual({ [TASKS_STORAGE_KEY]: 3 });
+    });
+
+    it('should delete encrypted keys', async () => {
+      encrypted.save('tracker:notes', 'temporary');
+      encrypted.delete('tracker:notes');
+      await encrypted.flush();
+
+      expect(storage.getItem('tracker:notes')).toBeNull();
+      const reopened = openStorage(storage);
+      await reopened.unlock(PASSPHRASE);
+      expect(reopened.load('tracker:notes').success).toBe(false);
+    });
+
+    it('should only write committed transactions', async () => {
+      encrypted.beginTransaction();
+      encrypted.save(TASKS_STORAGE_KEY, [{ id: 'rolled-back' }]);
+      expect(encrypted.load(TASKS_STORAGE_KEY).success).toBe(true);
+      encrypted.rollbackTransaction();
+      expect(encrypted.load(TASKS_STORAGE_KEY).success).toBe(false);
+
+      encrypted.beginTransaction();
+      encrypted.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      encrypted.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      expect(encrypted.commitTransaction().success).toBe(true);
+      await encrypted.flush();
+
+      const reopened = openStorage(storage);
+      await reopened.unlock(PASSPHRASE);
+      expect(reopened.load(COURSES_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 'c1' }] });
+      expect(reopened.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 't1' }] });
+    });
+
+    it('should pick up data written by another instance on refresh', async () => {
+      const otherTab = openStorage(storage);
+      await otherTab.unlock(PASSPHRASE);
+      otherTab.save(TASKS_STORAGE_KEY, [{ id: 'from-other-tab' }]);
+      await otherTab.flush();
+
+      expect((await encrypted.refresh()).success).toBe(true);
+      expect(encrypted.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 'from-other-tab' }] });
+    });
+  });
+
+  describe('Changing the passphrase', () => {
+    const NEW_PASSPHRASE = 'a brand new passphrase';
+    let encrypted: EncryptedStorageService;
+
+    beforeEach(async () => {
+      encrypted = openStorage(storage);
+      encrypted.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      encrypted.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      await encrypted.enable(PASSPHRASE);
+    });
+
+    it('should re-encrypt every key with the new passphrase', async () => {
+      const before = storage.getItem(TASKS_STORAGE_KEY);
+
+      expect((await encrypted.changePassphrase(PASSPHRASE, NEW_PASSPHRASE)).success).toBe(true);
+
+      expect(storage.getItem(TASKS_STORAGE_KEY)).not.toBe(before);
+      expect((await openStorage(storage).unlock(PASSPHRASE)).success).toBe(false);
+
+      const reopened = openStorage(storage);
+      expect((await reopened.unlock(NEW_PASSPHRASE)).success).toBe(true);
+      expect(reopened.load(COURSES_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 'c1' }] });
+      expect(reopened.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 't1' }] });
+    });
+
+    it('should require the current passphrase', async () => {
+      const result = await encrypted.changePassphrase('wrong passphrase', NEW_PASSPHRASE);
+
+      expect(result.success).toBe(false);
+      expect((await openStorage(storage).unlock(PASSPHRASE)).success).toBe(true);
+    });
+
+    it('should lock other instances instead of letting them write with the old key', async () => {
+      const otherTab = openStorage(storage);
+      await otherTab.unlock(PASSPHRASE);
+      await encrypted.changePassphrase(PASSPHRASE, NEW_PASSPHRASE);
+
+      otherTab.save(TASKS_STORAGE_KEY, [{ id: 'stale' }]);
+      const flushResult = await otherTab.flush();
+
+      expect(flushResult.success).toBe(false);
+      expect(otherTab.isLocked()).toBe(true);
+      const reopened = openStorage(storage);
+      await reopened.unlock(NEW_PASSPHRASE);
+      expect(reopened.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 't1' }] });
+    });
+  });
+
+  it('should store tracker data only in encrypted form', async () => {
+    const encrypted = openStorage(storage);
+    await encrypted.enable(PASSPHRASE);
+    const tracker = new TrackerService(encrypted);
+    tracker.initialize();
+
+    const course = tracker.createCourse('Forensics', 'Law');
+    if (!course.success) throw course.error;
+    tracker.createTask(course.value.id, 'Exam prep', new Date('2024-06-01'));
+    await encrypted.flush();
+
+    expect(storage.getItem(COURSES_STORAGE_KEY)).not.toContain('Forensics');
+    expect(storage.getItem(TASKS_STORAGE_KEY)).not.toContain('Exam prep');
+
+    const reopened = openStorage(storage);
+    await reopened.unlock(PASSPHRASE);
+    const reloaded = new TrackerService(reopened);
+    expect(reloaded.getAllCourses().map(c => c.name)).toEqual(['Forensics']);
+    expect(reloaded.getAllTasks()[0].deadline).toEqual(new Date('2024-06-01'));
+  });
+});
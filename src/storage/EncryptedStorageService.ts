@@ -0,0 +1,773 @@
+/**
+ * EncryptedStorageService keeps tracker data encrypted at rest
+ * Decorates another IStorageService; values are encrypted with AES-GCM under a key
+ * derived from a passphrase with PBKDF2, so nothing readable is left on a shared computer
+ */
+
+import { Result } from '../models/types.js';
+import { StorageError, ValidationError } from '../models/errors.js';
+import { IStorageService, StagedWrite, runInTransaction, dateReviver } from './StorageService.js';
+import {
+  COURSES_STORAGE_KEY,
+  TASKS_STORAGE_KEY,
+  TERMS_STORAGE_KEY,
+  SCHEMA_VERSION_STORAGE_KEY,
+  REVISIONS_STORAGE_KEY,
+  ENCRYPTION_STORAGE_KEY,
+  SNAPSHOTS_STORAGE_KEY,
+  AUDIT_LOG_STORAGE_KEY,
+  AUDIT_LOG_ARCHIVE_STORAGE_KEY,
+  WORKLOAD_STORAGE_KEY,
+  PLANNER_STORAGE_KEY
+} from './storageKeys.js';
+
+/**
+ * PBKDF2 iteration count for new passphrases (OWASP recommendation for PBKDF2-HMAC-SHA256)
+ */
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+
+/**
+ * Shortest passphrase accepted when enabling encryption or changing the passphrase
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Keys encrypted when encryption is enabled on existing data
+ */
+export const DEFAULT_ENCRYPTED_KEYS = [
+  COURSES_STORAGE_KEY,
+  TASKS_STORAGE_KEY,
+  TERMS_STORAGE_KEY,
+  SCHEMA_VERSION_STORAGE_KEY,
+  SNAPSHOTS_STORAGE_KEY,
+  AUDIT_LOG_STORAGE_KEY,
+  AUDIT_LOG_ARCHIVE_STORAGE_KEY,
+  WORKLOAD_STORAGE_KEY,
+  PLANNER_STORAGE_KEY
+];
+
+/**
+ * Keys that are always stored in plain text
+ * Revision numbers must stay readable so other tabs can detect conflicting writes.
+ */
+export const DEFAULT_PLAINTEXT_KEYS = [REVISIONS_STORAGE_KEY];
+
+const ENCRYPTION_VERSION = 1;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * Known plaintext encrypted into the header to check a passphrase without touching the data
+ */
+const PASSPHRASE_CHECK = 'weekly-course-tracker';
+
+/**
+ * An AES-GCM encrypted value
+ */
+export interface EncryptedPayload {
+  iv: string;                  // Base64 initialization vector
+  data: string;                // Base64 ciphertext with authentication tag
+}
+
+/**
+ * Encryption settings stored in plain text under ENCRYPTION_STORAGE_KEY
+ */
+export interface EncryptionHeader {
+  version: number;
+  salt: string;                // Base64 PBKDF2 salt, replaced on every passphrase change
+  iterations: number;
+  check: EncryptedPayload;     // PASSPHRASE_CHECK encrypted with the derived key
+  keys: string[];              // Keys whose values are encrypted
+}
+
+/**
+ * Options for EncryptedStorageService
+ */
+export interface EncryptedStorageOptions {
+  iterations?: number;                             // Defaults to DEFAULT_PBKDF2_ITERATIONS
+  plaintextKeys?: string[];                        // Defaults to DEFAULT_PLAINTEXT_KEYS
+  crypto?: Crypto;                                 // Defaults to the global WebCrypto implementation
+  onWriteError?: (error: StorageError) => void;    // Called when a background write fails
+}
+
+/**
+ * Encode bytes as base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check the shape of a stored encryption header
+ */
+function isEncryptionHeader(value: any): value is EncryptionHeader {
+  return !!value
+    && typeof value === 'object'
+    && typeof value.salt === 'string'
+    && typeof value.iterations === 'number'
+    && Array.isArray(value.keys)
+    && isEncryptedPayload(value.check);
+}
+
+/**
+ * Check the shape of a stored encrypted value
+ */
+function isEncryptedPayload(value: any): value is EncryptedPayload {
+  return !!value && typeof value === 'object' && typeof value.iv === 'string' && typeof value.data === 'string';
+}
+
+/**
+ * Check a new passphrase
+ */
+function validatePassphrase(passphrase: string): Result<void, ValidationError> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return {
+      success: false,
+      error: new ValidationError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`)
+    };
+  }
+  return { success: true, value: undefined };
+}
+
+/**
+ * Convert an unexpected exception into a StorageError
+ */
+function toStorageError(prefix: string, error: unknown): StorageError {
+  return new StorageError(`${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+}
+
+/**
+ * Storage decorator that encrypts values at rest
+ *
+ * Without an encryption header the decorator passes everything through unchanged, so
+ * encryption can be turned on later with enable(). Once enabled, the storage starts locked
+ * and every operation fails until unlock() is called with the passphrase.
+ *
+ * IStorageService is synchronous but WebCrypto is not, so unlocking decrypts all data into
+ * memory. Loads are served from memory and saves update memory immediately, while the
+ * encrypted writes complete in the background, in order. Use flush() to wait for outstanding
+ * writes and observe their errors.
+ */
+export class EncryptedStorageService implements IStorageService {
+  private inner: IStorageService;
+  private crypto: Crypto;
+  private iterations: number;
+  private plaintextKeys: Set<string>;
+  private onWriteError?: (error: StorageError) => void;
+
+  // Set while unlocked
+  private key: CryptoKey | null = null;
+  private salt: string | null = null;
+  private entries: Map<string, string> = new Map();
+  private staged: Map<string, StagedWrite> | null = null;
+
+  private writeQueue: Promise<void> = Promise.resolve();
+  private writeError: StorageError | null = null;
+
+  constructor(inner: IStorageService, options: EncryptedStorageOptions = {}) {
+    this.inner = inner;
+    this.crypto = options.crypto ?? globalThis.crypto;
+    this.iterations = options.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+    this.plaintextKeys = new Set([ENCRYPTION_STORAGE_KEY, ...(options.plaintextKeys ?? DEFAULT_PLAINTEXT_KEYS)]);
+    this.onWriteError = options.onWriteError;
+  }
+
+  // ==================== Encryption State ====================
+
+  /**
+   * Check whether the stored data is encrypted
+   */
+  isEnabled(): boolean {
+    const header = this.readHeader();
+    return header.success && header.value !== null;
+  }
+
+  /**
+   * Check whether the data is encrypted and no passphrase has been entered
+   */
+  isLocked(): boolean {
+    return this.key === null && this.isEnabled();
+  }
+
+  /**
+   * Encrypt the existing data with a new passphrase
+   * @param passphrase - At least MIN_PASSPHRASE_LENGTH characters
+   * @param keys - Plain text keys to encrypt (defaults to DEFAULT_ENCRYPTED_KEYS)
+   */
+  async enable(passphrase: string, keys: string[] = DEFAULT_ENCRYPTED_KEYS): Promise<Result<void, Error>> {
+    const validation = validatePassphrase(passphrase);
+    if (!validation.success) {
+      return validation;
+    }
+    if (this.isEnabled()) {
+      return {
+        success: false,
+        error: new StorageError('Encryption is already enabled')
+      };
+    }
+
+    const entries = new Map<string, string>();
+    for (const key of keys.filter(key => !this.plaintextKeys.has(key))) {
+      const result = this.inner.load<unknown>(key);
+      if (result.success) {
+        entries.set(key, String(JSON.stringify(result.value)));
+      } else if (!result.error.message.startsWith('No data found')) {
+        return result;
+      }
+    }
+
+    return this.encryptAll(passphrase, entries);
+  }
+
+  /**
+   * Decrypt the stored data with the passphrase
+   */
+  async unlock(passphrase: string): Promise<Result<void, StorageError>> {
+    const header = this.readHeader();
+    if (!header.success) {
+      return header;
+    }
+    if (header.value === null) {
+      return {
+        success: false,
+        error: new StorageError('Encryption is not enabled')
+      };
+    }
+
+    try {
+      const key = await this.verifyPassphrase(passphrase, header.value);
+      if (!key) {
+        return {
+          success: false,
+          error: new StorageError('Incorrect passphrase')
+        };
+      }
+
+      const entries = await this.decryptAll(key, header.value.keys);
+      if (!entries.success) {
+        return entries;
+      }
+
+      this.key = key;
+      this.salt = header.value.salt;
+      this.entries = entries.value;
+      this.staged = null;
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError('Failed to unlock storage', error)
+      };
+    }
+  }
+
+  /**
+   * Forget the key and the decrypted data
+   * Writes already issued still complete in the background.
+   */
+  lock(): void {
+    this.key = null;
+    this.salt = null;
+    this.entries = new Map();
+    this.staged = null;
+  }
+
+  /**
+   * Re-encrypt every key with a new passphrase
+   * @param currentPassphrase - Must match the passphrase the data is encrypted with
+   * @param newPassphrase - At least MIN_PASSPHRASE_LENGTH characters
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<Result<void, Error>> {
+    const validation = validatePassphrase(newPassphrase);
+    if (!validation.success) {
+      return validation;
+    }
+    if (!this.key) {
+      return this.lockedError();
+    }
+
+    // Pending writes are still encrypted with the old key, so let them land first
+    const flushResult = await this.flush();
+    if (!flushResult.success) {
+      return flushResult;
+    }
+
+    const header = this.readHeader();
+    if (!header.success) {
+      return header;
+    }
+    if (header.value === null || header.value.salt !== this.salt) {
+      return this.passphraseChangedError();
+    }
+
+    try {
+      if (!(await this.verifyPassphrase(currentPassphrase, header.value))) {
+        return {
+          success: false,
+          error: new StorageError('Incorrect passphrase')
+        };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError('Failed to change passphrase', error)
+      };
+    }
+
+    return this.encryptAll(newPassphrase, new Map(this.entries));
+  }
+
+  /**
+   * Decrypt the stored data again, e.g. after another tab wrote it
+   * Outstanding writes finish first so they are not overwritten by older data.
+   */
+  async refresh(): Promise<Result<void, StorageError>> {
+    await this.writeQueue;
+    if (!this.key) {
+      return { success: true, value: undefined };
+    }
+
+    const header = this.readHeader();
+    if (!header.success) {
+      return header;
+    }
+    if (header.value === null || header.value.salt !== this.salt) {
+      return this.passphraseChangedError();
+    }
+
+    try {
+      const entries = await this.decryptAll(this.key, header.value.keys);
+      if (entries.success && this.key) {
+        this.entries = entries.value;
+      }
+      return entries.success ? { success: true, value: undefined } : entries;
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError('Failed to refresh storage', error)
+      };
+    }
+  }
+
+  // ==================== IStorageService ====================
+
+  save<T>(key: string, data: T): Result<void, StorageError> {
+    if (this.plaintextKeys.has(key)) {
+      return this.inner.save(key, data);
+    }
+    if (!this.key) {
+      return this.isEnabled() ? this.lockedError() : this.inner.save(key, data);
+    }
+
+    // Match localStorage, which stores the string "undefined" for undefined values
+    const serialized = String(JSON.stringify(data));
+    if (this.staged) {
+      this.staged.set(key, serialized);
+    } else {
+      this.entries.set(key, serialized);
+      this.enqueueWrite(new Map([[key, serialized]]));
+    }
+    return { success: true, value: undefined };
+  }
+
+  load<T>(key: string): Result<T, StorageError> {
+    if (this.plaintextKeys.has(key)) {
+      return this.inner.load<T>(key);
+    }
+    if (!this.key) {
+      return this.isEnabled() ? this.lockedError() : this.inner.load<T>(key);
+    }
+
+    const staged = this.staged?.get(key);
+    const serialized = staged !== undefined ? staged : this.entries.get(key);
+    if (serialized === null || serialized === undefined) {
+      return {
+        success: false,
+        error: new StorageError(`No data found for key: ${key}`)
+      };
+    }
+
+    try {
+      return { success: true, value: JSON.parse(serialized, dateReviver) as T };
+    } catch {
+      return {
+        success: false,
+        error: new StorageError(`Corrupted data for key: ${key}`)
+      };
+    }
+  }
+
+  delete(key: string): Result<void, StorageError> {
+    if (this.plaintextKeys.has(key)) {
+      return this.inner.delete(key);
+    }
+    if (!this.key) {
+      return this.isEnabled() ? this.lockedError() : this.inner.delete(key);
+    }
+
+    if (this.staged) {
+      this.staged.set(key, null);
+    } else {
+      this.entries.delete(key);
+      this.enqueueWrite(new Map([[key, null]]));
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Clear all data
+   * While encrypted, the encryption header is kept so the passphrase stays in effect.
+   */
+  clear(): Result<void, StorageError> {
+    if (!this.key) {
+      return this.isEnabled() ? this.lockedError() : this.inner.clear();
+    }
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('Cannot clear storage during a transaction')
+      };
+    }
+
+    for (const key of this.plaintextKeys) {
+      if (key !== ENCRYPTION_STORAGE_KEY) {
+        this.inner.delete(key);
+      }
+    }
+
+    const header = this.readHeader();
+    const storedKeys = header.success && header.value ? header.value.keys : [];
+    const deletes = new Map<string, StagedWrite>(
+      [...storedKeys, ...this.entries.keys()].map(key => [key, null])
+    );
+    this.entries = new Map();
+    this.enqueueWrite(deletes);
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Begin a transaction
+   * Encrypted writes are staged in memory until commit; plain text keys use the inner transaction
+   */
+  beginTransaction(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('A transaction is already in progress')
+      };
+    }
+
+    const result = this.inner.beginTransaction();
+    if (result.success && this.key) {
+      this.staged = new Map();
+    }
+    return result;
+  }
+
+  /**
+   * Commit the transaction
+   * The staged encrypted writes are written together, in one inner transaction, in the background
+   */
+  commitTransaction(): Result<void, StorageError> {
+    const staged = this.staged;
+    this.staged = null;
+
+    const result = this.inner.commitTransaction();
+    if (!result.success || !staged) {
+      return result;
+    }
+
+    staged.forEach((serialized, key) => {
+      if (serialized === null) {
+        this.entries.delete(key);
+      } else {
+        this.entries.set(key, serialized);
+      }
+    });
+    this.enqueueWrite(staged);
+    return result;
+  }
+
+  rollbackTransaction(): void {
+    this.staged = null;
+    this.inner.rollbackTransaction();
+  }
+
+  isInTransaction(): boolean {
+    return this.staged !== null || this.inner.isInTransaction();
+  }
+
+  /**
+   * Wait for all outstanding writes to finish
+   * Returns the first write error since the last flush, if any
+   */
+  async flush(): Promise<Result<void, StorageError>> {
+    await this.writeQueue;
+
+    const error = this.writeError;
+    this.writeError = null;
+    if (error) {
+      return { success: false, error };
+    }
+    return { success: true, value: undefined };
+  }
+
+  // ==================== Internals ====================
+
+  /**
+   * Read the encryption header
+   * @returns The header, or null if the data is not encrypted
+   */
+  private readHeader(): Result<EncryptionHeader | null, StorageError> {
+    const result = this.inner.load<unknown>(ENCRYPTION_STORAGE_KEY);
+    if (!result.success) {
+      if (result.error.message.startsWith('No data found')) {
+        return { success: true, value: null };
+      }
+      return result;
+    }
+    if (!isEncryptionHeader(result.value)) {
+      return {
+        success: false,
+        error: new StorageError(`Corrupted data for key: ${ENCRYPTION_STORAGE_KEY}`)
+      };
+    }
+    return { success: true, value: result.value };
+  }
+
+  /**
+   * Derive the AES-GCM key for a passphrase
+   */
+  private async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await this.crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return this.crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Encrypt a value
+   * The storage key is bound as additional data, so a value cannot be moved to another key.
+   */
+  private async encrypt(key: CryptoKey, storageKey: string, plaintext: string): Promise<EncryptedPayload> {
+    const iv = this.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await this.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(storageKey) },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+  }
+
+  /**
+   * Decrypt a value
+   * @throws If the key is wrong or the value was tampered with
+   */
+  private async decrypt(key: CryptoKey, storageKey: string, payload: EncryptedPayload): Promise<string> {
+    const plaintext = await this.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData: new TextEncoder().encode(storageKey) },
+      key,
+      fromBase64(payload.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * Derive the key for a passphrase and check it against the header
+   * @returns The key, or null if the passphrase is wrong
+   */
+  private async verifyPassphrase(passphrase: string, header: EncryptionHeader): Promise<CryptoKey | null> {
+    const key = await this.deriveKey(passphrase, fromBase64(header.salt), header.iterations);
+    try {
+      const check = await this.decrypt(key, ENCRYPTION_STORAGE_KEY, header.check);
+      return check === PASSPHRASE_CHECK ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decrypt the stored values of the given keys
+   */
+  private async decryptAll(key: CryptoKey, keys: string[]): Promise<Result<Map<string, string>, StorageError>> {
+    const entries = new Map<string, string>();
+    for (const storageKey of keys) {
+      const stored = this.inner.load<unknown>(storageKey);
+      if (!stored.success) {
+        if (stored.error.message.startsWith('No data found')) {
+          continue;
+        }
+        return stored;
+      }
+
+      try {
+        if (!isEncryptedPayload(stored.value)) {
+          throw new Error('Not an encrypted value');
+        }
+        entries.set(storageKey, await this.decrypt(key, storageKey, stored.value));
+      } catch {
+        return {
+          success: false,
+          error: new StorageError(`Corrupted data for key: ${storageKey}`)
+        };
+      }
+    }
+    return { success: true, value: entries };
+  }
+
+  /**
+   * Encrypt the given values under a new passphrase and salt and replace the stored data
+   * Values and header are written in one inner transaction, so the data is never left
+   * encrypted with two different keys.
+   */
+  private async encryptAll(passphrase: string, entries: Map<string, string>): Promise<Result<void, Error>> {
+    try {
+      const saltBytes = this.crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+      const key = await this.deriveKey(passphrase, saltBytes, this.iterations);
+
+      const encrypted = new Map<string, EncryptedPayload>();
+      for (const [storageKey, serialized] of entries) {
+        encrypted.set(storageKey, await this.encrypt(key, storageKey, serialized));
+      }
+
+      const header: EncryptionHeader = {
+        version: ENCRYPTION_VERSION,
+        salt: toBase64(saltBytes),
+        iterations: this.iterations,
+        check: await this.encrypt(key, ENCRYPTION_STORAGE_KEY, PASSPHRASE_CHECK),
+        keys: Array.from(encrypted.keys())
+      };
+
+      const result = runInTransaction(this.inner, (): Result<void, Error> => {
+        for (const [storageKey, payload] of encrypted) {
+          const saveResult = this.inner.save(storageKey, payload);
+          if (!saveResult.success) {
+            return saveResult;
+          }
+        }
+        return this.inner.save(ENCRYPTION_STORAGE_KEY, header);
+      });
+      if (!result.success) {
+        return result;
+      }
+
+      this.key = key;
+      this.salt = header.salt;
+      this.entries = entries;
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError('Failed to encrypt storage', error)
+      };
+    }
+  }
+
+  /**
+   * Encrypt and write changes in the background, after any writes already queued
+   */
+  private enqueueWrite(changes: Map<string, StagedWrite>): void {
+    const key = this.key!;
+    const salt = this.salt;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const encrypted = new Map<string, EncryptedPayload | null>();
+        for (const [storageKey, serialized] of changes) {
+          encrypted.set(storageKey, serialized === null ? null : await this.encrypt(key, storageKey, serialized));
+        }
+
+        const result = this.writeEncrypted(encrypted, salt);
+        if (!result.success) {
+          this.reportWriteError(result.error);
+        }
+      })
+      .catch(error => this.reportWriteError(toStorageError('Failed to save data', error)));
+  }
+
+  /**
+   * Write encrypted values and update the list of encrypted keys in the header
+   * The write is refused if the passphrase was changed elsewhere since the values were encrypted.
+   */
+  private writeEncrypted(encrypted: Map<string, EncryptedPayload | null>, salt: string | null): Result<void, Error> {
+    const header = this.readHeader();
+    if (!header.success) {
+      return header;
+    }
+    if (header.value === null || header.value.salt !== salt) {
+      return this.passphraseChangedError();
+    }
+
+    const keys = new Set(header.value.keys);
+    return runInTransaction(this.inner, (): Result<void, Error> => {
+      for (const [storageKey, payload] of encrypted) {
+        const result = payload === null ? this.inner.delete(storageKey) : this.inner.save(storageKey, payload);
+        if (!result.success) {
+          return result;
+        }
+        if (payload === null) {
+          keys.delete(storageKey);
+        } else {
+          keys.add(storageKey);
+        }
+      }
+      return this.inner.save(ENCRYPTION_STORAGE_KEY, { ...header.value!, keys: Array.from(keys) });
+    });
+  }
+
+  /**
+   * Record a failed background write
+   */
+  private reportWriteError(error: Error): void {
+    const storageError = error instanceof StorageError ? error : new StorageError(error.message);
+    this.writeError = this.writeError ?? storageError;
+    this.onWriteError?.(storageError);
+  }
+
+  /**
+   * Error for operations attempted while locked
+   */
+  private lockedError(): Result<never, StorageError> {
+    return {
+      success: false,
+      error: new StorageError('Storage is locked. Enter the passphrase to unlock it.')
+    };
+  }
+
+  /**
+   * Lock after another tab re-encrypted the data with a different passphrase
+   */
+  private passphraseChangedError(): Result<never, StorageError> {
+    this.lock();
+    return {
+      success: false,
+      error: new StorageError('The passphrase was changed in another tab. Unlock again to continue.')
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for the file-system storage backend
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { FileStorageService, LOCK_FILE_NAME } from './FileStorageService.js';
+import { runInTransaction } from './StorageService.js';
+import { TrackerService } from '../services/TrackerService.js';
+
+describe('FileStorageService', () => {
+  let directory: string;
+  let storage: FileStorageService;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-storage-'));
+    storage = new FileStorageService(directory, { lockTimeoutMs: 100 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a lock file as if another process held the lock
+   */
+  function writeLock(pid: number, acquiredAt: number = Date.now()): void {
+    fs.writeFileSync(path.join(directory, LOCK_FILE_NAME), JSON.stringify({ pid, acquiredAt }));
+  }
+
+  describe('save and load', () => {
+    it('should store each key as a JSON file and revive dates', () => {
+      const data = [{ id: '1', deadline: new Date('2024-03-01T12:00:00.000Z'), label: '2024' }];
+
+      expect(storage.save('tracker:tasks', data).success).toBe(true);
+
+      expect(fs.readdirSync(directory)).toEqual(['tracker%3Atasks.json']);
+      const loaded = new FileStorageService(directory).load<typeof data>('tracker:tasks');
+      expect(loaded.success).toBe(true);
+      if (loaded.success) {
+        expect(loaded.value).toEqual(data);
+        expect(loaded.value[0].deadline).toBeInstanceOf(Date);
+      }
+    });
+
+    it('should report missing and corrupted keys like StorageService', () => {
+      fs.writeFileSync(storage.getFilePath('tracker:courses'), '{"broken":');
+
+      const missing = storage.load('tracker:tasks');
+      const corrupted = storage.load('tracker:courses');
+
+      expect(!missing.success && missing.error.message).toBe('No data found for key: tracker:tasks');
+      expect(!corrupted.success && corrupted.error.message).toBe('Corrupted data for key: tracker:courses');
+    });
+
+    it('should fail to save data that cannot be serialized', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      expect(storage.save('tracker:tasks', circular).success).toBe(false);
+    });
+
+    it('should leave no temporary files or lock behind', () => {
+      storage.save('tracker:tasks', [1]);
+      storage.save('tracker:tasks', [1, 2]);
+      storage.delete('tracker:courses');
+
+      expect(fs.readdirSync(directory)).toEqual(['tracker%3Atasks.json']);
+    });
+
+    it('should delete keys and clear only data files', () => {
+      storage.save('tracker:tasks', []);
+      storage.save('tracker:courses', []);
+      fs.writeFileSync(path.join(directory, 'notes.txt'), 'keep');
+
+      expect(storage.delete('tracker:tasks').success).toBe(true);
+      expect(storage.load('tracker:tasks').success).toBe(false);
+      expect(storage.clear().success).toBe(true);
+      expect(fs.readdirSync(directory)).toEqual(['notes.txt']);
+    });
+  });
+
+  describe('Transactions', () => {
+    it('should stage writes until commit', () => {
+      storage.save('tracker:tasks', ['old']);
+
+      storage.beginTransaction();
+      storage.save('tracker:tasks', ['new']);
+      storage.delete('tracker:courses');
+      const staged = storage.load<string[]>('tracker:tasks');
+      expect(staged.success && staged.value).toEqual(['new']);
+      expect(JSON.parse(fs.readFileSync(storage.getFilePath('tracker:tasks'), 'utf8'))).toEqual(['old']);
+
+      expect(storage.commitTransaction().success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(storage.getFilePath('tracker:tasks'), 'utf8'))).toEqual(['new']);
+    });
+
+    it('should discard staged writes on rollback', () => {
+      const result = runInTransaction(storage, () => {
+        storage.save('tracker:tasks', ['new']);
+        return { success: false, error: new Error('Work failed') };
+      });
+
+      expect(result.success).toBe(false);
+      expect(storage.load('tracker:tasks').success).toBe(false);
+      expect(storage.isInTransaction()).toBe(false);
+    });
+
+    it('should hold the lock for the whole transaction', () => {
+      storage.beginTransaction();
+      const other = new FileStorageService(directory, { lockTimeoutMs: 50 });
+
+      const blocked = other.save('tracker:tasks', ['other']);
+      storage.rollbackTransaction();
+      const unblocked = other.save('tracker:tasks', ['other']);
+
+      expect(blocked.success).toBe(false);
+      expect(unblocked.success).toBe(true);
+    });
+
+    it('should not clear storage during a transaction', () => {
+      storage.beginTransaction();
+
+      expect(storage.clear().success).toBe(false);
+      storage.rollbackTransaction();
+    });
+  });
+
+  describe('Locking', () => {
+    it('should fail with a StorageError while another process holds the lock', () => {
+      // The test runner's parent process is alive and is not this process
+      writeLock(process.ppid);
+
+      const result = storage.save('tracker:tasks', []);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('locked by another process');
+      }
+      expect(fs.existsSync(storage.getFilePath('tracker:tasks'))).toBe(false);
+    });
+
+    it('should take over a lock whose process has exited', () => {
+      writeLock(2 ** 22 + 1);
+
+      expect(storage.save('tracker:tasks', []).success).toBe(true);
+      expect(fs.existsSync(path.join(directory, LOCK_FILE_NAME))).toBe(false);
+    });
+
+    it('should take over a lock older than the stale lock age', () => {
+      writeLock(process.ppid, Date.now() - 60000);
+
+      expect(storage.save('tracker:tasks', []).success).toBe(true);
+    });
+  });
+
+  describe('with TrackerService', () => {
+    it('should persist courses and tasks across instances', () => {
+      const tracker = new TrackerService(storage);
+      tracker.initialize();
+      const course = tracker.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      const task = tracker.createTask(course.value.id, 'Essay', new Date('2024-12-31T12:00:00.000Z'));
+      if (!task.success) throw task.error;
+
+      const reloaded = new TrackerService(new FileStorageService(directory));
+      reloaded.initialize();
+
+      expect(reloaded.getAllCourses()).toEqual([course.value]);
+      expect(reloaded.getTask(task.value.id)).toEqual(task.value);
+    });
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * FileStorageService persists each key as a JSON file in a data directory
+ * Lets TrackerService run under Node.js (scripts, CLI, server) without localStorage
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Result } from '../models/types.js';
+import { StorageError } from '../models/errors.js';
+import { IStorageService, StagedWrite, dateReviver } from './StorageService.js';
+
+/**
+ * How long to wait for another process to release the lock, in milliseconds
+ */
+export const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+
+/**
+ * Age after which a lock is considered abandoned, in milliseconds
+ */
+export const DEFAULT_STALE_LOCK_MS = 30000;
+
+/**
+ * Name of the lock file in the data directory
+ */
+export const LOCK_FILE_NAME = '.lock';
+
+const DATA_FILE_EXTENSION = '.json';
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Options for FileStorageService
+ */
+export interface FileStorageOptions {
+  lockTimeoutMs?: number;     // Defaults to DEFAULT_LOCK_TIMEOUT_MS
+  staleLockMs?: number;       // Defaults to DEFAULT_STALE_LOCK_MS
+}
+
+/**
+ * Contents of the lock file
+ */
+interface LockOwner {
+  pid: number;
+  acquiredAt: number;
+}
+
+/**
+ * Block the thread for a short time
+ * The storage interface is synchronous, so waiting for a lock cannot yield to the event loop.
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Check whether a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Get the error code of a file system error
+ */
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+/**
+ * Convert a file system error into a StorageError
+ */
+function toStorageError(action: string, error: unknown): StorageError {
+  if (errorCode(error) === 'ENOSPC' || errorCode(error) === 'EDQUOT') {
+    return new StorageError('Storage quota exceeded. Please free up space.');
+  }
+  if (error instanceof Error) {
+    return new StorageError(`Failed to ${action}: ${error.message}`);
+  }
+  return new StorageError(`Failed to ${action}: Unknown error`);
+}
+
+/**
+ * IStorageService implementation backed by JSON files
+ *
+ * Each key is stored in `<directory>/<encoded key>.json`. Writes go to a temporary file that is
+ * renamed over the target, so a crash never leaves a half-written file. A lock file in the
+ * directory keeps processes sharing it from interleaving writes: single saves and deletes hold it
+ * briefly, and a transaction holds it from begin to commit or rollback, so the data read inside a
+ * transaction cannot change underneath it. Locks left behind by a process that has exited, or
+ * older than staleLockMs, are taken over.
+ */
+export class FileStorageService implements IStorageService {
+  private directory: string;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  private staged: Map<string, StagedWrite> | null = null;
+
+  /**
+   * @param directory - Data directory; created if it does not exist
+   */
+  constructor(directory: string, options: FileStorageOptions = {}) {
+    this.directory = path.resolve(directory);
+    this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Get the path of the file that stores a key
+   * Keys are URI-encoded so characters such as ':' are safe on every file system
+   */
+  getFilePath(key: string): string {
+    return path.join(this.directory, encodeURIComponent(key) + DATA_FILE_EXTENSION);
+  }
+
+  save<T>(key: string, data: T): Result<void, StorageError> {
+    let serialized: string;
+    try {
+      // Match localStorage, which stores the string "undefined" for undefined values
+      serialized = String(JSON.stringify(data));
+    } catch (error) {
+      return { success: false, error: toStorageError('save data', error) };
+    }
+
+    if (this.staged) {
+      this.staged.set(key, serialized);
+      return { success: true, value: undefined };
+    }
+
+    return this.withLock('save data', () => this.writeFile(key, serialized));
+  }
+
+  /**
+   * Load data with the given key, reviving ISO date strings like StorageService
+   */
+  load<T>(key: string): Result<T, StorageError> {
+    let serialized: string | null;
+    if (this.staged?.has(key)) {
+      serialized = this.staged.get(key)!;
+    } else {
+      try {
+        serialized = this.readFile(key);
+      } catch (error) {
+        return { success: false, error: toStorageError('load data', error) };
+      }
+    }
+
+    if (serialized === null) {
+      return {
+        success: false,
+        error: new StorageError(`No data found for key: ${key}`)
+      };
+    }
+
+    try {
+      return { success: true, value: JSON.parse(serialized, dateReviver) as T };
+    } catch {
+      return {
+        success: false,
+        error: new StorageError(`Corrupted data for key: ${key}`)
+      };
+    }
+  }
+
+  delete(key: string): Result<void, StorageError> {
+    if (this.staged) {
+      this.staged.set(key, null);
+      return { success: true, value: undefined };
+    }
+
+    return this.withLock('delete data', () => this.removeFile(key));
+  }
+
+  /**
+   * Remove every data file in the directory
+   */
+  clear(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('Cannot clear storage during a transaction')
+      };
+    }
+
+    return this.withLock('clear storage', () => {
+      for (const name of fs.readdirSync(this.directory)) {
+        if (name.endsWith(DATA_FILE_EXTENSION)) {
+          fs.rmSync(path.join(this.directory, name), { force: true });
+        }
+      }
+    });
+  }
+
+  /**
+   * Begin a transaction and take the lock until it ends
+   * Saves and deletes are staged in memory until commit; loads see staged data
+   */
+  beginTransaction(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('A transaction is already in progress')
+      };
+    }
+
+    const lockResult = this.acquireLock();
+    if (!lockResult.success) {
+      return lockResult;
+    }
+    this.staged = new Map();
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Write the staged changes and release the lock
+   * If any write fails, the files written so far are restored to their previous contents
+   */
+  commitTransaction(): Result<void, StorageError> {
+    if (!this.staged) {
+      return {
+        success: false,
+        error: new StorageError('No transaction in progress')
+      };
+    }
+
+    const staged = this.staged;
+    this.staged = null;
+    const previousValues = new Map<string, string | null>();
+
+    try {
+      for (const [key, serialized] of staged) {
+        previousValues.set(key, this.readFile(key));
+        if (serialized === null) {
+          this.removeFile(key);
+        } else {
+          this.writeFile(key, serialized);
+        }
+      }
+      return { success: true, value: undefined };
+    } catch (error) {
+      this.restore(previousValues);
+      return { success: false, error: toStorageError('commit transaction', error) };
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  /**
+   * Discard the staged changes and release the lock
+   */
+  rollbackTransaction(): void {
+    if (this.staged) {
+      this.staged = null;
+      this.releaseLock();
+    }
+  }
+
+  isInTransaction(): boolean {
+    return this.staged !== null;
+  }
+
+  // ==================== Files ====================
+
+  /**
+   * Read the raw contents stored for a key
+   * @returns The contents, or null if the key has no file
+   */
+  private readFile(key: string): string | null {
+    try {
+      return fs.readFileSync(this.getFilePath(key), 'utf8');
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the file for a key atomically: write a temporary file, flush it, and rename it into place
+   */
+  private writeFile(key: string, serialized: string): void {
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeFileSync(fd, serialized, 'utf8');
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the file for a key, if there is one
+   */
+  private removeFile(key: string): void {
+    fs.rmSync(this.getFilePath(key), { force: true });
+  }
+
+  /**
+   * Put files back to their contents before a failed commit
+   */
+  private restore(previousValues: Map<string, string | null>): void {
+    const entries = Array.from(previousValues.entries()).reverse();
+    for (const [key, value] of entries) {
+      try {
+        if (value === null) {
+          this.removeFile(key);
+        } else {
+          this.writeFile(key, value);
+        }
+      } catch {
+        // Keep restoring the other keys; a file that cannot be restored keeps its new contents
+      }
+    }
+  }
+
+  // ==================== Locking ====================
+
+  /**
+   * Run a write while holding the lock
+   */
+  private withLock(action: string, write: () => void): Result<void, StorageError> {
+    const lockResult = this.acquireLock();
+    if (!lockResult.success) {
+      return lockResult;
+    }
+
+    try {
+      write();
+      return { success: true, value: undefined };
+    } catch (error) {
+      return { success: false, error: toStorageError(action, error) };
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  /**
+   * Create the lock file, waiting for another process to release it
+   * The lock file is created exclusively, so only one process can hold it.
+   */
+  private acquireLock(): Result<void, StorageError> {
+    const lockPath = path.join(this.directory, LOCK_FILE_NAME);
+    const owner: LockOwner = { pid: process.pid, acquiredAt: Date.now() };
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, JSON.stringify(owner), { flag: 'wx' });
+        return { success: true, value: undefined };
+      } catch (error) {
+        if (errorCode(error) !== 'EEXIST') {
+          return { success: false, error: toStorageError('lock data directory', error) };
+        }
+      }
+
+      if (this.isLockStale(lockPath)) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        return {
+          success: false,
+          error: new StorageError(`Data directory is locked by another process: ${this.directory}`)
+        };
+      }
+      sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Check whether the lock was left behind by a process that has exited or is too old
+   */
+  private isLockStale(lockPath: string): boolean {
+    try {
+      const owner = JSON.parse(fs.readFileSync(lockPath, 'utf8')) as Partial<LockOwner>;
+      if (typeof owner.pid === 'number' && owner.pid !== process.pid && !isProcessAlive(owner.pid)) {
+        return true;
+      }
+      const acquiredAt = typeof owner.acquiredAt === 'number' ? owner.acquiredAt : fs.statSync(lockPath).mtimeMs;
+      return Date.now() - acquiredAt > this.staleLockMs;
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') {
+        // Released in the meantime; the next attempt will take it
+        return false;
+      }
+      // A lock file that cannot be parsed is judged by its age
+      try {
+        return Date.now() - fs.statSync(lockPath).mtimeMs > this.staleLockMs;
+      } catch {
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Remove the lock file
+   */
+  private releaseLock(): void {
+    fs.rmSync(path.join(this.directory, LOCK_FILE_NAME), { force: true });
+  }
+}
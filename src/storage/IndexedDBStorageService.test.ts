@@ -0,0 +1,287 @@
+/**
+ * Tests for IndexedDBStorageService
+ * Uses fake-indexeddb as an in-memory IndexedDB implementation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBStorageService } from './IndexedDBStorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY } from './storageKeys.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { Course, Task } from '../models/types.js';
+import { arbitraryCourse, arbitraryTask } from '../utils/testGenerators.js';
+
+/**
+ * Open the storage service, failing the test if the database cannot be opened
+ */
+async function openStorage(factory: IDBFactory): Promise<IndexedDBStorageService> {
+  const result = await IndexedDBStorageService.open({ indexedDB: factory });
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.value;
+}
+
+/**
+ * Read the raw records of an object store
+ */
+async function readStore(factory: IDBFactory, storeName: string): Promise<any[]> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open('weekly-course-tracker');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const records = await new Promise<any[]>((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  db.close();
+  return records;
+}
+
+describe('IndexedDBStorageService', () => {
+  let factory: IDBFactory;
+  let storageService: IndexedDBStorageService;
+
+  beforeEach(async () => {
+    factory = new IDBFactory();
+    storageService = await openStorage(factory);
+  });
+
+  afterEach(() => {
+    storageService.close();
+  });
+
+  describe('open', () => {
+    it('should fail when IndexedDB is not available', async () => {
+      const result = await IndexedDBStorageService.open({ indexedDB: undefined });
+
+      // The test environment has no global indexedDB
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.name).toBe('StorageError');
+      }
+    });
+
+    it('should start empty', () => {
+      const result = storageService.load(COURSES_STORAGE_KEY);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('No data found');
+      }
+    });
+  });
+
+  describe('Storage round-trip', () => {
+    it('should preserve courses and tasks through save and load', () => {
+      fc.assert(
+        fc.property(
+          fc.array(arbitraryCourse(), { maxLength: 10 }),
+          fc.array(arbitraryTask(), { maxLength: 10 }),
+          (courses, tasks) => {
+            expect(storageService.save(COURSES_STORAGE_KEY, courses).success).toBe(true);
+            expect(storageService.save(TASKS_STORAGE_KEY, tasks).success).toBe(true);
+
+            const loadedCourses = storageService.load<Course[]>(COURSES_STORAGE_KEY);
+            const loadedTasks = storageService.load<Task[]>(TASKS_STORAGE_KEY);
+            expect(loadedCourses.success && loadedTasks.success).toBe(true);
+
+            if (loadedCourses.success && loadedTasks.success) {
+              const uniqueCourseIds = Array.from(new Set(courses.map(c => c.id)));
+              expect(loadedCourses.value.map(c => c.id)).toEqual(uniqueCourseIds);
+              loadedCourses.value.forEach(course => expect(course.createdAt).toBeInstanceOf(Date));
+
+              const uniqueTaskIds = Array.from(new Set(tasks.map(t => t.id)));
+              expect(loadedTasks.value.map(t => t.id)).toEqual(uniqueTaskIds);
+              loadedTasks.value.forEach(task => expect(task.deadline).toBeInstanceOf(Date));
+            }
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should persist data across database connections', async () => {
+      const course = { id: 'c1', name: 'CS101', department: 'CS', createdAt: new Date('2024-01-01T00:00:00.000Z') };
+      storageService.save(COURSES_STORAGE_KEY, [course]);
+      storageService.save('tracker:settings', { theme: 'dark' });
+
+      const flushResult = await storageService.flush();
+      expect(flushResult.success).toBe(true);
+      storageService.close();
+
+      storageService = await openStorage(factory);
+      const courses = storageService.load<Course[]>(COURSES_STORAGE_KEY);
+      expect(courses.success).toBe(true);
+      if (courses.success) {
+        expect(courses.value).toEqual([course]);
+      }
+
+      const settings = storageService.load<{ theme: string }>('tracker:settings');
+      expect(settings.success).toBe(true);
+      if (settings.success) {
+        expect(settings.value.theme).toBe('dark');
+      }
+    });
+
+    it('should preserve record order across database connections', async () => {
+      const tasks = ['z', 'a', 'm'].map(id => ({ id, description: id }));
+      storageService.save(TASKS_STORAGE_KEY, tasks);
+      await storageService.flush();
+      storageService.close();
+
+      storageService = await openStorage(factory);
+      const loaded = storageService.load<Array<{ id: string }>>(TASKS_STORAGE_KEY);
+      expect(loaded.success && loaded.value.map(t => t.id)).toEqual(['z', 'a', 'm']);
+    });
+
+    it('should return copies rather than the saved objects', () => {
+      const courses = [{ id: 'c1', name: 'CS101' }];
+      storageService.save(COURSES_STORAGE_KEY, courses);
+      courses[0].name = 'Changed';
+
+      const loaded = storageService.load<Array<{ name: string }>>(COURSES_STORAGE_KEY);
+      expect(loaded.success && loaded.value[0].name).toBe('CS101');
+    });
+  });
+
+  describe('Per-record storage', () => {
+    it('should store each course and task as its own record', async () => {
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1' }, { id: 'c2' }]);
+      storageService.save(TASKS_STORAGE_KEY, [{ id: 't1', courseId: 'c1' }]);
+      await storageService.flush();
+
+      expect((await readStore(factory, 'courses')).map(c => c.id).sort()).toEqual(['c1', 'c2']);
+      expect((await readStore(factory, 'tasks')).map(t => t.id)).toEqual(['t1']);
+    });
+
+    it('should remove records that are no longer in the saved array', async () => {
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1' }, { id: 'c2' }]);
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c2' }]);
+      await storageService.flush();
+
+      expect((await readStore(factory, 'courses')).map(c => c.id)).toEqual(['c2']);
+    });
+
+    it('should store dates as Date objects in records', async () => {
+      const createdAt = new Date('2024-03-01T10:00:00.000Z');
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1', createdAt }]);
+      await storageService.flush();
+
+      const [record] = await readStore(factory, 'courses');
+      expect(record.createdAt).toBeInstanceOf(Date);
+      expect(record.createdAt.getTime()).toBe(createdAt.getTime());
+    });
+
+    it('should reject record keys that are not arrays of records', () => {
+      const result = storageService.save(TASKS_STORAGE_KEY, { id: 't1' });
+      expect(result.success).toBe(false);
+
+      const missingId = storageService.save(TASKS_STORAGE_KEY, [{ description: 'No ID' }]);
+      expect(missingId.success).toBe(false);
+      if (!missingId.success) {
+        expect(missingId.error.name).toBe('StorageError');
+      }
+    });
+
+    it('should keep an empty array distinct from missing data', async () => {
+      storageService.save(TASKS_STORAGE_KEY, []);
+      await storageService.flush();
+      storageService.close();
+
+      storageService = await openStorage(factory);
+      const loaded = storageService.load<Task[]>(TASKS_STORAGE_KEY);
+      expect(loaded.success).toBe(true);
+      if (loaded.success) {
+        expect(loaded.value).toEqual([]);
+      }
+    });
+  });
+
+  describe('delete and clear', () => {
+    it('should delete a key and its records', async () => {
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      expect(storageService.delete(COURSES_STORAGE_KEY).success).toBe(true);
+      expect(storageService.load(COURSES_STORAGE_KEY).success).toBe(false);
+
+      await storageService.flush();
+      expect(await readStore(factory, 'courses')).toEqual([]);
+    });
+
+    it('should clear all keys', async () => {
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      storageService.save('tracker:settings', {});
+      expect(storageService.clear().success).toBe(true);
+
+      expect(storageService.load(COURSES_STORAGE_KEY).success).toBe(false);
+      expect(storageService.load('tracker:settings').success).toBe(false);
+
+      await storageService.flush();
+      storageService.close();
+      storageService = await openStorage(factory);
+      expect(storageService.load(COURSES_STORAGE_KEY).success).toBe(false);
+    });
+  });
+
+  describe('Transactions', () => {
+    it('should write staged courses and tasks together on commit', async () => {
+      storageService.beginTransaction();
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      storageService.save(TASKS_STORAGE_KEY, [{ id: 't1', courseId: 'c1' }]);
+      expect(storageService.load<Array<{ id: string }>>(TASKS_STORAGE_KEY).success).toBe(true);
+
+      expect(storageService.commitTransaction().success).toBe(true);
+      expect((await storageService.flush()).success).toBe(true);
+
+      expect((await readStore(factory, 'courses')).map(c => c.id)).toEqual(['c1']);
+      expect((await readStore(factory, 'tasks')).map(t => t.id)).toEqual(['t1']);
+    });
+
+    it('should discard staged writes on rollback', async () => {
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+
+      storageService.beginTransaction();
+      storageService.delete(COURSES_STORAGE_KEY);
+      storageService.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      storageService.rollbackTransaction();
+      await storageService.flush();
+
+      expect(storageService.load(COURSES_STORAGE_KEY).success).toBe(true);
+      expect(storageService.load(TASKS_STORAGE_KEY).success).toBe(false);
+      expect(await readStore(factory, 'tasks')).toEqual([]);
+    });
+
+    it('should reject invalid record data when it is staged', () => {
+      storageService.beginTransaction();
+      expect(storageService.save(TASKS_STORAGE_KEY, 'not records').success).toBe(false);
+      storageService.rollbackTransaction();
+    });
+  });
+
+  describe('TrackerService integration', () => {
+    it('should persist tracker data through the IndexedDB backend', async () => {
+      const tracker = new TrackerService(storageService);
+      tracker.initialize();
+
+      const course = tracker.createCourse('CS101', 'Computer Science');
+      expect(course.success).toBe(true);
+      if (!course.success) return;
+
+      const task = tracker.createTask(course.value.id, 'Assignment 1', new Date('2024-12-31T12:00:00'));
+      expect(task.success).toBe(true);
+
+      await storageService.flush();
+      storageService.close();
+
+      storageService = await openStorage(factory);
+      const reloaded = new TrackerService(storageService);
+      reloaded.initialize();
+
+      expect(reloaded.getAllCourses().map(c => c.name)).toEqual(['CS101']);
+      expect(reloaded.getAllTasks().map(t => t.description)).toEqual(['Assignment 1']);
+      expect(reloaded.getAllTasks()[0].deadline).toBeInstanceOf(Date);
+    });
+  });
+});
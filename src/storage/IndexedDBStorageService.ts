@@ -0,0 +1,579 @@
+/**
+ * IndexedDBStorageService provides persistent storage using IndexedDB
+ * Courses and tasks are kept as individual records in their own object stores,
+ * so a save only writes the records that actually changed
+ */
+
+import { Result } from '../models/types.js';
+import { StorageError } from '../models/errors.js';
+import { IStorageService, StagedWrite, dateReviver } from './StorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY } from './storageKeys.js';
+
+const DEFAULT_DATABASE_NAME = 'weekly-course-tracker';
+const DATABASE_VERSION = 1;
+
+/**
+ * Object store for keys that are not split into records
+ * Record keys also keep their ordered list of record IDs here
+ */
+const ENTRIES_STORE = 'entries';
+
+/**
+ * Storage keys whose array values are persisted as one record per element
+ */
+const RECORD_STORES: Record<string, string> = {
+  [COURSES_STORAGE_KEY]: 'courses',
+  [TASKS_STORAGE_KEY]: 'tasks'
+};
+
+/**
+ * Options for opening an IndexedDB-backed storage service
+ */
+export interface IndexedDBStorageOptions {
+  databaseName?: string;                           // Defaults to 'weekly-course-tracker'
+  indexedDB?: IDBFactory;                          // Defaults to the global indexedDB
+  onWriteError?: (error: StorageError) => void;    // Called when a background write fails
+}
+
+/**
+ * A persisted record - every element of a record key's array must have a string ID
+ */
+interface StoredRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+/**
+ * IndexedDB operations for one save or delete, prepared against the in-memory
+ * cache so several of them can be issued in a single transaction
+ */
+interface PreparedChange {
+  storeNames: string[];
+  apply(transaction: IDBTransaction): void;
+  updateCache(): void;
+}
+
+/**
+ * Wrap an IndexedDB request in a Promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Check that a value can be stored as an array of records
+ */
+function isRecordArray(value: unknown): value is StoredRecord[] {
+  return Array.isArray(value) && value.every(item =>
+    typeof item === 'object' && item !== null && typeof (item as StoredRecord).id === 'string'
+  );
+}
+
+/**
+ * Error for record keys saved with something other than an array of records
+ */
+function recordShapeError(key: string): Result<never, StorageError> {
+  return {
+    success: false,
+    error: new StorageError(`Failed to save data: "${key}" must be an array of records with string IDs`)
+  };
+}
+
+/**
+ * Convert a failed write into a StorageError
+ */
+function toWriteError(error: DOMException | null): StorageError {
+  if (error && (error.name === 'QuotaExceededError' || error.message.includes('quota'))) {
+    return new StorageError('Storage quota exceeded. Please free up space.');
+  }
+  return new StorageError(`Failed to save data: ${error ? error.message : 'Transaction aborted'}`);
+}
+
+/**
+ * StorageService implementation using IndexedDB
+ *
+ * IStorageService is synchronous, so all data is read into memory when the
+ * database is opened. Loads are served from memory and saves update memory
+ * immediately, while the IndexedDB writes complete in the background.
+ * Use flush() to wait for outstanding writes and observe their errors.
+ */
+export class IndexedDBStorageService implements IStorageService {
+  private db: IDBDatabase;
+  private entries: Map<string, string>;
+  private records: Map<string, Map<string, string>>;
+  private pendingWrites: Set<Promise<void>> = new Set();
+  private writeError: StorageError | null = null;
+  private staged: Map<string, StagedWrite> | null = null;
+  private onWriteError?: (error: StorageError) => void;
+
+  private constructor(
+    db: IDBDatabase,
+    entries: Map<string, string>,
+    records: Map<string, Map<string, string>>,
+    onWriteError?: (error: StorageError) => void
+  ) {
+    this.db = db;
+    this.entries = entries;
+    this.records = records;
+    this.onWriteError = onWriteError;
+  }
+
+  /**
+   * Open (and create or upgrade if needed) the tracker database
+   * and read its contents into memory
+   */
+  static async open(options: IndexedDBStorageOptions = {}): Promise<Result<IndexedDBStorageService, StorageError>> {
+    const factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    if (!factory) {
+      return {
+        success: false,
+        error: new StorageError('IndexedDB is not available in this environment')
+      };
+    }
+
+    try {
+      const request = factory.open(options.databaseName ?? DEFAULT_DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE);
+        }
+        for (const storeName of Object.values(RECORD_STORES)) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        }
+      };
+      const db = await requestToPromise(request);
+
+      const { entries, records } = await IndexedDBStorageService.readAll(db);
+      return {
+        success: true,
+        value: new IndexedDBStorageService(db, entries, records, options.onWriteError)
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        error: new StorageError(`Failed to open IndexedDB: ${message}`)
+      };
+    }
+  }
+
+  /**
+   * Read every entry and record from the database
+   */
+  private static async readAll(db: IDBDatabase): Promise<{
+    entries: Map<string, string>;
+    records: Map<string, Map<string, string>>;
+  }> {
+    const storeNames = [ENTRIES_STORE, ...Object.values(RECORD_STORES)];
+    const transaction = db.transaction(storeNames, 'readonly');
+
+    const entriesStore = transaction.objectStore(ENTRIES_STORE);
+    const [keys, values] = await Promise.all([
+      requestToPromise(entriesStore.getAllKeys()),
+      requestToPromise(entriesStore.getAll())
+    ]);
+    const entries = new Map<string, string>();
+    keys.forEach((key, index) => entries.set(String(key), values[index]));
+
+    const records = new Map<string, Map<string, string>>();
+    for (const [key, storeName] of Object.entries(RECORD_STORES)) {
+      const stored = await requestToPromise(transaction.objectStore(storeName).getAll());
+      if (stored.length === 0 && !entries.has(key)) {
+        continue;
+      }
+
+      const byId = new Map<string, string>(
+        stored.map((record: StoredRecord) => [record.id, JSON.stringify(record)])
+      );
+
+      // Restore the saved order, keeping records missing from the order list at the end
+      const order: string[] = entries.has(key) ? JSON.parse(entries.get(key)!) : [];
+      const ordered = new Map<string, string>();
+      for (const id of [...order, ...byId.keys()]) {
+        const serialized = byId.get(id);
+        if (serialized !== undefined && !ordered.has(id)) {
+          ordered.set(id, serialized);
+        }
+      }
+
+      records.set(key, ordered);
+      entries.set(key, JSON.stringify(Array.from(ordered.keys())));
+    }
+
+    return { entries, records };
+  }
+
+  /**
+   * Save data with the given key
+   * Record keys only write the records that were added, changed or removed
+   */
+  save<T>(key: string, data: T): Result<void, StorageError> {
+    try {
+      if (this.staged) {
+        if (RECORD_STORES[key] && !isRecordArray(data)) {
+          return recordShapeError(key);
+        }
+        // Match localStorage, which stores the string "undefined" for undefined values
+        this.staged.set(key, String(JSON.stringify(data)));
+        return { success: true, value: undefined };
+      }
+
+      const change = this.prepareSave(key, data);
+      if (!change.success) {
+        return change;
+      }
+      this.applyChanges([change.value]);
+      return { success: true, value: undefined };
+    } catch (error) {
+      if (error instanceof Error) {
+        return {
+          success: false,
+          error: new StorageError(`Failed to save data: ${error.message}`)
+        };
+      }
+      return {
+        success: false,
+        error: new StorageError('Failed to save data: Unknown error')
+      };
+    }
+  }
+
+  /**
+   * Prepare the writes for saving data under a key
+   */
+  private prepareSave<T>(key: string, data: T): Result<PreparedChange, StorageError> {
+    const storeName = RECORD_STORES[key];
+    if (storeName) {
+      return this.prepareRecords(key, storeName, data);
+    }
+
+    // Match localStorage, which stores the string "undefined" for undefined values
+    const serialized = String(JSON.stringify(data));
+    return {
+      success: true,
+      value: {
+        storeNames: [ENTRIES_STORE],
+        apply: transaction => transaction.objectStore(ENTRIES_STORE).put(serialized, key),
+        updateCache: () => this.entries.set(key, serialized)
+      }
+    };
+  }
+
+  /**
+   * Prepare the writes for saving an array of records into its object store
+   */
+  private prepareRecords<T>(key: string, storeName: string, data: T): Result<PreparedChange, StorageError> {
+    if (!isRecordArray(data)) {
+      return recordShapeError(key);
+    }
+
+    const previous = this.records.get(key) ?? new Map<string, string>();
+    const next = new Map<string, string>();
+    const changed: StoredRecord[] = [];
+
+    for (const record of data) {
+      const serialized = JSON.stringify(record);
+      next.set(record.id, serialized);
+      if (previous.get(record.id) !== serialized) {
+        changed.push(JSON.parse(serialized, dateReviver));
+      }
+    }
+
+    const removed = Array.from(previous.keys()).filter(id => !next.has(id));
+    const order = JSON.stringify(Array.from(next.keys()));
+    const orderChanged = this.entries.get(key) !== order;
+
+    return {
+      success: true,
+      value: {
+        storeNames: [storeName, ENTRIES_STORE],
+        apply: transaction => {
+          const store = transaction.objectStore(storeName);
+          changed.forEach(record => store.put(record));
+          removed.forEach(id => store.delete(id));
+          if (orderChanged) {
+            transaction.objectStore(ENTRIES_STORE).put(order, key);
+          }
+        },
+        updateCache: () => {
+          this.records.set(key, next);
+          this.entries.set(key, order);
+        }
+      }
+    };
+  }
+
+  /**
+   * Prepare the writes for deleting a key
+   */
+  private prepareDelete(key: string): PreparedChange {
+    const storeName = RECORD_STORES[key];
+    return {
+      storeNames: storeName ? [storeName, ENTRIES_STORE] : [ENTRIES_STORE],
+      apply: transaction => {
+        transaction.objectStore(ENTRIES_STORE).delete(key);
+        if (storeName) {
+          transaction.objectStore(storeName).clear();
+        }
+      },
+      updateCache: () => {
+        this.entries.delete(key);
+        this.records.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Issue prepared changes as a single IndexedDB transaction and update the cache
+   */
+  private applyChanges(changes: PreparedChange[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+    const storeNames = Array.from(new Set(changes.flatMap(change => change.storeNames)));
+    this.write(storeNames, transaction => changes.forEach(change => change.apply(transaction)));
+    changes.forEach(change => change.updateCache());
+  }
+
+  /**
+   * Load data with the given key
+   * Handles date deserialization and corrupted data
+   */
+  load<T>(key: string): Result<T, StorageError> {
+    const staged = this.staged?.get(key);
+    if (staged === null) {
+      return {
+        success: false,
+        error: new StorageError(`No data found for key: ${key}`)
+      };
+    }
+    if (staged !== undefined) {
+      return this.parse<T>(key, staged);
+    }
+
+    const serialized = this.entries.get(key);
+    if (serialized === undefined) {
+      return {
+        success: false,
+        error: new StorageError(`No data found for key: ${key}`)
+      };
+    }
+
+    try {
+      const records = this.records.get(key);
+      if (RECORD_STORES[key] && records) {
+        const value = Array.from(records.values()).map(record => JSON.parse(record, dateReviver));
+        return { success: true, value: value as T };
+      }
+
+      return this.parse<T>(key, serialized);
+    } catch {
+      return {
+        success: false,
+        error: new StorageError(`Corrupted data for key: ${key}`)
+      };
+    }
+  }
+
+  /**
+   * Parse a serialized value, reviving dates
+   */
+  private parse<T>(key: string, serialized: string): Result<T, StorageError> {
+    try {
+      return { success: true, value: JSON.parse(serialized, dateReviver) as T };
+    } catch {
+      return {
+        success: false,
+        error: new StorageError(`Corrupted data for key: ${key}`)
+      };
+    }
+  }
+
+  /**
+   * Delete data with the given key
+   */
+  delete(key: string): Result<void, StorageError> {
+    try {
+      if (this.staged) {
+        this.staged.set(key, null);
+        return { success: true, value: undefined };
+      }
+      this.applyChanges([this.prepareDelete(key)]);
+      return { success: true, value: undefined };
+    } catch (error) {
+      if (error instanceof Error) {
+        return {
+          success: false,
+          error: new StorageError(`Failed to delete data: ${error.message}`)
+        };
+      }
+      return {
+        success: false,
+        error: new StorageError('Failed to delete data: Unknown error')
+      };
+    }
+  }
+
+  /**
+   * Clear all data from storage
+   */
+  clear(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('Cannot clear storage during a transaction')
+      };
+    }
+
+    try {
+      const storeNames = [ENTRIES_STORE, ...Object.values(RECORD_STORES)];
+      this.write(storeNames, transaction => {
+        storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+      });
+      this.entries.clear();
+      this.records.clear();
+      return { success: true, value: undefined };
+    } catch (error) {
+      if (error instanceof Error) {
+        return {
+          success: false,
+          error: new StorageError(`Failed to clear storage: ${error.message}`)
+        };
+      }
+      return {
+        success: false,
+        error: new StorageError('Failed to clear storage: Unknown error')
+      };
+    }
+  }
+
+  /**
+   * Begin a transaction
+   * Saves and deletes are staged in memory until commit; loads see staged data
+   */
+  beginTransaction(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('A transaction is already in progress')
+      };
+    }
+    this.staged = new Map();
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Commit the staged writes as a single IndexedDB transaction
+   * IndexedDB applies all of them or none; a background failure is reported by flush()
+   */
+  commitTransaction(): Result<void, StorageError> {
+    if (!this.staged) {
+      return {
+        success: false,
+        error: new StorageError('No transaction in progress')
+      };
+    }
+
+    const staged = this.staged;
+    this.staged = null;
+
+    try {
+      const changes: PreparedChange[] = [];
+      for (const [key, serialized] of staged) {
+        if (serialized === null) {
+          changes.push(this.prepareDelete(key));
+          continue;
+        }
+        const change = this.prepareSave(key, JSON.parse(serialized, dateReviver));
+        if (!change.success) {
+          return change;
+        }
+        changes.push(change.value);
+      }
+
+      this.applyChanges(changes);
+      return { success: true, value: undefined };
+    } catch (error) {
+      if (error instanceof Error) {
+        return {
+          success: false,
+          error: new StorageError(`Failed to commit transaction: ${error.message}`)
+        };
+      }
+      return {
+        success: false,
+        error: new StorageError('Failed to commit transaction: Unknown error')
+      };
+    }
+  }
+
+  /**
+   * Discard the staged writes
+   */
+  rollbackTransaction(): void {
+    this.staged = null;
+  }
+
+  /**
+   * Check whether a transaction is in progress
+   */
+  isInTransaction(): boolean {
+    return this.staged !== null;
+  }
+
+  /**
+   * Wait for all outstanding writes to finish
+   * Returns the first write error since the last flush, if any
+   */
+  async flush(): Promise<Result<void, StorageError>> {
+    await Promise.all(Array.from(this.pendingWrites));
+
+    const error = this.writeError;
+    this.writeError = null;
+    if (error) {
+      return { success: false, error };
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Run a readwrite transaction in the background and track its completion
+   * IndexedDB runs transactions over overlapping stores in creation order,
+   * so writes are applied in the same order as the saves that issued them
+   */
+  private write(storeNames: string[], apply: (transaction: IDBTransaction) => void): void {
+    const transaction = this.db.transaction(storeNames, 'readwrite');
+    try {
+      apply(transaction);
+    } catch (error) {
+      transaction.abort();
+      throw error;
+    }
+
+    const done = new Promise<void>(resolve => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => {
+        const error = toWriteError(transaction.error);
+        this.writeError = this.writeError ?? error;
+        this.onWriteError?.(error);
+        resolve();
+      };
+    });
+
+    this.pendingWrites.add(done);
+    done.then(() => this.pendingWrites.delete(done));
+  }
+}
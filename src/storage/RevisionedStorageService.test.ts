@@ -0,0 +1,111 @@
+/**
+ * Tests for RevisionedStorageService conflict detection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageService } from './StorageService.js';
+import { RevisionedStorageService } from './RevisionedStorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, REVISIONS_STORAGE_KEY } from './storageKeys.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { ConflictError } from '../models/errors.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+/**
+ * Create a revision-checked storage service, as used by one browser tab
+ */
+function openTab(storage: Storage, onConflict?: (key: string) => void): RevisionedStorageService {
+  return new RevisionedStorageService(new StorageService(storage), { onConflict });
+}
+
+describe('RevisionedStorageService', () => {
+  let storage: MockStorage;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+  });
+
+  it('should bump the revision of tracked keys on every save', () => {
+    const tab = openTab(storage);
+
+    tab.save(TASKS_STORAGE_KEY, []);
+    tab.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+
+    const revision = tab.getRevision(TASKS_STORAGE_KEY);
+    expect(revision.success && revision.value).toBe(2);
+    expect(JSON.parse(storage.getItem(REVISIONS_STORAGE_KEY)!)).toEqual({ [TASKS_STORAGE_KEY]: 2 });
+  });
+
+  it('should not track other keys', () => {
+    const tab = openTab(storage);
+
+    tab.save('tracker:settings', { theme: 'dark' });
+
+    expect(storage.getItem(REVISIONS_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should reject a save based on data another tab has since changed', () => {
+    const conflicts: string[] = [];
+    const tabA = openTab(storage);
+    const tabB = openTab(storage, key => conflicts.push(key));
+    tabA.load(TASKS_STORAGE_KEY);
+    tabB.load(TASKS_STORAGE_KEY);
+
+    expect(tabA.save(TASKS_STORAGE_KEY, [{ id: 'from-a' }]).success).toBe(true);
+    const result = tabB.save(TASKS_STORAGE_KEY, [{ id: 'from-b' }]);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(ConflictError);
+      expect(result.error.name).toBe('ConflictError');
+    }
+    expect(conflicts).toEqual([TASKS_STORAGE_KEY]);
+    expect(JSON.parse(storage.getItem(TASKS_STORAGE_KEY)!)).toEqual([{ id: 'from-a' }]);
+  });
+
+  it('should accept the save after the data is loaded again', () => {
+    const tabA = openTab(storage);
+    const tabB = openTab(storage);
+    tabA.load(TASKS_STORAGE_KEY);
+    tabB.load(TASKS_STORAGE_KEY);
+    tabA.save(TASKS_STORAGE_KEY, [{ id: 'from-a' }]);
+
+    tabB.load(TASKS_STORAGE_KEY);
+
+    expect(tabB.save(TASKS_STORAGE_KEY, [{ id: 'from-a' }, { id: 'from-b' }]).success).toBe(true);
+  });
+
+  it('should keep revisions seen in a rolled back transaction out of its known revisions', () => {
+    const tabA = openTab(storage);
+    const tabB = openTab(storage);
+    tabA.load(COURSES_STORAGE_KEY);
+    tabB.load(COURSES_STORAGE_KEY);
+
+    tabA.beginTransaction();
+    tabA.save(COURSES_STORAGE_KEY, [{ id: 'staged' }]);
+    tabA.rollbackTransaction();
+
+    // Nothing was written, so tab B can still save, and tab A then sees the conflict
+    expect(tabB.save(COURSES_STORAGE_KEY, [{ id: 'from-b' }]).success).toBe(true);
+    expect(tabA.save(COURSES_STORAGE_KEY, [{ id: 'from-a' }]).success).toBe(false);
+  });
+
+  it('should stop one tab from overwriting tasks another tab created', () => {
+    const tabA = new TrackerService(openTab(storage));
+    const tabB = new TrackerService(openTab(storage));
+    tabA.initialize();
+    tabB.initialize();
+
+    const course = tabA.createCourse('CS101', 'Computer Science');
+    if (!course.success) throw course.error;
+    tabB.reload();
+
+    expect(tabA.createTask(course.value.id, 'From A', new Date('2024-12-31')).success).toBe(true);
+    expect(tabB.createTask(course.value.id, 'From B', new Date('2024-12-31')).success).toBe(false);
+
+    tabB.reload();
+    expect(tabB.createTask(course.value.id, 'From B', new Date('2024-12-31')).success).toBe(true);
+
+    const reloaded = new TrackerService(openTab(storage));
+    expect(reloaded.getAllTasks().map(t => t.description).sort()).toEqual(['From A', 'From B']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * RevisionedStorageService detects conflicting writes from other tabs
+ * Decorates another IStorageService and keeps a revision number per tracked key
+ */
+
+import { Result } from '../models/types.js';
+import { StorageError, ConflictError } from '../models/errors.js';
+import { IStorageService } from './StorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, TERMS_STORAGE_KEY, REVISIONS_STORAGE_KEY } from './storageKeys.js';
+
+/**
+ * Revision numbers stored under REVISIONS_STORAGE_KEY
+ */
+export type RevisionRecord = Record<string, number>;
+
+/**
+ * Keys whose writes are checked for conflicts by default
+ */
+export const DEFAULT_TRACKED_KEYS = [COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, TERMS_STORAGE_KEY];
+
+/**
+ * Options for RevisionedStorageService
+ */
+export interface RevisionedStorageOptions {
+  trackedKeys?: string[];
+  onConflict?: (key: string) => void;   // Called when a write is rejected
+}
+
+/**
+ * Storage decorator with optimistic concurrency for tracked keys
+ * Every save of a tracked key bumps its revision. A save is rejected with a ConflictError if the
+ * revision changed since this instance last loaded or saved the key, i.e. another tab wrote it in
+ * the meantime. The caller should reload the data and retry.
+ */
+export class RevisionedStorageService implements IStorageService {
+  private inner: IStorageService;
+  private trackedKeys: Set<string>;
+  private onConflict?: (key: string) => void;
+
+  // Revisions this instance has seen, and those seen inside the open transaction
+  private knownRevisions: Map<string, number> = new Map();
+  private stagedRevisions: Map<string, number> | null = null;
+
+  constructor(inner: IStorageService, options: RevisionedStorageOptions = {}) {
+    this.inner = inner;
+    this.trackedKeys = new Set(options.trackedKeys ?? DEFAULT_TRACKED_KEYS);
+    this.onConflict = options.onConflict;
+  }
+
+  /**
+   * Read the current revision numbers
+   */
+  private loadRevisions(): Result<RevisionRecord, StorageError> {
+    const result = this.inner.load<RevisionRecord>(REVISIONS_STORAGE_KEY);
+    if (!result.success) {
+      // No record yet means no tracked key has been written with revisions
+      if (result.error.message.startsWith('No data found')) {
+        return { success: true, value: {} };
+      }
+      return result;
+    }
+    return { success: true, value: result.value ?? {} };
+  }
+
+  /**
+   * Get the revision this instance last saw for a key
+   */
+  private getKnownRevision(key: string): number | undefined {
+    return this.stagedRevisions?.get(key) ?? this.knownRevisions.get(key);
+  }
+
+  /**
+   * Remember the revision this instance has seen for a key
+   */
+  private setKnownRevision(key: string, revision: number): void {
+    (this.stagedRevisions ?? this.knownRevisions).set(key, revision);
+  }
+
+  /**
+   * Get the current revision of a key (0 if it has never been written with revisions)
+   */
+  getRevision(key: string): Result<number, StorageError> {
+    const revisions = this.loadRevisions();
+    if (!revisions.success) {
+      return revisions;
+    }
+    return { success: true, value: revisions.value[key] ?? 0 };
+  }
+
+  save<T>(key: string, data: T): Result<void, StorageError> {
+    if (!this.trackedKeys.has(key)) {
+      return this.inner.save(key, data);
+    }
+
+    const revisions = this.loadRevisions();
+    if (!revisions.success) {
+      return revisions;
+    }
+
+    const current = revisions.value[key] ?? 0;
+    const known = this.getKnownRevision(key);
+    if (known !== undefined && known !== current) {
+      this.onConflict?.(key);
+      return {
+        success: false,
+        error: new ConflictError(`Data for key: ${key} was changed in another tab. Reload and try again.`)
+      };
+    }
+
+    const saveResult = this.inner.save(key, data);
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    const revisionResult = this.inner.save(REVISIONS_STORAGE_KEY, { ...revisions.value, [key]: current + 1 });
+    if (!revisionResult.success) {
+      return revisionResult;
+    }
+
+    this.setKnownRevision(key, current + 1);
+    return { success: true, value: undefined };
+  }
+
+  load<T>(key: string): Result<T, StorageError> {
+    if (this.trackedKeys.has(key)) {
+      // Record the revision before reading so a concurrent write is caught on the next save
+      const revision = this.getRevision(key);
+      if (revision.success) {
+        this.setKnownRevision(key, revision.value);
+      }
+    }
+    return this.inner.load<T>(key);
+  }
+
+  delete(key: string): Result<void, StorageError> {
+    return this.inner.delete(key);
+  }
+
+  clear(): Result<void, StorageError> {
+    const result = this.inner.clear();
+    if (result.success) {
+      this.knownRevisions.clear();
+    }
+    return result;
+  }
+
+  beginTransaction(): Result<void, StorageError> {
+    const result = this.inner.beginTransaction();
+    if (result.success) {
+      this.stagedRevisions = new Map();
+    }
+    return result;
+  }
+
+  commitTransaction(): Result<void, StorageError> {
+    const result = this.inner.commitTransaction();
+    if (result.success && this.stagedRevisions) {
+      this.stagedRevisions.forEach((revision, key) => this.knownRevisions.set(key, revision));
+    }
+    this.stagedRevisions = null;
+    return result;
+  }
+
+  rollbackTransaction(): void {
+    this.inner.rollbackTransaction();
+    this.stagedRevisions = null;
+  }
+
+  isInTransaction(): boolean {
+    return this.inner.isInTransaction();
+  }
+}
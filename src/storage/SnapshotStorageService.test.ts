@@ -0,0 +1,293 @@
+/**
+ * Tests for SnapshotStorageService backups and recovery
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StorageService } from './StorageService.js';
+import { SnapshotStorageService, SnapshotStorageOptions } from './SnapshotStorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, TERMS_STORAGE_KEY, SNAPSHOTS_STORAGE_KEY } from './storageKeys.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+/**
+ * Mock storage that throws like a browser once a quota of characters is used
+ */
+class QuotaStorage extends MockStorage {
+  constructor(private quota: number) {
+    super();
+  }
+
+  setItem(key: string, value: string): void {
+    let used = key.length + value.length;
+    for (let i = 0; i < this.length; i++) {
+      const other = this.key(i)!;
+      if (other !== key) {
+        used += other.length + this.getItem(other)!.length;
+      }
+    }
+    if (used > this.quota) {
+      const error = new Error('The quota has been exceeded.');
+      error.name = 'QuotaExceededError';
+      throw error;
+    }
+    super.setItem(key, value);
+  }
+}
+
+describe('SnapshotStorageService', () => {
+  let storage: MockStorage;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+  });
+
+  /**
+   * Create a snapshotting storage service over the mock storage
+   */
+  function openStorage(options: SnapshotStorageOptions = {}): SnapshotStorageService {
+    return new SnapshotStorageService(new StorageService(storage), options);
+  }
+
+  /**
+   * Get the snapshot summaries, failing the test if they cannot be read
+   */
+  function listSnapshots(snapshots: SnapshotStorageService) {
+    const result = snapshots.listSnapshots();
+    if (!result.success) throw result.error;
+    return result.value;
+  }
+
+  describe('Taking snapshots', () => {
+    it('should snapshot courses and tasks after a save', () => {
+      const snapshots = openStorage();
+      snapshots.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }, { id: 't2' }]);
+
+      const list = listSnapshots(snapshots);
+
+      expect(list[0]).toMatchObject({ kind: 'recent', courseCount: 1, taskCount: 2 });
+      expect(list[0].createdAt).toBeInstanceOf(Date);
+      expect(list.filter(s => s.kind === 'daily')).toHaveLength(1);
+    });
+
+    it('should not snapshot other keys', () => {
+      const snapshots = openStorage();
+      snapshots.save('tracker:settings', { theme: 'dark' });
+
+      expect(listSnapshots(snapshots)).toEqual([]);
+    });
+
+    it('should keep only the most recent snapshots', () => {
+      const snapshots = openStorage({ recentSnapshots: 3 });
+      for (let i = 1; i <= 5; i++) {
+        snapshots.save(TASKS_STORAGE_KEY, Array.from({ length: i }, (_, n) => ({ id: `t${n}` })));
+      }
+
+      const recent = listSnapshots(snapshots).filter(s => s.kind === 'recent');
+
+      expect(recent.map(s => s.taskCount)).toEqual([5, 4, 3]);
+    });
+
+    it('should skip a snapshot when nothing changed', () => {
+      const snapshots = openStorage();
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+
+      expect(listSnapshots(snapshots).filter(s => s.kind === 'recent')).toHaveLength(1);
+    });
+
+    it('should take one snapshot per committed transaction', () => {
+      const snapshots = openStorage();
+
+      snapshots.beginTransaction();
+      snapshots.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      snapshots.commitTransaction();
+
+      snapshots.beginTransaction();
+      snapshots.save(TASKS_STORAGE_KEY, []);
+      snapshots.rollbackTransaction();
+
+      const recent = listSnapshots(snapshots).filter(s => s.kind === 'recent');
+      expect(recent).toHaveLength(1);
+      expect(recent[0]).toMatchObject({ courseCount: 1, taskCount: 1 });
+    });
+  });
+
+  describe('Snapshot size', () => {
+    /**
+     * A task list whose serialized size grows with its length
+     */
+    function taskList(length: number) {
+      return Array.from({ length }, (_, n) => ({ id: `task-${n}`, description: 'x'.repeat(40) }));
+    }
+
+    it('should drop the oldest snapshots beyond the size limit', () => {
+      const snapshots = openStorage({ maxSnapshotSize: 1000 });
+      for (let i = 1; i <= 5; i++) {
+        snapshots.save(TASKS_STORAGE_KEY, taskList(i));
+      }
+
+      const list = listSnapshots(snapshots);
+      expect(storage.getItem(SNAPSHOTS_STORAGE_KEY)!.length).toBeLessThanOrEqual(1000);
+      expect(list[0]).toMatchObject({ kind: 'recent', taskCount: 5 });
+      expect(list.filter(s => s.kind === 'recent').length).toBeLessThan(5);
+    });
+
+    it('should keep the older snapshots when a new one alone is too large', () => {
+      const errors: string[] = [];
+      const snapshots = openStorage({ maxSnapshotSize: 1000, onSnapshotError: error => errors.push(error.message) });
+      snapshots.save(TASKS_STORAGE_KEY, taskList(1));
+      snapshots.save(TASKS_STORAGE_KEY, taskList(50));
+
+      expect(listSnapshots(snapshots).map(s => s.taskCount)).toEqual([1, 1]);
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should leave room for the data when storage is nearly full', () => {
+      storage = new QuotaStorage(6000);
+      const errors: string[] = [];
+      const snapshots = openStorage({ maxSnapshotSize: 1500, onSnapshotError: error => errors.push(error.message) });
+      for (let i = 1; i <= 10; i++) {
+        snapshots.save(TASKS_STORAGE_KEY, taskList(i % 3 + 1));
+      }
+
+      // Without the size limit, the snapshots of the small lists would fill the quota
+      const result = snapshots.save(TASKS_STORAGE_KEY, taskList(60));
+
+      expect(result.success).toBe(true);
+      expect(snapshots.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: taskList(60) });
+      expect(errors).toHaveLength(1);
+      expect(listSnapshots(snapshots).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Daily snapshots', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep the first snapshot of each day', () => {
+      vi.useFakeTimers();
+      const snapshots = openStorage({ dailySnapshots: 2 });
+
+      const days = ['2024-03-01T09:00:00', '2024-03-01T17:00:00', '2024-03-02T09:00:00', '2024-03-03T09:00:00'];
+      days.forEach((day, index) => {
+        vi.setSystemTime(new Date(day));
+        snapshots.save(TASKS_STORAGE_KEY, Array.from({ length: index + 1 }, (_, n) => ({ id: `t${n}` })));
+      });
+
+      const daily = listSnapshots(snapshots).filter(s => s.kind === 'daily');
+      expect(daily.map(s => s.createdAt.getDate())).toEqual([3, 2]);
+      expect(daily.map(s => s.taskCount)).toEqual([4, 3]);
+    });
+
+    it('should refer to the recent snapshot taken with it instead of copying it', () => {
+      const snapshots = openStorage();
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+
+      const stored = JSON.parse(storage.getItem(SNAPSHOTS_STORAGE_KEY)!);
+      const recent = stored.find((s: { kind: string }) => s.kind === 'recent');
+      const daily = stored.find((s: { kind: string }) => s.kind === 'daily');
+      expect(daily.data).toBeUndefined();
+      expect(daily.dataSnapshotId).toBe(recent.id);
+    });
+
+    it('should keep the data of a daily snapshot once its recent snapshot is dropped', () => {
+      const snapshots = openStorage({ recentSnapshots: 2 });
+      for (let i = 1; i <= 3; i++) {
+        snapshots.save(TASKS_STORAGE_KEY, Array.from({ length: i }, (_, n) => ({ id: `t${n}` })));
+      }
+
+      const list = listSnapshots(snapshots);
+      expect(list.filter(s => s.kind === 'recent').map(s => s.taskCount)).toEqual([3, 2]);
+      expect(list.filter(s => s.kind === 'daily').map(s => s.taskCount)).toEqual([1]);
+
+      const restored = snapshots.restoreSnapshot(list.find(s => s.kind === 'daily')!.id);
+      expect(restored.success).toBe(true);
+      expect(snapshots.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 't0' }] });
+    });
+  });
+
+  describe('Recovering from corrupted data', () => {
+    it('should fall back to the newest snapshot', () => {
+      const recovered: string[] = [];
+      const snapshots = openStorage({ onRecover: key => recovered.push(key) });
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }, { id: 't2' }]);
+      storage.setItem(TASKS_STORAGE_KEY, '{not json');
+
+      const result = snapshots.load(TASKS_STORAGE_KEY);
+
+      expect(result).toEqual({ success: true, value: [{ id: 't1' }, { id: 't2' }] });
+      expect(recovered).toEqual([TASKS_STORAGE_KEY]);
+    });
+
+    it('should recover terms too', () => {
+      const recovered: string[] = [];
+      const snapshots = openStorage({ onRecover: key => recovered.push(key) });
+      snapshots.save(TERMS_STORAGE_KEY, [{ id: 'term1' }]);
+      storage.setItem(TERMS_STORAGE_KEY, '{not json');
+
+      const result = snapshots.load(TERMS_STORAGE_KEY);
+
+      expect(result).toEqual({ success: true, value: [{ id: 'term1' }] });
+      expect(recovered).toEqual([TERMS_STORAGE_KEY]);
+    });
+
+    it('should report corruption when there is no snapshot', () => {
+      const snapshots = openStorage();
+      storage.setItem(TASKS_STORAGE_KEY, '{not json');
+
+      const result = snapshots.load(TASKS_STORAGE_KEY);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe(`Corrupted data for key: ${TASKS_STORAGE_KEY}`);
+      }
+    });
+
+    it('should keep the tracker from wiping tasks after corruption', () => {
+      const tracker = new TrackerService(openStorage());
+      tracker.initialize();
+      const course = tracker.createCourse('CS101', 'Computer Science');
+      if (!course.success) throw course.error;
+      tracker.createTask(course.value.id, 'Homework', new Date('2024-03-01'));
+      storage.setItem(TASKS_STORAGE_KEY, 'garbage');
+
+      const reopened = new TrackerService(openStorage());
+      reopened.createTask(course.value.id, 'Essay', new Date('2024-03-08'));
+
+      const tasks = new TrackerService(new StorageService(storage)).getAllTasks();
+      expect(tasks.map(t => t.description).sort()).toEqual(['Essay', 'Homework']);
+      expect(tasks.find(t => t.description === 'Homework')!.deadline).toEqual(new Date('2024-03-01'));
+    });
+  });
+
+  describe('Restoring snapshots', () => {
+    it('should replace the data with a snapshot', () => {
+      const snapshots = openStorage();
+      snapshots.save(COURSES_STORAGE_KEY, [{ id: 'c1' }]);
+      snapshots.save(TASKS_STORAGE_KEY, [{ id: 't1' }]);
+      const [checkpoint] = listSnapshots(snapshots);
+      snapshots.save(TASKS_STORAGE_KEY, []);
+
+      const result = snapshots.restoreSnapshot(checkpoint.id);
+
+      expect(result.success).toBe(true);
+      expect(snapshots.load(TASKS_STORAGE_KEY)).toEqual({ success: true, value: [{ id: 't1' }] });
+      // The restore is itself snapshotted, so it can be reverted
+      expect(listSnapshots(snapshots)[0]).toMatchObject({ kind: 'recent', taskCount: 1 });
+      expect(listSnapshots(snapshots)[1]).toMatchObject({ kind: 'recent', taskCount: 0 });
+    });
+
+    it('should reject an unknown snapshot', () => {
+      const result = openStorage().restoreSnapshot('missing');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.name).toBe('NotFoundError');
+      }
+    });
+  });
+});
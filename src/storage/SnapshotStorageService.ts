@@ -0,0 +1,352 @@
+/**
+ * SnapshotStorageService keeps rolling backups of the course, task and term lists
+ * Decorates another IStorageService; corrupted data is replaced by the newest valid snapshot
+ */
+
+import { Result, SnapshotKind, SnapshotSummary } from '../models/types.js';
+import { StorageError, NotFoundError } from '../models/errors.js';
+import { IStorageService, runInTransaction } from './StorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, TERMS_STORAGE_KEY, SNAPSHOTS_STORAGE_KEY } from './storageKeys.js';
+import { generateUUID } from '../utils/uuid.js';
+
+/**
+ * Number of snapshots kept of the most recent saves
+ */
+export const DEFAULT_RECENT_SNAPSHOTS = 10;
+
+/**
+ * Number of days for which the first snapshot of the day is kept
+ */
+export const DEFAULT_DAILY_SNAPSHOTS = 7;
+
+/**
+ * Largest serialized size of all snapshots together, in characters
+ * Keeps most of the storage quota free for the data itself.
+ */
+export const DEFAULT_MAX_SNAPSHOT_SIZE = 1024 * 1024;
+
+/**
+ * Keys copied into every snapshot
+ */
+export const DEFAULT_SNAPSHOT_KEYS = [COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, TERMS_STORAGE_KEY];
+
+/**
+ * A copy of the snapshot keys at one point in time
+ * A daily snapshot taken with a recent one refers to its data instead of holding a second copy.
+ */
+export interface Snapshot {
+  id: string;
+  kind: SnapshotKind;
+  createdAt: Date;
+  data?: Record<string, unknown>;   // Snapshot key -> value as saved
+  dataSnapshotId?: string;          // Recent snapshot holding the data when data is absent
+}
+
+/**
+ * Options for SnapshotStorageService
+ */
+export interface SnapshotStorageOptions {
+  snapshotKeys?: string[];                                   // Defaults to DEFAULT_SNAPSHOT_KEYS
+  recentSnapshots?: number;                                  // Defaults to DEFAULT_RECENT_SNAPSHOTS
+  dailySnapshots?: number;                                   // Defaults to DEFAULT_DAILY_SNAPSHOTS
+  maxSnapshotSize?: number;                                  // Defaults to DEFAULT_MAX_SNAPSHOT_SIZE
+  onRecover?: (key: string, snapshot: SnapshotSummary) => void;   // Called when corrupted data is replaced
+  onSnapshotError?: (error: StorageError) => void;           // Called when a snapshot cannot be saved
+}
+
+/**
+ * Get the data of a snapshot, following a reference to the recent snapshot holding it
+ */
+function getSnapshotData(snapshot: Snapshot, snapshots: Snapshot[]): Record<string, unknown> {
+  if (snapshot.data) {
+    return snapshot.data;
+  }
+  return snapshots.find(s => s.id === snapshot.dataSnapshotId)?.data ?? {};
+}
+
+/**
+ * Summarize a snapshot
+ */
+function summarize(snapshot: Snapshot, data: Record<string, unknown>): SnapshotSummary {
+  const count = (value: unknown) => (Array.isArray(value) ? value.length : 0);
+  return {
+    id: snapshot.id,
+    kind: snapshot.kind,
+    createdAt: snapshot.createdAt,
+    courseCount: count(data[COURSES_STORAGE_KEY]),
+    taskCount: count(data[TASKS_STORAGE_KEY])
+  };
+}
+
+/**
+ * Check whether two dates fall on the same local calendar day
+ */
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * Storage decorator that snapshots the snapshot keys after every save
+ *
+ * Snapshots are stored newest first under SNAPSHOTS_STORAGE_KEY. A snapshot is taken after each
+ * save outside a transaction and once per committed transaction; the first snapshot of each day
+ * is also kept as a daily snapshot. The oldest snapshots are dropped once all of them together
+ * exceed maxSnapshotSize, so they never crowd out the data. Snapshots are backups, so failing to
+ * write one never fails the save that triggered it.
+ */
+export class SnapshotStorageService implements IStorageService {
+  private inner: IStorageService;
+  private snapshotKeys: Set<string>;
+  private recentSnapshots: number;
+  private dailySnapshots: number;
+  private maxSnapshotSize: number;
+  private onRecover?: (key: string, snapshot: SnapshotSummary) => void;
+  private onSnapshotError?: (error: StorageError) => void;
+
+  // Whether a snapshot key was written in the open transaction
+  private pendingSnapshot: boolean = false;
+
+  constructor(inner: IStorageService, options: SnapshotStorageOptions = {}) {
+    this.inner = inner;
+    this.snapshotKeys = new Set(options.snapshotKeys ?? DEFAULT_SNAPSHOT_KEYS);
+    this.recentSnapshots = options.recentSnapshots ?? DEFAULT_RECENT_SNAPSHOTS;
+    this.dailySnapshots = options.dailySnapshots ?? DEFAULT_DAILY_SNAPSHOTS;
+    this.maxSnapshotSize = options.maxSnapshotSize ?? DEFAULT_MAX_SNAPSHOT_SIZE;
+    this.onRecover = options.onRecover;
+    this.onSnapshotError = options.onSnapshotError;
+  }
+
+  // ==================== Snapshots ====================
+
+  /**
+   * List the snapshots, newest first
+   */
+  listSnapshots(): Result<SnapshotSummary[], StorageError> {
+    const snapshots = this.loadSnapshots();
+    if (!snapshots.success) {
+      return snapshots;
+    }
+    return { success: true, value: snapshots.value.map(s => summarize(s, getSnapshotData(s, snapshots.value))) };
+  }
+
+  /**
+   * Replace the current data with a snapshot
+   * The restore is saved like any other change, so it is snapshotted too and can be reverted.
+   */
+  restoreSnapshot(id: string): Result<SnapshotSummary, Error> {
+    const snapshots = this.loadSnapshots();
+    if (!snapshots.success) {
+      return snapshots;
+    }
+
+    const snapshot = snapshots.value.find(s => s.id === id);
+    if (!snapshot) {
+      return {
+        success: false,
+        error: new NotFoundError(`Snapshot with ID ${id} not found`)
+      };
+    }
+    const data = getSnapshotData(snapshot, snapshots.value);
+
+    const result = runInTransaction(this, (): Result<void, Error> => {
+      for (const key of this.snapshotKeys) {
+        const writeResult = key in data ? this.save(key, data[key]) : this.delete(key);
+        if (!writeResult.success) {
+          return writeResult;
+        }
+      }
+      return { success: true, value: undefined };
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    return { success: true, value: summarize(snapshot, data) };
+  }
+
+  /**
+   * Read the stored snapshots
+   */
+  private loadSnapshots(): Result<Snapshot[], StorageError> {
+    const result = this.inner.load<Snapshot[]>(SNAPSHOTS_STORAGE_KEY);
+    if (!result.success) {
+      if (result.error.message.startsWith('No data found')) {
+        return { success: true, value: [] };
+      }
+      return result;
+    }
+    return { success: true, value: Array.isArray(result.value) ? result.value : [] };
+  }
+
+  /**
+   * Snapshot the current values of the snapshot keys
+   */
+  private takeSnapshot(): void {
+    const snapshots = this.loadSnapshots();
+    // Unreadable snapshots are replaced rather than blocking new ones
+    const existing = snapshots.success ? snapshots.value : [];
+
+    const data: Record<string, unknown> = {};
+    for (const key of this.snapshotKeys) {
+      const result = this.inner.load<unknown>(key);
+      if (result.success) {
+        data[key] = result.value;
+      }
+    }
+
+    const recent = existing.filter(s => s.kind === 'recent');
+    const daily = existing.filter(s => s.kind === 'daily');
+    if (recent.length > 0 && JSON.stringify(recent[0].data) === JSON.stringify(data)) {
+      return;
+    }
+
+    const createdAt = new Date();
+    const snapshot: Snapshot = { id: generateUUID(), kind: 'recent', createdAt, data };
+    recent.unshift(snapshot);
+    if (!daily.some(s => isSameDay(s.createdAt, createdAt))) {
+      daily.unshift({ id: generateUUID(), kind: 'daily', createdAt, dataSnapshotId: snapshot.id });
+    }
+
+    this.saveSnapshots(recent, daily);
+  }
+
+  /**
+   * Save the snapshots within the count and size limits
+   * The oldest recent snapshots are dropped first, then the oldest daily ones. Nothing is saved
+   * when the newest snapshot alone exceeds maxSnapshotSize, so the older ones are kept.
+   */
+  private saveSnapshots(recent: Snapshot[], daily: Snapshot[]): void {
+    // A daily snapshot whose recent snapshot is dropped takes over its data
+    const dataById = new Map(recent.map(s => [s.id, s.data]));
+    const arrange = (): Snapshot[] => {
+      const kept = new Set(recent.map(s => s.id));
+      const ownData = daily.map(s => (s.dataSnapshotId && !kept.has(s.dataSnapshotId)
+        ? { id: s.id, kind: s.kind, createdAt: s.createdAt, data: dataById.get(s.dataSnapshotId) }
+        : s));
+      return [...recent, ...ownData].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    };
+
+    recent = recent.slice(0, this.recentSnapshots);
+    daily = daily.slice(0, this.dailySnapshots);
+    let snapshots = arrange();
+    while (JSON.stringify(snapshots).length > this.maxSnapshotSize && recent.length + daily.length > 1) {
+      if (recent.length > 1) {
+        recent = recent.slice(0, -1);
+      } else {
+        daily = daily.slice(0, -1);
+      }
+      snapshots = arrange();
+    }
+    if (JSON.stringify(snapshots).length > this.maxSnapshotSize) {
+      this.onSnapshotError?.(new StorageError('Snapshot exceeds the snapshot size limit'));
+      return;
+    }
+
+    let result = this.inner.save(SNAPSHOTS_STORAGE_KEY, snapshots);
+    while (!result.success && result.error.message.includes('quota') && recent.length > 1) {
+      recent = recent.slice(0, -1);
+      result = this.inner.save(SNAPSHOTS_STORAGE_KEY, arrange());
+    }
+
+    if (!result.success) {
+      this.onSnapshotError?.(result.error);
+    }
+  }
+
+  /**
+   * Find the newest snapshot holding a value for a key, with its data
+   */
+  private findRecoverySnapshot(key: string): { snapshot: Snapshot; data: Record<string, unknown> } | null {
+    const snapshots = this.loadSnapshots();
+    if (!snapshots.success) {
+      return null;
+    }
+    for (const snapshot of snapshots.value) {
+      const data = getSnapshotData(snapshot, snapshots.value);
+      if (key in data) {
+        return { snapshot, data };
+      }
+    }
+    return null;
+  }
+
+  // ==================== IStorageService ====================
+
+  save<T>(key: string, data: T): Result<void, StorageError> {
+    const result = this.inner.save(key, data);
+    if (result.success && this.snapshotKeys.has(key)) {
+      if (this.inner.isInTransaction()) {
+        this.pendingSnapshot = true;
+      } else {
+        this.takeSnapshot();
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Load data with the given key
+   * Corrupted data of a snapshot key is replaced by the value in the newest snapshot that has one
+   */
+  load<T>(key: string): Result<T, StorageError> {
+    const result = this.inner.load<T>(key);
+    if (result.success || !this.snapshotKeys.has(key) || !result.error.message.startsWith('Corrupted data')) {
+      return result;
+    }
+
+    const recovery = this.findRecoverySnapshot(key);
+    if (!recovery) {
+      return result;
+    }
+
+    this.onRecover?.(key, summarize(recovery.snapshot, recovery.data));
+    return { success: true, value: recovery.data[key] as T };
+  }
+
+  delete(key: string): Result<void, StorageError> {
+    const result = this.inner.delete(key);
+    if (result.success && this.snapshotKeys.has(key)) {
+      if (this.inner.isInTransaction()) {
+        this.pendingSnapshot = true;
+      } else {
+        this.takeSnapshot();
+      }
+    }
+    return result;
+  }
+
+  clear(): Result<void, StorageError> {
+    return this.inner.clear();
+  }
+
+  beginTransaction(): Result<void, StorageError> {
+    const result = this.inner.beginTransaction();
+    if (result.success) {
+      this.pendingSnapshot = false;
+    }
+    return result;
+  }
+
+  /**
+   * Commit the transaction, then snapshot it once if it changed a snapshot key
+   */
+  commitTransaction(): Result<void, StorageError> {
+    const snapshot = this.pendingSnapshot;
+    this.pendingSnapshot = false;
+
+    const result = this.inner.commitTransaction();
+    if (result.success && snapshot) {
+      this.takeSnapshot();
+    }
+    return result;
+  }
+
+  rollbackTransaction(): void {
+    this.pendingSnapshot = false;
+    this.inner.rollbackTransaction();
+  }
+
+  isInTransaction(): boolean {
+    return this.inner.isInTransaction();
+  }
+}
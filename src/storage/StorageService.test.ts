@@ -4,41 +4,10 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
-import { StorageService } from './StorageService.js';
+import { StorageService, runInTransaction } from './StorageService.js';
 import { Course, Task } from '../models/types.js';
 import { arbitraryCourse, arbitraryTask } from '../utils/testGenerators.js';
-
-/**
- * Mock Storage implementation for testing
- */
-class MockStorage implements Storage {
-  private store: Map<string, string> = new Map();
-
-  get length(): number {
-    return this.store.size;
-  }
-
-  clear(): void {
-    this.store.clear();
-  }
-
-  getItem(key: string): string | null {
-    return this.store.get(key) ?? null;
-  }
-
-  key(index: number): string | null {
-    const keys = Array.from(this.store.keys());
-    return keys[index] ?? null;
-  }
-
-  removeItem(key: string): void {
-    this.store.delete(key);
-  }
-
-  setItem(key: string, value: string): void {
-    this.store.set(key, value);
-  }
-}
+import { MockStorage } from '../utils/mockStorage.js';
 
 describe('StorageService', () => {
   let storage: MockStorage;
@@ -482,4 +451,109 @@ describe('StorageService', () => {
       }
     });
   });
+
+  describe('Transactions', () => {
+    it('should stage writes until commit', () => {
+      expect(storageService.beginTransaction().success).toBe(true);
+      storageService.save('courses', [{ id: 'c1' }]);
+
+      // Staged data is visible through load but not yet written
+      expect(storageService.load('courses').success).toBe(true);
+      expect(storage.getItem('courses')).toBeNull();
+
+      expect(storageService.commitTransaction().success).toBe(true);
+      expect(storage.getItem('courses')).not.toBeNull();
+      expect(storageService.isInTransaction()).toBe(false);
+    });
+
+    it('should discard staged writes and deletes on rollback', () => {
+      storageService.save('courses', [{ id: 'c1' }]);
+
+      storageService.beginTransaction();
+      storageService.save('tasks', [{ id: 't1' }]);
+      storageService.delete('courses');
+      expect(storageService.load('courses').success).toBe(false);
+      storageService.rollbackTransaction();
+
+      expect(storage.getItem('tasks')).toBeNull();
+      expect(storageService.load('courses').success).toBe(true);
+    });
+
+    it('should reject nested transactions and commits without a transaction', () => {
+      expect(storageService.commitTransaction().success).toBe(false);
+
+      storageService.beginTransaction();
+      expect(storageService.beginTransaction().success).toBe(false);
+      expect(storageService.clear().success).toBe(false);
+      storageService.rollbackTransaction();
+    });
+
+    it('should restore every key when a commit fails part way', () => {
+      // Storage without room for new keys
+      class FullStorage extends MockStorage {
+        full = false;
+        setItem(key: string, value: string): void {
+          if (this.full && this.getItem(key) === null) {
+            const error: any = new Error('QuotaExceededError');
+            error.name = 'QuotaExceededError';
+            throw error;
+          }
+          super.setItem(key, value);
+        }
+      }
+
+      const limited = new FullStorage();
+      const service = new StorageService(limited);
+      service.save('a', 'old a');
+      service.save('b', 'old b');
+
+      limited.full = true;
+      service.beginTransaction();
+      service.save('a', 'new a');
+      service.save('b', 'new b');
+      service.save('c', 'new c');
+      const result = service.commitTransaction();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('quota');
+      }
+      expect(JSON.parse(limited.getItem('a')!)).toBe('old a');
+      expect(JSON.parse(limited.getItem('b')!)).toBe('old b');
+      expect(limited.getItem('c')).toBeNull();
+    });
+
+    it('should commit when the work in runInTransaction succeeds', () => {
+      const result = runInTransaction(storageService, () => {
+        storageService.save('a', 1);
+        storageService.save('b', 2);
+        return { success: true, value: 'done' };
+      });
+
+      expect(result.success && result.value).toBe('done');
+      expect(storage.getItem('a')).toBe('1');
+      expect(storage.getItem('b')).toBe('2');
+    });
+
+    it('should roll back when the work in runInTransaction fails', () => {
+      const result = runInTransaction(storageService, () => {
+        storageService.save('a', 1);
+        return { success: false, error: new Error('validation failed') };
+      });
+
+      expect(result.success).toBe(false);
+      expect(storage.getItem('a')).toBeNull();
+      expect(storageService.isInTransaction()).toBe(false);
+    });
+
+    it('should join an open transaction instead of committing it', () => {
+      storageService.beginTransaction();
+      runInTransaction(storageService, () => storageService.save('a', 1));
+
+      expect(storageService.isInTransaction()).toBe(true);
+      expect(storage.getItem('a')).toBeNull();
+      storageService.commitTransaction();
+      expect(storage.getItem('a')).toBe('1');
+    });
+  });
 });
@@ -14,13 +14,63 @@ export interface IStorageService {
   load<T>(key: string): Result<T, StorageError>;
   delete(key: string): Result<void, StorageError>;
   clear(): Result<void, StorageError>;
+  
+  // Transactions: saves and deletes are staged until commit, then applied all-or-nothing
+  beginTransaction(): Result<void, StorageError>;
+  commitTransaction(): Result<void, StorageError>;
+  rollbackTransaction(): void;
+  isInTransaction(): boolean;
+}
+
+/**
+ * A staged write inside a transaction: serialized data, or null for a delete
+ */
+export type StagedWrite = string | null;
+
+/**
+ * Run work inside a storage transaction
+ * Commits when the work succeeds and rolls back when the work or the commit fails.
+ * If a transaction is already open, the work joins it and the outer caller commits.
+ */
+export function runInTransaction<T>(
+  storage: IStorageService,
+  work: () => Result<T, Error>
+): Result<T, Error> {
+  if (storage.isInTransaction()) {
+    return work();
+  }
+
+  const beginResult = storage.beginTransaction();
+  if (!beginResult.success) {
+    return { success: false, error: beginResult.error };
+  }
+
+  let result: Result<T, Error>;
+  try {
+    result = work();
+  } catch (error) {
+    storage.rollbackTransaction();
+    throw error;
+  }
+
+  if (!result.success) {
+    storage.rollbackTransaction();
+    return result;
+  }
+
+  const commitResult = storage.commitTransaction();
+  if (!commitResult.success) {
+    return { success: false, error: commitResult.error };
+  }
+
+  return result;
 }
 
 /**
  * Custom JSON reviver to handle Date deserialization
  * Converts ISO date strings back to Date objects
  */
-function dateReviver(_key: string, value: any): any {
+export function dateReviver(_key: string, value: any): any {
   // Check if the value is a string that looks like an ISO date
   if (typeof value === 'string') {
     // ISO 8601 date format: YYYY-MM-DDTHH:mm:ss.sssZ
@@ -41,6 +91,7 @@ function dateReviver(_key: string, value: any): any {
  */
 export class StorageService implements IStorageService {
   private storage: Storage;
+  private staged: Map<string, StagedWrite> | null = null;
 
   constructor(storage: Storage = localStorage) {
     this.storage = storage;
@@ -54,6 +105,10 @@ export class StorageService implements IStorageService {
     try {
       // JSON.stringify automatically converts Date objects to ISO strings via toJSON()
       const serialized = JSON.stringify(data);
+      if (this.staged) {
+        this.staged.set(key, serialized);
+        return { success: true, value: undefined };
+      }
       this.storage.setItem(key, serialized);
       return { success: true, value: undefined };
     } catch (error) {
@@ -85,7 +140,7 @@ export class StorageService implements IStorageService {
    */
   load<T>(key: string): Result<T, StorageError> {
     try {
-      const serialized = this.storage.getItem(key);
+      const serialized = this.staged?.has(key) ? this.staged.get(key)! : this.storage.getItem(key);
       
       if (serialized === null) {
         return { 
@@ -121,6 +176,10 @@ export class StorageService implements IStorageService {
    */
   delete(key: string): Result<void, StorageError> {
     try {
+      if (this.staged) {
+        this.staged.set(key, null);
+        return { success: true, value: undefined };
+      }
       this.storage.removeItem(key);
       return { success: true, value: undefined };
     } catch (error) {
@@ -141,6 +200,13 @@ export class StorageService implements IStorageService {
    * Clear all data from storage
    */
   clear(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('Cannot clear storage during a transaction')
+      };
+    }
+    
     try {
       this.storage.clear();
       return { success: true, value: undefined };
@@ -157,4 +223,101 @@ export class StorageService implements IStorageService {
       };
     }
   }
+
+  /**
+   * Begin a transaction
+   * Saves and deletes are staged in memory until commit; loads see staged data
+   */
+  beginTransaction(): Result<void, StorageError> {
+    if (this.staged) {
+      return {
+        success: false,
+        error: new StorageError('A transaction is already in progress')
+      };
+    }
+    this.staged = new Map();
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Commit the staged writes
+   * If any write fails, the keys written so far are restored to their previous values
+   */
+  commitTransaction(): Result<void, StorageError> {
+    if (!this.staged) {
+      return {
+        success: false,
+        error: new StorageError('No transaction in progress')
+      };
+    }
+
+    const staged = this.staged;
+    this.staged = null;
+    const previousValues = new Map<string, string | null>();
+
+    try {
+      for (const [key, serialized] of staged) {
+        previousValues.set(key, this.storage.getItem(key));
+        if (serialized === null) {
+          this.storage.removeItem(key);
+        } else {
+          this.storage.setItem(key, serialized);
+        }
+      }
+      return { success: true, value: undefined };
+    } catch (error) {
+      this.restore(previousValues);
+      if (error instanceof Error) {
+        if (error.name === 'QuotaExceededError' || 
+            error.message.includes('quota') ||
+            error.message.includes('storage')) {
+          return { 
+            success: false, 
+            error: new StorageError('Storage quota exceeded. Please free up space.')
+          };
+        }
+        return {
+          success: false,
+          error: new StorageError(`Failed to commit transaction: ${error.message}`)
+        };
+      }
+      return {
+        success: false,
+        error: new StorageError('Failed to commit transaction: Unknown error')
+      };
+    }
+  }
+
+  /**
+   * Discard the staged writes
+   */
+  rollbackTransaction(): void {
+    this.staged = null;
+  }
+
+  /**
+   * Check whether a transaction is in progress
+   */
+  isInTransaction(): boolean {
+    return this.staged !== null;
+  }
+
+  /**
+   * Restore keys to the values they had before a failed commit
+   */
+  private restore(previousValues: Map<string, string | null>): void {
+    const entries = Array.from(previousValues.entries()).reverse();
+    for (const [key, value] of entries) {
+      try {
+        if (value === null) {
+          this.storage.removeItem(key);
+        } else {
+          this.storage.setItem(key, value);
+        }
+      } catch {
+        // Restoring a previous value frees or reuses space, so this only fails
+        // if the storage itself is unavailable; keep restoring the other keys
+      }
+    }
+  }
 }
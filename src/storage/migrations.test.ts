@@ -0,0 +1,325 @@
+/**
+ * Tests for schema versioning and migrations
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { StorageService } from './StorageService.js';
+import {
+  MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  Migration,
+  PersistedData,
+  migrateData,
+  getSchemaVersion,
+  runMigrations
+} from './migrations.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, SCHEMA_VERSION_STORAGE_KEY } from './storageKeys.js';
+import { TrackerService } from '../services/TrackerService.js';
+import { arbitraryCourse, arbitraryTask } from '../utils/testGenerators.js';
+import { MockStorage } from '../utils/mockStorage.js';
+
+/**
+ * Find a migration by the version it upgrades to
+ */
+function getMigration(version: number): Migration {
+  const migration = MIGRATIONS.find(m => m.version === version);
+  if (!migration) {
+    throw new Error(`No migration for version ${version}`);
+  }
+  return migration;
+}
+
+describe('Migrations', () => {
+  let storage: MockStorage;
+  let storageService: StorageService;
+
+  beforeEach(() => {
+    storage = new MockStorage();
+    storageService = new StorageService(storage);
+  });
+
+  describe('MIGRATIONS', () => {
+    it('should be ordered by consecutive versions starting at 1', () => {
+      MIGRATIONS.forEach((migration, index) => {
+        expect(migration.version).toBe(index + 1);
+      });
+      expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+    });
+
+    it('should keep valid current records intact when migrating from version 0', () => {
+      fc.assert(
+        fc.property(
+          fc.array(arbitraryCourse(), { maxLength: 5 }),
+          fc.array(arbitraryTask(), { maxLength: 5 }),
+          (courses, tasks) => {
+            const result = migrateData({ courses, tasks }, 0);
+            expect(result.success).toBe(true);
+            if (result.success) {
+              expect(result.value.data.courses.map(c => c.id)).toEqual(courses.map(c => c.id));
+              expect(result.value.data.tasks.map(t => t.id)).toEqual(tasks.map(t => t.id));
+              result.value.data.tasks.forEach((task, i) => {
+                expect(task.description).toBe(tasks[i].description);
+                expect(task.deadline.getTime()).toBe(tasks[i].deadline.getTime());
+              });
+            }
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Migration 1: normalize unversioned records', () => {
+    const migration = getMigration(1);
+
+    it('should convert timestamps and non-ISO date strings to Dates', () => {
+      const data: PersistedData = {
+        courses: [{ id: 'c1', name: 'CS101', department: 'CS', createdAt: 1704067200000 }],
+        tasks: [{
+          id: 't1',
+          courseId: 'c1',
+          description: 'Essay',
+          deadline: '2024-03-01T12:00:00Z',
+          completed: true,
+          completedAt: '2024-02-28',
+          createdAt: 1704067200000
+        }]
+      };
+
+      const result = migration.migrate(data);
+
+      expect(result.courses[0].createdAt).toEqual(new Date(1704067200000));
+      expect(result.tasks[0].deadline).toEqual(new Date('2024-03-01T12:00:00Z'));
+      expect(result.tasks[0].completedAt).toEqual(new Date('2024-02-28'));
+      expect(result.tasks[0].createdAt).toEqual(new Date(1704067200000));
+    });
+
+    it('should coerce the completed flag and drop completedAt on incomplete tasks', () => {
+      const result = migration.migrate({
+        courses: [],
+        tasks: [
+          { id: 't1', deadline: new Date(), completedAt: new Date() },
+          { id: 't2', deadline: new Date(), completed: 'yes' }
+        ]
+      });
+
+      expect(result.tasks[0].completed).toBe(false);
+      expect(result.tasks[0]).not.toHaveProperty('completedAt');
+      expect(result.tasks[1].completed).toBe(false);
+    });
+
+    it('should drop records without an ID and tasks without a valid deadline', () => {
+      const result = migration.migrate({
+        courses: [{ name: 'No ID' }, null, { id: 'c1', name: 'CS101' }],
+        tasks: [{ id: 't1', deadline: 'not a date' }, { id: 't2', deadline: new Date() }]
+      });
+
+      expect(result.courses.map(c => c.id)).toEqual(['c1']);
+      expect(result.tasks.map(t => t.id)).toEqual(['t2']);
+    });
+
+    it('should not mutate its input', () => {
+      const task = { id: 't1', deadline: 1704067200000, completed: false, completedAt: 5 };
+      migration.migrate({ courses: [], tasks: [task] });
+
+      expect(task.deadline).toBe(1704067200000);
+      expect(task.completedAt).toBe(5);
+    });
+  });
+
+  describe('Migration 2: add task priorities', () => {
+    const migration = getMigration(2);
+
+    it('should give tasks and series definitions without a known priority the normal priority', () => {
+      const result = migration.migrate({
+        courses: [],
+        tasks: [
+          { id: 't1' },
+          { id: 't2', priority: 'high' },
+          { id: 't3', priority: 'urgent', recurrence: { description: 'Reading' } }
+        ]
+      });
+
+      expect(result.tasks.map(t => t.priority)).toEqual(['normal', 'high', 'normal']);
+      expect(result.tasks[2].recurrence.priority).toBe('normal');
+    });
+
+    it('should not mutate its input', () => {
+      const task = { id: 't1', recurrence: { description: 'Reading' } };
+      migration.migrate({ courses: [], tasks: [task] });
+
+      expect(task).not.toHaveProperty('priority');
+      expect(task.recurrence).not.toHaveProperty('priority');
+    });
+  });
+
+  describe('Migration 3: add task categories', () => {
+    const migration = getMigration(3);
+
+    it('should give tasks and series definitions without a known category the assignment category', () => {
+      const result = migration.migrate({
+        courses: [],
+        tasks: [
+          { id: 't1' },
+          { id: 't2', category: 'exam' },
+          { id: 't3', category: 'homework', recurrence: { description: 'Reading' } }
+        ]
+      });
+
+      expect(result.tasks.map(t => t.category)).toEqual(['assignment', 'exam', 'assignment']);
+      expect(result.tasks[2].recurrence.category).toBe('assignment');
+    });
+
+    it('should not mutate its input', () => {
+      const task = { id: 't1', recurrence: { description: 'Reading' } };
+      migration.migrate({ courses: [], tasks: [task] });
+
+      expect(task).not.toHaveProperty('category');
+      expect(task.recurrence).not.toHaveProperty('category');
+    });
+  });
+
+  describe('migrateData', () => {
+    const steps: Migration[] = [
+      { version: 1, description: 'add a', migrate: data => ({ ...data, courses: data.courses.map(c => ({ ...c, a: true })) }) },
+      { version: 2, description: 'add b', migrate: data => ({ ...data, courses: data.courses.map(c => ({ ...c, b: c.a })) }) }
+    ];
+
+    it('should apply only the steps after the starting version, in order', () => {
+      const fromZero = migrateData({ courses: [{ id: 'c1' }], tasks: [] }, 0, steps);
+      expect(fromZero.success && fromZero.value.applied).toEqual([1, 2]);
+      expect(fromZero.success && fromZero.value.data.courses[0]).toEqual({ id: 'c1', a: true, b: true });
+
+      const fromOne = migrateData({ courses: [{ id: 'c1' }], tasks: [] }, 1, steps);
+      expect(fromOne.success && fromOne.value.applied).toEqual([2]);
+      expect(fromOne.success && fromOne.value.data.courses[0]).toEqual({ id: 'c1', b: undefined });
+    });
+
+    it('should reject data from a newer schema version', () => {
+      const result = migrateData({ courses: [], tasks: [] }, 3, steps);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.name).toBe('StorageError');
+        expect(result.error.message).toContain('newer');
+      }
+    });
+
+    it('should report a failing step', () => {
+      const failing: Migration[] = [
+        { version: 1, description: 'fails', migrate: () => { throw new Error('boom'); } }
+      ];
+      const result = migrateData({ courses: [], tasks: [] }, 0, failing);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('version 1');
+        expect(result.error.message).toContain('boom');
+      }
+    });
+  });
+
+  describe('runMigrations', () => {
+    it('should stamp empty storage with the current version', () => {
+      const result = runMigrations(storageService);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.applied).toEqual([]);
+      }
+      const version = getSchemaVersion(storageService);
+      expect(version.success && version.value).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should migrate unversioned data and record the new version', () => {
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1', name: 'CS101', department: 'CS', createdAt: 0 }]);
+      storageService.save(TASKS_STORAGE_KEY, []);
+
+      const result = runMigrations(storageService);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.fromVersion).toBe(0);
+        expect(result.value.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(result.value.applied).toEqual(MIGRATIONS.map(m => m.version));
+      }
+
+      const courses = storageService.load<any[]>(COURSES_STORAGE_KEY);
+      expect(courses.success && courses.value[0].createdAt).toBeInstanceOf(Date);
+      expect(storage.getItem(SCHEMA_VERSION_STORAGE_KEY)).not.toBeNull();
+    });
+
+    it('should do nothing when data is already at the current version', () => {
+      runMigrations(storageService);
+      storageService.save(COURSES_STORAGE_KEY, [{ id: 'c1', createdAt: 0 }]);
+
+      const result = runMigrations(storageService);
+
+      expect(result.success && result.value.applied).toEqual([]);
+      // The untouched record keeps its raw timestamp
+      const courses = storageService.load<any[]>(COURSES_STORAGE_KEY);
+      expect(courses.success && courses.value[0].createdAt).toBe(0);
+    });
+
+    it('should not touch corrupted data', () => {
+      storage.setItem(COURSES_STORAGE_KEY, '{not json');
+
+      const result = runMigrations(storageService);
+
+      expect(result.success).toBe(false);
+      expect(storage.getItem(COURSES_STORAGE_KEY)).toBe('{not json');
+      expect(storage.getItem(SCHEMA_VERSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should refuse to run against data from a newer version', () => {
+      storageService.save(SCHEMA_VERSION_STORAGE_KEY, { version: CURRENT_SCHEMA_VERSION + 1, migratedAt: new Date() });
+      storageService.save(COURSES_STORAGE_KEY, []);
+
+      const result = runMigrations(storageService);
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an invalid version record', () => {
+      storageService.save(SCHEMA_VERSION_STORAGE_KEY, { version: 'one' });
+
+      const result = runMigrations(storageService);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Invalid schema version');
+      }
+    });
+  });
+
+  describe('TrackerService.initialize', () => {
+    it('should migrate legacy data before it is used', () => {
+      storageService.save(COURSES_STORAGE_KEY, [
+        { id: 'c1', name: 'CS101', department: 'CS', createdAt: '2024-01-01' }
+      ]);
+      storageService.save(TASKS_STORAGE_KEY, [
+        { id: 't1', courseId: 'c1', description: 'Essay', deadline: 1709294400000, createdAt: 0 }
+      ]);
+
+      const tracker = new TrackerService(storage);
+      const result = tracker.initialize();
+
+      expect(result.success).toBe(true);
+      const task = tracker.getTask('t1');
+      expect(task?.deadline).toBeInstanceOf(Date);
+      expect(task?.completed).toBe(false);
+      expect(task?.priority).toBe('normal');
+      expect(task?.category).toBe('assignment');
+      expect(tracker.getCourse('c1')?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should report a migration failure and allow retrying', () => {
+      storage.setItem(TASKS_STORAGE_KEY, 'corrupted');
+      const tracker = new TrackerService(storage);
+
+      expect(tracker.initialize().success).toBe(false);
+
+      storage.removeItem(TASKS_STORAGE_KEY);
+      expect(tracker.initialize().success).toBe(true);
+    });
+  });
+});
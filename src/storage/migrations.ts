@@ -0,0 +1,312 @@
+/**
+ * Schema versioning and migrations for persisted tracker data
+ * Upgrades course and task payloads written by older versions step by step
+ */
+
+import { Result } from '../models/types.js';
+import { StorageError } from '../models/errors.js';
+import { IStorageService, runInTransaction } from './StorageService.js';
+import { COURSES_STORAGE_KEY, TASKS_STORAGE_KEY, SCHEMA_VERSION_STORAGE_KEY } from './storageKeys.js';
+import { isTaskPriority, DEFAULT_PRIORITY } from '../utils/priority.js';
+import { isTaskCategory, DEFAULT_CATEGORY } from '../utils/category.js';
+
+/**
+ * Raw persisted data as read from storage, before it is trusted as Course[]/Task[]
+ */
+export interface PersistedData {
+  courses: any[];
+  tasks: any[];
+}
+
+/**
+ * A single schema upgrade step
+ * migrate() receives data at version - 1 and returns data at version.
+ * Migrations must not mutate their input.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: PersistedData): PersistedData;
+}
+
+/**
+ * Schema version record stored under SCHEMA_VERSION_STORAGE_KEY
+ */
+export interface SchemaVersionRecord {
+  version: number;
+  migratedAt: Date;
+}
+
+/**
+ * Outcome of running migrations against storage
+ */
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];       // Versions of the migrations that were applied, in order
+}
+
+/**
+ * Convert a persisted date value (Date, ISO string or timestamp) to a Date
+ * Returns undefined when the value cannot be interpreted as a date
+ */
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Version 1: normalize records written before the schema was versioned
+ * - Drops records without a string ID
+ * - Converts dates stored in other formats (timestamps, non-ISO strings) to Date objects
+ * - Coerces the completed flag to a boolean and drops completedAt on incomplete tasks
+ */
+const normalizeLegacyRecords: Migration = {
+  version: 1,
+  description: 'Normalize unversioned course and task records',
+  migrate(data: PersistedData): PersistedData {
+    const courses = data.courses
+      .filter(course => course && typeof course.id === 'string')
+      .map(course => ({
+        ...course,
+        createdAt: toDate(course.createdAt) ?? new Date(0)
+      }));
+
+    const tasks = data.tasks
+      .filter(task => task && typeof task.id === 'string' && toDate(task.deadline) !== undefined)
+      .map(task => {
+        const completed = task.completed === true;
+        const completedAt = completed ? toDate(task.completedAt) : undefined;
+        const { completedAt: _previous, ...rest } = task;
+        return {
+          ...rest,
+          deadline: toDate(task.deadline),
+          completed,
+          ...(completedAt ? { completedAt } : {}),
+          createdAt: toDate(task.createdAt) ?? new Date(0)
+        };
+      });
+
+    return { courses, tasks };
+  }
+};
+
+/**
+ * Version 2: give every task a priority
+ * Tasks, and the series definitions of recurring tasks, without a known priority become 'normal'.
+ */
+const addTaskPriority: Migration = {
+  version: 2,
+  description: 'Add a priority to tasks',
+  migrate(data: PersistedData): PersistedData {
+    const withPriority = (record: any) => isTaskPriority(record.priority) ? record : { ...record, priority: DEFAULT_PRIORITY };
+    const tasks = data.tasks.map(task => {
+      const migrated = withPriority(task);
+      return task.recurrence ? { ...migrated, recurrence: withPriority(task.recurrence) } : migrated;
+    });
+    return { courses: data.courses, tasks };
+  }
+};
+
+/**
+ * Version 3: give every task a category
+ * Tasks, and the series definitions of recurring tasks, without a known category become 'assignment'.
+ */
+const addTaskCategory: Migration = {
+  version: 3,
+  description: 'Add a category to tasks',
+  migrate(data: PersistedData): PersistedData {
+    const withCategory = (record: any) => isTaskCategory(record.category) ? record : { ...record, category: DEFAULT_CATEGORY };
+    const tasks = data.tasks.map(task => {
+      const migrated = withCategory(task);
+      return task.recurrence ? { ...migrated, recurrence: withCategory(task.recurrence) } : migrated;
+    });
+    return { courses: data.courses, tasks };
+  }
+};
+
+/**
+ * All migrations, ordered by version
+ * Add new steps to the end of this list whenever the Course or Task shape changes
+ */
+export const MIGRATIONS: Migration[] = [
+  normalizeLegacyRecords,
+  addTaskPriority,
+  addTaskCategory
+];
+
+/**
+ * The schema version written by this version of the application
+ */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Apply migrations to in-memory data
+ * @param data - Persisted data at fromVersion
+ * @param fromVersion - Schema version of the data (0 for unversioned data)
+ * @param migrations - Migration steps, ordered by version
+ */
+export function migrateData(
+  data: PersistedData,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): Result<{ data: PersistedData; applied: number[] }, StorageError> {
+  const targetVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (fromVersion > targetVersion) {
+    return {
+      success: false,
+      error: new StorageError(
+        `Data uses schema version ${fromVersion}, which is newer than the supported version ${targetVersion}`
+      )
+    };
+  }
+
+  let current = data;
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+    try {
+      current = migration.migrate(current);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        error: new StorageError(`Migration to version ${migration.version} failed: ${message}`)
+      };
+    }
+    applied.push(migration.version);
+  }
+
+  return { success: true, value: { data: current, applied } };
+}
+
+/**
+ * Get the schema version of the data in storage
+ * Returns 0 when no version record exists (data written before versioning)
+ */
+export function getSchemaVersion(storage: IStorageService): Result<number, StorageError> {
+  const result = storage.load<SchemaVersionRecord>(SCHEMA_VERSION_STORAGE_KEY);
+  if (!result.success) {
+    // A missing record means unversioned data; anything else is a real failure
+    if (result.error.message.startsWith('No data found')) {
+      return { success: true, value: 0 };
+    }
+    return { success: false, error: result.error };
+  }
+
+  if (!result.value || typeof result.value.version !== 'number') {
+    return {
+      success: false,
+      error: new StorageError('Invalid schema version record')
+    };
+  }
+
+  return { success: true, value: result.value.version };
+}
+
+/**
+ * Load one array key for migration
+ * Missing keys are treated as empty; corrupted or non-array data is an error
+ */
+function loadArray(storage: IStorageService, key: string): Result<{ value: any[]; exists: boolean }, StorageError> {
+  const result = storage.load<unknown>(key);
+  if (!result.success) {
+    if (result.error.message.startsWith('No data found')) {
+      return { success: true, value: { value: [], exists: false } };
+    }
+    return { success: false, error: result.error };
+  }
+
+  if (!Array.isArray(result.value)) {
+    return {
+      success: false,
+      error: new StorageError(`Cannot migrate data for key: ${key} (expected an array)`)
+    };
+  }
+
+  return { success: true, value: { value: result.value, exists: true } };
+}
+
+/**
+ * Upgrade the data in storage to the latest schema version
+ * Storage without any tracker data is simply stamped with the current version.
+ * If loading fails (e.g. corrupted data), nothing is written so the data can still be recovered.
+ */
+export function runMigrations(
+  storage: IStorageService,
+  migrations: Migration[] = MIGRATIONS
+): Result<MigrationReport, StorageError> {
+  const targetVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  const versionResult = getSchemaVersion(storage);
+  if (!versionResult.success) {
+    return { success: false, error: versionResult.error };
+  }
+  const fromVersion = versionResult.value;
+
+  if (fromVersion === targetVersion) {
+    return { success: true, value: { fromVersion, toVersion: targetVersion, applied: [] } };
+  }
+  if (fromVersion > targetVersion) {
+    return {
+      success: false,
+      error: new StorageError(
+        `Data uses schema version ${fromVersion}, which is newer than the supported version ${targetVersion}`
+      )
+    };
+  }
+
+  const courses = loadArray(storage, COURSES_STORAGE_KEY);
+  if (!courses.success) {
+    return { success: false, error: courses.error };
+  }
+  const tasks = loadArray(storage, TASKS_STORAGE_KEY);
+  if (!tasks.success) {
+    return { success: false, error: tasks.error };
+  }
+
+  let applied: number[] = [];
+  let migratedData: PersistedData | null = null;
+  if (courses.value.exists || tasks.value.exists) {
+    const migrated = migrateData(
+      { courses: courses.value.value, tasks: tasks.value.value },
+      fromVersion,
+      migrations
+    );
+    if (!migrated.success) {
+      return { success: false, error: migrated.error };
+    }
+    applied = migrated.value.applied;
+    migratedData = migrated.value.data;
+  }
+
+  // Write the migrated data and the new version together
+  const writeResult = runInTransaction(storage, (): Result<void, StorageError> => {
+    if (migratedData) {
+      const saveCourses = storage.save(COURSES_STORAGE_KEY, migratedData.courses);
+      if (!saveCourses.success) {
+        return saveCourses;
+      }
+      const saveTasks = storage.save(TASKS_STORAGE_KEY, migratedData.tasks);
+      if (!saveTasks.success) {
+        return saveTasks;
+      }
+    }
+
+    const record: SchemaVersionRecord = { version: targetVersion, migratedAt: new Date() };
+    return storage.save(SCHEMA_VERSION_STORAGE_KEY, record);
+  });
+  if (!writeResult.success) {
+    return { success: false, error: writeResult.error };
+  }
+
+  return { success: true, value: { fromVersion, toVersion: targetVersion, applied } };
+}
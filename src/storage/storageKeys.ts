@@ -0,0 +1,16 @@
+/**
+ * Storage keys used to persist tracker data
+ * Shared by the services that own the data and the storage backends that store it
+ */
+
+export const COURSES_STORAGE_KEY = 'tracker:courses';
+export const TASKS_STORAGE_KEY = 'tracker:tasks';
+export const TERMS_STORAGE_KEY = 'tracker:terms';
+export const SCHEMA_VERSION_STORAGE_KEY = 'tracker:schemaVersion';
+export const REVISIONS_STORAGE_KEY = 'tracker:revisions';
+export const ENCRYPTION_STORAGE_KEY = 'tracker:encryption';
+export const SNAPSHOTS_STORAGE_KEY = 'tracker:snapshots';
+export const AUDIT_LOG_STORAGE_KEY = 'tracker:auditLog';
+export const AUDIT_LOG_ARCHIVE_STORAGE_KEY = 'tracker:auditLog:archive';
+export const WORKLOAD_STORAGE_KEY = 'tracker:workload';
+export const PLANNER_STORAGE_KEY = 'tracker:planner';
@@ -7,7 +7,12 @@ import { WeeklyView, WeeklyViewProps } from './WeeklyView.js';
 import { CourseManagement, CourseManagementProps } from './CourseManagement.js';
 import { TaskManagement, TaskManagementProps } from './TaskManagement.js';
 import { Statistics, StatisticsProps } from './Statistics.js';
-import { Course, Task, WeeklyStatistics, Result } from '../models/types.js';
+import { LockScreen } from './LockScreen.js';
+import { SecuritySettings, SecuritySettingsProps } from './SecuritySettings.js';
+import { Backups, BackupsProps } from './Backups.js';
+import { Trash, TrashProps } from './Trash.js';
+import { Terms, TermsProps } from './Terms.js';
+import { Course, CourseMeeting, ClassSession, MeetingConflict, Term, Task, TaskDetails, RecurrenceRule, RecurrenceScope, WeeklyStatistics, TermStatistics, SnapshotSummary, TrashContents, AuditEntry, WeekWorkload, RebalanceSuggestion, PlannerSettings, StudyPlan, Result } from '../models/types.js';
 import { ValidationError } from '../models/errors.js';
 import { getWeekNumber } from '../utils/weekCalculations.js';
 
@@ -17,33 +22,96 @@ import { getWeekNumber } from '../utils/weekCalculations.js';
  */
 export interface TrackerServiceInterface {
   // Course operations
-  createCourse(name: string, department: string): Promise<Result<Course, ValidationError>>;
+  createCourse(name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Promise<Result<Course, ValidationError>>;
   getCourse(id: string): Course | null;
   getAllCourses(): Course[];
-  updateCourse(id: string, name: string, department: string): Promise<Result<Course, ValidationError>>;
+  updateCourse(id: string, name: string, department: string, termId?: string, meetings?: CourseMeeting[]): Promise<Result<Course, ValidationError>>;
   deleteCourse(id: string, strategy?: 'cascade' | 'cancel'): Promise<Result<void, Error>>;
+  getCoursesForTerm(termId?: string): Course[];
+  getMeetingConflicts(termId?: string): MeetingConflict[];
+  getClassSessions(weekNumber: number, year: number): ClassSession[];
+  
+  // Term operations
+  getAllTerms(): Term[];
+  getCurrentTerm(): Term | null;
+  createTerm(name: string, startDate: Date, endDate: Date): Promise<Result<Term, ValidationError>>;
+  archiveTerm(id: string): Promise<Result<Term, Error>>;
+  unarchiveTerm(id: string): Promise<Result<Term, Error>>;
+  deleteTerm(id: string): Promise<Result<void, Error>>;
   
   // Task operations
-  createTask(courseId: string, description: string, deadline: Date): Promise<Result<Task, ValidationError>>;
+  createTask(courseId: string, description: string, deadline: Date, details?: TaskDetails): Promise<Result<Task, ValidationError>>;
   getTask(id: string): Task | null;
   getAllTasks(): Task[];
   getTasksForWeek(weekNumber: number, year: number): Task[];
-  updateTask(id: string, description: string, deadline: Date): Promise<Result<Task, ValidationError>>;
+  updateTask(id: string, description: string, deadline: Date, details?: TaskDetails): Promise<Result<Task, ValidationError>>;
   deleteTask(id: string): Promise<Result<void, Error>>;
   toggleTaskComplete(id: string, completed: boolean): Promise<Result<Task, Error>>;
+  toggleChecklistItem(taskId: string, itemId: string, completed: boolean): Promise<Result<Task, Error>>;
+  startTaskTimer(id: string): Promise<Result<Task, Error>>;
+  stopTaskTimer(id: string): Promise<Result<Task, Error>>;
   getOverdueTasks(): Task[];
   
+  // Recurring task operations
+  createRecurringTask(courseId: string, description: string, deadline: Date, rule: RecurrenceRule, details?: TaskDetails): Promise<Result<Task, Error>>;
+  updateRecurringTask(id: string, description: string, deadline: Date, scope: RecurrenceScope, details?: TaskDetails): Promise<Result<Task[], Error>>;
+  deleteRecurringTask(id: string, scope: RecurrenceScope): Promise<Result<void, Error>>;
+  
+  // History operations
+  undo(): Promise<Result<string, Error>>;
+  redo(): Promise<Result<string, Error>>;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  
   // Statistics operations
   getWeeklyStatistics(weekNumber: number, year: number): WeeklyStatistics;
+  getTermStatistics(termId: string): TermStatistics | null;
+  
+  // Workload operations
+  getWeekWorkload(weekNumber: number, year: number): WeekWorkload;
+  getRebalancingSuggestions(weekNumber: number, year: number): RebalanceSuggestion[];
+  getDailyCapacity(): number;
+  setDailyCapacity(hours: number): Promise<Result<number, Error>>;
+  
+  // Study planner operations
+  getStudyPlan(weekNumber: number, year: number): StudyPlan;
+  getPlannerSettings(): PlannerSettings;
+  updatePlannerSettings(settings: PlannerSettings): Promise<Result<PlannerSettings, Error>>;
   
   // Utility
   getTaskCountByCourse(): Map<string, number>;
   
+  // Cross-tab synchronization
+  onExternalChange(listener: () => void): () => void;
+  
+  // Encryption at rest
+  isEncryptionEnabled(): boolean;
+  isLocked(): boolean;
+  unlock(passphrase: string): Promise<Result<void, Error>>;
+  lock(): void;
+  enableEncryption(passphrase: string): Promise<Result<void, Error>>;
+  changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<Result<void, Error>>;
+  
+  // Backups
+  listSnapshots(): Result<SnapshotSummary[], Error>;
+  restoreSnapshot(id: string): Promise<Result<SnapshotSummary, Error>>;
+  getRecoveryNotices(): string[];
+  
+  // Trash
+  getTrash(): TrashContents;
+  getTrashRetentionDays(): number;
+  restoreDeletedTask(id: string): Promise<Result<Task, Error>>;
+  restoreDeletedCourse(id: string): Promise<Result<Course, Error>>;
+  emptyTrash(): Promise<Result<number, Error>>;
+  
+  // Audit log
+  getTaskHistory(id: string): Result<AuditEntry[], Error>;
+  
   // Initialization
   initialize(): Promise<void>;
 }
 
-type ViewType = 'weekly' | 'courses' | 'tasks' | 'statistics';
+type ViewType = 'weekly' | 'courses' | 'terms' | 'tasks' | 'statistics' | 'trash' | 'backups' | 'security';
 
 export interface AppConfig {
   container: HTMLElement;
@@ -57,15 +125,28 @@ export class App {
   private currentWeekNumber: number;
   private currentYear: number;
   
+  // Term chosen in the term switcher; null shows the courses of every term that is not archived
+  private currentTermId: string | null = null;
+  
   // Component instances
   private weeklyView: WeeklyView | null = null;
   private courseManagement: CourseManagement | null = null;
   private taskManagement: TaskManagement | null = null;
   private statistics: Statistics | null = null;
+  private securitySettings: SecuritySettings | null = null;
+  private trash: Trash | null = null;
+  private backups: Backups | null = null;
+  private terms: Terms | null = null;
   
   // Loading state
   private isLoading: boolean = false;
   private loadingError: Error | null = null;
+  
+  // Encrypted data waiting for the passphrase
+  private isLocked: boolean = false;
+  
+  // Cross-tab synchronization subscription
+  private unsubscribeExternalChange: (() => void) | null = null;
 
   constructor(config: AppConfig) {
     this.container = config.container;
@@ -82,6 +163,13 @@ export class App {
    * Initialize and start the application
    */
   async start(): Promise<void> {
+    // Encrypted data cannot be loaded until the passphrase is entered
+    this.isLocked = this.service.isLocked();
+    if (this.isLocked) {
+      this.render();
+      return;
+    }
+    
     this.isLoading = true;
     this.render();
     
@@ -90,6 +178,12 @@ export class App {
       this.isLoading = false;
       this.loadingError = null;
       this.render();
+      this.showRecoveryNotices();
+      
+      // Show changes made in other tabs
+      if (!this.unsubscribeExternalChange) {
+        this.unsubscribeExternalChange = this.service.onExternalChange(() => this.handleExternalChange());
+      }
     } catch (error) {
       this.isLoading = false;
       this.loadingError = error as Error;
@@ -97,12 +191,56 @@ export class App {
     }
   }
 
+  /**
+   * Re-render the current view after another tab changed the data
+   */
+  private handleExternalChange(): void {
+    if (this.isLoading || this.loadingError || this.isLocked) {
+      return;
+    }
+    
+    // Another tab changed the passphrase, which locks this one
+    if (this.service.isLocked()) {
+      this.isLocked = true;
+      this.render();
+      return;
+    }
+    
+    this.renderCurrentView();
+    this.showRecoveryNotices();
+  }
+
+  /**
+   * Tell the user about data that was unreadable and restored from a backup,
+   * or recurring tasks that could not be created
+   */
+  private showRecoveryNotices(): void {
+    const notices = this.service.getRecoveryNotices();
+    if (notices.length > 0) {
+      alert(notices.join('\n'));
+    }
+  }
+
+  /**
+   * Lock the data and show the lock screen
+   */
+  private lock(): void {
+    this.service.lock();
+    this.isLocked = true;
+    this.render();
+  }
+
   /**
    * Render the application
    */
   private render(): void {
     this.container.innerHTML = '';
     
+    if (this.isLocked) {
+      this.renderLockScreen();
+      return;
+    }
+    
     if (this.isLoading) {
       this.renderLoading();
       return;
@@ -152,6 +290,22 @@ export class App {
     this.container.appendChild(loading);
   }
 
+  /**
+   * Render the lock screen
+   */
+  private renderLockScreen(): void {
+    const lockScreen = new LockScreen({
+      onUnlock: async (passphrase) => {
+        return await this.service.unlock(passphrase);
+      },
+      onUnlocked: () => {
+        this.start();
+      }
+    });
+    
+    lockScreen.render(this.container);
+  }
+
   /**
    * Render error state
    */
@@ -189,6 +343,7 @@ export class App {
     title.className = 'app-title';
     title.textContent = 'Weekly Course Tracker';
     nav.appendChild(title);
+    nav.appendChild(this.createTermSwitcher());
     
     const tabs = document.createElement('div');
     tabs.className = 'nav-tabs';
@@ -196,8 +351,12 @@ export class App {
     const views: Array<{ type: ViewType, label: string }> = [
       { type: 'weekly', label: 'Weekly View' },
       { type: 'courses', label: 'Courses' },
+      { type: 'terms', label: 'Terms' },
       { type: 'tasks', label: 'Tasks' },
-      { type: 'statistics', label: 'Statistics' }
+      { type: 'statistics', label: 'Statistics' },
+      { type: 'trash', label: 'Trash' },
+      { type: 'backups', label: 'Backups' },
+      { type: 'security', label: 'Security' }
     ];
     
     views.forEach(view => {
@@ -213,6 +372,53 @@ export class App {
     return nav;
   }
 
+  /**
+   * Create the select for choosing the term whose courses and tasks are shown
+   */
+  private createTermSwitcher(): HTMLElement {
+    const terms = this.service.getAllTerms();
+    if (this.currentTermId && !terms.some(term => term.id === this.currentTermId)) {
+      // The term was deleted, possibly in another tab
+      this.currentTermId = null;
+    }
+    
+    const select = document.createElement('select');
+    select.className = 'term-switcher';
+    select.setAttribute('aria-label', 'Term');
+    
+    const all = document.createElement('option');
+    all.value = '';
+    all.textContent = 'All current terms';
+    select.appendChild(all);
+    
+    const archived = document.createElement('optgroup');
+    archived.label = 'Archived';
+    terms.forEach(term => {
+      const option = document.createElement('option');
+      option.value = term.id;
+      option.textContent = term.name;
+      (term.archivedAt ? archived : select).appendChild(option);
+    });
+    if (archived.children.length > 0) {
+      select.appendChild(archived);
+    }
+    
+    select.value = this.currentTermId ?? '';
+    select.onchange = () => {
+      this.currentTermId = select.value || null;
+      this.render();
+    };
+    
+    return select;
+  }
+
+  /**
+   * Get the courses of the term chosen in the term switcher
+   */
+  private getTermCourses(): Course[] {
+    return this.service.getCoursesForTerm(this.currentTermId ?? undefined);
+  }
+
   /**
    * Switch to a different view
    */
@@ -235,12 +441,24 @@ export class App {
       case 'courses':
         this.renderCourseManagement(content);
         break;
+      case 'terms':
+        this.renderTerms(content);
+        break;
       case 'tasks':
         this.renderTaskManagement(content);
         break;
       case 'statistics':
         this.renderStatistics(content);
         break;
+      case 'trash':
+        this.renderTrash(content);
+        break;
+      case 'backups':
+        this.renderBackups(content);
+        break;
+      case 'security':
+        this.renderSecuritySettings(content);
+        break;
     }
   }
 
@@ -248,23 +466,45 @@ export class App {
    * Render weekly view
    */
   private renderWeeklyView(container: HTMLElement): void {
-    const tasks = this.service.getTasksForWeek(this.currentWeekNumber, this.currentYear);
-    const courses = new Map(this.service.getAllCourses().map(c => [c.id, c]));
+    const courses = new Map(this.getTermCourses().map(c => [c.id, c]));
+    const tasks = this.service.getTasksForWeek(this.currentWeekNumber, this.currentYear)
+      .filter(t => courses.has(t.courseId));
     
     const props: WeeklyViewProps = {
       tasks,
       courses,
       weekNumber: this.currentWeekNumber,
       year: this.currentYear,
+      classSessions: this.service.getClassSessions(this.currentWeekNumber, this.currentYear),
       onNavigateWeek: (weekNumber, year) => {
         this.currentWeekNumber = weekNumber;
         this.currentYear = year;
         this.renderCurrentView();
+        this.showRecoveryNotices();
       },
       onTaskClick: (_taskId) => {
         // Switch to task management view and highlight the task
         this.currentView = 'tasks';
         this.render();
+      },
+      workload: this.service.getWeekWorkload(this.currentWeekNumber, this.currentYear),
+      suggestions: this.service.getRebalancingSuggestions(this.currentWeekNumber, this.currentYear),
+      onChangeCapacity: async (hours) => {
+        const result = await this.service.setDailyCapacity(hours);
+        if (result.success) {
+          this.renderCurrentView();
+        }
+        return result;
+      },
+      studyPlan: this.service.getStudyPlan(this.currentWeekNumber, this.currentYear),
+      plannedTasks: new Map(this.service.getAllTasks().map(t => [t.id, t])),
+      plannerSettings: this.service.getPlannerSettings(),
+      onUpdatePlannerSettings: async (settings) => {
+        const result = await this.service.updatePlannerSettings(settings);
+        if (result.success) {
+          this.renderCurrentView();
+        }
+        return result;
       }
     };
     
@@ -281,23 +521,29 @@ export class App {
    * Render course management
    */
   private renderCourseManagement(container: HTMLElement): void {
-    const courses = this.service.getAllCourses();
+    const courses = this.getTermCourses();
     const taskCounts = this.service.getTaskCountByCourse();
     
     const props: CourseManagementProps = {
       courses,
       taskCounts,
-      onCreateCourse: async (name, department) => {
-        return await this.service.createCourse(name, department);
+      terms: this.service.getAllTerms(),
+      selectedTermId: this.currentTermId ?? undefined,
+      meetingConflicts: this.service.getMeetingConflicts(this.currentTermId ?? undefined),
+      onCreateCourse: async (name, department, termId, meetings) => {
+        return await this.service.createCourse(name, department, termId, meetings);
       },
-      onUpdateCourse: async (id, name, department) => {
-        return await this.service.updateCourse(id, name, department);
+      onUpdateCourse: async (id, name, department, termId, meetings) => {
+        return await this.service.updateCourse(id, name, department, termId, meetings);
       },
       onDeleteCourse: async (id, strategy) => {
         return await this.service.deleteCourse(id, strategy);
       },
       onRefresh: () => {
         this.renderCurrentView();
+      },
+      onUndo: async () => {
+        return await this.service.undo();
       }
     };
     
@@ -314,17 +560,18 @@ export class App {
    * Render task management
    */
   private renderTaskManagement(container: HTMLElement): void {
-    const tasks = this.service.getAllTasks();
-    const courses = this.service.getAllCourses();
+    const courses = this.getTermCourses();
+    const courseIds = new Set(courses.map(c => c.id));
+    const tasks = this.service.getAllTasks().filter(t => courseIds.has(t.courseId));
     
     const props: TaskManagementProps = {
       tasks,
       courses,
-      onCreateTask: async (courseId, description, deadline) => {
-        return await this.service.createTask(courseId, description, deadline);
+      onCreateTask: async (courseId, description, deadline, details) => {
+        return await this.service.createTask(courseId, description, deadline, details);
       },
-      onUpdateTask: async (id, description, deadline) => {
-        return await this.service.updateTask(id, description, deadline);
+      onUpdateTask: async (id, description, deadline, details) => {
+        return await this.service.updateTask(id, description, deadline, details);
       },
       onDeleteTask: async (id) => {
         return await this.service.deleteTask(id);
@@ -332,8 +579,32 @@ export class App {
       onToggleComplete: async (id, completed) => {
         return await this.service.toggleTaskComplete(id, completed);
       },
+      onToggleChecklistItem: async (taskId, itemId, completed) => {
+        return await this.service.toggleChecklistItem(taskId, itemId, completed);
+      },
+      onStartTimer: async (id) => {
+        return await this.service.startTaskTimer(id);
+      },
+      onStopTimer: async (id) => {
+        return await this.service.stopTaskTimer(id);
+      },
       onRefresh: () => {
         this.renderCurrentView();
+      },
+      onUndo: async () => {
+        return await this.service.undo();
+      },
+      onGetHistory: (id) => {
+        return this.service.getTaskHistory(id);
+      },
+      onCreateRecurringTask: async (courseId, description, deadline, rule, details) => {
+        return await this.service.createRecurringTask(courseId, description, deadline, rule, details);
+      },
+      onUpdateRecurringTask: async (id, description, deadline, scope, details) => {
+        return await this.service.updateRecurringTask(id, description, deadline, scope, details);
+      },
+      onDeleteRecurringTask: async (id, scope) => {
+        return await this.service.deleteRecurringTask(id, scope);
       }
     };
     
@@ -352,10 +623,12 @@ export class App {
   private renderStatistics(container: HTMLElement): void {
     const statistics = this.service.getWeeklyStatistics(this.currentWeekNumber, this.currentYear);
     const overdueTasks = this.service.getOverdueTasks();
+    const termId = this.currentTermId ?? this.service.getCurrentTerm()?.id;
     
     const props: StatisticsProps = {
       statistics,
       overdueTasks,
+      termStatistics: termId ? this.service.getTermStatistics(termId) : null,
       onNavigateWeek: (weekNumber, year) => {
         this.currentWeekNumber = weekNumber;
         this.currentYear = year;
@@ -376,4 +649,125 @@ export class App {
     
     this.statistics.render(container);
   }
+
+  /**
+   * Render the trash
+   */
+  private renderTrash(container: HTMLElement): void {
+    const props: TrashProps = {
+      trash: this.service.getTrash(),
+      courses: new Map(this.service.getAllCourses().map(c => [c.id, c])),
+      retentionDays: this.service.getTrashRetentionDays(),
+      onRestoreTask: async (id) => {
+        return await this.service.restoreDeletedTask(id);
+      },
+      onRestoreCourse: async (id) => {
+        return await this.service.restoreDeletedCourse(id);
+      },
+      onEmptyTrash: async () => {
+        return await this.service.emptyTrash();
+      },
+      onRefresh: () => {
+        this.renderCurrentView();
+      }
+    };
+    
+    if (!this.trash) {
+      this.trash = new Trash(props);
+    } else {
+      this.trash.updateProps(props);
+    }
+    
+    this.trash.render(container);
+  }
+
+  /**
+   * Render the term list
+   */
+  private renderTerms(container: HTMLElement): void {
+    const terms = this.service.getAllTerms();
+    
+    const props: TermsProps = {
+      terms,
+      courseCounts: new Map(terms.map(term => [term.id, this.service.getCoursesForTerm(term.id).length])),
+      onCreateTerm: async (name, startDate, endDate) => {
+        return await this.service.createTerm(name, startDate, endDate);
+      },
+      onArchiveTerm: async (id) => {
+        return await this.service.archiveTerm(id);
+      },
+      onUnarchiveTerm: async (id) => {
+        return await this.service.unarchiveTerm(id);
+      },
+      onDeleteTerm: async (id) => {
+        return await this.service.deleteTerm(id);
+      },
+      onRefresh: () => {
+        // Also refresh the term switcher
+        this.render();
+      }
+    };
+    
+    if (!this.terms) {
+      this.terms = new Terms(props);
+    } else {
+      this.terms.updateProps(props);
+    }
+    
+    this.terms.render(container);
+  }
+
+  /**
+   * Render the backup list
+   */
+  private renderBackups(container: HTMLElement): void {
+    const snapshots = this.service.listSnapshots();
+    
+    const props: BackupsProps = {
+      snapshots: snapshots.success ? snapshots.value : [],
+      onRestoreSnapshot: async (id) => {
+        return await this.service.restoreSnapshot(id);
+      },
+      onRefresh: () => {
+        this.renderCurrentView();
+      }
+    };
+    
+    if (!this.backups) {
+      this.backups = new Backups(props);
+    } else {
+      this.backups.updateProps(props);
+    }
+    
+    this.backups.render(container);
+  }
+
+  /**
+   * Render security settings
+   */
+  private renderSecuritySettings(container: HTMLElement): void {
+    const props: SecuritySettingsProps = {
+      encryptionEnabled: this.service.isEncryptionEnabled(),
+      onEnableEncryption: async (passphrase) => {
+        return await this.service.enableEncryption(passphrase);
+      },
+      onChangePassphrase: async (currentPassphrase, newPassphrase) => {
+        return await this.service.changePassphrase(currentPassphrase, newPassphrase);
+      },
+      onLock: () => {
+        this.lock();
+      },
+      onRefresh: () => {
+        this.renderCurrentView();
+      }
+    };
+    
+    if (!this.securitySettings) {
+      this.securitySettings = new SecuritySettings(props);
+    } else {
+      this.securitySettings.updateProps(props);
+    }
+    
+    this.securitySettings.render(container);
+  }
 }
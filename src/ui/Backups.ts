@@ -0,0 +1,116 @@
+/**
+ * Backups component - lists snapshot backups and restores one of them
+ */
+
+import { SnapshotSummary, Result } from '../models/types.js';
+
+export interface BackupsProps {
+  snapshots: SnapshotSummary[];
+  onRestoreSnapshot: (id: string) => Promise<Result<SnapshotSummary, Error>>;
+  onRefresh: () => void;
+}
+
+export class Backups {
+  private props: BackupsProps;
+  private container: HTMLElement | null = null;
+
+  constructor(props: BackupsProps) {
+    this.props = props;
+  }
+
+  /**
+   * Update component props and re-render
+   */
+  updateProps(props: Partial<BackupsProps>): void {
+    this.props = { ...this.props, ...props };
+    if (this.container) {
+      this.render(this.container);
+    }
+  }
+
+  /**
+   * Render the backup list to a container element
+   */
+  render(container: HTMLElement): void {
+    this.container = container;
+    container.innerHTML = '';
+    
+    const view = document.createElement('div');
+    view.className = 'backups';
+    
+    const header = document.createElement('h2');
+    header.textContent = 'Backups';
+    view.appendChild(header);
+    
+    const hint = document.createElement('p');
+    hint.className = 'backups-hint';
+    hint.textContent = 'A backup is taken after every change, and the first one of each day is kept for a week.';
+    view.appendChild(hint);
+    
+    if (this.props.snapshots.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'no-backups';
+      empty.textContent = 'No backups yet. One is taken the next time you change a course or task.';
+      view.appendChild(empty);
+    } else {
+      const list = document.createElement('ul');
+      list.className = 'backup-list';
+      this.props.snapshots.forEach(snapshot => list.appendChild(this.createBackupItem(snapshot)));
+      view.appendChild(list);
+    }
+    
+    container.appendChild(view);
+  }
+
+  /**
+   * Create a list item for one snapshot
+   */
+  private createBackupItem(snapshot: SnapshotSummary): HTMLElement {
+    const item = document.createElement('li');
+    item.className = `backup-item backup-${snapshot.kind}`;
+    
+    const date = document.createElement('span');
+    date.className = 'backup-date';
+    date.textContent = snapshot.createdAt.toLocaleString();
+    item.appendChild(date);
+    
+    const kind = document.createElement('span');
+    kind.className = 'backup-kind';
+    kind.textContent = snapshot.kind === 'daily' ? 'Daily' : 'Recent';
+    item.appendChild(kind);
+    
+    const counts = document.createElement('span');
+    counts.className = 'backup-counts';
+    counts.textContent = `${snapshot.courseCount} ${snapshot.courseCount === 1 ? 'course' : 'courses'}, ` +
+      `${snapshot.taskCount} ${snapshot.taskCount === 1 ? 'task' : 'tasks'}`;
+    item.appendChild(counts);
+    
+    const restoreButton = document.createElement('button');
+    restoreButton.textContent = 'Restore';
+    restoreButton.className = 'restore-backup-button';
+    restoreButton.onclick = () => this.handleRestore(snapshot);
+    item.appendChild(restoreButton);
+    
+    return item;
+  }
+
+  /**
+   * Restore a snapshot after confirmation
+   */
+  private async handleRestore(snapshot: SnapshotSummary): Promise<void> {
+    const confirmed = confirm(
+      `Replace all courses and tasks with the backup from ${snapshot.createdAt.toLocaleString()}? ` +
+      'Your current data stays available as a backup.'
+    );
+    if (!confirmed) {
+      return;
+    }
+    
+    const result = await this.props.onRestoreSnapshot(snapshot.id);
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error restoring backup: ${result.error.message}`);
+    }
+  }
+}
@@ -3,16 +3,23 @@
  * Requirements: 1.1, 1.2, 1.4, 1.5, 7.1, 7.2, 7.3, 7.4, 7.5
  */
 
-import { Course, Result } from '../models/types.js';
+import { Course, CourseMeeting, MeetingConflict, Term, Result } from '../models/types.js';
 import { ValidationError } from '../models/errors.js';
+import { showUndoToast } from './Toast.js';
+import { parseMeetings, formatMeeting } from '../utils/meeting.js';
+import { WEEKDAY_NAMES } from '../utils/timeOfDay.js';
 
 export interface CourseManagementProps {
   courses: Course[];
   taskCounts: Map<string, number>;
-  onCreateCourse: (name: string, department: string) => Promise<Result<Course, ValidationError>>;
-  onUpdateCourse: (id: string, name: string, department: string) => Promise<Result<Course, ValidationError>>;
+  onCreateCourse: (name: string, department: string, termId?: string, meetings?: CourseMeeting[]) => Promise<Result<Course, ValidationError>>;
+  onUpdateCourse: (id: string, name: string, department: string, termId?: string, meetings?: CourseMeeting[]) => Promise<Result<Course, ValidationError>>;
   onDeleteCourse: (id: string, hasTasksStrategy?: 'cascade' | 'cancel') => Promise<Result<void, Error>>;
   onRefresh: () => void;
+  onUndo?: () => Promise<Result<string, Error>>;
+  terms?: Term[];              // Terms courses can be assigned to
+  selectedTermId?: string;     // Term new courses are added to by default
+  meetingConflicts?: MeetingConflict[];    // Times at which two of the courses both meet
 }
 
 export class CourseManagement {
@@ -61,6 +68,11 @@ export class CourseManagement {
     // Add course creation form
     view.appendChild(this.createCourseForm());
     
+    // Warn about courses meeting at the same time
+    if (this.props.meetingConflicts && this.props.meetingConflicts.length > 0) {
+      view.appendChild(this.createConflictList(this.props.meetingConflicts));
+    }
+    
     // Add courses grouped by department
     view.appendChild(this.createCourseList());
     
@@ -91,13 +103,24 @@ export class CourseManagement {
     departmentInput.className = 'course-department-input';
     departmentInput.id = 'new-course-department';
     
+    const termSelect = this.createTermSelect(this.props.selectedTermId);
+    termSelect.id = 'new-course-term';
+    
+    const meetingsInput = this.createMeetingsInput([]);
+    meetingsInput.id = 'new-course-meetings';
+    
     const addButton = document.createElement('button');
     addButton.textContent = 'Add Course';
     addButton.className = 'add-course-button';
     addButton.onclick = async () => {
-      await this.handleCreateCourse(nameInput.value, departmentInput.value);
-      nameInput.value = '';
-      departmentInput.value = '';
+      const created = await this.handleCreateCourse(
+        nameInput.value, departmentInput.value, termSelect.value || undefined, meetingsInput.value
+      );
+      if (created) {
+        nameInput.value = '';
+        departmentInput.value = '';
+        meetingsInput.value = '';
+      }
     };
     
     const errorDisplay = document.createElement('div');
@@ -107,12 +130,77 @@ export class CourseManagement {
     
     form.appendChild(nameInput);
     form.appendChild(departmentInput);
+    if (this.props.terms && this.props.terms.length > 0) {
+      form.appendChild(termSelect);
+    }
+    form.appendChild(meetingsInput);
     form.appendChild(addButton);
     form.appendChild(errorDisplay);
     
     return form;
   }
 
+  /**
+   * Create a select for the term of a course
+   * Archived terms are only offered when the course is already in one.
+   */
+  private createTermSelect(selectedTermId?: string): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = 'course-term-select';
+    
+    const none = document.createElement('option');
+    none.value = '';
+    none.textContent = 'No term';
+    select.appendChild(none);
+    
+    (this.props.terms ?? [])
+      .filter(term => !term.archivedAt || term.id === selectedTermId)
+      .forEach(term => {
+        const option = document.createElement('option');
+        option.value = term.id;
+        option.textContent = term.name;
+        select.appendChild(option);
+      });
+    
+    select.value = selectedTermId ?? '';
+    return select;
+  }
+
+  /**
+   * Create a text area for a course's weekly meetings, one per line
+   */
+  private createMeetingsInput(meetings: CourseMeeting[]): HTMLTextAreaElement {
+    const input = document.createElement('textarea');
+    input.className = 'course-meetings-input';
+    input.rows = 2;
+    input.placeholder = 'Meetings, one per line, e.g. Mon 10:00-11:30 Lecture Room 101';
+    input.value = meetings.map(formatMeeting).join('\n');
+    return input;
+  }
+
+  /**
+   * Create the list of times at which two courses both meet
+   */
+  private createConflictList(conflicts: MeetingConflict[]): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'meeting-conflicts';
+    
+    const title = document.createElement('h3');
+    title.textContent = 'Schedule Conflicts';
+    section.appendChild(title);
+    
+    const list = document.createElement('ul');
+    conflicts.forEach(conflict => {
+      const [first, second] = conflict.courseIds.map(id => this.props.courses.find(c => c.id === id)?.name ?? 'Unknown course');
+      const item = document.createElement('li');
+      item.textContent = `${first} and ${second} both meet on ${WEEKDAY_NAMES[conflict.weekday]} ${conflict.start}-${conflict.end}`;
+      list.appendChild(item);
+    });
+    section.appendChild(list);
+    
+    return section;
+  }
+
   /**
    * Create course list grouped by department
    * Requirement 1.4: Display all courses grouped by department
@@ -211,6 +299,19 @@ export class CourseManagement {
     count.textContent = `${taskCount} task${taskCount !== 1 ? 's' : ''}`;
     
     info.appendChild(name);
+    const term = course.termId ? this.props.terms?.find(t => t.id === course.termId) : undefined;
+    if (term) {
+      const termName = document.createElement('div');
+      termName.className = 'course-term';
+      termName.textContent = term.name;
+      info.appendChild(termName);
+    }
+    if (course.meetings && course.meetings.length > 0) {
+      const meetings = document.createElement('div');
+      meetings.className = 'course-meetings';
+      meetings.textContent = course.meetings.map(formatMeeting).join(' · ');
+      info.appendChild(meetings);
+    }
     info.appendChild(count);
     
     const actions = document.createElement('div');
@@ -254,6 +355,12 @@ export class CourseManagement {
     departmentInput.className = 'edit-course-department';
     departmentInput.id = `edit-department-${course.id}`;
     
+    const termSelect = this.createTermSelect(course.termId);
+    termSelect.id = `edit-term-${course.id}`;
+    
+    const meetingsInput = this.createMeetingsInput(course.meetings ?? []);
+    meetingsInput.id = `edit-meetings-${course.id}`;
+    
     const actions = document.createElement('div');
     actions.className = 'edit-actions';
     
@@ -261,7 +368,9 @@ export class CourseManagement {
     saveButton.textContent = 'Save';
     saveButton.className = 'save-button';
     saveButton.onclick = async () => {
-      await this.handleUpdateCourse(course.id, nameInput.value, departmentInput.value);
+      await this.handleUpdateCourse(
+        course.id, nameInput.value, departmentInput.value, termSelect.value || undefined, meetingsInput.value
+      );
     };
     
     const cancelButton = document.createElement('button');
@@ -279,6 +388,10 @@ export class CourseManagement {
     
     form.appendChild(nameInput);
     form.appendChild(departmentInput);
+    if (this.props.terms && this.props.terms.length > 0) {
+      form.appendChild(termSelect);
+    }
+    form.appendChild(meetingsInput);
     form.appendChild(actions);
     form.appendChild(errorDisplay);
     
@@ -302,11 +415,15 @@ export class CourseManagement {
 
   /**
    * Handle course creation
+   * @returns Whether the course was created
    */
-  private async handleCreateCourse(name: string, department: string): Promise<void> {
+  private async handleCreateCourse(name: string, department: string, termId: string | undefined, meetingsText: string): Promise<boolean> {
     const errorDisplay = document.getElementById('course-form-error');
     
-    const result = await this.props.onCreateCourse(name, department);
+    const meetings = parseMeetings(meetingsText);
+    const result = meetings.success
+      ? await this.props.onCreateCourse(name, department, termId, meetings.value)
+      : meetings;
     
     if (result.success) {
       if (errorDisplay) {
@@ -319,15 +436,19 @@ export class CourseManagement {
         errorDisplay.style.display = 'block';
       }
     }
+    return result.success;
   }
 
   /**
    * Handle course update
    */
-  private async handleUpdateCourse(id: string, name: string, department: string): Promise<void> {
+  private async handleUpdateCourse(id: string, name: string, department: string, termId: string | undefined, meetingsText: string): Promise<void> {
     const errorDisplay = document.getElementById(`edit-error-${id}`);
     
-    const result = await this.props.onUpdateCourse(id, name, department);
+    const meetings = parseMeetings(meetingsText);
+    const result = meetings.success
+      ? await this.props.onUpdateCourse(id, name, department, termId, meetings.value)
+      : meetings;
     
     if (result.success) {
       if (errorDisplay) {
@@ -359,10 +480,18 @@ export class CourseManagement {
     }
     
     if (confirm(confirmMessage)) {
+      const name = this.props.courses.find(c => c.id === id)?.name;
       const result = await this.props.onDeleteCourse(id, strategy);
       
       if (result.success) {
         this.props.onRefresh();
+        if (this.props.onUndo) {
+          showUndoToast({
+            message: name ? `Deleted course "${name}"` : 'Course deleted',
+            onUndo: this.props.onUndo,
+            onUndone: () => this.props.onRefresh()
+          });
+        }
       } else {
         alert(`Error deleting course: ${result.error.message}`);
       }
@@ -0,0 +1,82 @@
+/**
+ * LockScreen component - asks for the passphrase before encrypted data is loaded
+ */
+
+import { Result } from '../models/types.js';
+
+export interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<Result<void, Error>>;
+  onUnlocked: () => void;
+}
+
+export class LockScreen {
+  private props: LockScreenProps;
+
+  constructor(props: LockScreenProps) {
+    this.props = props;
+  }
+
+  /**
+   * Render the lock screen to a container element
+   */
+  render(container: HTMLElement): void {
+    container.innerHTML = '';
+    
+    const screen = document.createElement('div');
+    screen.className = 'lock-screen';
+    
+    const title = document.createElement('h2');
+    title.textContent = 'Weekly Course Tracker is locked';
+    screen.appendChild(title);
+    
+    const hint = document.createElement('p');
+    hint.className = 'lock-screen-hint';
+    hint.textContent = 'Your data is encrypted on this computer. Enter your passphrase to unlock it.';
+    screen.appendChild(hint);
+    
+    const form = document.createElement('form');
+    form.className = 'lock-screen-form';
+    
+    const passphraseInput = document.createElement('input');
+    passphraseInput.type = 'password';
+    passphraseInput.placeholder = 'Passphrase';
+    passphraseInput.className = 'lock-screen-passphrase';
+    passphraseInput.autocomplete = 'current-password';
+    
+    const unlockButton = document.createElement('button');
+    unlockButton.type = 'submit';
+    unlockButton.textContent = 'Unlock';
+    unlockButton.className = 'unlock-button';
+    
+    const errorDisplay = document.createElement('div');
+    errorDisplay.className = 'error-message';
+    errorDisplay.style.display = 'none';
+    
+    form.onsubmit = async (event) => {
+      event.preventDefault();
+      unlockButton.disabled = true;
+      unlockButton.textContent = 'Unlocking...';
+      
+      const result = await this.props.onUnlock(passphraseInput.value);
+      if (result.success) {
+        this.props.onUnlocked();
+        return;
+      }
+      
+      errorDisplay.textContent = result.error.message;
+      errorDisplay.style.display = 'block';
+      unlockButton.disabled = false;
+      unlockButton.textContent = 'Unlock';
+      passphraseInput.value = '';
+      passphraseInput.focus();
+    };
+    
+    form.appendChild(passphraseInput);
+    form.appendChild(unlockButton);
+    screen.appendChild(form);
+    screen.appendChild(errorDisplay);
+    
+    container.appendChild(screen);
+    passphraseInput.focus();
+  }
+}
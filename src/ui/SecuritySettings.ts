@@ -0,0 +1,188 @@
+/**
+ * SecuritySettings component - turns on encryption at rest and changes the passphrase
+ */
+
+import { Result } from '../models/types.js';
+
+export interface SecuritySettingsProps {
+  encryptionEnabled: boolean;
+  onEnableEncryption: (passphrase: string) => Promise<Result<void, Error>>;
+  onChangePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<Result<void, Error>>;
+  onLock: () => void;
+  onRefresh: () => void;
+}
+
+export class SecuritySettings {
+  private props: SecuritySettingsProps;
+  private container: HTMLElement | null = null;
+
+  constructor(props: SecuritySettingsProps) {
+    this.props = props;
+  }
+
+  /**
+   * Update component props and re-render
+   */
+  updateProps(props: Partial<SecuritySettingsProps>): void {
+    this.props = { ...this.props, ...props };
+    if (this.container) {
+      this.render(this.container);
+    }
+  }
+
+  /**
+   * Render the security settings to a container element
+   */
+  render(container: HTMLElement): void {
+    this.container = container;
+    container.innerHTML = '';
+    
+    const view = document.createElement('div');
+    view.className = 'security-settings';
+    
+    const header = document.createElement('h2');
+    header.textContent = 'Security';
+    view.appendChild(header);
+    
+    const status = document.createElement('p');
+    status.className = 'security-status';
+    status.textContent = this.props.encryptionEnabled
+      ? 'Your data is encrypted with a passphrase on this computer.'
+      : 'Your data is stored unencrypted. Set a passphrase to encrypt it, e.g. on a shared computer.';
+    view.appendChild(status);
+    
+    if (this.props.encryptionEnabled) {
+      view.appendChild(this.createChangePassphraseForm());
+      
+      const lockButton = document.createElement('button');
+      lockButton.textContent = 'Lock Now';
+      lockButton.className = 'lock-button';
+      lockButton.onclick = () => this.props.onLock();
+      view.appendChild(lockButton);
+    } else {
+      view.appendChild(this.createEnableEncryptionForm());
+    }
+    
+    container.appendChild(view);
+  }
+
+  /**
+   * Create the form that sets the first passphrase
+   */
+  private createEnableEncryptionForm(): HTMLElement {
+    const form = document.createElement('div');
+    form.className = 'passphrase-form';
+    
+    const title = document.createElement('h3');
+    title.textContent = 'Set a Passphrase';
+    form.appendChild(title);
+    
+    const passphraseInput = this.createPassphraseInput('New passphrase', 'new-password');
+    const confirmInput = this.createPassphraseInput('Confirm passphrase', 'new-password');
+    const errorDisplay = this.createErrorDisplay();
+    
+    const enableButton = document.createElement('button');
+    enableButton.textContent = 'Encrypt My Data';
+    enableButton.className = 'enable-encryption-button';
+    enableButton.onclick = async () => {
+      if (passphraseInput.value !== confirmInput.value) {
+        this.showError(errorDisplay, 'Passphrases do not match');
+        return;
+      }
+      
+      enableButton.disabled = true;
+      const result = await this.props.onEnableEncryption(passphraseInput.value);
+      enableButton.disabled = false;
+      
+      if (!result.success) {
+        this.showError(errorDisplay, result.error.message);
+        return;
+      }
+      alert('Your data is now encrypted. Remember your passphrase: it cannot be recovered.');
+      this.props.onRefresh();
+    };
+    
+    form.appendChild(passphraseInput);
+    form.appendChild(confirmInput);
+    form.appendChild(enableButton);
+    form.appendChild(errorDisplay);
+    
+    return form;
+  }
+
+  /**
+   * Create the form that re-encrypts the data with a new passphrase
+   */
+  private createChangePassphraseForm(): HTMLElement {
+    const form = document.createElement('div');
+    form.className = 'passphrase-form';
+    
+    const title = document.createElement('h3');
+    title.textContent = 'Change Passphrase';
+    form.appendChild(title);
+    
+    const currentInput = this.createPassphraseInput('Current passphrase', 'current-password');
+    const passphraseInput = this.createPassphraseInput('New passphrase', 'new-password');
+    const confirmInput = this.createPassphraseInput('Confirm new passphrase', 'new-password');
+    const errorDisplay = this.createErrorDisplay();
+    
+    const changeButton = document.createElement('button');
+    changeButton.textContent = 'Change Passphrase';
+    changeButton.className = 'change-passphrase-button';
+    changeButton.onclick = async () => {
+      if (passphraseInput.value !== confirmInput.value) {
+        this.showError(errorDisplay, 'Passphrases do not match');
+        return;
+      }
+      
+      changeButton.disabled = true;
+      const result = await this.props.onChangePassphrase(currentInput.value, passphraseInput.value);
+      changeButton.disabled = false;
+      
+      if (!result.success) {
+        this.showError(errorDisplay, result.error.message);
+        return;
+      }
+      alert('Passphrase changed');
+      this.props.onRefresh();
+    };
+    
+    form.appendChild(currentInput);
+    form.appendChild(passphraseInput);
+    form.appendChild(confirmInput);
+    form.appendChild(changeButton);
+    form.appendChild(errorDisplay);
+    
+    return form;
+  }
+
+  /**
+   * Create a password input
+   */
+  private createPassphraseInput(placeholder: string, autocomplete: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'password';
+    input.placeholder = placeholder;
+    input.autocomplete = autocomplete as AutoFill;
+    input.className = 'passphrase-input';
+    return input;
+  }
+
+  /**
+   * Create a hidden error display
+   */
+  private createErrorDisplay(): HTMLElement {
+    const errorDisplay = document.createElement('div');
+    errorDisplay.className = 'error-message';
+    errorDisplay.style.display = 'none';
+    return errorDisplay;
+  }
+
+  /**
+   * Show an error message
+   */
+  private showError(errorDisplay: HTMLElement, message: string): void {
+    errorDisplay.textContent = message;
+    errorDisplay.style.display = 'block';
+  }
+}
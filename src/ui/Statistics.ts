@@ -3,14 +3,18 @@
  * Requirements: 6.1, 6.2, 6.3, 6.5
  */
 
-import { WeeklyStatistics, Task } from '../models/types.js';
+import { WeeklyStatistics, TermStatistics, Task } from '../models/types.js';
 import { getWeekNumber } from '../utils/weekCalculations.js';
+import { PRIORITY_LABELS } from '../utils/priority.js';
+import { CATEGORY_LABELS, CATEGORY_ICONS } from '../utils/category.js';
+import { formatHours } from '../utils/effort.js';
 
 export interface StatisticsProps {
   statistics: WeeklyStatistics;
   overdueTasks: Task[];
   onNavigateWeek: (weekNumber: number, year: number) => void;
   onTaskClick?: (taskId: string) => void;
+  termStatistics?: TermStatistics | null;    // Progress of the selected term, across all its weeks
 }
 
 export class Statistics {
@@ -61,6 +65,11 @@ export class Statistics {
     // Add overall statistics
     view.appendChild(this.createOverallStatistics());
     
+    // Add term progress
+    if (this.props.termStatistics) {
+      view.appendChild(this.createTermSection(this.props.termStatistics));
+    }
+    
     // Add overdue tasks section
     if (this.props.overdueTasks.length > 0) {
       view.appendChild(this.createOverdueSection());
@@ -72,6 +81,12 @@ export class Statistics {
     // Add course breakdown
     view.appendChild(this.createCourseBreakdown());
     
+    // Add priority breakdown
+    view.appendChild(this.createPriorityBreakdown());
+    
+    // Add category breakdown
+    view.appendChild(this.createCategoryBreakdown());
+    
     return view;
   }
 
@@ -131,6 +146,8 @@ export class Statistics {
     cardsContainer.appendChild(this.createStatCard('Completed', stats.completedTasks.toString(), 'completed'));
     cardsContainer.appendChild(this.createStatCard('Active', (stats.totalTasks - stats.completedTasks).toString(), 'active'));
     cardsContainer.appendChild(this.createStatCard('Completion Rate', `${stats.completionPercentage.toFixed(1)}%`, 'percentage'));
+    cardsContainer.appendChild(this.createStatCard('Estimated Hours', formatHours(stats.estimatedHours), 'estimated'));
+    cardsContainer.appendChild(this.createStatCard('Actual Hours', formatHours(stats.actualHours), 'actual'));
     
     section.appendChild(cardsContainer);
     
@@ -140,6 +157,37 @@ export class Statistics {
     return section;
   }
 
+  /**
+   * Create the progress section of a term, with a row per course
+   */
+  private createTermSection(stats: TermStatistics): HTMLElement {
+    const cardsContainer = document.createElement('div');
+    cardsContainer.className = 'stats-cards';
+    
+    cardsContainer.appendChild(this.createStatCard('Total Tasks', stats.totalTasks.toString(), 'total'));
+    cardsContainer.appendChild(this.createStatCard('Completed', stats.completedTasks.toString(), 'completed'));
+    cardsContainer.appendChild(this.createStatCard('Overdue', stats.overdueTasks.toString(), 'overdue'));
+    cardsContainer.appendChild(this.createStatCard('Completion Rate', `${stats.completionPercentage.toFixed(1)}%`, 'percentage'));
+    cardsContainer.appendChild(this.createStatCard('Estimated Hours', formatHours(stats.estimatedHours), 'estimated'));
+    cardsContainer.appendChild(this.createStatCard('Actual Hours', formatHours(stats.actualHours), 'actual'));
+    
+    const rows = Array.from(stats.statsByCourse.values())
+      .sort((a, b) => a.courseName.localeCompare(b.courseName))
+      .map(courseStats => ({
+        label: courseStats.courseName,
+        className: 'term-course',
+        totalTasks: courseStats.totalTasks,
+        completedTasks: courseStats.completedTasks,
+        completionPercentage: courseStats.completionPercentage
+      }));
+    const section = this.createGroupBreakdown('term-statistics', `Term Progress: ${stats.termName}`, 'Course', rows, 'No tasks in this term');
+    // Put the summary between the title and the course table
+    section.insertBefore(this.createProgressBar(stats.completionPercentage), section.children[1]);
+    section.insertBefore(cardsContainer, section.children[1]);
+    
+    return section;
+  }
+
   /**
    * Create a statistics card
    */
@@ -263,7 +311,7 @@ export class Statistics {
     // Create header
     const thead = document.createElement('thead');
     const headerRow = document.createElement('tr');
-    ['Department', 'Total', 'Completed', 'Completion Rate'].forEach(header => {
+    ['Department', 'Total', 'Completed', 'Completion Rate', 'Estimated', 'Actual'].forEach(header => {
       const th = document.createElement('th');
       th.textContent = header;
       headerRow.appendChild(th);
@@ -294,12 +342,17 @@ export class Statistics {
       row.appendChild(completedCell);
       
       const percentageCell = document.createElement('td');
-      const percentage = deptStats.totalTasks > 0 
-        ? (deptStats.completedTasks / deptStats.totalTasks * 100).toFixed(1)
-        : '0.0';
-      percentageCell.textContent = `${percentage}%`;
+      percentageCell.textContent = `${deptStats.completionPercentage.toFixed(1)}%`;
       row.appendChild(percentageCell);
       
+      const estimatedCell = document.createElement('td');
+      estimatedCell.textContent = formatHours(deptStats.estimatedHours);
+      row.appendChild(estimatedCell);
+      
+      const actualCell = document.createElement('td');
+      actualCell.textContent = formatHours(deptStats.actualHours);
+      row.appendChild(actualCell);
+      
       tbody.appendChild(row);
     });
     
@@ -337,7 +390,7 @@ export class Statistics {
     // Create header
     const thead = document.createElement('thead');
     const headerRow = document.createElement('tr');
-    ['Course', 'Total', 'Completed', 'Completion Rate'].forEach(header => {
+    ['Course', 'Total', 'Completed', 'Completion Rate', 'Estimated', 'Actual'].forEach(header => {
       const th = document.createElement('th');
       th.textContent = header;
       headerRow.appendChild(th);
@@ -368,9 +421,117 @@ export class Statistics {
       row.appendChild(completedCell);
       
       const percentageCell = document.createElement('td');
-      const percentage = courseStats.totalTasks > 0 
-        ? (courseStats.completedTasks / courseStats.totalTasks * 100).toFixed(1)
-        : '0.0';
+      percentageCell.textContent = `${courseStats.completionPercentage.toFixed(1)}%`;
+      row.appendChild(percentageCell);
+      
+      const estimatedCell = document.createElement('td');
+      estimatedCell.textContent = formatHours(courseStats.estimatedHours);
+      row.appendChild(estimatedCell);
+      
+      const actualCell = document.createElement('td');
+      actualCell.textContent = formatHours(courseStats.actualHours);
+      row.appendChild(actualCell);
+      
+      tbody.appendChild(row);
+    });
+    
+    table.appendChild(tbody);
+    section.appendChild(table);
+    
+    return section;
+  }
+
+  /**
+   * Create priority breakdown section, most important priority first
+   */
+  private createPriorityBreakdown(): HTMLElement {
+    // The map is already ordered from most to least important
+    const rows = Array.from(this.props.statistics.statsByPriority.values()).map(priorityStats => ({
+      label: PRIORITY_LABELS[priorityStats.priority],
+      className: `task-priority priority-${priorityStats.priority}`,
+      totalTasks: priorityStats.totalTasks,
+      completedTasks: priorityStats.completedTasks
+    }));
+    return this.createGroupBreakdown('priority-breakdown', 'Progress by Priority', 'Priority', rows);
+  }
+
+  /**
+   * Create category breakdown section
+   */
+  private createCategoryBreakdown(): HTMLElement {
+    const rows = Array.from(this.props.statistics.statsByCategory.values()).map(categoryStats => ({
+      label: `${CATEGORY_ICONS[categoryStats.category]} ${CATEGORY_LABELS[categoryStats.category]}`,
+      className: `task-category category-${categoryStats.category}`,
+      totalTasks: categoryStats.totalTasks,
+      completedTasks: categoryStats.completedTasks
+    }));
+    return this.createGroupBreakdown('category-breakdown', 'Progress by Category', 'Category', rows);
+  }
+
+  /**
+   * Create a breakdown section for groups that always have a row, such as priorities and categories
+   * @param rows - One row per group, in display order; completionPercentage, when given, replaces the share of completed tasks
+   * @param emptyText - Shown instead of the table when the groups have no tasks
+   */
+  private createGroupBreakdown(
+    className: string,
+    titleText: string,
+    groupHeader: string,
+    rows: Array<{ label: string; className: string; totalTasks: number; completedTasks: number; completionPercentage?: number }>,
+    emptyText: string = 'No tasks for this week'
+  ): HTMLElement {
+    const section = document.createElement('div');
+    section.className = className;
+    
+    const title = document.createElement('h3');
+    title.textContent = titleText;
+    section.appendChild(title);
+    
+    if (rows.every(group => group.totalTasks === 0)) {
+      const noData = document.createElement('div');
+      noData.className = 'no-data';
+      noData.textContent = emptyText;
+      section.appendChild(noData);
+      return section;
+    }
+    
+    const table = document.createElement('table');
+    table.className = 'breakdown-table';
+    
+    const thead = document.createElement('thead');
+    const headerRow = document.createElement('tr');
+    [groupHeader, 'Total', 'Completed', 'Completion Rate'].forEach(header => {
+      const th = document.createElement('th');
+      th.textContent = header;
+      headerRow.appendChild(th);
+    });
+    thead.appendChild(headerRow);
+    table.appendChild(thead);
+    
+    const tbody = document.createElement('tbody');
+    
+    rows.forEach(group => {
+      const row = document.createElement('tr');
+      
+      const groupCell = document.createElement('td');
+      groupCell.className = group.className;
+      groupCell.textContent = group.label;
+      row.appendChild(groupCell);
+      
+      const totalCell = document.createElement('td');
+      totalCell.textContent = group.totalTasks.toString();
+      row.appendChild(totalCell);
+      
+      const completedCell = document.createElement('td');
+      completedCell.textContent = group.completedTasks.toString();
+      row.appendChild(completedCell);
+      
+      const percentageCell = document.createElement('td');
+      const percentage = group.completionPercentage !== undefined
+        ? group.completionPercentage.toFixed(1)
+        : group.totalTasks > 0 
+          ? (group.completedTasks / group.totalTasks * 100).toFixed(1)
+          : '0.0';
       percentageCell.textContent = `${percentage}%`;
       row.appendChild(percentageCell);
       
@@ -3,25 +3,94 @@
  * Requirements: 2.1, 2.2, 3.1, 3.3, 3.4, 5.1, 5.2, 5.3, 5.4
  */
 
-import { Task, Course, Result } from '../models/types.js';
+import { Task, TaskPriority, TaskCategory, TaskDetails, ChecklistItem, TimeSession, Course, AuditEntry, AuditAction, AuditFieldChange, RecurrenceRule, RecurrenceScope, TaskRecurrence, Result } from '../models/types.js';
 import { ValidationError } from '../models/errors.js';
+import { describeRecurrence } from '../utils/recurrence.js';
+import { WEEKDAY_NAMES } from '../utils/timeOfDay.js';
+import { TASK_PRIORITIES, PRIORITY_LABELS, DEFAULT_PRIORITY, compareByPriority, isTaskPriority } from '../utils/priority.js';
+import { TASK_CATEGORIES, CATEGORY_LABELS, CATEGORY_ICONS, DEFAULT_CATEGORY, isTaskCategory } from '../utils/category.js';
+import { getChecklistProgress } from '../utils/checklist.js';
+import { getLoggedHours, getSessionHours, formatHours } from '../utils/effort.js';
+import { generateUUID } from '../utils/uuid.js';
+import { showUndoToast } from './Toast.js';
 
 export interface TaskManagementProps {
   tasks: Task[];
   courses: Course[];
-  onCreateTask: (courseId: string, description: string, deadline: Date) => Promise<Result<Task, ValidationError>>;
-  onUpdateTask: (id: string, description: string, deadline: Date) => Promise<Result<Task, ValidationError>>;
+  onCreateTask: (courseId: string, description: string, deadline: Date, details?: TaskDetails) => Promise<Result<Task, ValidationError>>;
+  onUpdateTask: (id: string, description: string, deadline: Date, details?: TaskDetails) => Promise<Result<Task, ValidationError>>;
   onDeleteTask: (id: string) => Promise<Result<void, Error>>;
   onToggleComplete: (id: string, completed: boolean) => Promise<Result<Task, Error>>;
+  onToggleChecklistItem?: (taskId: string, itemId: string, completed: boolean) => Promise<Result<Task, Error>>;
+  onStartTimer?: (id: string) => Promise<Result<Task, Error>>;
+  onStopTimer?: (id: string) => Promise<Result<Task, Error>>;
   onRefresh: () => void;
+  onUndo?: () => Promise<Result<string, Error>>;
+  onGetHistory?: (id: string) => Result<AuditEntry[], Error>;
+  onCreateRecurringTask?: (
+    courseId: string,
+    description: string,
+    deadline: Date,
+    rule: RecurrenceRule,
+    details?: TaskDetails
+  ) => Promise<Result<Task, Error>>;
+  onUpdateRecurringTask?: (
+    id: string,
+    description: string,
+    deadline: Date,
+    scope: RecurrenceScope,
+    details?: TaskDetails
+  ) => Promise<Result<Task[], Error>>;
+  onDeleteRecurringTask?: (id: string, scope: RecurrenceScope) => Promise<Result<void, Error>>;
 }
 
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  complete: 'Completed',
+  reopen: 'Reopened',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Deleted permanently'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  deadline: 'Deadline',
+  priority: 'Priority',
+  category: 'Category',
+  checklist: 'Checklist',
+  autoComplete: 'Complete with checklist',
+  estimatedHours: 'Estimated effort',
+  timeSessions: 'Time logged',
+  timerStartedAt: 'Timer started',
+  courseId: 'Course',
+  completed: 'Completed',
+  completedAt: 'Completed at',
+  deletedAt: 'Deleted at',
+  seriesId: 'Series',
+  occurrenceDate: 'Scheduled for',
+  recurrence: 'Repeats'
+};
+
+const SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: 'This occurrence',
+  following: 'This and following',
+  all: 'All occurrences'
+};
+
+// Weekdays in the order they are offered, Monday first
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
 export class TaskManagement {
   private props: TaskManagementProps;
   private container: HTMLElement | null = null;
   private editingTaskId: string | null = null;
+  private historyTaskId: string | null = null;
+  private deletingSeriesTaskId: string | null = null;
   private filterCourseId: string | null = null;
   private filterStatus: 'all' | 'active' | 'completed' = 'all';
+  private filterCategory: TaskCategory | null = null;
 
   constructor(props: TaskManagementProps) {
     this.props = props;
@@ -112,15 +181,47 @@ export class TaskManagement {
     deadlineInput.className = 'task-deadline-input';
     deadlineInput.id = 'new-task-deadline';
     
+    const prioritySelect = this.createPrioritySelect(DEFAULT_PRIORITY);
+    prioritySelect.id = 'new-task-priority';
+    
+    const categorySelect = this.createCategorySelect(DEFAULT_CATEGORY);
+    categorySelect.id = 'new-task-category';
+    
+    const estimateInput = this.createEstimateInput(undefined);
+    estimateInput.id = 'new-task-estimate';
+    
+    const checklist = this.createChecklistControls(null);
+    checklist.textarea.id = 'new-task-checklist';
+    checklist.autoCompleteCheckbox.id = 'new-task-auto-complete';
+    
     const addButton = document.createElement('button');
     addButton.textContent = 'Add Task';
     addButton.className = 'add-task-button';
+    const repeat = this.props.onCreateRecurringTask ? this.createRepeatControls() : null;
+    
     addButton.onclick = async () => {
       const deadline = deadlineInput.value ? new Date(deadlineInput.value) : new Date();
-      await this.handleCreateTask(courseSelect.value, descriptionInput.value, deadline);
+      const rule = repeat?.getRule(deadline) ?? null;
+      const details: TaskDetails = {
+        priority: prioritySelect.value as TaskPriority,
+        category: categorySelect.value as TaskCategory,
+        checklist: checklist.getChecklist(),
+        autoComplete: checklist.autoCompleteCheckbox.checked,
+        estimatedHours: estimateInput.value ? Number(estimateInput.value) : undefined
+      };
+      if (rule) {
+        await this.handleCreateRecurringTask(courseSelect.value, descriptionInput.value, deadline, rule, details);
+      } else {
+        await this.handleCreateTask(courseSelect.value, descriptionInput.value, deadline, details);
+      }
       descriptionInput.value = '';
       courseSelect.value = '';
       deadlineInput.value = '';
+      prioritySelect.value = DEFAULT_PRIORITY;
+      categorySelect.value = DEFAULT_CATEGORY;
+      estimateInput.value = '';
+      checklist.textarea.value = '';
+      checklist.autoCompleteCheckbox.checked = false;
     };
     
     const errorDisplay = document.createElement('div');
@@ -131,12 +232,215 @@ export class TaskManagement {
     form.appendChild(descriptionInput);
     form.appendChild(courseSelect);
     form.appendChild(deadlineInput);
+    form.appendChild(categorySelect);
+    form.appendChild(prioritySelect);
+    form.appendChild(estimateInput);
+    form.appendChild(checklist.element);
+    if (repeat) {
+      form.appendChild(repeat.element);
+    }
     form.appendChild(addButton);
     form.appendChild(errorDisplay);
     
     return form;
   }
 
+  /**
+   * Create a select offering the task priorities, most important first
+   */
+  private createPrioritySelect(selected: TaskPriority): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = 'task-priority-select';
+    
+    TASK_PRIORITIES.forEach(priority => {
+      const option = document.createElement('option');
+      option.value = priority;
+      option.textContent = `${PRIORITY_LABELS[priority]} priority`;
+      if (priority === selected) {
+        option.selected = true;
+      }
+      select.appendChild(option);
+    });
+    
+    return select;
+  }
+
+  /**
+   * Create a select offering the task categories
+   */
+  private createCategorySelect(selected: TaskCategory): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = 'task-category-select';
+    
+    TASK_CATEGORIES.forEach(category => {
+      const option = document.createElement('option');
+      option.value = category;
+      option.textContent = `${CATEGORY_ICONS[category]} ${CATEGORY_LABELS[category]}`;
+      if (category === selected) {
+        option.selected = true;
+      }
+      select.appendChild(option);
+    });
+    
+    return select;
+  }
+
+  /**
+   * Create an input for the estimated effort in hours; empty means no estimate
+   */
+  private createEstimateInput(hours: number | undefined): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '0';
+    input.step = '0.5';
+    input.placeholder = 'Estimate (hours)';
+    input.className = 'task-estimate-input';
+    input.value = hours !== undefined ? String(hours) : '';
+    return input;
+  }
+
+  /**
+   * Create the controls for editing a checklist, one item per line
+   * Lines matching an item of the task keep that item's ID and completed flag.
+   * @returns The controls and a function reading the checklist
+   */
+  private createChecklistControls(task: Task | null): {
+    element: HTMLElement;
+    textarea: HTMLTextAreaElement;
+    autoCompleteCheckbox: HTMLInputElement;
+    getChecklist: () => ChecklistItem[];
+  } {
+    const element = document.createElement('div');
+    element.className = 'task-checklist-controls';
+    
+    const textarea = document.createElement('textarea');
+    textarea.className = 'task-checklist-input';
+    textarea.placeholder = 'Checklist (one item per line)';
+    textarea.rows = 3;
+    textarea.value = (task?.checklist ?? []).map(item => item.text).join('\n');
+    element.appendChild(textarea);
+    
+    const autoCompleteLabel = document.createElement('label');
+    autoCompleteLabel.className = 'task-auto-complete-toggle';
+    const autoCompleteCheckbox = document.createElement('input');
+    autoCompleteCheckbox.type = 'checkbox';
+    autoCompleteCheckbox.checked = task?.autoComplete ?? false;
+    autoCompleteLabel.appendChild(autoCompleteCheckbox);
+    autoCompleteLabel.appendChild(document.createTextNode(' Complete the task when all items are done'));
+    element.appendChild(autoCompleteLabel);
+    
+    const getChecklist = (): ChecklistItem[] => {
+      const unmatched = [...(task?.checklist ?? [])];
+      return textarea.value
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .map(text => {
+          const index = unmatched.findIndex(item => item.text === text);
+          if (index === -1) {
+            return { id: generateUUID(), text, completed: false };
+          }
+          return unmatched.splice(index, 1)[0];
+        });
+    };
+    
+    return { element, textarea, autoCompleteCheckbox, getChecklist };
+  }
+
+  /**
+   * Create the controls for making a new task repeat weekly
+   * @returns The controls and a function reading the rule, which is null unless repeating is chosen
+   */
+  private createRepeatControls(): { element: HTMLElement; getRule: (deadline: Date) => RecurrenceRule | null } {
+    const element = document.createElement('div');
+    element.className = 'task-repeat';
+    
+    const repeatLabel = document.createElement('label');
+    repeatLabel.className = 'task-repeat-toggle';
+    const repeatCheckbox = document.createElement('input');
+    repeatCheckbox.type = 'checkbox';
+    repeatCheckbox.id = 'new-task-repeat';
+    repeatLabel.appendChild(repeatCheckbox);
+    repeatLabel.appendChild(document.createTextNode(' Repeat weekly'));
+    element.appendChild(repeatLabel);
+    
+    const options = document.createElement('div');
+    options.className = 'task-repeat-options';
+    options.style.display = 'none';
+    repeatCheckbox.onchange = () => {
+      options.style.display = repeatCheckbox.checked ? 'block' : 'none';
+    };
+    
+    const weekdays = document.createElement('div');
+    weekdays.className = 'task-repeat-weekdays';
+    const weekdayCheckboxes = WEEKDAY_ORDER.map(day => {
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = String(day);
+      label.appendChild(checkbox);
+      label.appendChild(document.createTextNode(` ${WEEKDAY_NAMES[day]}`));
+      weekdays.appendChild(label);
+      return checkbox;
+    });
+    options.appendChild(weekdays);
+    
+    const intervalLabel = document.createElement('label');
+    intervalLabel.textContent = 'Every ';
+    const intervalInput = document.createElement('input');
+    intervalInput.type = 'number';
+    intervalInput.min = '1';
+    intervalInput.value = '1';
+    intervalInput.className = 'task-repeat-interval';
+    intervalLabel.appendChild(intervalInput);
+    intervalLabel.appendChild(document.createTextNode(' week(s)'));
+    options.appendChild(intervalLabel);
+    
+    const untilLabel = document.createElement('label');
+    untilLabel.textContent = ' Until ';
+    const untilInput = document.createElement('input');
+    untilInput.type = 'date';
+    untilInput.className = 'task-repeat-until';
+    untilLabel.appendChild(untilInput);
+    options.appendChild(untilLabel);
+    
+    const countLabel = document.createElement('label');
+    countLabel.textContent = ' or ';
+    const countInput = document.createElement('input');
+    countInput.type = 'number';
+    countInput.min = '1';
+    countInput.placeholder = 'Any';
+    countInput.className = 'task-repeat-count';
+    countLabel.appendChild(countInput);
+    countLabel.appendChild(document.createTextNode(' times'));
+    options.appendChild(countLabel);
+    
+    element.appendChild(options);
+    
+    const getRule = (deadline: Date): RecurrenceRule | null => {
+      if (!repeatCheckbox.checked) {
+        return null;
+      }
+      const selected = weekdayCheckboxes.filter(checkbox => checkbox.checked).map(checkbox => Number(checkbox.value));
+      const rule: RecurrenceRule = {
+        interval: Number(intervalInput.value),
+        // Without a choice, repeat on the weekday of the first deadline
+        weekdays: selected.length > 0 ? selected : [deadline.getDay()]
+      };
+      if (untilInput.value) {
+        // The series ends at the end of the chosen day
+        const [year, month, day] = untilInput.value.split('-').map(Number);
+        rule.until = new Date(year, month - 1, day, 23, 59, 59, 999);
+      }
+      if (countInput.value) {
+        rule.count = Number(countInput.value);
+      }
+      return rule;
+    };
+    
+    return { element, getRule };
+  }
+
   /**
    * Create filter controls
    */
@@ -213,6 +517,38 @@ export class TaskManagement {
     statusFilterLabel.appendChild(statusFilter);
     filters.appendChild(statusFilterLabel);
     
+    // Category filter
+    const categoryFilterLabel = document.createElement('label');
+    categoryFilterLabel.textContent = ' Category: ';
+    
+    const categoryFilter = document.createElement('select');
+    categoryFilter.className = 'category-filter';
+    
+    const allCategoriesOption = document.createElement('option');
+    allCategoriesOption.value = '';
+    allCategoriesOption.textContent = 'All Categories';
+    categoryFilter.appendChild(allCategoriesOption);
+    
+    TASK_CATEGORIES.forEach(category => {
+      const option = document.createElement('option');
+      option.value = category;
+      option.textContent = CATEGORY_LABELS[category];
+      if (this.filterCategory === category) {
+        option.selected = true;
+      }
+      categoryFilter.appendChild(option);
+    });
+    
+    categoryFilter.onchange = () => {
+      this.filterCategory = isTaskCategory(categoryFilter.value) ? categoryFilter.value : null;
+      if (this.container) {
+        this.render(this.container);
+      }
+    };
+    
+    categoryFilterLabel.appendChild(categoryFilter);
+    filters.appendChild(categoryFilterLabel);
+    
     return filters;
   }
 
@@ -266,8 +602,8 @@ export class TaskManagement {
     const taskContainer = document.createElement('div');
     taskContainer.className = 'course-tasks';
     
-    // Sort tasks by deadline
-    const sortedTasks = [...tasks].sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+    // Sort tasks by priority, then by deadline
+    const sortedTasks = [...tasks].sort(compareByPriority);
     
     sortedTasks.forEach(task => {
       const taskElement = this.createTaskElement(task);
@@ -285,7 +621,7 @@ export class TaskManagement {
    */
   private createTaskElement(task: Task): HTMLElement {
     const element = document.createElement('div');
-    element.className = `task-element${task.completed ? ' completed' : ''}`;
+    element.className = `task-element priority-${task.priority}${task.completed ? ' completed' : ''}`;
     
     if (this.editingTaskId === task.id) {
       element.appendChild(this.createEditForm(task));
@@ -293,6 +629,10 @@ export class TaskManagement {
       element.appendChild(this.createTaskDisplay(task));
     }
     
+    if (this.historyTaskId === task.id) {
+      element.appendChild(this.createHistory(task));
+    }
+    
     return element;
   }
 
@@ -335,6 +675,44 @@ export class TaskManagement {
     info.appendChild(description);
     info.appendChild(deadline);
     
+    const category = document.createElement('div');
+    category.className = `task-category category-${task.category}`;
+    category.textContent = `${CATEGORY_ICONS[task.category]} ${CATEGORY_LABELS[task.category]}`;
+    info.appendChild(category);
+    
+    const priority = document.createElement('div');
+    priority.className = `task-priority priority-${task.priority}`;
+    priority.textContent = `${PRIORITY_LABELS[task.priority]} priority`;
+    info.appendChild(priority);
+    
+    if (task.seriesId) {
+      const recurrence = this.getSeriesRecurrence(task.seriesId);
+      const badge = document.createElement('div');
+      badge.className = 'task-recurrence';
+      badge.textContent = `↻ ${recurrence ? describeRecurrence(recurrence.rule) : 'Recurring'}`;
+      info.appendChild(badge);
+    }
+    
+    if (task.estimatedHours !== undefined || task.timeSessions || task.timerStartedAt) {
+      const effort = document.createElement('div');
+      effort.className = 'task-effort';
+      const parts: string[] = [];
+      if (task.estimatedHours !== undefined) {
+        parts.push(`Estimate: ${formatHours(task.estimatedHours)}`);
+      }
+      parts.push(`Logged: ${formatHours(getLoggedHours(task))}`);
+      if (task.timerStartedAt) {
+        parts.push(`⏱ Timer running since ${this.formatDateTime(task.timerStartedAt)}`);
+        effort.classList.add('timer-running');
+      }
+      effort.textContent = parts.join(' · ');
+      info.appendChild(effort);
+    }
+    
+    if (task.checklist && task.checklist.length > 0) {
+      info.appendChild(this.createChecklist(task));
+    }
+    
     const actions = document.createElement('div');
     actions.className = 'task-actions';
     
@@ -349,15 +727,114 @@ export class TaskManagement {
     deleteButton.onclick = () => this.handleDeleteTask(task.id);
     
     actions.appendChild(editButton);
+    
+    if (this.props.onStartTimer && this.props.onStopTimer) {
+      const timerButton = document.createElement('button');
+      timerButton.textContent = task.timerStartedAt ? 'Stop Timer' : 'Start Timer';
+      timerButton.className = 'timer-button';
+      timerButton.onclick = () => this.handleToggleTimer(task);
+      actions.appendChild(timerButton);
+    }
+    
+    if (this.props.onGetHistory) {
+      const historyButton = document.createElement('button');
+      historyButton.textContent = this.historyTaskId === task.id ? 'Hide History' : 'History';
+      historyButton.className = 'history-button';
+      historyButton.onclick = () => this.toggleHistory(task.id);
+      actions.appendChild(historyButton);
+    }
+    
     actions.appendChild(deleteButton);
     
     display.appendChild(checkbox);
     display.appendChild(info);
     display.appendChild(actions);
     
+    if (this.deletingSeriesTaskId === task.id) {
+      display.appendChild(this.createDeleteScopeChooser(task));
+    }
+    
     return display;
   }
 
+  /**
+   * Create the checklist of a task with its progress
+   */
+  private createChecklist(task: Task): HTMLElement {
+    const checklist = document.createElement('div');
+    checklist.className = 'task-checklist';
+    
+    const { done, total } = getChecklistProgress(task);
+    const progress = document.createElement('div');
+    progress.className = 'task-checklist-progress';
+    progress.textContent = `${done}/${total} done`;
+    checklist.appendChild(progress);
+    
+    const list = document.createElement('ul');
+    list.className = 'task-checklist-items';
+    for (const item of task.checklist ?? []) {
+      const entry = document.createElement('li');
+      entry.className = `task-checklist-item${item.completed ? ' completed' : ''}`;
+      
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = item.completed;
+      checkbox.className = 'task-checklist-checkbox';
+      checkbox.disabled = !this.props.onToggleChecklistItem;
+      checkbox.onchange = async () => {
+        await this.handleToggleChecklistItem(task.id, item.id, checkbox.checked);
+      };
+      label.appendChild(checkbox);
+      label.appendChild(document.createTextNode(` ${item.text}`));
+      entry.appendChild(label);
+      list.appendChild(entry);
+    }
+    checklist.appendChild(list);
+    
+    return checklist;
+  }
+
+  /**
+   * Create the choice of which occurrences of a recurring task to delete
+   */
+  private createDeleteScopeChooser(task: Task): HTMLElement {
+    const chooser = document.createElement('div');
+    chooser.className = 'task-delete-scope';
+    
+    const prompt = document.createElement('span');
+    prompt.textContent = 'Delete recurring task:';
+    chooser.appendChild(prompt);
+    
+    (Object.keys(SCOPE_LABELS) as RecurrenceScope[]).forEach(scope => {
+      const button = document.createElement('button');
+      button.textContent = SCOPE_LABELS[scope];
+      button.className = 'delete-button';
+      button.onclick = () => this.handleDeleteOccurrences(task.id, scope);
+      chooser.appendChild(button);
+    });
+    
+    const cancelButton = document.createElement('button');
+    cancelButton.textContent = 'Cancel';
+    cancelButton.className = 'cancel-button';
+    cancelButton.onclick = () => {
+      this.deletingSeriesTaskId = null;
+      if (this.container) {
+        this.render(this.container);
+      }
+    };
+    chooser.appendChild(cancelButton);
+    
+    return chooser;
+  }
+
+  /**
+   * Get the definition of a series from the occurrence holding it
+   */
+  private getSeriesRecurrence(seriesId: string): TaskRecurrence | null {
+    return this.props.tasks.find(t => t.seriesId === seriesId && t.recurrence)?.recurrence ?? null;
+  }
+
   /**
    * Create edit form for a task
    * Requirement 5.1: Support editing task description and deadline
@@ -378,6 +855,42 @@ export class TaskManagement {
     deadlineInput.className = 'edit-task-deadline';
     deadlineInput.id = `edit-deadline-${task.id}`;
     
+    const prioritySelect = this.createPrioritySelect(task.priority);
+    prioritySelect.classList.add('edit-task-priority');
+    prioritySelect.id = `edit-priority-${task.id}`;
+    
+    const categorySelect = this.createCategorySelect(task.category);
+    categorySelect.classList.add('edit-task-category');
+    categorySelect.id = `edit-category-${task.id}`;
+    
+    const estimateInput = this.createEstimateInput(task.estimatedHours);
+    estimateInput.classList.add('edit-task-estimate');
+    estimateInput.id = `edit-estimate-${task.id}`;
+    
+    const checklist = this.createChecklistControls(task);
+    checklist.textarea.id = `edit-checklist-${task.id}`;
+    checklist.autoCompleteCheckbox.id = `edit-auto-complete-${task.id}`;
+    
+    // Occurrences of recurring tasks can be edited together
+    let scopeSelect: HTMLSelectElement | null = null;
+    if (task.seriesId && this.props.onUpdateRecurringTask) {
+      scopeSelect = document.createElement('select');
+      scopeSelect.className = 'edit-task-scope';
+      scopeSelect.id = `edit-scope-${task.id}`;
+      (Object.keys(SCOPE_LABELS) as RecurrenceScope[]).forEach(scope => {
+        const option = document.createElement('option');
+        option.value = scope;
+        option.textContent = SCOPE_LABELS[scope];
+        scopeSelect!.appendChild(option);
+      });
+      // Checklists belong to single occurrences
+      scopeSelect.onchange = () => {
+        const single = scopeSelect!.value === 'this';
+        checklist.textarea.disabled = !single;
+        checklist.autoCompleteCheckbox.disabled = !single;
+      };
+    }
+    
     const actions = document.createElement('div');
     actions.className = 'edit-actions';
     
@@ -386,7 +899,22 @@ export class TaskManagement {
     saveButton.className = 'save-button';
     saveButton.onclick = async () => {
       const newDeadline = new Date(deadlineInput.value);
-      await this.handleUpdateTask(task.id, descriptionInput.value, newDeadline);
+      const scope = (scopeSelect?.value ?? 'this') as RecurrenceScope;
+      const details: TaskDetails = {
+        priority: prioritySelect.value as TaskPriority,
+        category: categorySelect.value as TaskCategory,
+        // An emptied input clears the estimate
+        estimatedHours: estimateInput.value ? Number(estimateInput.value) : 0
+      };
+      if (scope !== 'this') {
+        await this.handleUpdateOccurrences(task.id, descriptionInput.value, newDeadline, scope, details);
+      } else {
+        await this.handleUpdateTask(task.id, descriptionInput.value, newDeadline, {
+          ...details,
+          checklist: checklist.getChecklist(),
+          autoComplete: checklist.autoCompleteCheckbox.checked
+        });
+      }
     };
     
     const cancelButton = document.createElement('button');
@@ -404,6 +932,13 @@ export class TaskManagement {
     
     form.appendChild(descriptionInput);
     form.appendChild(deadlineInput);
+    form.appendChild(categorySelect);
+    form.appendChild(prioritySelect);
+    form.appendChild(estimateInput);
+    form.appendChild(checklist.element);
+    if (scopeSelect) {
+      form.appendChild(scopeSelect);
+    }
     form.appendChild(actions);
     form.appendChild(errorDisplay);
     
@@ -428,6 +963,11 @@ export class TaskManagement {
         return false;
       }
       
+      // Filter by category
+      if (this.filterCategory && task.category !== this.filterCategory) {
+        return false;
+      }
+      
       return true;
     });
   }
@@ -450,7 +990,7 @@ export class TaskManagement {
   /**
    * Handle task creation
    */
-  private async handleCreateTask(courseId: string, description: string, deadline: Date): Promise<void> {
+  private async handleCreateTask(courseId: string, description: string, deadline: Date, details: TaskDetails): Promise<void> {
     const errorDisplay = document.getElementById('task-form-error');
     
     if (!courseId) {
@@ -461,7 +1001,42 @@ export class TaskManagement {
       return;
     }
     
-    const result = await this.props.onCreateTask(courseId, description, deadline);
+    const result = await this.props.onCreateTask(courseId, description, deadline, details);
+    
+    if (result.success) {
+      if (errorDisplay) {
+        errorDisplay.style.display = 'none';
+      }
+      this.props.onRefresh();
+    } else {
+      if (errorDisplay) {
+        errorDisplay.textContent = result.error.message;
+        errorDisplay.style.display = 'block';
+      }
+    }
+  }
+
+  /**
+   * Handle recurring task creation
+   */
+  private async handleCreateRecurringTask(
+    courseId: string,
+    description: string,
+    deadline: Date,
+    rule: RecurrenceRule,
+    details: TaskDetails
+  ): Promise<void> {
+    const errorDisplay = document.getElementById('task-form-error');
+    
+    if (!courseId || !this.props.onCreateRecurringTask) {
+      if (errorDisplay) {
+        errorDisplay.textContent = 'Please select a course';
+        errorDisplay.style.display = 'block';
+      }
+      return;
+    }
+    
+    const result = await this.props.onCreateRecurringTask(courseId, description, deadline, rule, details);
     
     if (result.success) {
       if (errorDisplay) {
@@ -479,10 +1054,41 @@ export class TaskManagement {
   /**
    * Handle task update
    */
-  private async handleUpdateTask(id: string, description: string, deadline: Date): Promise<void> {
+  private async handleUpdateTask(id: string, description: string, deadline: Date, details: TaskDetails): Promise<void> {
     const errorDisplay = document.getElementById(`edit-error-${id}`);
     
-    const result = await this.props.onUpdateTask(id, description, deadline);
+    const result = await this.props.onUpdateTask(id, description, deadline, details);
+    
+    if (result.success) {
+      if (errorDisplay) {
+        errorDisplay.style.display = 'none';
+      }
+      this.editingTaskId = null;
+      this.props.onRefresh();
+    } else {
+      if (errorDisplay) {
+        errorDisplay.textContent = result.error.message;
+        errorDisplay.style.display = 'block';
+      }
+    }
+  }
+
+  /**
+   * Handle an update of several occurrences of a recurring task
+   */
+  private async handleUpdateOccurrences(
+    id: string,
+    description: string,
+    deadline: Date,
+    scope: RecurrenceScope,
+    details: TaskDetails
+  ): Promise<void> {
+    const errorDisplay = document.getElementById(`edit-error-${id}`);
+    if (!this.props.onUpdateRecurringTask) {
+      return;
+    }
+    
+    const result = await this.props.onUpdateRecurringTask(id, description, deadline, scope, details);
     
     if (result.success) {
       if (errorDisplay) {
@@ -503,17 +1109,60 @@ export class TaskManagement {
    * Requirement 5.2: Support deleting tasks
    */
   private async handleDeleteTask(id: string): Promise<void> {
+    // Occurrences of recurring tasks ask which occurrences to delete instead
+    const task = this.props.tasks.find(t => t.id === id);
+    if (task?.seriesId && this.props.onDeleteRecurringTask) {
+      this.deletingSeriesTaskId = this.deletingSeriesTaskId === id ? null : id;
+      if (this.container) {
+        this.render(this.container);
+      }
+      return;
+    }
+    
     if (confirm('Are you sure you want to delete this task?')) {
+      const description = this.props.tasks.find(t => t.id === id)?.description;
       const result = await this.props.onDeleteTask(id);
       
       if (result.success) {
         this.props.onRefresh();
+        if (this.props.onUndo) {
+          showUndoToast({
+            message: description ? `Deleted task "${description}"` : 'Task deleted',
+            onUndo: this.props.onUndo,
+            onUndone: () => this.props.onRefresh()
+          });
+        }
       } else {
         alert(`Error deleting task: ${result.error.message}`);
       }
     }
   }
 
+  /**
+   * Handle deletion of occurrences of a recurring task
+   */
+  private async handleDeleteOccurrences(id: string, scope: RecurrenceScope): Promise<void> {
+    if (!this.props.onDeleteRecurringTask) {
+      return;
+    }
+    const description = this.props.tasks.find(t => t.id === id)?.description;
+    const result = await this.props.onDeleteRecurringTask(id, scope);
+    
+    if (result.success) {
+      this.deletingSeriesTaskId = null;
+      this.props.onRefresh();
+      if (this.props.onUndo) {
+        showUndoToast({
+          message: description ? `Deleted ${SCOPE_LABELS[scope].toLowerCase()} of "${description}"` : 'Task deleted',
+          onUndo: this.props.onUndo,
+          onUndone: () => this.props.onRefresh()
+        });
+      }
+    } else {
+      alert(`Error deleting task: ${result.error.message}`);
+    }
+  }
+
   /**
    * Handle toggle complete
    * Requirement 3.1, 3.4: Support marking tasks as complete/incomplete
@@ -528,6 +1177,139 @@ export class TaskManagement {
     }
   }
 
+  /**
+   * Handle checking or unchecking a checklist item
+   */
+  private async handleToggleChecklistItem(taskId: string, itemId: string, completed: boolean): Promise<void> {
+    const result = await this.props.onToggleChecklistItem!(taskId, itemId, completed);
+    
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error updating checklist: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Handle starting or stopping the timer of a task
+   */
+  private async handleToggleTimer(task: Task): Promise<void> {
+    const result = task.timerStartedAt
+      ? await this.props.onStopTimer!(task.id)
+      : await this.props.onStartTimer!(task.id);
+    
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error updating timer: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Create the change history of a task, newest first
+   */
+  private createHistory(task: Task): HTMLElement {
+    const history = document.createElement('div');
+    history.className = 'task-history';
+    
+    const result = this.props.onGetHistory?.(task.id);
+    if (!result) {
+      return history;
+    }
+    if (!result.success) {
+      history.textContent = `Could not load history: ${result.error.message}`;
+      return history;
+    }
+    
+    if (result.value.length === 0) {
+      history.textContent = 'No changes recorded for this task.';
+      return history;
+    }
+    
+    const list = document.createElement('ul');
+    list.className = 'task-history-list';
+    for (const entry of result.value) {
+      const item = document.createElement('li');
+      item.className = 'task-history-entry';
+      
+      const summary = document.createElement('div');
+      summary.className = 'task-history-summary';
+      summary.textContent = `${this.formatDateTime(entry.timestamp)} · ${ACTION_LABELS[entry.action]}`;
+      item.appendChild(summary);
+      
+      // Creation and purging change every field, so only the action is shown for them
+      if (entry.action !== 'create' && entry.action !== 'purge') {
+        for (const change of entry.changes) {
+          const detail = document.createElement('div');
+          detail.className = 'task-history-change';
+          detail.textContent = this.formatChange(change);
+          item.appendChild(detail);
+        }
+      }
+      
+      list.appendChild(item);
+    }
+    history.appendChild(list);
+    
+    return history;
+  }
+
+  /**
+   * Describe one field change, e.g. "Deadline: 3/1/2024 12:00 PM → 3/8/2024 12:00 PM"
+   */
+  private formatChange(change: AuditFieldChange): string {
+    const label = FIELD_LABELS[change.field] ?? change.field;
+    return `${label}: ${this.formatValue(change.field, change.before)} → ${this.formatValue(change.field, change.after)}`;
+  }
+
+  /**
+   * Format a recorded field value for display
+   */
+  private formatValue(field: string, value: unknown): string {
+    if (value === undefined || value === null) {
+      return '—';
+    }
+    if (value instanceof Date) {
+      return this.formatDateTime(value);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    if (field === 'courseId') {
+      return this.props.courses.find(c => c.id === value)?.name ?? String(value);
+    }
+    if (field === 'recurrence') {
+      return describeRecurrence((value as TaskRecurrence).rule);
+    }
+    if (field === 'priority' && isTaskPriority(value)) {
+      return PRIORITY_LABELS[value];
+    }
+    if (field === 'category' && isTaskCategory(value)) {
+      return CATEGORY_LABELS[value];
+    }
+    if (field === 'estimatedHours' && typeof value === 'number') {
+      return formatHours(value);
+    }
+    if (field === 'timeSessions' && Array.isArray(value)) {
+      return formatHours(value.reduce((sum: number, session: TimeSession) => sum + getSessionHours(session), 0));
+    }
+    if (field === 'checklist' && Array.isArray(value)) {
+      const items = value as ChecklistItem[];
+      return `${items.filter(item => item.completed).length}/${items.length} done`;
+    }
+    return String(value);
+  }
+
+  /**
+   * Show or hide the change history of a task
+   */
+  private toggleHistory(taskId: string): void {
+    this.historyTaskId = this.historyTaskId === taskId ? null : taskId;
+    if (this.container) {
+      this.render(this.container);
+    }
+  }
+
   /**
    * Start editing a task
    */
@@ -0,0 +1,228 @@
+/**
+ * Terms component - lists the terms courses are taught in, creates, archives and deletes them
+ */
+
+import { Term, Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { getTermStatus, isTermFinished, TERM_STATUS_LABELS } from '../utils/term.js';
+
+export interface TermsProps {
+  terms: Term[];
+  courseCounts: Map<string, number>;
+  onCreateTerm: (name: string, startDate: Date, endDate: Date) => Promise<Result<Term, ValidationError>>;
+  onArchiveTerm: (id: string) => Promise<Result<Term, Error>>;
+  onUnarchiveTerm: (id: string) => Promise<Result<Term, Error>>;
+  onDeleteTerm: (id: string) => Promise<Result<void, Error>>;
+  onRefresh: () => void;
+}
+
+/**
+ * Read the value of a date input as local midnight
+ */
+function parseDateInput(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export class Terms {
+  private props: TermsProps;
+  private container: HTMLElement | null = null;
+
+  constructor(props: TermsProps) {
+    this.props = props;
+  }
+
+  /**
+   * Update component props and re-render
+   */
+  updateProps(props: Partial<TermsProps>): void {
+    this.props = { ...this.props, ...props };
+    if (this.container) {
+      this.render(this.container);
+    }
+  }
+
+  /**
+   * Render the term list to a container element
+   */
+  render(container: HTMLElement): void {
+    this.container = container;
+    container.innerHTML = '';
+
+    const view = document.createElement('div');
+    view.className = 'terms';
+
+    const title = document.createElement('h2');
+    title.textContent = 'Terms';
+    view.appendChild(title);
+
+    view.appendChild(this.createTermForm());
+
+    if (this.props.terms.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'no-terms';
+      empty.textContent = 'No terms yet. Add a term to group your courses by semester.';
+      view.appendChild(empty);
+    } else {
+      const list = document.createElement('ul');
+      list.className = 'term-list';
+      this.props.terms.forEach(term => list.appendChild(this.createTermItem(term)));
+      view.appendChild(list);
+    }
+
+    container.appendChild(view);
+  }
+
+  /**
+   * Create the form for adding a term
+   */
+  private createTermForm(): HTMLElement {
+    const form = document.createElement('div');
+    form.className = 'term-form';
+
+    const formTitle = document.createElement('h3');
+    formTitle.textContent = 'Add New Term';
+    form.appendChild(formTitle);
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.placeholder = 'Term Name';
+    nameInput.className = 'term-name-input';
+    form.appendChild(nameInput);
+
+    const startLabel = document.createElement('label');
+    startLabel.textContent = ' From ';
+    const startInput = document.createElement('input');
+    startInput.type = 'date';
+    startInput.className = 'term-start-input';
+    startLabel.appendChild(startInput);
+    form.appendChild(startLabel);
+
+    const endLabel = document.createElement('label');
+    endLabel.textContent = ' to ';
+    const endInput = document.createElement('input');
+    endInput.type = 'date';
+    endInput.className = 'term-end-input';
+    endLabel.appendChild(endInput);
+    form.appendChild(endLabel);
+
+    const errorDisplay = document.createElement('div');
+    errorDisplay.className = 'error-message';
+    errorDisplay.style.display = 'none';
+
+    const addButton = document.createElement('button');
+    addButton.textContent = 'Add Term';
+    addButton.className = 'add-term-button';
+    addButton.onclick = async () => {
+      if (!startInput.value || !endInput.value) {
+        errorDisplay.textContent = 'Choose the first and last day of the term';
+        errorDisplay.style.display = 'block';
+        return;
+      }
+
+      const result = await this.props.onCreateTerm(nameInput.value, parseDateInput(startInput.value), parseDateInput(endInput.value));
+      if (result.success) {
+        this.props.onRefresh();
+      } else {
+        errorDisplay.textContent = result.error.message;
+        errorDisplay.style.display = 'block';
+      }
+    };
+    form.appendChild(addButton);
+    form.appendChild(errorDisplay);
+
+    return form;
+  }
+
+  /**
+   * Create a list item for a term with its status, dates and actions
+   */
+  private createTermItem(term: Term): HTMLElement {
+    const status = getTermStatus(term);
+    const item = document.createElement('li');
+    item.className = `term-item term-${status}`;
+
+    const name = document.createElement('span');
+    name.className = 'term-item-name';
+    name.textContent = term.name;
+    item.appendChild(name);
+
+    const badge = document.createElement('span');
+    badge.className = `term-status term-status-${status}`;
+    badge.textContent = TERM_STATUS_LABELS[status];
+    item.appendChild(badge);
+
+    const courseCount = this.props.courseCounts.get(term.id) ?? 0;
+    const details = document.createElement('span');
+    details.className = 'term-item-details';
+    details.textContent = `${term.startDate.toLocaleDateString()} – ${term.endDate.toLocaleDateString()} · ` +
+      `${courseCount} course${courseCount !== 1 ? 's' : ''}`;
+    item.appendChild(details);
+
+    const actions = document.createElement('span');
+    actions.className = 'term-actions';
+
+    if (term.archivedAt) {
+      actions.appendChild(this.createButton('Unarchive', 'unarchive-term-button', () => this.handleUnarchive(term)));
+    } else if (isTermFinished(term)) {
+      actions.appendChild(this.createButton('Archive', 'archive-term-button', () => this.handleArchive(term)));
+    }
+    if (courseCount === 0) {
+      actions.appendChild(this.createButton('Delete', 'delete-button', () => this.handleDelete(term)));
+    }
+    item.appendChild(actions);
+
+    return item;
+  }
+
+  /**
+   * Create an action button
+   */
+  private createButton(label: string, className: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.className = className;
+    button.onclick = onClick;
+    return button;
+  }
+
+  /**
+   * Archive a finished term, hiding its courses from the course lists
+   */
+  private async handleArchive(term: Term): Promise<void> {
+    const result = await this.props.onArchiveTerm(term.id);
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error archiving term: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Take a term out of the archive
+   */
+  private async handleUnarchive(term: Term): Promise<void> {
+    const result = await this.props.onUnarchiveTerm(term.id);
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error unarchiving term: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Delete a term without courses after confirmation
+   */
+  private async handleDelete(term: Term): Promise<void> {
+    if (!confirm(`Delete the term "${term.name}"?`)) {
+      return;
+    }
+
+    const result = await this.props.onDeleteTerm(term.id);
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error deleting term: ${result.error.message}`);
+    }
+  }
+}
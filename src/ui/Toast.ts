@@ -0,0 +1,71 @@
+/**
+ * Toast - transient notification with an Undo action
+ * Shown after destructive changes so they can be reverted without a confirmation round-trip
+ */
+
+import { Result } from '../models/types.js';
+
+export interface UndoToastOptions {
+  message: string;
+  onUndo: () => Promise<Result<string, Error>>;
+  onUndone?: () => void;
+  duration?: number;        // Milliseconds before the toast dismisses itself
+}
+
+/**
+ * How long an undo toast stays visible by default
+ */
+const DEFAULT_TOAST_DURATION = 8000;
+
+let activeToast: { element: HTMLElement; timer: ReturnType<typeof setTimeout> } | null = null;
+
+/**
+ * Remove the visible toast, if any
+ */
+export function dismissToast(): void {
+  if (activeToast) {
+    clearTimeout(activeToast.timer);
+    activeToast.element.remove();
+    activeToast = null;
+  }
+}
+
+/**
+ * Show a toast with an Undo button, replacing any toast that is already visible
+ */
+export function showUndoToast(options: UndoToastOptions): HTMLElement {
+  dismissToast();
+  
+  const toast = document.createElement('div');
+  toast.className = 'undo-toast';
+  toast.setAttribute('role', 'status');
+  
+  const message = document.createElement('span');
+  message.className = 'undo-toast-message';
+  message.textContent = options.message;
+  toast.appendChild(message);
+  
+  const undoButton = document.createElement('button');
+  undoButton.className = 'btn btn-small undo-toast-button';
+  undoButton.textContent = 'Undo';
+  undoButton.onclick = async () => {
+    undoButton.disabled = true;
+    const result = await options.onUndo();
+    dismissToast();
+    
+    if (result.success) {
+      options.onUndone?.();
+    } else {
+      alert(`Error undoing change: ${result.error.message}`);
+    }
+  };
+  toast.appendChild(undoButton);
+  
+  document.body.appendChild(toast);
+  activeToast = {
+    element: toast,
+    timer: setTimeout(dismissToast, options.duration ?? DEFAULT_TOAST_DURATION)
+  };
+  
+  return toast;
+}
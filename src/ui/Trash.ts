@@ -0,0 +1,198 @@
+/**
+ * Trash component - lists deleted courses and tasks, restores them or empties the trash
+ */
+
+import { Course, Task, TrashContents, Result } from '../models/types.js';
+
+export interface TrashProps {
+  trash: TrashContents;
+  courses: Map<string, Course>;
+  retentionDays: number;
+  onRestoreTask: (id: string) => Promise<Result<Task, Error>>;
+  onRestoreCourse: (id: string) => Promise<Result<Course, Error>>;
+  onEmptyTrash: () => Promise<Result<number, Error>>;
+  onRefresh: () => void;
+}
+
+export class Trash {
+  private props: TrashProps;
+  private container: HTMLElement | null = null;
+
+  constructor(props: TrashProps) {
+    this.props = props;
+  }
+
+  /**
+   * Update component props and re-render
+   */
+  updateProps(props: Partial<TrashProps>): void {
+    this.props = { ...this.props, ...props };
+    if (this.container) {
+      this.render(this.container);
+    }
+  }
+
+  /**
+   * Render the trash to a container element
+   */
+  render(container: HTMLElement): void {
+    this.container = container;
+    container.innerHTML = '';
+
+    const view = document.createElement('div');
+    view.className = 'trash';
+
+    const header = document.createElement('div');
+    header.className = 'trash-header';
+
+    const title = document.createElement('h2');
+    title.textContent = 'Trash';
+    header.appendChild(title);
+
+    const { courses, tasks } = this.props.trash;
+    if (courses.length > 0 || tasks.length > 0) {
+      const emptyButton = document.createElement('button');
+      emptyButton.textContent = 'Empty Trash';
+      emptyButton.className = 'empty-trash-button';
+      emptyButton.onclick = () => this.handleEmptyTrash();
+      header.appendChild(emptyButton);
+    }
+    view.appendChild(header);
+
+    const hint = document.createElement('p');
+    hint.className = 'trash-hint';
+    hint.textContent = `Deleted courses and tasks are removed permanently after ${this.props.retentionDays} days.`;
+    view.appendChild(hint);
+
+    if (courses.length === 0 && tasks.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'no-trash';
+      empty.textContent = 'The trash is empty.';
+      view.appendChild(empty);
+    } else {
+      if (courses.length > 0) {
+        view.appendChild(this.createSection('Courses', courses.map(course => this.createCourseItem(course))));
+      }
+      if (tasks.length > 0) {
+        view.appendChild(this.createSection('Tasks', tasks.map(task => this.createTaskItem(task))));
+      }
+    }
+
+    container.appendChild(view);
+  }
+
+  /**
+   * Create a titled list of trash items
+   */
+  private createSection(title: string, items: HTMLElement[]): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'trash-section';
+
+    const heading = document.createElement('h3');
+    heading.textContent = title;
+    section.appendChild(heading);
+
+    const list = document.createElement('ul');
+    list.className = 'trash-list';
+    items.forEach(item => list.appendChild(item));
+    section.appendChild(list);
+
+    return section;
+  }
+
+  /**
+   * Create a list item for a deleted course
+   */
+  private createCourseItem(course: Course): HTMLElement {
+    const taskCount = this.props.trash.tasks
+      .filter(task => task.courseId === course.id && task.deletedAt?.getTime() === course.deletedAt?.getTime())
+      .length;
+    const details = taskCount > 0
+      ? `${course.department} · ${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}`
+      : course.department;
+
+    return this.createItem(course.name, details, course.deletedAt, () => this.handleRestoreCourse(course));
+  }
+
+  /**
+   * Create a list item for a deleted task
+   */
+  private createTaskItem(task: Task): HTMLElement {
+    const course = this.props.courses.get(task.courseId) ??
+      this.props.trash.courses.find(c => c.id === task.courseId);
+
+    return this.createItem(task.description, course?.name ?? 'Unknown course', task.deletedAt, () => this.handleRestoreTask(task));
+  }
+
+  /**
+   * Create a list item with a name, details, deletion date and restore button
+   */
+  private createItem(name: string, details: string, deletedAt: Date | undefined, onRestore: () => void): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'trash-item';
+
+    const nameSpan = document.createElement('span');
+    nameSpan.className = 'trash-item-name';
+    nameSpan.textContent = name;
+    item.appendChild(nameSpan);
+
+    const detailsSpan = document.createElement('span');
+    detailsSpan.className = 'trash-item-details';
+    detailsSpan.textContent = details;
+    item.appendChild(detailsSpan);
+
+    const date = document.createElement('span');
+    date.className = 'trash-item-date';
+    date.textContent = deletedAt ? `Deleted ${deletedAt.toLocaleString()}` : '';
+    item.appendChild(date);
+
+    const restoreButton = document.createElement('button');
+    restoreButton.textContent = 'Restore';
+    restoreButton.className = 'restore-trash-button';
+    restoreButton.onclick = onRestore;
+    item.appendChild(restoreButton);
+
+    return item;
+  }
+
+  /**
+   * Restore a deleted course together with the tasks deleted along with it
+   */
+  private async handleRestoreCourse(course: Course): Promise<void> {
+    const result = await this.props.onRestoreCourse(course.id);
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error restoring course: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Restore a deleted task
+   */
+  private async handleRestoreTask(task: Task): Promise<void> {
+    const result = await this.props.onRestoreTask(task.id);
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error restoring task: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Permanently remove everything in the trash after confirmation
+   */
+  private async handleEmptyTrash(): Promise<void> {
+    const confirmed = confirm('Permanently delete everything in the trash? This cannot be undone.');
+    if (!confirmed) {
+      return;
+    }
+
+    const result = await this.props.onEmptyTrash();
+    if (result.success) {
+      this.props.onRefresh();
+    } else {
+      alert(`Error emptying trash: ${result.error.message}`);
+    }
+  }
+}
@@ -3,10 +3,10 @@
  * **Feature: weekly-course-tracker, Property 12: Task display completeness**
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import * as fc from 'fast-check';
-import { WeeklyView } from './WeeklyView.js';
-import { Task, Course } from '../models/types.js';
+import { WeeklyView, WeeklyViewProps } from './WeeklyView.js';
+import { Task, Course, ClassSession, DayLoad, WeekWorkload, PlannerSettings, StudyPlan } from '../models/types.js';
 import { arbitraryCourse, arbitraryTask } from '../utils/testGenerators.js';
 import { getWeekNumber } from '../utils/weekCalculations.js';
 
@@ -131,3 +131,206 @@ describe('WeeklyView - Property Tests', () => {
     );
   });
 });
+
+// Week 2 of 2030 runs from Monday, January 7 to Sunday, January 13
+const course: Course = { id: 'c1', name: 'CS101', department: 'Computer Science', createdAt: new Date(2030, 0, 1) };
+const essay: Task = {
+  id: 't1',
+  courseId: 'c1',
+  description: 'Essay',
+  deadline: new Date(2030, 0, 10, 17, 0),
+  priority: 'normal',
+  category: 'assignment',
+  completed: false,
+  estimatedHours: 6,
+  createdAt: new Date(2030, 0, 1)
+};
+
+/**
+ * Render week 2 of 2030 with the essay and the given props
+ */
+function renderWeek(props: Partial<WeeklyViewProps> = {}): HTMLElement {
+  const container = document.createElement('div');
+  new WeeklyView({
+    tasks: [essay],
+    courses: new Map([[course.id, course]]),
+    weekNumber: 2,
+    year: 2030,
+    onNavigateWeek: () => {},
+    ...props
+  }).render(container);
+  return container;
+}
+
+/**
+ * Get the element of a day of week 2 of 2030, from 7 (Monday) to 13 (Sunday)
+ */
+function dayElement(container: HTMLElement, date: number): HTMLElement {
+  return container.querySelectorAll<HTMLElement>('.day-element')[date - 7];
+}
+
+describe('WeeklyView - Workload', () => {
+  function dayLoad(date: number, plannedHours: number): DayLoad {
+    return { date: new Date(2030, 0, date), plannedHours, capacityHours: 4, overloaded: plannedHours > 4, taskIds: [] };
+  }
+
+  const workload: WeekWorkload = {
+    weekNumber: 2,
+    year: 2030,
+    days: [7, 8, 9, 10, 11, 12, 13].map(date => dayLoad(date, date === 10 ? 6 : 0)),
+    plannedHours: 6,
+    capacityHours: 28,
+    overloaded: false
+  };
+
+  it('should highlight overloaded days and show each day\'s load', () => {
+    const container = renderWeek({ workload });
+
+    const thursday = dayElement(container, 10);
+    expect(thursday.classList.contains('overloaded')).toBe(true);
+    expect(thursday.querySelector('.day-load')?.textContent).toBe('6 h of 4 h');
+    expect(thursday.querySelector('.day-load')?.classList.contains('overloaded')).toBe(true);
+
+    const monday = dayElement(container, 7);
+    expect(monday.classList.contains('overloaded')).toBe(false);
+    expect(monday.querySelector('.day-load')?.textContent).toBe('0 h of 4 h');
+  });
+
+  it('should show the week\'s planned hours and the rebalancing suggestions', () => {
+    const container = renderWeek({
+      workload: { ...workload, plannedHours: 30, overloaded: true },
+      suggestions: [{ taskId: essay.id, from: new Date(2030, 0, 10), to: new Date(2030, 0, 8), hours: 2 }]
+    });
+
+    const summary = container.querySelector('.workload-summary')!;
+    expect(summary.classList.contains('overloaded')).toBe(true);
+    expect(summary.querySelector('.workload-totals')?.textContent).toBe('Planned: 30 h of 28 h');
+    expect(Array.from(summary.querySelectorAll('.workload-suggestions li')).map(item => item.textContent)).toEqual([
+      'Move 2 h of "Essay" from Thursday to Tuesday'
+    ]);
+  });
+
+  it('should not show a load or summary without a workload', () => {
+    const container = renderWeek();
+
+    expect(container.querySelector('.workload-summary')).toBeNull();
+    expect(container.querySelector('.day-load')).toBeNull();
+  });
+});
+
+describe('WeeklyView - Study Plan', () => {
+  const settings: PlannerSettings = {
+    hoursPerWeekday: [0, 2, 2, 2, 2, 2, 0],
+    dayStart: '18:00',
+    blockedTimes: [{ weekday: 2, start: '18:00', end: '19:00', label: 'Practice' }]
+  };
+
+  it('should show the work blocks of each day and the work that does not fit', () => {
+    const reading: Task = { ...essay, id: 't2', description: 'Reading', deadline: new Date(2030, 0, 16, 9, 0) };
+    const plan: StudyPlan = {
+      blocks: [
+        { taskId: essay.id, start: new Date(2030, 0, 7, 18, 0), end: new Date(2030, 0, 7, 20, 0) },
+        { taskId: reading.id, start: new Date(2030, 0, 9, 18, 30), end: new Date(2030, 0, 9, 19, 0) }
+      ],
+      unscheduled: [{ taskId: essay.id, hours: 1.5 }]
+    };
+
+    const container = renderWeek({ studyPlan: plan, plannedTasks: new Map([[reading.id, reading]]) });
+
+    const days = Array.from(container.querySelectorAll('.plan-day'));
+    expect(days).toHaveLength(7);
+    expect(days[0].querySelector('.plan-day-header')?.textContent).toBe('Mon 1/7');
+    expect(Array.from(days[0].querySelectorAll('.work-block')).map(block => block.textContent)).toEqual(['6:00 PM-8:00 PM "Essay"']);
+    expect(Array.from(days[2].querySelectorAll('.work-block')).map(block => block.textContent)).toEqual(['6:30 PM-7:00 PM "Reading"']);
+    expect(days[1].querySelector('.no-tasks')?.textContent).toBe('Nothing planned');
+    expect(Array.from(container.querySelectorAll('.plan-unscheduled li')).map(item => item.textContent)).toEqual([
+      '1.5 h of "Essay" does not fit before its deadline'
+    ]);
+    expect(container.querySelector('.planner-settings')).toBeNull();
+  });
+
+  it('should save the study hours and blocked times', () => {
+    const onUpdatePlannerSettings = vi.fn(async (updated: PlannerSettings) => ({ success: true as const, value: updated }));
+    const container = renderWeek({
+      studyPlan: { blocks: [], unscheduled: [] },
+      plannerSettings: settings,
+      onUpdatePlannerSettings
+    });
+
+    const form = container.querySelector('.planner-settings')!;
+    const hoursInputs = Array.from(form.querySelectorAll<HTMLInputElement>('.planner-hours input'));
+    const textarea = form.querySelector('textarea')!;
+    expect(hoursInputs.map(input => input.value)).toEqual(['2', '2', '2', '2', '2', '0', '0']);
+    expect(textarea.value).toBe('Tue 18:00-19:00 Practice');
+
+    hoursInputs[5].value = '3';
+    textarea.value = 'Tue 18:00-19:00 Practice\nThu 20:00-21:00';
+    form.querySelector('button')!.click();
+
+    expect(onUpdatePlannerSettings).toHaveBeenCalledWith({
+      hoursPerWeekday: [0, 2, 2, 2, 2, 2, 3],
+      dayStart: '18:00',
+      blockedTimes: [
+        { weekday: 2, start: '18:00', end: '19:00', label: 'Practice' },
+        { weekday: 4, start: '20:00', end: '21:00' }
+      ]
+    });
+  });
+
+  it('should show an error for blocked times it cannot read', () => {
+    const onUpdatePlannerSettings = vi.fn(async (updated: PlannerSettings) => ({ success: true as const, value: updated }));
+    const container = renderWeek({
+      studyPlan: { blocks: [], unscheduled: [] },
+      plannerSettings: settings,
+      onUpdatePlannerSettings
+    });
+
+    const form = container.querySelector('.planner-settings')!;
+    form.querySelector('textarea')!.value = 'Sometime';
+    form.querySelector('button')!.click();
+
+    expect(onUpdatePlannerSettings).not.toHaveBeenCalled();
+    expect(form.querySelector<HTMLElement>('.error-message')?.style.display).toBe('block');
+  });
+});
+
+describe('WeeklyView - Class Sessions', () => {
+  const math: Course = { id: 'c2', name: 'MATH100', department: 'Mathematics', createdAt: new Date(2030, 0, 1) };
+  const courses = new Map([[course.id, course], [math.id, math]]);
+
+  function session(courseId: string, type: ClassSession['type'], date: number, startHour: number, endHour: number, overlapsWith: string[] = [], location?: string): ClassSession {
+    return { courseId, type, location, start: new Date(2030, 0, date, startHour), end: new Date(2030, 0, date, endHour), overlapsWith };
+  }
+
+  it('should list a day\'s classes before its tasks', () => {
+    const container = renderWeek({
+      courses,
+      classSessions: [session('c1', 'lecture', 10, 9, 11, [], 'Room 101'), session('c2', 'tutorial', 8, 14, 15)]
+    });
+
+    const thursday = dayElement(container, 10);
+    const items = Array.from(thursday.querySelectorAll('.class-session'));
+    expect(items.map(item => item.textContent)).toEqual(['9:00 AM-11:00 AM CS101 (Lecture, Room 101)']);
+    expect(items[0].classList.contains('meeting-lecture')).toBe(true);
+    expect(items[0].classList.contains('overlapping')).toBe(false);
+    expect(items[0].hasAttribute('title')).toBe(false);
+    expect(thursday.querySelector('.class-sessions')!.compareDocumentPosition(thursday.querySelector('.course-group')!))
+      .toBe(Node.DOCUMENT_POSITION_FOLLOWING);
+
+    const tuesday = dayElement(container, 8);
+    expect(tuesday.querySelector('.class-session')?.textContent).toBe('2:00 PM-3:00 PM MATH100 (Tutorial)');
+    expect(tuesday.querySelector('.class-session')?.classList.contains('meeting-tutorial')).toBe(true);
+    expect(dayElement(container, 7).querySelector('.class-sessions')).toBeNull();
+  });
+
+  it('should flag classes that overlap another course\'s', () => {
+    const container = renderWeek({
+      courses,
+      classSessions: [session('c1', 'lab', 9, 10, 12, ['c2']), session('c2', 'lecture', 9, 11, 12, ['c1'])]
+    });
+
+    const items = Array.from(dayElement(container, 9).querySelectorAll<HTMLElement>('.class-session'));
+    expect(items.map(item => item.classList.contains('overlapping'))).toEqual([true, true]);
+    expect(items.map(item => item.title)).toEqual(['Overlaps with MATH100', 'Overlaps with CS101']);
+  });
+});
@@ -3,8 +3,17 @@
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5
  */
 
-import { Task, Course } from '../models/types.js';
+import { Task, Course, ClassSession, DayLoad, WeekWorkload, RebalanceSuggestion, StudyPlan, PlannerSettings, Result } from '../models/types.js';
 import { getWeekNumber, getWeekBounds } from '../utils/weekCalculations.js';
+import { compareByPriority, PRIORITY_LABELS, DEFAULT_PRIORITY } from '../utils/priority.js';
+import { CATEGORY_ICONS, CATEGORY_LABELS } from '../utils/category.js';
+import { getChecklistProgress } from '../utils/checklist.js';
+import { formatHours } from '../utils/effort.js';
+import { WEEKDAY_NAMES } from '../utils/timeOfDay.js';
+import { parseBlockedTimes, formatBlockedTime } from '../utils/planner.js';
+import { MEETING_TYPE_LABELS } from '../utils/meeting.js';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 export interface WeeklyViewProps {
   tasks: Task[];
@@ -13,6 +22,14 @@ export interface WeeklyViewProps {
   year: number;
   onNavigateWeek: (weekNumber: number, year: number) => void;
   onTaskClick?: (taskId: string) => void;
+  classSessions?: ClassSession[];      // Class meetings held during the week
+  workload?: WeekWorkload;
+  suggestions?: RebalanceSuggestion[];
+  onChangeCapacity?: (hours: number) => Promise<Result<number, Error>>;
+  studyPlan?: StudyPlan;
+  plannedTasks?: Map<string, Task>;    // Tasks the study plan refers to, which may be due in later weeks
+  plannerSettings?: PlannerSettings;
+  onUpdatePlannerSettings?: (settings: PlannerSettings) => Promise<Result<PlannerSettings, Error>>;
 }
 
 export class WeeklyView {
@@ -54,9 +71,19 @@ export class WeeklyView {
     // Add navigation header
     view.appendChild(this.createNavigationHeader());
     
+    // Add the workload summary and rebalancing suggestions
+    if (this.props.workload) {
+      view.appendChild(this.createWorkloadSummary(this.props.workload));
+    }
+    
     // Add week display
     view.appendChild(this.createWeekDisplay());
     
+    // Add the study plan as a lane of its own below the days
+    if (this.props.studyPlan) {
+      view.appendChild(this.createPlanLane(this.props.studyPlan));
+    }
+    
     return view;
   }
 
@@ -89,6 +116,54 @@ export class WeeklyView {
     return header;
   }
 
+  /**
+   * Create the week's planned hours, the daily capacity setting and suggestions for overloaded days
+   */
+  private createWorkloadSummary(workload: WeekWorkload): HTMLElement {
+    const summary = document.createElement('div');
+    summary.className = `workload-summary${workload.overloaded ? ' overloaded' : ''}`;
+    
+    const totals = document.createElement('span');
+    totals.className = 'workload-totals';
+    totals.textContent = `Planned: ${formatHours(workload.plannedHours)} of ${formatHours(workload.capacityHours)}`;
+    summary.appendChild(totals);
+    
+    if (this.props.onChangeCapacity) {
+      const label = document.createElement('label');
+      label.className = 'workload-capacity';
+      label.textContent = 'Hours per day: ';
+      
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0.5';
+      input.max = '24';
+      input.step = '0.5';
+      input.value = String(workload.days[0]?.capacityHours ?? '');
+      input.onchange = async () => {
+        const result = await this.props.onChangeCapacity!(parseFloat(input.value));
+        if (!result.success) {
+          alert(`Error updating capacity: ${result.error.message}`);
+        }
+      };
+      label.appendChild(input);
+      summary.appendChild(label);
+    }
+    
+    const suggestions = this.props.suggestions ?? [];
+    if (suggestions.length > 0) {
+      const list = document.createElement('ul');
+      list.className = 'workload-suggestions';
+      suggestions.forEach(suggestion => {
+        const item = document.createElement('li');
+        item.textContent = this.formatSuggestion(suggestion);
+        list.appendChild(item);
+      });
+      summary.appendChild(list);
+    }
+    
+    return summary;
+  }
+
   /**
    * Create the week display with days and tasks
    */
@@ -112,6 +187,141 @@ export class WeeklyView {
     return weekDisplay;
   }
 
+  /**
+   * Create the study plan lane: the work blocks of each day and the work that does not fit
+   */
+  private createPlanLane(plan: StudyPlan): HTMLElement {
+    const lane = document.createElement('div');
+    lane.className = 'plan-lane';
+    
+    const title = document.createElement('h3');
+    title.textContent = 'Study Plan';
+    lane.appendChild(title);
+    
+    const daysElement = document.createElement('div');
+    daysElement.className = 'plan-lane-days';
+    const weekBounds = getWeekBounds(this.props.weekNumber, this.props.year);
+    this.getDaysInWeek(weekBounds.startDate, weekBounds.endDate).forEach(day => {
+      const dayElement = document.createElement('div');
+      dayElement.className = 'plan-day';
+      
+      const dayHeader = document.createElement('div');
+      dayHeader.className = 'plan-day-header';
+      dayHeader.textContent = `${WEEKDAY_NAMES[day.getDay()]} ${this.formatDate(day)}`;
+      dayElement.appendChild(dayHeader);
+      
+      const blocks = plan.blocks.filter(block => this.isSameDay(block.start, day));
+      if (blocks.length === 0) {
+        const nothing = document.createElement('div');
+        nothing.className = 'no-tasks';
+        nothing.textContent = 'Nothing planned';
+        dayElement.appendChild(nothing);
+      }
+      blocks.forEach(block => {
+        const blockElement = document.createElement('div');
+        blockElement.className = 'work-block';
+        blockElement.textContent = `${this.formatTime(block.start)}-${this.formatTime(block.end)} ${this.describePlannedTask(block.taskId)}`;
+        if (this.props.onTaskClick) {
+          blockElement.style.cursor = 'pointer';
+          blockElement.onclick = () => this.props.onTaskClick!(block.taskId);
+        }
+        dayElement.appendChild(blockElement);
+      });
+      
+      daysElement.appendChild(dayElement);
+    });
+    lane.appendChild(daysElement);
+    
+    if (plan.unscheduled.length > 0) {
+      const list = document.createElement('ul');
+      list.className = 'plan-unscheduled';
+      plan.unscheduled.forEach(work => {
+        const item = document.createElement('li');
+        item.textContent = `${formatHours(work.hours)} of ${this.describePlannedTask(work.taskId)} does not fit before its deadline`;
+        list.appendChild(item);
+      });
+      lane.appendChild(list);
+    }
+    
+    if (this.props.plannerSettings && this.props.onUpdatePlannerSettings) {
+      lane.appendChild(this.createPlannerSettingsForm(this.props.plannerSettings));
+    }
+    
+    return lane;
+  }
+
+  /**
+   * Create the form for the study hours of each weekday and the blocked times
+   */
+  private createPlannerSettingsForm(settings: PlannerSettings): HTMLElement {
+    const details = document.createElement('details');
+    details.className = 'planner-settings';
+    
+    const summary = document.createElement('summary');
+    summary.textContent = 'Study hours';
+    details.appendChild(summary);
+    
+    // Monday first, as in the week display
+    const hoursInputs: HTMLInputElement[] = [];
+    const hoursRow = document.createElement('div');
+    hoursRow.className = 'planner-hours';
+    [1, 2, 3, 4, 5, 6, 0].forEach(weekday => {
+      const label = document.createElement('label');
+      label.textContent = `${WEEKDAY_NAMES[weekday]} `;
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.max = '24';
+      input.step = '0.5';
+      input.value = String(settings.hoursPerWeekday[weekday]);
+      hoursInputs[weekday] = input;
+      label.appendChild(input);
+      hoursRow.appendChild(label);
+    });
+    details.appendChild(hoursRow);
+    
+    const dayStartLabel = document.createElement('label');
+    dayStartLabel.textContent = 'Start studying at ';
+    const dayStartInput = document.createElement('input');
+    dayStartInput.type = 'time';
+    dayStartInput.value = settings.dayStart;
+    dayStartLabel.appendChild(dayStartInput);
+    details.appendChild(dayStartLabel);
+    
+    const blockedLabel = document.createElement('label');
+    blockedLabel.textContent = 'Blocked times, one per line (e.g. "Mon 12:00-13:00 Lunch")';
+    const blockedInput = document.createElement('textarea');
+    blockedInput.rows = 3;
+    blockedInput.value = settings.blockedTimes.map(formatBlockedTime).join('\n');
+    blockedLabel.appendChild(blockedInput);
+    details.appendChild(blockedLabel);
+    
+    const errorDisplay = document.createElement('div');
+    errorDisplay.className = 'error-message';
+    errorDisplay.style.display = 'none';
+    
+    const saveButton = document.createElement('button');
+    saveButton.textContent = 'Save Study Hours';
+    saveButton.onclick = async () => {
+      const blockedTimes = parseBlockedTimes(blockedInput.value);
+      const result = blockedTimes.success
+        ? await this.props.onUpdatePlannerSettings!({
+            hoursPerWeekday: hoursInputs.map(input => parseFloat(input.value)),
+            dayStart: dayStartInput.value,
+            blockedTimes: blockedTimes.value
+          })
+        : blockedTimes;
+      if (!result.success) {
+        errorDisplay.textContent = result.error.message;
+        errorDisplay.style.display = 'block';
+      }
+    };
+    details.appendChild(saveButton);
+    details.appendChild(errorDisplay);
+    
+    return details;
+  }
+
   /**
    * Create a single day element with its tasks
    */
@@ -124,6 +334,25 @@ export class WeeklyView {
     dayHeader.textContent = this.formatDayHeader(date);
     dayElement.appendChild(dayHeader);
     
+    // Planned hours against the daily capacity
+    const load = this.getDayLoad(date);
+    if (load) {
+      if (load.overloaded) {
+        dayElement.classList.add('overloaded');
+      }
+      const loadElement = document.createElement('div');
+      loadElement.className = `day-load${load.overloaded ? ' overloaded' : ''}`;
+      loadElement.textContent = `${formatHours(load.plannedHours)} of ${formatHours(load.capacityHours)}`;
+      loadElement.title = load.overloaded ? 'More work is due than fits in this day' : 'Work due this day';
+      dayElement.appendChild(loadElement);
+    }
+    
+    // Classes come before the day's tasks
+    const sessions = (this.props.classSessions ?? []).filter(session => this.isSameDay(session.start, date));
+    if (sessions.length > 0) {
+      dayElement.appendChild(this.createClassSessionList(sessions));
+    }
+    
     const tasksForDay = this.getTasksForDay(date);
     const tasksByCourse = this.groupTasksByCourse(tasksForDay);
     
@@ -145,6 +374,31 @@ export class WeeklyView {
     return dayElement;
   }
 
+  /**
+   * Create the list of a day's class meetings, flagging those that overlap another course's
+   */
+  private createClassSessionList(sessions: ClassSession[]): HTMLElement {
+    const list = document.createElement('div');
+    list.className = 'class-sessions';
+    
+    sessions.forEach(session => {
+      const item = document.createElement('div');
+      item.className = `class-session meeting-${session.type}${session.overlapsWith.length > 0 ? ' overlapping' : ''}`;
+      
+      const courseName = this.props.courses.get(session.courseId)?.name ?? 'Unknown course';
+      const details = [MEETING_TYPE_LABELS[session.type], session.location].filter(Boolean).join(', ');
+      item.textContent = `${this.formatTime(session.start)}-${this.formatTime(session.end)} ${courseName} (${details})`;
+      
+      if (session.overlapsWith.length > 0) {
+        const others = session.overlapsWith.map(id => this.props.courses.get(id)?.name ?? 'another course');
+        item.title = `Overlaps with ${others.join(', ')}`;
+      }
+      list.appendChild(item);
+    });
+    
+    return list;
+  }
+
   /**
    * Create a course group with its tasks
    */
@@ -160,7 +414,8 @@ export class WeeklyView {
     const taskList = document.createElement('div');
     taskList.className = 'task-list';
     
-    tasks.forEach(task => {
+    // More important tasks first, then by deadline
+    [...tasks].sort(compareByPriority).forEach(task => {
       const taskElement = this.createTaskElement(task);
       taskList.appendChild(taskElement);
     });
@@ -176,11 +431,17 @@ export class WeeklyView {
    */
   private createTaskElement(task: Task): HTMLElement {
     const taskElement = document.createElement('div');
-    taskElement.className = `task-element${task.completed ? ' completed' : ''}`;
+    taskElement.className = `task-element priority-${task.priority}${task.completed ? ' completed' : ''}`;
+    
+    const icon = document.createElement('span');
+    icon.className = `task-category-icon category-${task.category}`;
+    icon.textContent = CATEGORY_ICONS[task.category];
+    icon.title = CATEGORY_LABELS[task.category];
     
     const description = document.createElement('div');
     description.className = 'task-description';
-    description.textContent = task.description;
+    description.appendChild(icon);
+    description.appendChild(document.createTextNode(` ${task.description}`));
     
     const deadline = document.createElement('div');
     deadline.className = 'task-deadline';
@@ -189,6 +450,33 @@ export class WeeklyView {
     taskElement.appendChild(description);
     taskElement.appendChild(deadline);
     
+    // Only priorities other than the default are called out
+    if (task.priority !== DEFAULT_PRIORITY) {
+      const priority = document.createElement('div');
+      priority.className = `task-priority priority-${task.priority}`;
+      priority.textContent = PRIORITY_LABELS[task.priority];
+      taskElement.appendChild(priority);
+    }
+    
+    // Checklist progress, e.g. "2/5" with a bar filled to match
+    const { done, total } = getChecklistProgress(task);
+    if (total > 0) {
+      const progress = document.createElement('div');
+      progress.className = 'task-checklist-progress';
+      progress.title = `${done} of ${total} checklist items done`;
+      
+      const bar = document.createElement('div');
+      bar.className = 'task-checklist-bar';
+      const fill = document.createElement('div');
+      fill.className = 'task-checklist-fill';
+      fill.style.width = `${Math.round((done / total) * 100)}%`;
+      bar.appendChild(fill);
+      
+      progress.appendChild(bar);
+      progress.appendChild(document.createTextNode(` ${done}/${total}`));
+      taskElement.appendChild(progress);
+    }
+    
     if (this.props.onTaskClick) {
       taskElement.style.cursor = 'pointer';
       taskElement.onclick = () => this.props.onTaskClick!(task.id);
@@ -219,6 +507,13 @@ export class WeeklyView {
     return this.props.tasks.filter(task => this.isSameDay(task.deadline, date));
   }
 
+  /**
+   * Get the workload of a specific day, if the workload is shown
+   */
+  private getDayLoad(date: Date): DayLoad | undefined {
+    return this.props.workload?.days.find(day => this.isSameDay(day.date, date));
+  }
+
   /**
    * Group tasks by course
    */
@@ -294,20 +589,43 @@ export class WeeklyView {
    * Format day header as "Day, MM/DD"
    */
   private formatDayHeader(date: Date): string {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    return `${days[date.getDay()]}, ${this.formatDate(date)}`;
+    return `${DAY_NAMES[date.getDay()]}, ${this.formatDate(date)}`;
+  }
+
+  /**
+   * Name a task of the study plan, e.g. "Essay"
+   */
+  private describePlannedTask(taskId: string): string {
+    const task = this.props.plannedTasks?.get(taskId) ?? this.props.tasks.find(t => t.id === taskId);
+    return task ? `"${task.description}"` : 'a task';
+  }
+
+  /**
+   * Format a suggestion as "Move 2 h of "Essay" from Thursday to Tuesday"
+   */
+  private formatSuggestion(suggestion: RebalanceSuggestion): string {
+    const task = this.props.tasks.find(t => t.id === suggestion.taskId);
+    const name = task ? `"${task.description}"` : 'a task';
+    return `Move ${formatHours(suggestion.hours)} of ${name} from ${DAY_NAMES[suggestion.from.getDay()]} to ${DAY_NAMES[suggestion.to.getDay()]}`;
   }
 
   /**
    * Format date and time
    */
   private formatDateTime(date: Date): string {
+    return `${this.formatDate(date)} ${this.formatTime(date)}`;
+  }
+
+  /**
+   * Format a time of day as "H:MM AM"
+   */
+  private formatTime(date: Date): string {
     const hours = date.getHours();
     const minutes = date.getMinutes();
     const ampm = hours >= 12 ? 'PM' : 'AM';
     const displayHours = hours % 12 || 12;
     const displayMinutes = minutes.toString().padStart(2, '0');
     
-    return `${this.formatDate(date)} ${displayHours}:${displayMinutes} ${ampm}`;
+    return `${displayHours}:${displayMinutes} ${ampm}`;
   }
 }
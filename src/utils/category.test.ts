@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { isTaskCategory, TASK_CATEGORIES, DEFAULT_CATEGORY, CATEGORY_LABELS, CATEGORY_ICONS } from './category';
+
+describe('isTaskCategory', () => {
+  it('should accept the categories and nothing else', () => {
+    for (const category of TASK_CATEGORIES) {
+      expect(isTaskCategory(category)).toBe(true);
+    }
+    expect(isTaskCategory('homework')).toBe(false);
+    expect(isTaskCategory('Exam')).toBe(false);
+    expect(isTaskCategory('')).toBe(false);
+    expect(isTaskCategory(undefined)).toBe(false);
+  });
+
+  it('should accept the default category', () => {
+    expect(isTaskCategory(DEFAULT_CATEGORY)).toBe(true);
+  });
+});
+
+describe('category display', () => {
+  it('should have a label and an icon for every category', () => {
+    for (const category of TASK_CATEGORIES) {
+      expect(CATEGORY_LABELS[category]).toBeTruthy();
+      expect(CATEGORY_ICONS[category]).toBeTruthy();
+    }
+  });
+});
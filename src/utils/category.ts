@@ -0,0 +1,44 @@
+/**
+ * Task category utilities for the Weekly Course Tracker
+ */
+
+import { TaskCategory } from '../models/types.js';
+
+/**
+ * Categories in the order forms, filters and statistics list them
+ */
+export const TASK_CATEGORIES: TaskCategory[] = ['assignment', 'exam', 'reading', 'project', 'lab'];
+
+/**
+ * Category of tasks created without one
+ */
+export const DEFAULT_CATEGORY: TaskCategory = 'assignment';
+
+/**
+ * Display names of the categories
+ */
+export const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  assignment: 'Assignment',
+  exam: 'Exam',
+  reading: 'Reading',
+  project: 'Project',
+  lab: 'Lab'
+};
+
+/**
+ * Icons shown next to tasks of each category
+ */
+export const CATEGORY_ICONS: Record<TaskCategory, string> = {
+  assignment: '📝',
+  exam: '🎓',
+  reading: '📖',
+  project: '🛠️',
+  lab: '🧪'
+};
+
+/**
+ * Check whether a value is a task category
+ */
+export function isTaskCategory(value: unknown): value is TaskCategory {
+  return typeof value === 'string' && (TASK_CATEGORIES as string[]).includes(value);
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { validateChecklist, getChecklistProgress, getTaskProgress, isChecklistDone } from './checklist';
+import { ChecklistItem, Task } from '../models/types';
+
+function task(checklist: ChecklistItem[] | undefined, completed = false): Task {
+  const createdAt = new Date('2024-03-01T09:00:00');
+  return { id: 't1', courseId: 'c1', description: 'Project', deadline: createdAt, priority: 'normal', category: 'project', completed, createdAt, checklist };
+}
+
+describe('validateChecklist', () => {
+  it('should trim item text and keep IDs and flags', () => {
+    const result = validateChecklist([{ id: 'a', text: '  Outline ', completed: true }]);
+
+    expect(result).toEqual({ success: true, value: [{ id: 'a', text: 'Outline', completed: true }] });
+  });
+
+  it('should reject malformed items', () => {
+    expect(validateChecklist('Outline').success).toBe(false);
+    expect(validateChecklist([{ id: 'a', text: '', completed: false }]).success).toBe(false);
+    expect(validateChecklist([{ id: '', text: 'Draft', completed: false }]).success).toBe(false);
+    expect(validateChecklist([{ id: 'a', text: 'Draft', completed: 'yes' }]).success).toBe(false);
+    expect(validateChecklist([
+      { id: 'a', text: 'Draft', completed: false },
+      { id: 'a', text: 'Revise', completed: false }
+    ]).success).toBe(false);
+  });
+});
+
+describe('checklist progress', () => {
+  it('should count done items and need at least one item to be done', () => {
+    const items = [
+      { id: 'a', text: 'Outline', completed: true },
+      { id: 'b', text: 'Draft', completed: false }
+    ];
+
+    expect(getChecklistProgress(task(items))).toEqual({ done: 1, total: 2 });
+    expect(isChecklistDone(items)).toBe(false);
+    expect(isChecklistDone(items.map(item => ({ ...item, completed: true })))).toBe(true);
+    expect(isChecklistDone([])).toBe(false);
+    expect(isChecklistDone(undefined)).toBe(false);
+  });
+
+  it('should count a completed task fully and an open task by its checklist', () => {
+    fc.assert(
+      fc.property(fc.array(fc.boolean(), { maxLength: 10 }), fc.boolean(), (flags, completed) => {
+        const items = flags.map((done, index) => ({ id: String(index), text: `Step ${index}`, completed: done }));
+        const progress = getTaskProgress(task(items, completed));
+
+        expect(progress).toBeGreaterThanOrEqual(0);
+        expect(progress).toBeLessThanOrEqual(1);
+        if (completed) {
+          expect(progress).toBe(1);
+        } else if (flags.length === 0) {
+          expect(progress).toBe(0);
+        } else {
+          expect(progress).toBeCloseTo(flags.filter(Boolean).length / flags.length);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Task checklist utilities for the Weekly Course Tracker
+ */
+
+import { ChecklistItem, Result, Task } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { validateNonEmptyString } from './validation.js';
+
+/**
+ * Validate checklist items
+ * @returns The items with trimmed text, or an error naming the first invalid item
+ */
+export function validateChecklist(items: unknown): Result<ChecklistItem[], ValidationError> {
+  if (!Array.isArray(items)) {
+    return { success: false, error: new ValidationError('Checklist must be a list of items') };
+  }
+
+  const ids = new Set<string>();
+  const validated: ChecklistItem[] = [];
+  for (const [index, item] of items.entries()) {
+    const candidate = item as Partial<ChecklistItem> | null;
+    if (typeof candidate?.id !== 'string' || candidate.id.trim() === '' || ids.has(candidate.id)) {
+      return { success: false, error: new ValidationError(`Checklist item ${index + 1} needs a unique ID`) };
+    }
+    const text = typeof candidate.text === 'string' ? validateNonEmptyString(candidate.text) : null;
+    if (text === null) {
+      return { success: false, error: new ValidationError(`Checklist item ${index + 1} cannot be empty`) };
+    }
+    if (typeof candidate.completed !== 'boolean') {
+      return { success: false, error: new ValidationError(`Checklist item ${index + 1} needs a completed flag`) };
+    }
+    ids.add(candidate.id);
+    validated.push({ id: candidate.id, text, completed: candidate.completed });
+  }
+  return { success: true, value: validated };
+}
+
+/**
+ * Count the done and total checklist items of a task
+ */
+export function getChecklistProgress(task: Task): { done: number; total: number } {
+  const items = task.checklist ?? [];
+  return { done: items.filter(item => item.completed).length, total: items.length };
+}
+
+/**
+ * Check whether a checklist has items and all of them are done
+ */
+export function isChecklistDone(items: ChecklistItem[] | undefined): boolean {
+  return items !== undefined && items.length > 0 && items.every(item => item.completed);
+}
+
+/**
+ * How far along a task is, from 0 to 1
+ * A completed task counts fully; an open task counts the share of its checklist that is done.
+ */
+export function getTaskProgress(task: Task): number {
+  if (task.completed) {
+    return 1;
+  }
+  const { done, total } = getChecklistProgress(task);
+  return total > 0 ? done / total : 0;
+}
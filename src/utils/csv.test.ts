@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { formatCsv, formatCsvField, parseCsv } from './csv';
+
+describe('formatCsvField', () => {
+  it('should leave plain values unquoted', () => {
+    expect(formatCsvField('CS101')).toBe('CS101');
+  });
+
+  it('should quote values with delimiters, quotes, line breaks or surrounding spaces', () => {
+    expect(formatCsvField('a,b')).toBe('"a,b"');
+    expect(formatCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvField('line 1\nline 2')).toBe('"line 1\nline 2"');
+    expect(formatCsvField(' padded ')).toBe('" padded "');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should parse quoted fields, CRLF line breaks and a byte order mark', () => {
+    const rows = parseCsv('\uFEFFname,notes\r\n"Smith, J.","said ""hi""\nthen left"\r\nDoe,\r\n');
+
+    expect(rows).toEqual([
+      { line: 1, fields: ['name', 'notes'] },
+      { line: 2, fields: ['Smith, J.', 'said "hi"\nthen left'] },
+      { line: 4, fields: ['Doe', ''] }
+    ]);
+  });
+
+  it('should skip blank lines and keep line numbers', () => {
+    expect(parseCsv('a\n\nb')).toEqual([
+      { line: 1, fields: ['a'] },
+      { line: 3, fields: ['b'] }
+    ]);
+  });
+
+  it('should round-trip any rows through formatCsv', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(fc.string({ maxLength: 20 }), { minLength: 2, maxLength: 5 }), { maxLength: 10 }),
+        (rows) => {
+          const parsed = parseCsv(formatCsv(rows)).map(row => row.fields);
+          expect(parsed).toEqual(rows);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * CSV (RFC 4180) formatting and parsing utilities for the Weekly Course Tracker
+ */
+
+/**
+ * Line terminator used for written CSV files
+ */
+export const CSV_LINE_BREAK = '\r\n';
+
+/**
+ * Quote a field if it contains a delimiter, quote or line break
+ * @param value - The raw field value
+ * @returns The field as written to a CSV file
+ */
+export function formatCsvField(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format rows as CSV text
+ * @param rows - Rows of raw field values
+ * @returns The CSV text, with CRLF line breaks and a trailing line break
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatCsvField).join(',')).join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * Supports quoted fields with embedded commas, quotes and line breaks, CRLF or LF line breaks,
+ * and a leading byte order mark. Blank lines are skipped.
+ * @param text - The CSV text
+ * @returns Rows of fields, each with the 1-based line number it starts on
+ */
+export function parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  const input = text.replace(/^\uFEFF/, '');
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    // A row with a single empty field is a blank line
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowStart, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
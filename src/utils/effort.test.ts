@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { isValidEstimate, isValidTimeSession, getLoggedHours, getRemainingHours, formatHours } from './effort';
+import { Task } from '../models/types';
+
+function task(sessions: Array<[string, string]>): Task {
+  const createdAt = new Date('2024-03-01T09:00:00');
+  return {
+    id: 't1', courseId: 'c1', description: 'Essay', deadline: createdAt, priority: 'normal', category: 'assignment',
+    completed: false, createdAt,
+    timeSessions: sessions.map(([start, end]) => ({ start: new Date(start), end: new Date(end) }))
+  };
+}
+
+describe('isValidEstimate', () => {
+  it('should accept finite hours of zero or more', () => {
+    expect(isValidEstimate(0)).toBe(true);
+    expect(isValidEstimate(2.5)).toBe(true);
+    expect(isValidEstimate(-1)).toBe(false);
+    expect(isValidEstimate(Infinity)).toBe(false);
+    expect(isValidEstimate(NaN)).toBe(false);
+    expect(isValidEstimate('2')).toBe(false);
+  });
+});
+
+describe('isValidTimeSession', () => {
+  it('should need valid dates that do not end before they start', () => {
+    const start = new Date('2024-03-01T09:00:00');
+    expect(isValidTimeSession({ start, end: new Date('2024-03-01T10:00:00') })).toBe(true);
+    expect(isValidTimeSession({ start, end: start })).toBe(true);
+    expect(isValidTimeSession({ start, end: new Date('2024-03-01T08:00:00') })).toBe(false);
+    expect(isValidTimeSession({ start })).toBe(false);
+    expect(isValidTimeSession(null)).toBe(false);
+  });
+});
+
+describe('getLoggedHours', () => {
+  it('should add up the sessions of a task', () => {
+    expect(getLoggedHours(task([
+      ['2024-03-01T09:00:00', '2024-03-01T10:30:00'],
+      ['2024-03-02T14:00:00', '2024-03-02T14:15:00']
+    ]))).toBe(1.75);
+    expect(getLoggedHours(task([]))).toBe(0);
+  });
+});
+
+describe('getRemainingHours', () => {
+  it('should subtract the logged time from the estimate of an open task', () => {
+    const logged = task([['2024-03-01T09:00:00', '2024-03-01T10:30:00']]);
+
+    expect(getRemainingHours({ ...logged, estimatedHours: 4 })).toBe(2.5);
+    expect(getRemainingHours({ ...logged, estimatedHours: 1 })).toBe(0);
+    expect(getRemainingHours({ ...logged, estimatedHours: 4, completed: true })).toBe(0);
+    expect(getRemainingHours(logged)).toBe(0);
+  });
+});
+
+describe('formatHours', () => {
+  it('should round to a tenth of an hour', () => {
+    expect(formatHours(1.75)).toBe('1.8 h');
+    expect(formatHours(2)).toBe('2 h');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Task effort utilities for the Weekly Course Tracker
+ */
+
+import { Task, TimeSession } from '../models/types.js';
+import { isValidDate } from './validation.js';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Check whether a value is a valid effort estimate: a finite number of hours, zero or more
+ */
+export function isValidEstimate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check whether a value is a time session that ends no earlier than it starts
+ */
+export function isValidTimeSession(value: unknown): value is TimeSession {
+  const session = value as Partial<TimeSession> | null;
+  return isValidDate(session?.start) && isValidDate(session?.end) && session.end >= session.start;
+}
+
+/**
+ * Get the length of a time session in hours
+ */
+export function getSessionHours(session: TimeSession): number {
+  return (session.end.getTime() - session.start.getTime()) / MS_PER_HOUR;
+}
+
+/**
+ * Get the time logged on a task in hours
+ * A running timer is not counted until it is stopped.
+ */
+export function getLoggedHours(task: Task): number {
+  return (task.timeSessions ?? []).reduce((sum, session) => sum + getSessionHours(session), 0);
+}
+
+/**
+ * Get the effort left on a task in hours: its estimate less the time logged
+ * Completed tasks and tasks without an estimate have none left.
+ */
+export function getRemainingHours(task: Task): number {
+  if (task.completed || task.estimatedHours === undefined) {
+    return 0;
+  }
+  return Math.max(0, task.estimatedHours - getLoggedHours(task));
+}
+
+/**
+ * Format hours for display, e.g. "1.5 h", to a tenth of an hour
+ */
+export function formatHours(hours: number): string {
+  return `${Math.round(hours * 10) / 10} h`;
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  escapeText,
+  formatDateTimeUtc,
+  foldLine,
+  ICS_LINE_BREAK,
+  parseContentLine,
+  parseIcs,
+  unescapeText,
+  splitTextList,
+  parseIcsDate
+} from './icalendar';
+
+describe('escapeText', () => {
+  it('should escape special characters', () => {
+    expect(escapeText('a,b;c\\d')).toBe('a\\,b\\;c\\\\d');
+    expect(escapeText('line 1\nline 2\r\nline 3')).toBe('line 1\\nline 2\\nline 3');
+  });
+
+  it('should leave plain text unchanged', () => {
+    expect(escapeText('Essay draft')).toBe('Essay draft');
+  });
+});
+
+describe('formatDateTimeUtc', () => {
+  it('should format dates as UTC basic format', () => {
+    expect(formatDateTimeUtc(new Date('2024-03-01T12:30:05.123Z'))).toBe('20240301T123005Z');
+  });
+});
+
+describe('foldLine', () => {
+  it('should not fold short lines', () => {
+    expect(foldLine('SUMMARY:Essay')).toBe('SUMMARY:Essay');
+  });
+
+  it('should keep every physical line within 75 octets and preserve the content', () => {
+    const encoder = new TextEncoder();
+    fc.assert(
+      fc.property(
+        fc.string({ maxLength: 400, unit: 'binary' }).filter(s => !/[\r\n]/.test(s)),
+        (text) => {
+          const folded = foldLine(`SUMMARY:${text}`);
+          const lines = folded.split(ICS_LINE_BREAK);
+
+          lines.forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+          expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${text}`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('parseContentLine', () => {
+  it('should split name, parameters and value', () => {
+    expect(parseContentLine('DTSTART;TZID="America/New_York";VALUE=DATE-TIME:20240301T090000')).toEqual({
+      name: 'DTSTART',
+      params: { TZID: 'America/New_York', VALUE: 'DATE-TIME' },
+      value: '20240301T090000'
+    });
+  });
+
+  it('should keep colons in quoted parameters and in the value', () => {
+    const property = parseContentLine('ATTENDEE;CN="Doe: Jane":mailto:jane@example.com');
+    expect(property?.params.CN).toBe('Doe: Jane');
+    expect(property?.value).toBe('mailto:jane@example.com');
+  });
+});
+
+describe('parseIcs', () => {
+  it('should build the component tree and unfold lines', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'SUMMARY:A long',
+      '  summary',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const result = parseIcs(text);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.components).toHaveLength(1);
+      expect(result.value.components[0].properties[0].value).toBe('A long summary');
+    }
+  });
+
+  it('should reject unbalanced components', () => {
+    expect(parseIcs('BEGIN:VCALENDAR\nBEGIN:VEVENT\nEND:VCALENDAR').success).toBe(false);
+    expect(parseIcs('BEGIN:VCALENDAR\nBEGIN:VEVENT').success).toBe(false);
+    expect(parseIcs('SUMMARY:No calendar').success).toBe(false);
+  });
+});
+
+describe('unescapeText and splitTextList', () => {
+  it('should reverse escapeText for any string', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 100 }), (text) => {
+        const normalized = text.replace(/\r\n|\r/g, '\n');
+        expect(unescapeText(escapeText(normalized))).toBe(normalized);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should split lists on unescaped commas only', () => {
+    expect(splitTextList('CS101,Computer Science')).toEqual(['CS101', 'Computer Science']);
+    expect(splitTextList('Smith\\, J.,Lab')).toEqual(['Smith, J.', 'Lab']);
+    expect(splitTextList('Path\\\\,Other')).toEqual(['Path\\', 'Other']);
+  });
+});
+
+describe('parseIcsDate', () => {
+  const property = (value: string, params: Record<string, string> = {}) => ({ name: 'DTSTART', params, value });
+
+  it('should parse UTC date-times', () => {
+    expect(parseIcsDate(property('20240301T120000Z'))).toEqual({ date: new Date('2024-03-01T12:00:00.000Z'), allDay: false });
+  });
+
+  it('should convert date-times from a TZID to the right instant', () => {
+    // New York is UTC-5 in winter and UTC-4 in summer
+    expect(parseIcsDate(property('20240115T090000', { TZID: 'America/New_York' }))?.date.toISOString()).toBe('2024-01-15T14:00:00.000Z');
+    expect(parseIcsDate(property('20240715T090000', { TZID: 'America/New_York' }))?.date.toISOString()).toBe('2024-07-15T13:00:00.000Z');
+  });
+
+  it('should treat floating times and unknown time zones as local time', () => {
+    expect(parseIcsDate(property('20240301T090000'))?.date).toEqual(new Date(2024, 2, 1, 9, 0, 0));
+    expect(parseIcsDate(property('20240301T090000', { TZID: 'Not/AZone' }))?.date).toEqual(new Date(2024, 2, 1, 9, 0, 0));
+  });
+
+  it('should mark dates without a time as all-day', () => {
+    expect(parseIcsDate(property('20240301', { VALUE: 'DATE' }))).toEqual({ date: new Date(2024, 2, 1), allDay: true });
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseIcsDate(property('2024-03-01'))).toBeNull();
+    expect(parseIcsDate(property('20241301T000000Z'))).toBeNull();
+    expect(parseIcsDate(property('20240230'))).toBeNull();
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * iCalendar (RFC 5545) formatting and parsing utilities for the Weekly Course Tracker
+ */
+
+import { Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+
+/**
+ * Line terminator required by RFC 5545
+ */
+export const ICS_LINE_BREAK = '\r\n';
+
+/**
+ * Maximum line length in octets before a content line must be folded
+ */
+const MAX_LINE_LENGTH = 75;
+
+/**
+ * Escape a TEXT property value
+ * Backslashes, semicolons, commas and newlines must be escaped
+ * @param value - The raw text
+ * @returns The escaped text
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format a date as a UTC DATE-TIME value (e.g. 20240301T120000Z)
+ * @param date - The date to format
+ * @returns The formatted value
+ */
+export function formatDateTimeUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line so that no line exceeds 75 octets
+ * Continuation lines start with a single space; multi-byte characters are never split
+ * @param line - The unfolded content line
+ * @returns The folded line, using CRLF line breaks
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join(`${ICS_LINE_BREAK} `);
+}
+
+/**
+ * Build a folded content line from a property name and an already formatted value
+ * @param name - Property name, including any parameters (e.g. "DTSTART;VALUE=DATE")
+ * @param value - The property value
+ */
+export function contentLine(name: string, value: string): string {
+  return foldLine(`${name}:${value}`);
+}
+
+/**
+ * A parsed content line
+ */
+export interface IcsProperty {
+  name: string;                       // Upper-case property name
+  params: Record<string, string>;     // Upper-case parameter names, unquoted values
+  value: string;                      // Raw (still escaped) value
+}
+
+/**
+ * A parsed component such as VCALENDAR, VEVENT or VTODO
+ */
+export interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+/**
+ * A parsed DATE or DATE-TIME value
+ */
+export interface IcsDate {
+  date: Date;
+  allDay: boolean;                    // true for VALUE=DATE values
+}
+
+/**
+ * Undo line folding and split a document into content lines
+ * @param text - The .ics document (CRLF or LF line breaks)
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Parse one content line into name, parameters and value
+ * @returns The property, or null if the line has no value separator
+ */
+export function parseContentLine(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, separator), ';');
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf('=');
+    if (equals > 0) {
+      params[rawParam.slice(0, equals).toUpperCase()] = rawParam.slice(equals + 1).replace(/^"(.*)"$/, '$1');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Split a string on a delimiter, ignoring delimiters inside double quotes
+ */
+function splitOutsideQuotes(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+    if (char === delimiter && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse an iCalendar document into its component tree
+ * @param text - The .ics document
+ * @returns The VCALENDAR component
+ */
+export function parseIcs(text: string): Result<IcsComponent, ValidationError> {
+  const stack: IcsComponent[] = [];
+  let calendar: IcsComponent | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) {
+      // Tolerate malformed lines rather than rejecting the whole calendar
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      stack[stack.length - 1]?.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (!component || component.type !== property.value.toUpperCase()) {
+        return {
+          success: false,
+          error: new ValidationError(`Unexpected END:${property.value} in calendar file`)
+        };
+      }
+      if (stack.length === 0 && component.type === 'VCALENDAR' && !calendar) {
+        calendar = component;
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  if (stack.length > 0) {
+    return {
+      success: false,
+      error: new ValidationError(`Calendar file ends inside ${stack[stack.length - 1].type}`)
+    };
+  }
+  if (!calendar) {
+    return {
+      success: false,
+      error: new ValidationError('Calendar file does not contain a VCALENDAR')
+    };
+  }
+
+  return { success: true, value: calendar };
+}
+
+/**
+ * Get the first property with the given name
+ */
+export function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+/**
+ * Reverse escapeText
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Split a TEXT list value (e.g. CATEGORIES) on unescaped commas and unescape each item
+ */
+export function splitTextList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      // Keep escape sequences intact for unescapeText
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  items.push(current);
+
+  return items
+    .map(item => unescapeText(item).trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Get the offset of a time zone from UTC at an instant, in milliseconds
+ * @throws RangeError if the time zone is unknown
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallTime - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in an IANA time zone to a Date
+ * @returns The Date, or null if the time zone is unknown
+ */
+function zonedTimeToDate(wallTime: number, timeZone: string): Date | null {
+  try {
+    // The offset at the wall time is a first guess; recheck it at the resulting instant for DST changes
+    const firstGuess = wallTime - getTimeZoneOffset(wallTime, timeZone);
+    const offset = getTimeZoneOffset(firstGuess, timeZone);
+    return new Date(wallTime - offset);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value
+ * - UTC values (ending in Z) are taken as-is
+ * - Values with a TZID parameter are converted from that time zone; unknown zones fall back to local time
+ * - Floating values (no Z, no TZID) are interpreted in local time
+ * - DATE values are all-day; the returned date is the start of that day in local time
+ * @returns The parsed date, or null if the value is not a valid date
+ */
+export function parseIcsDate(property: IcsProperty): IcsDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0)] as const;
+
+  // Reject out-of-range fields such as month 13, which Date would silently roll over
+  const daysInMonth = new Date(Date.UTC(parts[0], parts[1] + 1, 0)).getUTCDate();
+  if (parts[1] > 11 || parts[2] < 1 || parts[2] > daysInMonth || parts[3] > 23 || parts[4] > 59 || parts[5] > 60) {
+    return null;
+  }
+
+  const allDay = hour === undefined || property.params.VALUE === 'DATE';
+  let date: Date;
+  if (allDay) {
+    date = new Date(parts[0], parts[1], parts[2]);
+  } else if (utc) {
+    date = new Date(Date.UTC(...parts));
+  } else if (property.params.TZID) {
+    date = zonedTimeToDate(Date.UTC(...parts), property.params.TZID) ?? new Date(...parts);
+  } else {
+    date = new Date(...parts);
+  }
+
+  return { date, allDay };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { validateMeetings, parseMeetings, formatMeeting, getMeetingOverlap, findMeetingConflicts } from './meeting';
+import { Course, CourseMeeting } from '../models/types';
+
+function course(id: string, meetings: CourseMeeting[]): Course {
+  return { id, name: id, department: 'CS', meetings, createdAt: new Date(2024, 0, 1) };
+}
+
+describe('validateMeetings', () => {
+  it('should normalize times and locations and sort the meetings', () => {
+    const result = validateMeetings([
+      { weekday: 3, start: '9:00', end: '10:30', type: 'lab', location: '  Lab 2 ' },
+      { weekday: 1, start: '14:00', end: '15:00', type: 'lecture', location: '' }
+    ]);
+
+    expect(result.success && result.value).toEqual([
+      { weekday: 1, start: '14:00', end: '15:00', type: 'lecture' },
+      { weekday: 3, start: '09:00', end: '10:30', type: 'lab', location: 'Lab 2' }
+    ]);
+  });
+
+  it('should reject invalid weekdays, times and types', () => {
+    const meeting = { weekday: 1, start: '10:00', end: '11:00', type: 'lecture' };
+    const invalid: unknown[] = [
+      null,
+      [null],
+      [{ ...meeting, weekday: 7 }],
+      [{ ...meeting, end: '09:00' }],
+      [{ ...meeting, start: 'noon' }],
+      [{ ...meeting, type: 'party' }],
+      [{ ...meeting, location: 101 }]
+    ];
+    for (const candidate of invalid) {
+      expect(validateMeetings(candidate).success).toBe(false);
+    }
+  });
+});
+
+describe('parseMeetings', () => {
+  it('should read meetings one per line and format them back', () => {
+    const result = parseMeetings('Mon 10:00-11:30 Lecture Room 101\n\n  thursday 14:00 - 16:00 lab  ');
+
+    expect(result.success && result.value).toEqual([
+      { weekday: 1, start: '10:00', end: '11:30', type: 'lecture', location: 'Room 101' },
+      { weekday: 4, start: '14:00', end: '16:00', type: 'lab' }
+    ]);
+    expect(result.success && result.value.map(formatMeeting)).toEqual(['Mon 10:00-11:30 Lecture Room 101', 'Thu 14:00-16:00 Lab']);
+  });
+
+  it('should name the line it cannot read', () => {
+    const result = parseMeetings('Mon 10:00-11:30 Lecture\nTue 10:00-11:00 Party');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.message).toContain('line 2');
+  });
+});
+
+describe('getMeetingOverlap', () => {
+  it('should find the shared time of meetings on the same weekday', () => {
+    const lecture: CourseMeeting = { weekday: 1, start: '10:00', end: '12:00', type: 'lecture' };
+
+    expect(getMeetingOverlap(lecture, { ...lecture, start: '11:00', end: '13:00' })).toEqual([660, 720]);
+    expect(getMeetingOverlap(lecture, { ...lecture, start: '12:00', end: '13:00' })).toBeNull();
+    expect(getMeetingOverlap(lecture, { ...lecture, weekday: 2 })).toBeNull();
+  });
+});
+
+describe('findMeetingConflicts', () => {
+  it('should report overlapping meetings of different courses', () => {
+    const courses = [
+      course('CS101', [{ weekday: 1, start: '10:00', end: '12:00', type: 'lecture' }, { weekday: 1, start: '12:00', end: '13:00', type: 'lab' }]),
+      course('MATH100', [{ weekday: 1, start: '11:00', end: '12:30', type: 'lecture' }]),
+      course('ART200', [{ weekday: 2, start: '11:00', end: '12:30', type: 'seminar' }])
+    ];
+
+    expect(findMeetingConflicts(courses)).toEqual([
+      { courseIds: ['CS101', 'MATH100'], weekday: 1, start: '11:00', end: '12:00' },
+      { courseIds: ['CS101', 'MATH100'], weekday: 1, start: '12:00', end: '12:30' }
+    ]);
+    expect(findMeetingConflicts(courses, () => false)).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Class meeting utilities for the Weekly Course Tracker
+ */
+
+import { Course, CourseMeeting, MeetingConflict, MeetingType, Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { WEEKDAY_NAMES, parseTimeOfDay, formatTimeOfDay } from './timeOfDay.js';
+
+/**
+ * Meeting types in the order forms list them
+ */
+export const MEETING_TYPES: MeetingType[] = ['lecture', 'lab', 'tutorial', 'seminar'];
+
+/**
+ * Display names of the meeting types
+ */
+export const MEETING_TYPE_LABELS: Record<MeetingType, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  tutorial: 'Tutorial',
+  seminar: 'Seminar'
+};
+
+/**
+ * Check whether a value is a meeting type
+ */
+export function isMeetingType(value: unknown): value is MeetingType {
+  return typeof value === 'string' && (MEETING_TYPES as string[]).includes(value);
+}
+
+/**
+ * Validate the meetings of a course
+ * @returns The meetings with times written as HH:MM, sorted by weekday and start, or a ValidationError
+ */
+export function validateMeetings(meetings: unknown): Result<CourseMeeting[], ValidationError> {
+  if (!Array.isArray(meetings)) {
+    return { success: false, error: new ValidationError('Meetings must be a list') };
+  }
+
+  const validated: CourseMeeting[] = [];
+  for (const [index, item] of meetings.entries()) {
+    const meeting = item as Partial<CourseMeeting> | null;
+    if (!Number.isInteger(meeting?.weekday) || meeting!.weekday! < 0 || meeting!.weekday! > 6) {
+      return { success: false, error: new ValidationError(`Meeting ${index + 1} needs a weekday between 0 (Sunday) and 6 (Saturday)`) };
+    }
+    const start = typeof meeting!.start === 'string' ? parseTimeOfDay(meeting!.start) : null;
+    const end = typeof meeting!.end === 'string' ? parseTimeOfDay(meeting!.end) : null;
+    if (start === null || end === null || end <= start) {
+      return { success: false, error: new ValidationError(`Meeting ${index + 1} needs a start and a later end time`) };
+    }
+    if (!isMeetingType(meeting!.type)) {
+      return { success: false, error: new ValidationError(`Meeting ${index + 1} must be a ${MEETING_TYPES.join(', ')}`) };
+    }
+    if (meeting!.location !== undefined && typeof meeting!.location !== 'string') {
+      return { success: false, error: new ValidationError(`Meeting ${index + 1} has an invalid location`) };
+    }
+
+    const result: CourseMeeting = {
+      weekday: meeting!.weekday!,
+      start: formatTimeOfDay(start),
+      end: formatTimeOfDay(end),
+      type: meeting!.type
+    };
+    const location = meeting!.location?.trim();
+    if (location) {
+      result.location = location;
+    }
+    validated.push(result);
+  }
+  validated.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+
+  return { success: true, value: validated };
+}
+
+/**
+ * Parse meetings written one per line, such as "Mon 10:00-11:30 Lecture Room 101"
+ * @returns The meetings, or an error naming the first line that cannot be read
+ */
+export function parseMeetings(text: string): Result<CourseMeeting[], ValidationError> {
+  const meetings: CourseMeeting[] = [];
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '');
+  for (const [index, line] of lines.entries()) {
+    const match = /^(\w{3})\w*\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\s+(\w+)(?:\s+(.+))?$/.exec(line);
+    const weekday = match ? WEEKDAY_NAMES.findIndex(name => name.toLowerCase() === match[1].toLowerCase()) : -1;
+    const type = match?.[4].toLowerCase();
+    if (!match || weekday === -1 || !isMeetingType(type)) {
+      return {
+        success: false,
+        error: new ValidationError(`Meeting on line ${index + 1} must look like "Mon 10:00-11:30 Lecture Room 101"`)
+      };
+    }
+    const meeting: CourseMeeting = { weekday, start: match[2], end: match[3], type };
+    if (match[5]) {
+      meeting.location = match[5];
+    }
+    meetings.push(meeting);
+  }
+  return { success: true, value: meetings };
+}
+
+/**
+ * Format a meeting as "Mon 10:00-11:30 Lecture Room 101", the form parseMeetings reads
+ */
+export function formatMeeting(meeting: CourseMeeting): string {
+  const time = `${WEEKDAY_NAMES[meeting.weekday]} ${meeting.start}-${meeting.end} ${MEETING_TYPE_LABELS[meeting.type]}`;
+  return meeting.location ? `${time} ${meeting.location}` : time;
+}
+
+/**
+ * Get the time two meetings overlap
+ * Meetings that only touch, one ending as the other starts, do not overlap.
+ * @returns Start and end of the overlap in minutes since midnight, or null
+ */
+export function getMeetingOverlap(a: CourseMeeting, b: CourseMeeting): [number, number] | null {
+  if (a.weekday !== b.weekday) {
+    return null;
+  }
+  const start = Math.max(parseTimeOfDay(a.start) ?? 0, parseTimeOfDay(b.start) ?? 0);
+  const end = Math.min(parseTimeOfDay(a.end) ?? 0, parseTimeOfDay(b.end) ?? 0);
+  return start < end ? [start, end] : null;
+}
+
+/**
+ * Find the weekly times at which two different courses both meet
+ * @param canMeetTogether - Whether two courses can meet in the same week at all, e.g. because
+ *                          their terms overlap; by default any two courses can
+ */
+export function findMeetingConflicts(
+  courses: Course[],
+  canMeetTogether: (a: Course, b: Course) => boolean = () => true
+): MeetingConflict[] {
+  const conflicts: MeetingConflict[] = [];
+  courses.forEach((course, i) => {
+    for (const other of courses.slice(i + 1)) {
+      if (!canMeetTogether(course, other)) {
+        continue;
+      }
+      for (const meeting of course.meetings ?? []) {
+        for (const otherMeeting of other.meetings ?? []) {
+          const overlap = getMeetingOverlap(meeting, otherMeeting);
+          if (overlap) {
+            conflicts.push({
+              courseIds: [course.id, other.id],
+              weekday: meeting.weekday,
+              start: formatTimeOfDay(overlap[0]),
+              end: formatTimeOfDay(overlap[1])
+            });
+          }
+        }
+      }
+    }
+  });
+  return conflicts.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+}
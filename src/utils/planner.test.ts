@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  validatePlannerSettings,
+  parseBlockedTimes,
+  formatBlockedTime,
+  getStudyWindows,
+  buildStudyPlan
+} from './planner';
+import { PlannerSettings, Task, TaskPriority } from '../models/types';
+
+// Four hours from 09:00 every day
+const settings: PlannerSettings = { hoursPerWeekday: [4, 4, 4, 4, 4, 4, 4], dayStart: '09:00', blockedTimes: [] };
+
+// Monday, March 4 2024 is the first day of ISO week 10
+function at(dayOffset: number, hour: number, minute: number = 0): Date {
+  return new Date(2024, 2, 4 + dayOffset, hour, minute);
+}
+
+function task(id: string, deadline: Date, estimatedHours: number, priority: TaskPriority = 'normal'): Task {
+  return { id, courseId: 'c1', description: id, deadline, priority, category: 'assignment', completed: false, createdAt: at(-7, 9), estimatedHours };
+}
+
+describe('validatePlannerSettings', () => {
+  it('should normalize times and sort blocked times', () => {
+    const result = validatePlannerSettings({
+      ...settings,
+      dayStart: '8:00',
+      blockedTimes: [
+        { weekday: 3, start: '14:00', end: '16:00', label: '  Job ' },
+        { weekday: 1, start: '9:00', end: '10:00', label: '' }
+      ]
+    });
+
+    expect(result.success && result.value).toEqual({
+      ...settings,
+      dayStart: '08:00',
+      blockedTimes: [
+        { weekday: 1, start: '09:00', end: '10:00' },
+        { weekday: 3, start: '14:00', end: '16:00', label: 'Job' }
+      ]
+    });
+  });
+
+  it('should reject invalid hours, start times and blocked times', () => {
+    const invalid: unknown[] = [
+      null,
+      { ...settings, hoursPerWeekday: [4, 4, 4] },
+      { ...settings, hoursPerWeekday: [4, 4, 4, -1, 4, 4, 4] },
+      { ...settings, hoursPerWeekday: [4, 4, 4, 25, 4, 4, 4] },
+      { ...settings, dayStart: '25:00' },
+      { ...settings, blockedTimes: [{ weekday: 7, start: '09:00', end: '10:00' }] },
+      { ...settings, blockedTimes: [{ weekday: 1, start: '10:00', end: '09:00' }] }
+    ];
+    for (const candidate of invalid) {
+      expect(validatePlannerSettings(candidate).success).toBe(false);
+    }
+  });
+});
+
+describe('parseBlockedTimes', () => {
+  it('should read blocked times one per line and format them back', () => {
+    const result = parseBlockedTimes('Mon 12:00-13:00 Lunch\n\n  thursday 18:00 - 20:30  ');
+
+    expect(result.success && result.value).toEqual([
+      { weekday: 1, start: '12:00', end: '13:00', label: 'Lunch' },
+      { weekday: 4, start: '18:00', end: '20:30' }
+    ]);
+    expect(result.success && result.value.map(formatBlockedTime)).toEqual(['Mon 12:00-13:00 Lunch', 'Thu 18:00-20:30']);
+  });
+
+  it('should name the line it cannot read', () => {
+    const result = parseBlockedTimes('Mon 12:00-13:00\nsometimes');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.message).toContain('line 2');
+  });
+});
+
+describe('getStudyWindows', () => {
+  it('should fit the day\'s hours around its blocked times', () => {
+    const blocked: PlannerSettings = {
+      ...settings,
+      blockedTimes: [{ weekday: 1, start: '12:00', end: '13:00' }, { weekday: 1, start: '10:00', end: '11:00' }]
+    };
+
+    expect(getStudyWindows(at(0, 15), blocked)).toEqual([
+      { start: at(0, 9), end: at(0, 10) },
+      { start: at(0, 11), end: at(0, 12) },
+      { start: at(0, 13), end: at(0, 15) }
+    ]);
+    expect(getStudyWindows(at(1, 15), blocked)).toEqual([{ start: at(1, 9), end: at(1, 13) }]);
+  });
+
+  it('should end at midnight and skip days without study hours', () => {
+    const late: PlannerSettings = { ...settings, hoursPerWeekday: [0, 4, 4, 4, 4, 4, 4], dayStart: '22:00' };
+
+    expect(getStudyWindows(at(0, 9), late)).toEqual([{ start: at(0, 22), end: at(1, 0) }]);
+    expect(getStudyWindows(at(6, 9), late)).toEqual([]);
+  });
+});
+
+describe('buildStudyPlan', () => {
+  it('should plan the earliest deadline first', () => {
+    const plan = buildStudyPlan(
+      [task('essay', at(2, 17), 3), task('lab', at(1, 17), 5)],
+      settings,
+      at(0, 8),
+      at(6, 23, 59)
+    );
+
+    expect(plan.blocks).toEqual([
+      { taskId: 'lab', start: at(0, 9), end: at(0, 13) },
+      { taskId: 'lab', start: at(1, 9), end: at(1, 10) },
+      { taskId: 'essay', start: at(1, 10), end: at(1, 13) }
+    ]);
+    expect(plan.unscheduled).toEqual([]);
+  });
+
+  it('should start from now and put the more important of two tasks due together first', () => {
+    const plan = buildStudyPlan(
+      [task('reading', at(3, 9), 1, 'low'), task('exam', at(3, 9), 1, 'critical')],
+      settings,
+      at(0, 10, 30),
+      at(6, 23, 59)
+    );
+
+    expect(plan.blocks).toEqual([
+      { taskId: 'exam', start: at(0, 10, 30), end: at(0, 11, 30) },
+      { taskId: 'reading', start: at(0, 11, 30), end: at(0, 12, 30) }
+    ]);
+  });
+
+  it('should report work that does not fit before its deadline', () => {
+    const done = { ...task('quiz', at(0, 12), 2), completed: true };
+    const plan = buildStudyPlan(
+      [task('overdue', at(-1, 17), 2), task('essay', at(0, 11), 4), task('project', at(20, 17), 50), done],
+      settings,
+      at(0, 8),
+      at(6, 23, 59)
+    );
+
+    expect(plan.blocks[0]).toEqual({ taskId: 'essay', start: at(0, 9), end: at(0, 11) });
+    expect(plan.unscheduled).toEqual([{ taskId: 'overdue', hours: 2 }, { taskId: 'essay', hours: 2 }]);
+    expect(plan.blocks.filter(block => block.taskId === 'quiz')).toEqual([]);
+  });
+
+  it('should plan work only in study time, without overlaps or missed deadlines', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.tuple(fc.integer({ min: 0, max: 160 }), fc.integer({ min: 1, max: 12 })), { maxLength: 8 }),
+        fc.array(fc.integer({ min: 0, max: 8 }), { minLength: 7, maxLength: 7 }),
+        (entries, hoursPerWeekday) => {
+          const tasks = entries.map(([hour, estimate], i) => task(`t${i}`, at(0, hour), estimate));
+          const custom: PlannerSettings = { ...settings, hoursPerWeekday };
+          const until = at(6, 23, 59);
+          const plan = buildStudyPlan(tasks, custom, at(0, 0), until);
+
+          const planned = new Map<string, number>();
+          plan.blocks.forEach((block, i) => {
+            const deadline = tasks.find(t => t.id === block.taskId)!.deadline;
+            expect(block.end.getTime()).toBeGreaterThan(block.start.getTime());
+            expect(block.end.getTime()).toBeLessThanOrEqual(deadline.getTime());
+            expect(getStudyWindows(block.start, custom).some(w => w.start <= block.start && block.end <= w.end)).toBe(true);
+            if (i > 0) {
+              expect(block.start.getTime()).toBeGreaterThanOrEqual(plan.blocks[i - 1].end.getTime());
+            }
+            planned.set(block.taskId, (planned.get(block.taskId) ?? 0) + (block.end.getTime() - block.start.getTime()) / 3600000);
+          });
+
+          // Work due in the planned week is either planned or reported
+          for (const t of tasks.filter(t => t.deadline <= until)) {
+            const unscheduled = plan.unscheduled.find(work => work.taskId === t.id)?.hours ?? 0;
+            expect((planned.get(t.id) ?? 0) + unscheduled).toBeCloseTo(t.estimatedHours!);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
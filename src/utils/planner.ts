@@ -0,0 +1,239 @@
+/**
+ * Study planner utilities for the Weekly Course Tracker
+ * The planner lays the remaining effort of incomplete tasks out in the user's study time,
+ * earliest deadline first, so that as much work as possible is done before it is due.
+ */
+
+import { BlockedTime, PlannerSettings, StudyPlan, Task, WorkBlock, UnscheduledWork, Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { getRemainingHours } from './effort.js';
+import { TASK_PRIORITIES } from './priority.js';
+import { startOfDay } from './recurrence.js';
+import { WEEKDAY_NAMES, parseTimeOfDay, formatTimeOfDay } from './timeOfDay.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Study time used until the user sets their own: four hours on weekdays and two at weekends
+ */
+export const DEFAULT_PLANNER_SETTINGS: PlannerSettings = {
+  hoursPerWeekday: [2, 4, 4, 4, 4, 4, 2],
+  dayStart: '09:00',
+  blockedTimes: []
+};
+
+/**
+ * A stretch of study time
+ */
+export interface StudyWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Validate planner settings
+ * @returns The settings with times written as HH:MM and blocked times sorted, or a ValidationError
+ */
+export function validatePlannerSettings(settings: unknown): Result<PlannerSettings, ValidationError> {
+  const candidate = settings as Partial<PlannerSettings> | null;
+  const hours = candidate?.hoursPerWeekday;
+  if (!Array.isArray(hours) || hours.length !== 7) {
+    return { success: false, error: new ValidationError('Study hours are needed for each of the seven weekdays') };
+  }
+  for (const [weekday, value] of hours.entries()) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 24) {
+      return { success: false, error: new ValidationError(`Study hours on ${WEEKDAY_NAMES[weekday]} must be between 0 and 24`) };
+    }
+  }
+
+  const dayStart = typeof candidate?.dayStart === 'string' ? parseTimeOfDay(candidate.dayStart) : null;
+  if (dayStart === null) {
+    return { success: false, error: new ValidationError('Study start must be a time of day such as 09:00') };
+  }
+
+  if (!Array.isArray(candidate?.blockedTimes)) {
+    return { success: false, error: new ValidationError('Blocked times must be a list') };
+  }
+  const blockedTimes: BlockedTime[] = [];
+  for (const [index, item] of candidate.blockedTimes.entries()) {
+    const blocked = item as Partial<BlockedTime> | null;
+    if (!Number.isInteger(blocked?.weekday) || blocked!.weekday! < 0 || blocked!.weekday! > 6) {
+      return { success: false, error: new ValidationError(`Blocked time ${index + 1} needs a weekday between 0 (Sunday) and 6 (Saturday)`) };
+    }
+    const start = typeof blocked!.start === 'string' ? parseTimeOfDay(blocked!.start) : null;
+    const end = typeof blocked!.end === 'string' ? parseTimeOfDay(blocked!.end) : null;
+    if (start === null || end === null || end <= start) {
+      return { success: false, error: new ValidationError(`Blocked time ${index + 1} needs a start and a later end time`) };
+    }
+    if (blocked!.label !== undefined && typeof blocked!.label !== 'string') {
+      return { success: false, error: new ValidationError(`Blocked time ${index + 1} has an invalid label`) };
+    }
+
+    const validated: BlockedTime = { weekday: blocked!.weekday!, start: formatTimeOfDay(start), end: formatTimeOfDay(end) };
+    const label = blocked!.label?.trim();
+    if (label) {
+      validated.label = label;
+    }
+    blockedTimes.push(validated);
+  }
+  blockedTimes.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+
+  return {
+    success: true,
+    value: { hoursPerWeekday: [...hours], dayStart: formatTimeOfDay(dayStart), blockedTimes }
+  };
+}
+
+/**
+ * Parse blocked times written one per line, such as "Mon 12:00-13:00 Lunch"
+ * @returns The blocked times, or an error naming the first line that cannot be read
+ */
+export function parseBlockedTimes(text: string): Result<BlockedTime[], ValidationError> {
+  const blockedTimes: BlockedTime[] = [];
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '');
+  for (const [index, line] of lines.entries()) {
+    const match = /^(\w{3})\w*\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})(?:\s+(.+))?$/.exec(line);
+    const weekday = match ? WEEKDAY_NAMES.findIndex(name => name.toLowerCase() === match[1].toLowerCase()) : -1;
+    if (!match || weekday === -1) {
+      return {
+        success: false,
+        error: new ValidationError(`Blocked time on line ${index + 1} must look like "Mon 12:00-13:00 Lunch"`)
+      };
+    }
+    const blocked: BlockedTime = { weekday, start: match[2], end: match[3] };
+    if (match[4]) {
+      blocked.label = match[4];
+    }
+    blockedTimes.push(blocked);
+  }
+  return { success: true, value: blockedTimes };
+}
+
+/**
+ * Format a blocked time as "Mon 12:00-13:00 Lunch", the form parseBlockedTimes reads
+ */
+export function formatBlockedTime(blocked: BlockedTime): string {
+  const time = `${WEEKDAY_NAMES[blocked.weekday]} ${blocked.start}-${blocked.end}`;
+  return blocked.label ? `${time} ${blocked.label}` : time;
+}
+
+/**
+ * Get the study time of a day
+ * Studying starts at the day start and goes on, around the day's blocked times, until the
+ * day's hours are used up or the day ends.
+ * @param day - Any time on the day
+ * @param settings - Validated planner settings
+ */
+export function getStudyWindows(day: Date, settings: PlannerSettings): StudyWindow[] {
+  const weekday = day.getDay();
+  let budget = Math.round(settings.hoursPerWeekday[weekday] * 60);
+  let cursor = parseTimeOfDay(settings.dayStart) ?? 0;
+
+  const blocked = settings.blockedTimes
+    .filter(b => b.weekday === weekday)
+    .map(b => [parseTimeOfDay(b.start) ?? 0, parseTimeOfDay(b.end) ?? 0])
+    .sort((a, b) => a[0] - b[0]);
+  blocked.push([MINUTES_PER_DAY, MINUTES_PER_DAY]);
+
+  const windows: Array<[number, number]> = [];
+  for (const [blockStart, blockEnd] of blocked) {
+    if (budget <= 0) {
+      break;
+    }
+    if (blockStart > cursor) {
+      const length = Math.min(blockStart - cursor, budget);
+      windows.push([cursor, cursor + length]);
+      budget -= length;
+    }
+    cursor = Math.max(cursor, blockEnd);
+  }
+
+  const midnight = startOfDay(day);
+  const at = (minutes: number) => new Date(midnight.getFullYear(), midnight.getMonth(), midnight.getDate(), 0, minutes);
+  return windows.map(([start, end]) => ({ start: at(start), end: at(end) }));
+}
+
+/**
+ * Work left on a task while planning
+ */
+interface PlannedTask {
+  task: Task;
+  remaining: number;       // Milliseconds
+}
+
+/**
+ * Order tasks for planning: earliest deadline first, then the more important task
+ */
+function byUrgency(a: PlannedTask, b: PlannedTask): number {
+  const byDeadline = a.task.deadline.getTime() - b.task.deadline.getTime();
+  return byDeadline !== 0
+    ? byDeadline
+    : TASK_PRIORITIES.indexOf(a.task.priority) - TASK_PRIORITIES.indexOf(b.task.priority);
+}
+
+/**
+ * Plan the remaining effort of tasks into study time, earliest deadline first
+ * Only time from `from` to `until` is planned. Effort that does not fit before a deadline in
+ * that period, including the effort of overdue tasks, is reported as unscheduled; tasks due
+ * later simply continue after `until`.
+ * @param tasks - The tasks to plan; completed tasks and tasks without remaining effort are skipped
+ * @param settings - Validated planner settings
+ * @param from - Start of planning, normally now
+ * @param until - End of planning
+ */
+export function buildStudyPlan(tasks: Task[], settings: PlannerSettings, from: Date, until: Date): StudyPlan {
+  const queue: PlannedTask[] = tasks
+    .map(task => ({ task, remaining: Math.round(getRemainingHours(task) * HOUR) }))
+    .filter(planned => planned.remaining > 0)
+    .sort(byUrgency);
+
+  const blocks: WorkBlock[] = [];
+  const unscheduled: UnscheduledWork[] = [];
+
+  // Tasks due by a time can no longer be worked on; the queue is in deadline order
+  const dropDue = (time: number) => {
+    while (queue.length > 0 && queue[0].task.deadline.getTime() <= time) {
+      const { task, remaining } = queue.shift()!;
+      unscheduled.push({ taskId: task.id, hours: remaining / HOUR });
+    }
+  };
+
+  const first = startOfDay(from);
+  for (let offset = 0; queue.length > 0; offset++) {
+    const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() + offset);
+    if (day > until) {
+      break;
+    }
+
+    for (const window of getStudyWindows(day, settings)) {
+      let cursor = Math.max(window.start.getTime(), from.getTime());
+      const end = Math.min(window.end.getTime(), until.getTime());
+      while (cursor < end) {
+        dropDue(cursor);
+        if (queue.length === 0) {
+          break;
+        }
+
+        const planned = queue[0];
+        const blockEnd = Math.min(end, cursor + planned.remaining, planned.task.deadline.getTime());
+        const previous = blocks[blocks.length - 1];
+        if (previous && previous.taskId === planned.task.id && previous.end.getTime() === cursor) {
+          previous.end = new Date(blockEnd);
+        } else {
+          blocks.push({ taskId: planned.task.id, start: new Date(cursor), end: new Date(blockEnd) });
+        }
+
+        planned.remaining -= blockEnd - cursor;
+        if (planned.remaining <= 0) {
+          queue.shift();
+        }
+        cursor = blockEnd;
+      }
+    }
+  }
+  dropDue(until.getTime());
+
+  return { blocks, unscheduled };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { isTaskPriority, compareByPriority, TASK_PRIORITIES } from './priority';
+import { Task, TaskPriority } from '../models/types';
+
+function task(priority: TaskPriority, deadline: Date): Task {
+  return { id: `${priority}-${deadline.getTime()}`, courseId: 'c1', description: 'Task', deadline, priority, category: 'assignment', completed: false, createdAt: deadline };
+}
+
+describe('isTaskPriority', () => {
+  it('should accept the priorities and nothing else', () => {
+    for (const priority of TASK_PRIORITIES) {
+      expect(isTaskPriority(priority)).toBe(true);
+    }
+    expect(isTaskPriority('urgent')).toBe(false);
+    expect(isTaskPriority('HIGH')).toBe(false);
+    expect(isTaskPriority(undefined)).toBe(false);
+  });
+});
+
+describe('compareByPriority', () => {
+  it('should order by priority, then by deadline', () => {
+    const early = new Date('2024-03-01T09:00:00');
+    const late = new Date('2024-03-08T09:00:00');
+    const tasks = [task('low', early), task('normal', late), task('critical', late), task('normal', early)];
+
+    const sorted = [...tasks].sort(compareByPriority);
+
+    expect(sorted.map(t => `${t.priority} ${t.deadline.getDate()}`)).toEqual([
+      'critical 8', 'normal 1', 'normal 8', 'low 1'
+    ]);
+  });
+
+  it('should never put a less important task before a more important one', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.tuple(fc.constantFrom(...TASK_PRIORITIES), fc.date({ min: new Date('2024-01-01'), max: new Date('2025-01-01') }))),
+        (entries) => {
+          const sorted = entries.map(([priority, deadline]) => task(priority, deadline)).sort(compareByPriority);
+          for (let i = 1; i < sorted.length; i++) {
+            expect(TASK_PRIORITIES.indexOf(sorted[i - 1].priority)).toBeLessThanOrEqual(TASK_PRIORITIES.indexOf(sorted[i].priority));
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
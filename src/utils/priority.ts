@@ -0,0 +1,40 @@
+/**
+ * Task priority utilities for the Weekly Course Tracker
+ */
+
+import { Task, TaskPriority } from '../models/types.js';
+
+/**
+ * Priorities from most to least important, the order lists and statistics use
+ */
+export const TASK_PRIORITIES: TaskPriority[] = ['critical', 'high', 'normal', 'low'];
+
+/**
+ * Priority of tasks created without one
+ */
+export const DEFAULT_PRIORITY: TaskPriority = 'normal';
+
+/**
+ * Display names of the priorities
+ */
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  critical: 'Critical',
+  high: 'High',
+  normal: 'Normal',
+  low: 'Low'
+};
+
+/**
+ * Check whether a value is a task priority
+ */
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return typeof value === 'string' && (TASK_PRIORITIES as string[]).includes(value);
+}
+
+/**
+ * Compare tasks for sorting: more important tasks first, then earlier deadlines
+ */
+export function compareByPriority(a: Task, b: Task): number {
+  const byPriority = TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority);
+  return byPriority !== 0 ? byPriority : a.deadline.getTime() - b.deadline.getTime();
+}
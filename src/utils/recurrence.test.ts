@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  validateRecurrenceRule,
+  iterateOccurrences,
+  getOccurrences,
+  findOccurrence,
+  describeRecurrence,
+  withTimeOf,
+  isSameDay
+} from './recurrence';
+import { RecurrenceRule } from '../models/types';
+import { ValidationError } from '../models/errors';
+
+// Wednesday, March 6 2024 at 10:30
+const start = new Date(2024, 2, 6, 10, 30);
+
+function take(rule: RecurrenceRule, limit: number): Date[] {
+  const dates: Date[] = [];
+  for (const occurrence of iterateOccurrences(start, rule)) {
+    if (dates.length === limit) {
+      break;
+    }
+    dates.push(occurrence.date);
+  }
+  return dates;
+}
+
+describe('validateRecurrenceRule', () => {
+  it('should sort and deduplicate weekdays', () => {
+    const result = validateRecurrenceRule({ interval: 1, weekdays: [5, 3, 3, 1] }, start);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value).toEqual({ interval: 1, weekdays: [1, 3, 5] });
+    }
+  });
+
+  it('should reject invalid intervals, weekdays and counts', () => {
+    const invalid: RecurrenceRule[] = [
+      { interval: 0, weekdays: [3] },
+      { interval: 1.5, weekdays: [3] },
+      { interval: 1, weekdays: [] },
+      { interval: 1, weekdays: [3, 7] },
+      { interval: 1, weekdays: [3], count: 0 }
+    ];
+
+    for (const rule of invalid) {
+      const result = validateRecurrenceRule(rule, start);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    }
+  });
+
+  it('should require the weekday of the first deadline', () => {
+    const result = validateRecurrenceRule({ interval: 1, weekdays: [1, 5] }, start);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('Wed');
+    }
+  });
+
+  it('should reject an end date before the first deadline', () => {
+    const result = validateRecurrenceRule({ interval: 1, weekdays: [3], until: new Date(2024, 2, 5) }, start);
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('iterateOccurrences', () => {
+  it('should repeat on each weekday at the time of the first deadline', () => {
+    const dates = take({ interval: 1, weekdays: [1, 3, 5] }, 5);
+
+    expect(dates).toEqual([
+      new Date(2024, 2, 6, 10, 30),
+      new Date(2024, 2, 8, 10, 30),
+      new Date(2024, 2, 11, 10, 30),
+      new Date(2024, 2, 13, 10, 30),
+      new Date(2024, 2, 15, 10, 30)
+    ]);
+  });
+
+  it('should treat Sunday as the last day of the week', () => {
+    const dates = take({ interval: 2, weekdays: [0, 3] }, 4);
+
+    expect(dates).toEqual([
+      new Date(2024, 2, 6, 10, 30),
+      new Date(2024, 2, 10, 10, 30),
+      new Date(2024, 2, 20, 10, 30),
+      new Date(2024, 2, 24, 10, 30)
+    ]);
+  });
+
+  it('should stop after count occurrences', () => {
+    const dates = [...iterateOccurrences(start, { interval: 1, weekdays: [3, 5], count: 3 })].map(o => o.date);
+
+    expect(dates).toEqual([
+      new Date(2024, 2, 6, 10, 30),
+      new Date(2024, 2, 8, 10, 30),
+      new Date(2024, 2, 13, 10, 30)
+    ]);
+  });
+
+  it('should stop after the end date', () => {
+    const rule = { interval: 1, weekdays: [3], until: new Date(2024, 2, 20, 10, 30) };
+    const dates = [...iterateOccurrences(start, rule)].map(o => o.date);
+
+    expect(dates).toEqual([
+      new Date(2024, 2, 6, 10, 30),
+      new Date(2024, 2, 13, 10, 30),
+      new Date(2024, 2, 20, 10, 30)
+    ]);
+  });
+
+  it('should keep the local time of day across daylight saving changes', () => {
+    // Spans the March and October/November transitions of most time zones
+    const dates = take({ interval: 4, weekdays: [3] }, 14);
+
+    for (const date of dates) {
+      expect(date.getHours()).toBe(10);
+      expect(date.getMinutes()).toBe(30);
+      expect(date.getDay()).toBe(3);
+    }
+  });
+
+  it('should produce increasing dates on the rule weekdays with consecutive indexes', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 4 }),
+        fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 }),
+        (interval, weekdays) => {
+          const rule = { interval, weekdays: Array.from(new Set([...weekdays, start.getDay()])) };
+          const occurrences = [...iterateOccurrences(start, { ...rule, count: 20 })];
+
+          expect(occurrences).toHaveLength(20);
+          expect(occurrences[0].date).toEqual(start);
+          occurrences.forEach((occurrence, index) => {
+            expect(occurrence.index).toBe(index);
+            expect(rule.weekdays).toContain(occurrence.date.getDay());
+            if (index > 0) {
+              expect(occurrence.date.getTime()).toBeGreaterThan(occurrences[index - 1].date.getTime());
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('getOccurrences', () => {
+  it('should return the occurrences within a range with their indexes', () => {
+    const rule = { interval: 1, weekdays: [1, 3] };
+    const occurrences = getOccurrences(start, rule, new Date(2024, 2, 11), new Date(2024, 2, 17, 23, 59));
+
+    expect(occurrences).toEqual([
+      { index: 1, date: new Date(2024, 2, 11, 10, 30) },
+      { index: 2, date: new Date(2024, 2, 13, 10, 30) }
+    ]);
+  });
+
+  it('should return nothing before the first deadline', () => {
+    const rule = { interval: 1, weekdays: [3] };
+
+    expect(getOccurrences(start, rule, new Date(2024, 1, 1), new Date(2024, 2, 5))).toEqual([]);
+  });
+});
+
+describe('findOccurrence', () => {
+  it('should find the occurrence on a day at any time', () => {
+    const rule = { interval: 2, weekdays: [3] };
+
+    expect(findOccurrence(start, rule, new Date(2024, 2, 20, 23, 0))).toEqual({
+      index: 1,
+      date: new Date(2024, 2, 20, 10, 30)
+    });
+    expect(findOccurrence(start, rule, new Date(2024, 2, 13))).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('should list weekdays from Monday and mention the interval and end', () => {
+    expect(describeRecurrence({ interval: 1, weekdays: [0, 1] })).toBe('Every week on Mon, Sun');
+    expect(describeRecurrence({ interval: 2, weekdays: [3], count: 5 })).toBe('Every 2 weeks on Wed, 5 times');
+    expect(describeRecurrence({ interval: 1, weekdays: [3], until: new Date(2024, 5, 1) }))
+      .toBe(`Every week on Wed, until ${new Date(2024, 5, 1).toLocaleDateString()}`);
+  });
+});
+
+describe('withTimeOf', () => {
+  it('should combine the day of one date with the time of another', () => {
+    const result = withTimeOf(new Date(2024, 2, 8, 23, 59), new Date(2024, 0, 1, 9, 15));
+
+    expect(result).toEqual(new Date(2024, 2, 8, 9, 15));
+    expect(isSameDay(result, new Date(2024, 2, 8))).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Recurrence rule utilities for recurring tasks
+ * Rules repeat weekly like an iCalendar RRULE with FREQ=WEEKLY, BYDAY, INTERVAL, UNTIL and COUNT.
+ */
+
+import { RecurrenceRule, Result } from '../models/types.js';
+import { ValidationError } from '../models/errors.js';
+import { isValidDate } from './validation.js';
+import { WEEKDAY_NAMES } from './timeOfDay.js';
+
+/**
+ * An occurrence of a recurrence rule
+ */
+export interface Occurrence {
+  index: number;           // Position in the series, 0 for the first occurrence
+  date: Date;
+}
+
+/**
+ * Validate a recurrence rule for a series whose first occurrence is at start
+ * @param rule - The rule to validate
+ * @param start - Deadline of the first occurrence
+ * @returns The rule with its weekdays sorted, or a ValidationError
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule, start: Date): Result<RecurrenceRule, ValidationError> {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return { success: false, error: new ValidationError('Interval must be a whole number of weeks, at least 1') };
+  }
+  if (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0) {
+    return { success: false, error: new ValidationError('At least one weekday is required') };
+  }
+  if (rule.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return { success: false, error: new ValidationError('Weekdays must be between 0 (Sunday) and 6 (Saturday)') };
+  }
+
+  const weekdays = Array.from(new Set(rule.weekdays)).sort((a, b) => a - b);
+  if (!weekdays.includes(start.getDay())) {
+    return {
+      success: false,
+      error: new ValidationError(`The first deadline is on ${WEEKDAY_NAMES[start.getDay()]}, which is not one of the weekdays`)
+    };
+  }
+
+  const validated: RecurrenceRule = { interval: rule.interval, weekdays };
+  if (rule.until !== undefined) {
+    if (!isValidDate(rule.until)) {
+      return { success: false, error: new ValidationError('Invalid end date') };
+    }
+    if (rule.until < start) {
+      return { success: false, error: new ValidationError('End date cannot be before the first deadline') };
+    }
+    validated.until = rule.until;
+  }
+  if (rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      return { success: false, error: new ValidationError('Occurrence count must be a whole number, at least 1') };
+    }
+    validated.count = rule.count;
+  }
+
+  return { success: true, value: validated };
+}
+
+/**
+ * Get the start of the calendar day of a date
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Check whether two dates fall on the same calendar day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+/**
+ * Get a date on the day of one date at the time of day of another
+ * @param day - Provides the calendar day
+ * @param time - Provides the time of day
+ */
+export function withTimeOf(day: Date, time: Date): Date {
+  return new Date(
+    day.getFullYear(), day.getMonth(), day.getDate(),
+    time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds()
+  );
+}
+
+/**
+ * Iterate over the occurrences of a rule in order
+ *
+ * The first occurrence is start. The others fall on the rule's weekdays at the time of day of start,
+ * in every interval-th week counted from the week of start (weeks start on Monday, as in ISO 8601).
+ * Without until or count the iteration never ends.
+ * @param start - The first occurrence
+ * @param rule - A validated rule
+ */
+export function* iterateOccurrences(start: Date, rule: RecurrenceRule): Generator<Occurrence> {
+  if (rule.weekdays.length === 0) {
+    return;
+  }
+
+  // Days since Monday, so Sunday comes last in a week
+  const weekdayOffsets = rule.weekdays.map(day => (day + 6) % 7).sort((a, b) => a - b);
+  const startOffset = (start.getDay() + 6) % 7;
+  let index = 0;
+
+  for (let week = 0; ; week += rule.interval) {
+    for (const offset of weekdayOffsets) {
+      const days = week * 7 + offset - startOffset;
+      if (days < 0) {
+        continue;
+      }
+
+      const date = new Date(
+        start.getFullYear(), start.getMonth(), start.getDate() + days,
+        start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds()
+      );
+      if ((rule.until && date > rule.until) || (rule.count !== undefined && index >= rule.count)) {
+        return;
+      }
+
+      yield { index, date };
+      index++;
+    }
+  }
+}
+
+/**
+ * Get the occurrences of a rule within a date range
+ * @param start - The first occurrence
+ * @param rule - A validated rule
+ * @param from - Start of the range (inclusive)
+ * @param to - End of the range (inclusive)
+ */
+export function getOccurrences(start: Date, rule: RecurrenceRule, from: Date, to: Date): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  for (const occurrence of iterateOccurrences(start, rule)) {
+    if (occurrence.date > to) {
+      break;
+    }
+    if (occurrence.date >= from) {
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Find the occurrence of a rule on a calendar day
+ * @param start - The first occurrence
+ * @param rule - A validated rule
+ * @param day - Any time on the day
+ * @returns The occurrence, or null if the rule has none that day
+ */
+export function findOccurrence(start: Date, rule: RecurrenceRule, day: Date): Occurrence | null {
+  const dayStart = startOfDay(day);
+  for (const occurrence of iterateOccurrences(start, rule)) {
+    const occurrenceDay = startOfDay(occurrence.date);
+    if (occurrenceDay > dayStart) {
+      break;
+    }
+    if (occurrenceDay.getTime() === dayStart.getTime()) {
+      return occurrence;
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe a rule for display, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const weekdays = rule.weekdays
+    .slice()
+    .sort((a, b) => (a + 6) % 7 - (b + 6) % 7)
+    .map(day => WEEKDAY_NAMES[day])
+    .join(', ');
+  let description = `${rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`} on ${weekdays}`;
+  if (rule.until) {
+    description += `, until ${rule.until.toLocaleDateString()}`;
+  }
+  if (rule.count !== undefined) {
+    description += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  return description;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { isTermFinished, getTermStatus, compareTerms } from './term';
+import { Term } from '../models/types';
+
+function term(name: string, startDate: Date, endDate: Date): Term {
+  return { id: name, name, startDate, endDate, createdAt: new Date(2024, 0, 1) };
+}
+
+const fall = term('Fall 2024', new Date(2024, 8, 1), new Date(2024, 11, 20));
+
+describe('getTermStatus', () => {
+  it('should count the first and last days as part of the term', () => {
+    expect(getTermStatus(fall, new Date(2024, 7, 31, 23))).toBe('upcoming');
+    expect(getTermStatus(fall, new Date(2024, 8, 1, 8))).toBe('current');
+    expect(getTermStatus(fall, new Date(2024, 11, 20, 23))).toBe('current');
+    expect(getTermStatus(fall, new Date(2024, 11, 21))).toBe('finished');
+    expect(isTermFinished(fall, new Date(2024, 11, 20, 23))).toBe(false);
+  });
+
+  it('should report archived terms as archived', () => {
+    expect(getTermStatus({ ...fall, archivedAt: new Date(2025, 0, 5) }, new Date(2025, 0, 5))).toBe('archived');
+  });
+});
+
+describe('compareTerms', () => {
+  it('should order terms by start date, then name', () => {
+    const spring = term('Spring 2025', new Date(2025, 0, 10), new Date(2025, 4, 20));
+    const summer = term('Summer 2024', fall.startDate, new Date(2024, 9, 1));
+
+    expect([spring, fall, summer].sort(compareTerms).map(t => t.name)).toEqual(['Fall 2024', 'Summer 2024', 'Spring 2025']);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Term utilities for the Weekly Course Tracker
+ */
+
+import { Term } from '../models/types.js';
+import { startOfDay } from './recurrence.js';
+
+/**
+ * Where a term is in its life: not begun, running, over, or put away
+ */
+export type TermStatus = 'upcoming' | 'current' | 'finished' | 'archived';
+
+/**
+ * Display names of the term statuses
+ */
+export const TERM_STATUS_LABELS: Record<TermStatus, string> = {
+  upcoming: 'Upcoming',
+  current: 'Current',
+  finished: 'Finished',
+  archived: 'Archived'
+};
+
+/**
+ * Check whether the last day of a term has passed
+ */
+export function isTermFinished(term: Term, now: Date = new Date()): boolean {
+  return startOfDay(now) > startOfDay(term.endDate);
+}
+
+/**
+ * Get the status of a term
+ * The first and last days count as part of the term.
+ */
+export function getTermStatus(term: Term, now: Date = new Date()): TermStatus {
+  if (term.archivedAt) {
+    return 'archived';
+  }
+  if (isTermFinished(term, now)) {
+    return 'finished';
+  }
+  return startOfDay(now) < startOfDay(term.startDate) ? 'upcoming' : 'current';
+}
+
+/**
+ * Compare terms for sorting: earlier start dates first, then by name
+ */
+export function compareTerms(a: Term, b: Term): number {
+  const byStart = a.startDate.getTime() - b.startDate.getTime();
+  return byStart !== 0 ? byStart : a.name.localeCompare(b.name);
+}
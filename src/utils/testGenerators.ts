@@ -4,6 +4,9 @@
  */
 
 import * as fc from 'fast-check';
+import { TaskPriority, TaskCategory } from '../models/types.js';
+import { TASK_PRIORITIES } from './priority.js';
+import { TASK_CATEGORIES } from './category.js';
 
 /**
  * Generates a valid ISO week number (1-53)
@@ -75,6 +78,8 @@ export function arbitraryTask(): fc.Arbitrary<{
   courseId: string;
   description: string;
   deadline: Date;
+  priority: TaskPriority;
+  category: TaskCategory;
   completed: boolean;
   completedAt?: Date;
   createdAt: Date;
@@ -87,6 +92,8 @@ export function arbitraryTask(): fc.Arbitrary<{
       min: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
       max: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000)  // 90 days ahead
     }),
+    priority: fc.constantFrom<TaskPriority>(...TASK_PRIORITIES),
+    category: fc.constantFrom<TaskCategory>(...TASK_CATEGORIES),
     completed: fc.boolean(),
     completedAt: fc.option(fc.date({ min: new Date('2020-01-01'), max: new Date() }), { nil: undefined }),
     createdAt: fc.date({ min: new Date('2020-01-01'), max: new Date() })
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { WEEKDAY_NAMES, parseTimeOfDay, formatTimeOfDay } from './timeOfDay';
+
+describe('WEEKDAY_NAMES', () => {
+  it('should be indexed like Date.getDay()', () => {
+    // January 7 2024 is a Sunday
+    const names = Array.from({ length: 7 }, (_, day) => WEEKDAY_NAMES[new Date(2024, 0, 7 + day).getDay()]);
+    expect(names).toEqual(['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']);
+  });
+});
+
+describe('parseTimeOfDay', () => {
+  it('should read times of day as minutes since midnight', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('7:05')).toBe(425);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('12:60')).toBeNull();
+    expect(parseTimeOfDay('noon')).toBeNull();
+    expect(formatTimeOfDay(425)).toBe('07:05');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Weekday and time-of-day utilities for the Weekly Course Tracker
+ * Shared by recurrence rules, the study planner and course meetings.
+ */
+
+/**
+ * Short weekday names, indexed like Date.getDay()
+ */
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Parse a time of day written as H:MM or HH:MM
+ * @returns Minutes since midnight, or null if the time is invalid
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Format minutes since midnight as HH:MM
+ */
+export function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getWeekNumber, getWeekBounds, isDateInWeek } from './weekCalculations';
+import { getWeekNumber, getWeekBounds, getWeekRange, getDaysBetween, isDateInWeek, isValidWeek } from './weekCalculations';
 
 describe('Week Calculation Utilities', () => {
   describe('getWeekNumber', () => {
@@ -118,6 +118,42 @@ describe('Week Calculation Utilities', () => {
     });
   });
 
+  describe('getWeekRange', () => {
+    it('should run from the start of Monday to the end of Sunday', () => {
+      const range = getWeekRange(1, 2024);
+      
+      expect(range.startDate).toEqual(new Date(2024, 0, 1));
+      expect(range.endDate).toEqual(new Date(2024, 0, 7, 23, 59, 59, 999));
+    });
+
+    it('should contain every moment of the week and nothing after it', () => {
+      const range = getWeekRange(1, 2024);
+      const sundayEvening = new Date(2024, 0, 7, 22, 0);
+      const nextMonday = new Date(2024, 0, 8);
+      
+      expect(sundayEvening >= range.startDate && sundayEvening <= range.endDate).toBe(true);
+      expect(nextMonday > range.endDate).toBe(true);
+    });
+  });
+
+  describe('getDaysBetween', () => {
+    it('should return local midnight of every day up to the end', () => {
+      const days = getDaysBetween(new Date(2024, 0, 6, 15, 30), new Date(2024, 0, 8, 9, 0));
+
+      expect(days).toEqual([new Date(2024, 0, 6), new Date(2024, 0, 7), new Date(2024, 0, 8)]);
+    });
+
+    it('should return no days when the end is before the first day', () => {
+      expect(getDaysBetween(new Date(2024, 0, 8), new Date(2024, 0, 7, 23, 0))).toEqual([]);
+    });
+
+    it('should step by calendar days across a month end', () => {
+      const days = getDaysBetween(new Date(2024, 2, 30), new Date(2024, 3, 2));
+
+      expect(days.map(day => day.getDate())).toEqual([30, 31, 1, 2]);
+    });
+  });
+
   describe('isDateInWeek', () => {
     it('should return true for dates within the specified week', () => {
       // Jan 4, 2024 is in week 1
@@ -158,6 +194,26 @@ describe('Week Calculation Utilities', () => {
     });
   });
 
+  describe('isValidWeek', () => {
+    it('should accept weeks 1 to 52 in every year', () => {
+      expect(isValidWeek(1, 2024)).toBe(true);
+      expect(isValidWeek(52, 2024)).toBe(true);
+    });
+
+    it('should accept week 53 only in years that have it', () => {
+      // 2020 ends on Thursday Dec 31, so it has 53 weeks; 2024 has 52
+      expect(isValidWeek(53, 2020)).toBe(true);
+      expect(isValidWeek(53, 2024)).toBe(false);
+    });
+
+    it('should reject week numbers that are out of range or not whole numbers', () => {
+      expect(isValidWeek(0, 2024)).toBe(false);
+      expect(isValidWeek(54, 2024)).toBe(false);
+      expect(isValidWeek(1.5, 2024)).toBe(false);
+      expect(isValidWeek(NaN, 2024)).toBe(false);
+    });
+  });
+
   describe('Integration tests', () => {
     it('should have consistent results between getWeekNumber and isDateInWeek', () => {
       const date = new Date(2024, 5, 15); // Random date
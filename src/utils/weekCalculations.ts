@@ -63,6 +63,39 @@ export function getWeekBounds(weekNumber: number, year: number): { startDate: Da
   };
 }
 
+/**
+ * Get the first and last moments of an ISO 8601 week
+ * getWeekBounds ends a week at the start of Sunday; this range includes the whole of Sunday.
+ * @param weekNumber The week number (1-53)
+ * @param year The year
+ * @returns Object containing startDate (Monday 00:00) and endDate (Sunday 23:59:59.999)
+ */
+export function getWeekRange(weekNumber: number, year: number): { startDate: Date; endDate: Date } {
+  const { startDate, endDate } = getWeekBounds(weekNumber, year);
+  return {
+    startDate,
+    endDate: new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate(), 23, 59, 59, 999)
+  };
+}
+
+/**
+ * Get the start of every calendar day from one date to another
+ * Steps by calendar days so daylight saving changes do not shift the dates.
+ * @param from Any moment of the first day
+ * @param to The last moment to include; a day starting after it is left out
+ * @returns Local midnight of each day, in order
+ */
+export function getDaysBetween(from: Date, to: Date): Date[] {
+  const days: Date[] = [];
+  for (let offset = 0; ; offset++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    if (date > to) {
+      return days;
+    }
+    days.push(date);
+  }
+}
+
 /**
  * Check if a date falls within a specific ISO 8601 week
  * @param date The date to check
@@ -74,3 +107,17 @@ export function isDateInWeek(date: Date, weekNumber: number, year: number): bool
   const dateWeek = getWeekNumber(date);
   return dateWeek.weekNumber === weekNumber && dateWeek.year === year;
 }
+
+/**
+ * Check if a week number exists in an ISO 8601 year
+ * @param weekNumber The week number
+ * @param year The year
+ * @returns true for whole numbers from 1 to the year's last week (52 or 53), false otherwise
+ */
+export function isValidWeek(weekNumber: number, year: number): boolean {
+  if (!Number.isInteger(weekNumber) || !Number.isInteger(year) || weekNumber < 1 || weekNumber > 53) {
+    return false;
+  }
+  // A week 53 that does not exist starts in week 1 of the next year
+  return getWeekNumber(getWeekBounds(weekNumber, year).startDate).weekNumber === weekNumber;
+}